@@ -0,0 +1,250 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ControlAuthFailure, checkControlRequest } from 'daisy-shared';
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+
+export interface McpHttpHostOptions {
+  port: number;
+  host: string;
+  token: string; // required on every request but /health, as Authorization: Bearer <token> (or ?token=)
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const AUTH_FAILURES: Record<ControlAuthFailure | 'host', { status: number; message: string }> = {
+  host: { status: 403, message: 'Host not allowed' },
+  origin: { status: 403, message: 'Origin not allowed' },
+  token: { status: 401, message: 'Missing or invalid token (Authorization: Bearer <token>)' }
+};
+
+/**
+ * Serves MCP over HTTP so assistants can attach to a running daisy session by URL.
+ *
+ * Endpoints:
+ *   /mcp       - Streamable HTTP transport (POST/GET/DELETE, session via Mcp-Session-Id header)
+ *   /sse       - Legacy HTTP+SSE transport stream (GET)
+ *   /messages  - Legacy HTTP+SSE transport messages (POST ?sessionId=...)
+ *   /health    - Liveness check
+ *
+ * Every client session gets its own MCP Server instance from `createServer`.
+ *
+ * The tools drive the browser through the Control API, so the endpoints guard it the same
+ * way: every request needs the token, web pages (which send an Origin header) are refused,
+ * and the Host header must name the address the server is bound to, so a DNS rebinding
+ * page cannot reach it through 127.0.0.1.
+ */
+export class McpHttpHost {
+  private createServer: () => Server;
+  private options: McpHttpHostOptions;
+  private httpServer: http.Server | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+
+  constructor(createServer: () => Server, options: McpHttpHostOptions) {
+    this.createServer = createServer;
+    this.options = options;
+  }
+
+  async start(): Promise<void> {
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('❌ MCP HTTP request failed:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      await session.server.close().catch(() => {});
+    }
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      await new Promise<void>(resolve => this.httpServer!.close(() => resolve()));
+      this.httpServer = null;
+    }
+  }
+
+  getUrl(): string {
+    return `http://${this.options.host}:${this.options.port}/mcp`;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    // daisy polls /health before it hands out the token
+    const failure = this.checkRequest(req, url.pathname !== '/health');
+    if (failure) {
+      console.error(`⚠️  MCP HTTP: rejected ${req.method} ${url.pathname} (${AUTH_FAILURES[failure].message})`);
+      this.sendJsonRpcError(res, AUTH_FAILURES[failure].status, -32001, AUTH_FAILURES[failure].message);
+      return;
+    }
+
+    if (url.pathname === '/mcp') {
+      await this.handleStreamableRequest(req, res);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      await this.handleSseConnect(res);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    } else if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+    } else {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+    }
+  }
+
+  private async handleStreamableRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await this.readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      ...this.dnsRebindingProtection(),
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport });
+        console.error(`🔌 MCP client connected (streamable HTTP, session ${id})`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSseConnect(res: http.ServerResponse): Promise<void> {
+    const server = this.createServer();
+    const transport = new SSEServerTransport('/messages', res, this.dnsRebindingProtection());
+    this.sessions.set(transport.sessionId, { server, transport });
+
+    res.on('close', () => {
+      this.sessions.delete(transport.sessionId);
+      server.close().catch(() => {});
+    });
+
+    await server.connect(transport);
+    console.error(`🔌 MCP client connected (SSE, session ${transport.sessionId})`);
+  }
+
+  private async handleSseMessage(req: http.IncomingMessage, res: http.ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Session not found' }));
+      return;
+    }
+
+    const body = await this.readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  private checkRequest(req: http.IncomingMessage, needsToken: boolean): ControlAuthFailure | 'host' | undefined {
+    const allowedHosts = this.allowedHosts();
+    if (allowedHosts && !allowedHosts.includes(req.headers.host || '')) {
+      return 'host';
+    }
+    const failure = checkControlRequest(req, this.options.token, []);
+    return failure === 'origin' || (failure && needsToken) ? failure : undefined;
+  }
+
+  /**
+   * Host headers local clients send; undefined when bound to every interface, where the
+   * server answers to names it cannot know and only the token guards it
+   */
+  private allowedHosts(): string[] | undefined {
+    const { host, port } = this.options;
+    if (host === '0.0.0.0' || host === '::') {
+      return undefined;
+    }
+    const names = new Set([host.includes(':') ? `[${host}]` : host, '127.0.0.1', 'localhost', '[::1]']);
+    return [...names].map(name => `${name}:${port}`);
+  }
+
+  // The SDK's own Host check, in case a request reaches a transport some other way
+  private dnsRebindingProtection() {
+    const allowedHosts = this.allowedHosts();
+    return allowedHosts ? { enableDnsRebindingProtection: true, allowedHosts } : {};
+  }
+
+  private readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error('Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+
+      req.on('end', () => {
+        const raw = Buffer.concat(chunks).toString('utf8');
+        if (!raw) {
+          resolve(undefined);
+          return;
+        }
+        try {
+          resolve(JSON.parse(raw));
+        } catch {
+          // Let the transport report the parse error in JSON-RPC form
+          resolve(raw);
+        }
+      });
+
+      req.on('error', reject);
+    });
+  }
+
+  private sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    }));
+  }
+}
@@ -4,6 +4,8 @@ import { program } from 'commander';
 import { DaisyMCPServer } from './server.js';
 import * as path from 'path';
 import * as fs from 'fs';
+import { defaultSessionsIndexPath } from './session-index.js';
+import { TOOL_PROFILE_NAMES, isToolProfile } from './tool-profiles.js';
 
 // CLI configuration
 program
@@ -13,15 +15,30 @@ program
   .option('-f, --log-file <path>', 'Path to daisy log file', './debug.log')
   .option('-w, --watch', 'Watch log file for real-time updates', false)
   .option('-s, --screenshots-dir <path>', 'Directory containing screenshots', './screenshots')
+  .option('--sessions-index <path>', 'Path to the daisy sessions.json index', defaultSessionsIndexPath())
   .option('--auto-detect', 'Auto-detect daisy log files in current directory', false)
-  .option('--transport <type>', 'Transport type (stdio only)', 'stdio')
+  .option('--transport <type>', 'Transport type (stdio or http)', 'stdio')
+  .option('--port <port>', 'HTTP transport port', '3684')
+  .option('--host <host>', 'HTTP transport bind address', '127.0.0.1')
+  .option('--tools <profile>', `Tools exposed to the assistant (${TOOL_PROFILE_NAMES.join('|')})`, 'all')
   .option('--control-api-port <port>', 'Control API server port', '9223')
-  .option('--control-api-host <host>', 'Control API server host', 'localhost')
+  .option('--control-api-host <host>', 'Control API server host', '127.0.0.1')
+  .option('--control-api-token <token>', 'Control API token (default: the one a local daisy wrote to ~/.daisy/control-api-<port>.token)')
   .parse();
 
 const options = program.opts();
 
 async function main() {
+  if (options.transport !== 'stdio' && options.transport !== 'http') {
+    console.error(`❌ Unknown transport: ${options.transport} (expected stdio or http)`);
+    process.exit(1);
+  }
+
+  if (!isToolProfile(options.tools)) {
+    console.error(`❌ Unknown tool profile: ${options.tools} (expected ${TOOL_PROFILE_NAMES.join(', ')})`);
+    process.exit(1);
+  }
+
   // Auto-detect log files if requested
   let logFiles: string[] = [];
   
@@ -62,18 +79,25 @@ async function main() {
   console.error('🌼 Starting Daisy MCP Server...');
   console.error(`📄 Log files: ${logFiles.join(', ')}`);
   console.error(`📁 Screenshots: ${screenshotsDir}`);
+  console.error(`🗂️  Sessions index: ${options.sessionsIndex}`);
   console.error(`👁️  Watch mode: ${options.watch ? 'enabled' : 'disabled'}`);
   console.error(`🚀 Transport: ${options.transport}`);
+  console.error(`🧰 Tool profile: ${options.tools}`);
   console.error(`🎮 Control API: ${options.controlApiHost}:${options.controlApiPort}`);
 
   // Create and start MCP server
   const server = new DaisyMCPServer({
     logFiles: logFiles.map(f => path.resolve(f)),
     screenshotsDir,
+    sessionsIndex: path.resolve(options.sessionsIndex),
     watchMode: options.watch,
     transport: options.transport,
+    httpPort: parseInt(options.port, 10),
+    httpHost: options.host,
+    toolProfile: options.tools,
     controlApiPort: parseInt(options.controlApiPort, 10),
-    controlApiHost: options.controlApiHost
+    controlApiHost: options.controlApiHost,
+    controlApiToken: options.controlApiToken
   });
 
   try {
@@ -87,8 +111,9 @@ async function main() {
 function isDaisyLogFile(filePath: string): boolean {
   try {
     const content = fs.readFileSync(filePath, 'utf8');
-    // Check for daisy log file markers
-    return content.includes('# Daisy Debug Session') || 
+    // Check for daisy log file markers (NDJSON header record or legacy markdown header)
+    return content.includes('"daisy_session_start"') ||
+           content.includes('# Daisy Debug Session') || 
            content.includes('structured_json_logs') ||
            content.includes('Chrome DevTools Protocol debugging data');
   } catch {
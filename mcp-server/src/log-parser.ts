@@ -1,19 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { LogEntry, LogEntryType, LogFileHeader, LogRecord, LogRecordDecoder, isEventType } from 'daisy-shared';
 
-export interface DaisyLogEntry {
-  timestamp: string;
-  type: 'console' | 'network' | 'error' | 'performance' | 'page' | 'security' | 'runtime';
-  level: 'info' | 'warn' | 'error' | 'debug';
-  source: string;
-  data: any;
-  context?: {
-    url?: string;
-    method?: string;
-    statusCode?: number;
-    stackTrace?: string;
-  };
-  // Enhanced fields for MCP usage
+// Enhanced fields for MCP usage
+export interface DaisyLogEntryEnrichment {
   id?: string;
   displayTime?: string;
   hasScreenshot?: boolean;
@@ -22,14 +12,14 @@ export interface DaisyLogEntry {
   severity?: number; // 1-5 scale for prioritization
 }
 
-export interface DaisySessionMetadata {
-  daisy_session_start: string;
-  format: string;
-  description: string;
-  log_level: string;
-  filtering?: any;
-  log_structure?: any;
-}
+// Distributes over the event union, so narrowing on `type` still types `data`
+export type DaisyLogEntry = LogEntry & DaisyLogEntryEnrichment;
+
+// An enriched entry of one event type, e.g. DaisyEvent<'network'>
+export type DaisyEvent<K extends LogEntryType> = Extract<DaisyLogEntry, { type: K }>;
+
+// Header record of a session log (schemaVersion is absent in legacy logs)
+export type DaisySessionMetadata = LogFileHeader;
 
 export interface ParsedLogData {
   metadata: DaisySessionMetadata | null;
@@ -53,8 +43,33 @@ export interface LogStatistics {
   networkFailures: number;
 }
 
+export interface TailReadResult {
+  data: ParsedLogData;
+  newEntries: DaisyLogEntry[];
+  reset: boolean; // true when the file was truncated or replaced and parsed from the start
+}
+
+// Resumable line-parser state, so appended bytes can be parsed without re-reading the file
+interface ParseState {
+  metadata: DaisySessionMetadata | null;
+  entries: DaisyLogEntry[];
+  decoder: LogRecordDecoder;
+}
+
+interface TailState {
+  parse: ParseState;
+  statistics: LogStatistics;
+  offset: number; // bytes consumed, always at a line boundary
+  inode: number;
+  headerSignature: string;
+}
+
+// Bytes compared on each read to notice a file replaced by a new session
+const HEADER_SIGNATURE_BYTES = 256;
+
 export class DaisyLogParser {
   private screenshotsDir: string;
+  private tailStates: Map<string, TailState> = new Map();
 
   constructor(screenshotsDir: string = './screenshots') {
     this.screenshotsDir = screenshotsDir;
@@ -73,114 +88,137 @@ export class DaisyLogParser {
     }
   }
 
-  parseContent(content: string): ParsedLogData {
-    const parsedLogs: DaisyLogEntry[] = [];
-    let metadata: DaisySessionMetadata | null = null;
-    let parseErrors = 0;
-
-    // Split content by lines and look for complete JSON objects
-    const lines = content.split('\n');
-    let currentJsonBuffer = '';
-    let inJsonObject = false;
-    let braceCount = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      // Skip empty lines and separators
-      if (!line || line === '---') {
-        continue;
+  /**
+   * Parse only the bytes appended to a log file since the previous call.
+   * The first call (or a call after truncation/replacement) parses the whole file.
+   * An unterminated last line is left for the next call.
+   */
+  readLogFileIncremental(filePath: string): TailReadResult {
+    let fd: number | null = null;
+    try {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`Log file not found: ${filePath}`);
       }
 
-      // Skip markdown headers
-      if (line.startsWith('# Daisy')) {
-        continue;
+      fd = fs.openSync(filePath, 'r');
+      const stat = fs.fstatSync(fd);
+      const headerSignature = this.readChunk(fd, 0, Math.min(HEADER_SIGNATURE_BYTES, stat.size)).toString('utf8');
+
+      let tail = this.tailStates.get(filePath);
+      const replaced = !!tail && (
+        stat.size < tail.offset ||
+        stat.ino !== tail.inode ||
+        !headerSignature.startsWith(tail.headerSignature.substring(0, headerSignature.length))
+      );
+
+      if (!tail || replaced) {
+        tail = {
+          parse: this.createParseState(),
+          statistics: this.createEmptyStatistics(),
+          offset: 0,
+          inode: stat.ino,
+          headerSignature
+        };
+        this.tailStates.set(filePath, tail);
+      } else if (tail.headerSignature.length < HEADER_SIGNATURE_BYTES) {
+        // The file was shorter than the signature when first read
+        tail.headerSignature = headerSignature;
       }
 
-      // Try to parse session metadata (appears as JSON after header)
-      if (!metadata && line.startsWith('{') && line.includes('daisy_session_start')) {
-        try {
-          metadata = JSON.parse(line);
-          continue;
-        } catch {
-          // Continue with normal parsing
-        }
+      const appended = this.readChunk(fd, tail.offset, stat.size - tail.offset);
+      const lastNewline = appended.lastIndexOf(0x0a);
+      const firstNewEntry = tail.parse.entries.length;
+
+      if (lastNewline >= 0) {
+        const complete = appended.subarray(0, lastNewline + 1).toString('utf8');
+        this.consumeLines(complete.split('\n'), tail.parse);
+        tail.offset += lastNewline + 1;
       }
 
-      // Detect start of JSON object
-      if (line.startsWith('{') && !inJsonObject) {
-        inJsonObject = true;
-        currentJsonBuffer = line;
-        braceCount = this.countBraces(line);
-        
-        // Check if it's a complete single-line JSON
-        if (braceCount === 0) {
-          this.tryParseAndAdd(currentJsonBuffer, parsedLogs, parseErrors);
-          currentJsonBuffer = '';
-          inJsonObject = false;
-        }
-      } else if (inJsonObject) {
-        // Continue building multi-line JSON
-        currentJsonBuffer += '\n' + line;
-        braceCount += this.countBraces(line);
-        
-        // Check if JSON object is complete
-        if (braceCount <= 0) {
-          this.tryParseAndAdd(currentJsonBuffer, parsedLogs, parseErrors);
-          currentJsonBuffer = '';
-          inJsonObject = false;
-          braceCount = 0;
-        }
+      const newEntries = tail.parse.entries.slice(firstNewEntry);
+      this.updateStatistics(tail.statistics, newEntries);
+
+      return {
+        data: {
+          metadata: tail.parse.metadata,
+          entries: tail.parse.entries,
+          statistics: tail.statistics,
+          parseErrors: tail.parse.decoder.parseErrors
+        },
+        newEntries,
+        reset: replaced
+      };
+    } catch (error) {
+      throw new Error(`Error reading log file: ${error}`);
+    } finally {
+      if (fd !== null) {
+        fs.closeSync(fd);
       }
     }
-    
-    // Handle any remaining JSON buffer
-    if (currentJsonBuffer && inJsonObject) {
-      this.tryParseAndAdd(currentJsonBuffer, parsedLogs, parseErrors);
+  }
+
+  /**
+   * Forget the read position for a file (or all files) so the next read starts over
+   */
+  resetTail(filePath?: string): void {
+    if (filePath) {
+      this.tailStates.delete(filePath);
+    } else {
+      this.tailStates.clear();
     }
+  }
+
+  parseContent(content: string): ParsedLogData {
+    const state = this.createParseState();
+    this.consumeLines(content.split('\n'), state);
 
-    // Generate statistics
-    const statistics = this.generateStatistics(parsedLogs);
+    // Handle a trailing legacy object that was never closed
+    this.addRecords(state.decoder.end(), state);
 
     return {
-      metadata,
-      entries: parsedLogs,
-      statistics,
-      parseErrors
+      metadata: state.metadata,
+      entries: state.entries,
+      statistics: this.generateStatistics(state.entries),
+      parseErrors: state.decoder.parseErrors
     };
   }
 
-  private countBraces(line: string): number {
-    const openBraces = (line.match(/\{/g) || []).length;
-    const closeBraces = (line.match(/\}/g) || []).length;
-    return openBraces - closeBraces;
+  private createParseState(): ParseState {
+    return {
+      metadata: null,
+      entries: [],
+      decoder: new LogRecordDecoder()
+    };
   }
 
-  private tryParseAndAdd(jsonBuffer: string, parsedLogs: DaisyLogEntry[], parseErrors: number): void {
-    try {
-      const logEntry = JSON.parse(jsonBuffer);
-      
-      // Only add valid log entries (must have required fields)
-      if (this.isValidLogEntry(logEntry)) {
-        const enriched = this.enrichLogEntry(logEntry);
-        parsedLogs.push(enriched);
-      }
-    } catch (e) {
-      parseErrors++;
-      // Silently ignore parsing errors for non-log JSON objects
+  private readChunk(fd: number, position: number, length: number): Buffer {
+    const buffer = Buffer.alloc(Math.max(0, length));
+    let bytesRead = 0;
+    while (bytesRead < buffer.length) {
+      const n = fs.readSync(fd, buffer, bytesRead, buffer.length - bytesRead, position + bytesRead);
+      if (n === 0) break;
+      bytesRead += n;
     }
+    return buffer.subarray(0, bytesRead);
   }
 
-  private isValidLogEntry(entry: any): boolean {
-    return entry && 
-           typeof entry === 'object' &&
-           entry.timestamp &&
-           entry.type &&
-           entry.level &&
-           entry.source;
+  private consumeLines(lines: string[], state: ParseState): void {
+    this.addRecords(state.decoder.decodeLines(lines), state);
   }
 
-  private enrichLogEntry(entry: any): DaisyLogEntry {
+  private addRecords(records: LogRecord[], state: ParseState): void {
+    for (const record of records) {
+      if (record.kind === 'header') {
+        if (!state.metadata) {
+          state.metadata = record.header;
+        }
+      } else if (record.kind === 'entry') {
+        state.entries.push(this.enrichLogEntry(record.entry));
+      }
+    }
+  }
+
+  private enrichLogEntry(entry: LogEntry): DaisyLogEntry {
     const enriched: DaisyLogEntry = {
       ...entry,
       id: this.generateId(entry),
@@ -194,7 +232,7 @@ export class DaisyLogParser {
     return enriched;
   }
 
-  private generateId(entry: any): string {
+  private generateId(entry: LogEntry): string {
     // Create a semi-unique ID based on timestamp and content
     const content = JSON.stringify(entry.data || '');
     const hash = content.substring(0, 20).replace(/[^a-zA-Z0-9]/g, '');
@@ -215,7 +253,7 @@ export class DaisyLogParser {
     }
   }
 
-  private checkForScreenshot(entry: any): boolean {
+  private checkForScreenshot(entry: LogEntry): boolean {
     // Check if there's a corresponding screenshot for error entries
     if (entry.level === 'error' && entry.timestamp && fs.existsSync(this.screenshotsDir)) {
       try {
@@ -231,37 +269,44 @@ export class DaisyLogParser {
     return false;
   }
 
-  private generateSummary(entry: any): string {
+  private generateSummary(entry: LogEntry): string {
     switch (entry.type) {
       case 'console':
-        return entry.data?.message || 'Console message';
-      case 'network':
-        const method = entry.data?.method || 'UNKNOWN';
-        const url = this.truncateUrl(entry.data?.url || 'unknown URL');
-        const status = entry.data?.status || entry.context?.statusCode || '?';
+        return entry.data.message || 'Console message';
+      case 'network': {
+        const method = entry.data.method || 'UNKNOWN';
+        const url = this.truncateUrl(entry.data.url || 'unknown URL');
+        const status = entry.data.status || entry.context?.statusCode || '?';
         return `${method} ${url} (${status})`;
+      }
       case 'error':
-        return entry.data?.message || entry.data?.name || 'Runtime error';
+        return entry.data.message || entry.data.name || 'Runtime error';
       case 'performance':
-        return `${entry.data?.metric || 'Performance'}: ${entry.data?.details || ''}`;
+        return `${entry.data.metric || 'Performance'}: ${entry.data.details?.title || ''}`;
       case 'page':
-        return `Page ${entry.data?.event || 'event'}: ${entry.data?.details || ''}`;
+        return `Page ${entry.data.event || 'event'}: ${entry.data.url || entry.context?.url || ''}`;
+      case 'interaction':
+        return `User ${entry.data.action} on ${entry.data.target}`;
+      case 'server':
+        return `[server ${entry.data.stream || 'output'}] ${entry.data.message || ''}`;
+      case 'browser':
+        return `Browser ${entry.data.event}${entry.data.reason ? `: ${entry.data.reason}` : ''}`;
       default:
         return `${entry.type} event`;
     }
   }
 
-  private categorizeEntry(entry: any): string {
+  private categorizeEntry(entry: LogEntry): string {
     // Provide more specific categorization for debugging
     if (entry.type === 'error') {
-      if (entry.data?.stack?.includes('TypeError')) return 'type_error';
-      if (entry.data?.stack?.includes('ReferenceError')) return 'reference_error';
-      if (entry.data?.stack?.includes('SyntaxError')) return 'syntax_error';
+      if (entry.data.stack?.includes('TypeError')) return 'type_error';
+      if (entry.data.stack?.includes('ReferenceError')) return 'reference_error';
+      if (entry.data.stack?.includes('SyntaxError')) return 'syntax_error';
       return 'runtime_error';
     }
     
     if (entry.type === 'network') {
-      const status = entry.data?.status || entry.context?.statusCode;
+      const status = entry.data.status || entry.context?.statusCode || 0;
       if (status >= 500) return 'server_error';
       if (status >= 400) return 'client_error';
       if (status >= 300) return 'redirect';
@@ -273,11 +318,17 @@ export class DaisyLogParser {
       if (entry.level === 'warn') return 'console_warning';
       return 'console_info';
     }
+
+    if (entry.type === 'server') {
+      if (entry.level === 'error') return 'backend_error';
+      if (entry.level === 'warn') return 'backend_warning';
+      return 'backend_output';
+    }
     
     return entry.type;
   }
 
-  private calculateSeverity(entry: any): number {
+  private calculateSeverity(entry: LogEntry): number {
     // Calculate severity on 1-5 scale (5 = critical)
     let severity = 1;
     
@@ -289,12 +340,12 @@ export class DaisyLogParser {
     // Boost severity for critical error types
     if (entry.type === 'error') {
       severity = Math.max(severity, 4);
-      if (entry.data?.message?.includes('Uncaught')) severity = 5;
+      if (entry.data.message?.includes('Uncaught')) severity = 5;
     }
     
     // Network errors
     if (entry.type === 'network') {
-      const status = entry.data?.status || entry.context?.statusCode;
+      const status = entry.data.status || entry.context?.statusCode || 0;
       if (status >= 500) severity = Math.max(severity, 4);
       else if (status >= 400) severity = Math.max(severity, 3);
     }
@@ -308,67 +359,67 @@ export class DaisyLogParser {
   }
 
   private generateStatistics(entries: DaisyLogEntry[]): LogStatistics {
-    const byType: Record<string, number> = {};
-    const byLevel: Record<string, number> = {};
-    let errorCount = 0;
-    let warningCount = 0;
-    let performanceIssues = 0;
-    let networkFailures = 0;
-    let startTime: string | null = null;
-    let endTime: string | null = null;
+    const statistics = this.createEmptyStatistics();
+    this.updateStatistics(statistics, entries);
+    return statistics;
+  }
 
+  private createEmptyStatistics(): LogStatistics {
+    return {
+      total: 0,
+      byType: {},
+      byLevel: {},
+      timeRange: {
+        start: null,
+        end: null
+      },
+      errorCount: 0,
+      warningCount: 0,
+      performanceIssues: 0,
+      networkFailures: 0
+    };
+  }
+
+  /**
+   * Fold newly parsed entries into existing statistics
+   */
+  private updateStatistics(statistics: LogStatistics, entries: DaisyLogEntry[]): void {
     for (const entry of entries) {
+      statistics.total++;
+
       // Count by type
-      byType[entry.type] = (byType[entry.type] || 0) + 1;
+      statistics.byType[entry.type] = (statistics.byType[entry.type] || 0) + 1;
       
       // Count by level
-      byLevel[entry.level] = (byLevel[entry.level] || 0) + 1;
+      statistics.byLevel[entry.level] = (statistics.byLevel[entry.level] || 0) + 1;
       
       // Count specific issues
-      if (entry.level === 'error') errorCount++;
-      if (entry.level === 'warn') warningCount++;
+      if (entry.level === 'error') statistics.errorCount++;
+      if (entry.level === 'warn') statistics.warningCount++;
       
       if (entry.type === 'performance' && entry.severity && entry.severity >= 3) {
-        performanceIssues++;
+        statistics.performanceIssues++;
       }
       
-      if (entry.type === 'network' && entry.context?.statusCode && entry.context.statusCode >= 400) {
-        networkFailures++;
+      if (entry.type === 'network' && (entry.data.status || entry.context?.statusCode || 0) >= 400) {
+        statistics.networkFailures++;
       }
       
       // Track time range
-      if (!startTime || entry.timestamp < startTime) {
-        startTime = entry.timestamp;
+      if (!statistics.timeRange.start || entry.timestamp < statistics.timeRange.start) {
+        statistics.timeRange.start = entry.timestamp;
       }
-      if (!endTime || entry.timestamp > endTime) {
-        endTime = entry.timestamp;
+      if (!statistics.timeRange.end || entry.timestamp > statistics.timeRange.end) {
+        statistics.timeRange.end = entry.timestamp;
       }
     }
 
     // Calculate duration
-    let duration: number | undefined;
-    if (startTime && endTime) {
-      try {
-        duration = new Date(endTime).getTime() - new Date(startTime).getTime();
-      } catch {
-        duration = undefined;
-      }
+    const { start, end } = statistics.timeRange;
+    if (start && end) {
+      const duration = new Date(end).getTime() - new Date(start).getTime();
+      statistics.timeRange.duration = isNaN(duration) ? undefined : duration;
     }
-
-    return {
-      total: entries.length,
-      byType,
-      byLevel,
-      timeRange: {
-        start: startTime,
-        end: endTime,
-        duration
-      },
-      errorCount,
-      warningCount,
-      performanceIssues,
-      networkFailures
-    };
   }
 
   // Utility methods for filtering
@@ -393,6 +444,39 @@ export class DaisyLogParser {
     return entries.filter(entry => (entry.severity || 1) >= minSeverity);
   }
 
+  /**
+   * Find dev-server warnings/errors logged around the time of a browser-side entry,
+   * e.g. the backend exception behind a failed fetch. Closest first.
+   */
+  findRelatedServerOutput(entries: DaisyLogEntry[], anchor: DaisyLogEntry, windowMs: number = 2000): DaisyEvent<'server'>[] {
+    const anchorTime = new Date(anchor.timestamp).getTime();
+    return entries
+      .filter(entry => isEventType(entry, 'server'))
+      .filter(entry => entry !== anchor &&
+        (entry.level === 'error' || entry.level === 'warn') &&
+        Math.abs(new Date(entry.timestamp).getTime() - anchorTime) <= windowMs)
+      .sort((a, b) =>
+        Math.abs(new Date(a.timestamp).getTime() - anchorTime) -
+        Math.abs(new Date(b.timestamp).getTime() - anchorTime));
+  }
+
+  /**
+   * Compact view of dev-server entries for tool output
+   */
+  summarizeServerOutput(entries: DaisyEvent<'server'>[], maxEntries: number = 3) {
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    return entries.slice(0, maxEntries).map(entry => ({
+      timestamp: entry.timestamp,
+      level: entry.level,
+      stream: entry.data.stream,
+      message: entry.data.message,
+      lines: entry.data.lines?.slice(0, 15)
+    }));
+  }
+
   searchEntries(entries: DaisyLogEntry[], searchTerm: string): DaisyLogEntry[] {
     const term = searchTerm.toLowerCase();
     return entries.filter(entry => {
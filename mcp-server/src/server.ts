@@ -3,34 +3,76 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { CallToolRequestSchema, ListToolsRequestSchema, ListResourcesRequestSchema, ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { DaisyLogParser, ParsedLogData, DaisyLogEntry } from './log-parser.js';
 import { diagnoseError } from './tools/diagnose-error.js';
+import { SessionRecord, readSessionIndex } from './session-index.js';
+import { ToolProfile, isToolInProfile } from './tool-profiles.js';
+import { McpHttpHost } from './http-transport.js';
+import {
+  CONTROL_API_SCHEMAS,
+  ControlApiClient,
+  ControlApiReply,
+  ControlApiRequest,
+  DEVICE_NAMES,
+  NETWORK_PRESET_NAMES,
+  TEST_EXPORT_EXTENSIONS,
+  ensureMcpToken,
+  inlineSchema,
+  mcpTokenPath,
+  readControlToken
+} from 'daisy-shared';
 import * as chokidar from 'chokidar';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as http from 'http';
 import * as https from 'https';
 
+// How long to coalesce log file change events before re-reading
+const RELOAD_DEBOUNCE_MS = 100;
+
+const SCREENSHOT_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp'
+};
+
 export interface DaisyMCPServerConfig {
   logFiles: string[];
   screenshotsDir: string;
+  sessionsIndex: string;
   watchMode: boolean;
-  transport: 'stdio';
+  transport: 'stdio' | 'http';
+  httpPort?: number;
+  httpHost?: string;
+  toolProfile: ToolProfile;
   controlApiPort: number;
   controlApiHost?: string;
+  controlApiToken?: string;
 }
 
 export class DaisyMCPServer {
-  private server: Server;
+  private stdioServer: Server | null = null;
+  private httpHost: McpHttpHost | null = null;
   private config: DaisyMCPServerConfig;
   private parser: DaisyLogParser;
   private logData: Map<string, ParsedLogData> = new Map();
   private watchers: chokidar.FSWatcher[] = [];
+  private reloadTimers: Map<string, NodeJS.Timeout> = new Map();
   private controlApiHost: string;
+  private controlApi: ControlApiClient;
 
   constructor(config: DaisyMCPServerConfig) {
     this.config = config;
     this.parser = new DaisyLogParser(config.screenshotsDir);
-    this.controlApiHost = `http://${config.controlApiHost || 'localhost'}:${config.controlApiPort}`;
-    this.server = new Server(
+    this.controlApiHost = `http://${config.controlApiHost || '127.0.0.1'}:${config.controlApiPort}`;
+    this.controlApi = new ControlApiClient(request => this.sendControlApiRequest(request));
+  }
+
+  /**
+   * Create an MCP protocol server bound to this daisy session's log data.
+   * stdio uses one; the HTTP transport creates one per connected client.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'daisy-mcp-server',
         version: '1.0.0',
@@ -44,18 +86,26 @@ export class DaisyMCPServer {
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server);
+    return server;
   }
 
-  private async makeControlApiRequest(endpoint: string, method: 'GET' | 'POST' = 'GET', data?: any): Promise<any> {
+  /**
+   * Control API transport of the typed client: the daemon's reply, whatever its status
+   */
+  private async sendControlApiRequest(request: ControlApiRequest): Promise<ControlApiReply> {
     return new Promise((resolve, reject) => {
-      const url = new URL(`${this.controlApiHost}${endpoint}`);
+      const url = new URL(`${this.controlApiHost}${request.path}`);
       const headers: Record<string, string | number> = {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
       };
+      const token = this.config.controlApiToken || readControlToken(this.config.controlApiPort);
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
 
-      const reqData = data ? JSON.stringify(data) : undefined;
+      const reqData = request.body !== undefined ? JSON.stringify(request.body) : undefined;
       if (reqData) {
         headers['Content-Length'] = Buffer.byteLength(reqData);
       }
@@ -64,9 +114,9 @@ export class DaisyMCPServer {
         hostname: url.hostname,
         port: url.port,
         path: url.pathname + url.search,
-        method,
+        method: request.method,
         headers,
-        timeout: 30000 // 30 second timeout
+        timeout: request.timeout || 30000 // socket idle timeout, 30 seconds unless the caller expects a long-running request
       };
 
       const client = url.protocol === 'https:' ? https : http;
@@ -74,19 +124,12 @@ export class DaisyMCPServer {
         let body = '';
         res.on('data', (chunk) => body += chunk);
         res.on('end', () => {
+          const status = res.statusCode || 500;
           try {
-            const response = JSON.parse(body);
-            if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-              resolve(response);
-            } else {
-              reject(new Error(`HTTP ${res.statusCode}: ${response.error || body}`));
-            }
+            resolve({ status, body: JSON.parse(body) });
           } catch (e) {
-            if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-              resolve({ body });
-            } else {
-              reject(new Error(`Failed to parse response: ${body}`));
-            }
+            // Not JSON: a proxy or another server answered
+            resolve({ status, body: status >= 200 && status < 300 ? body : { error: `Failed to parse response: ${body}` } });
           }
         });
       });
@@ -104,198 +147,641 @@ export class DaisyMCPServer {
     });
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'get_errors_only',
-            description: 'Extract only error-level log entries with optional context',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                logFile: {
-                  type: 'string',
-                  description: 'Path to specific log file (optional)'
-                },
-                timeWindow: {
-                  type: 'number',
-                  description: 'How many minutes back to scan (default 10 minutes)',
-                  default: 10
-                },
-                includeContext: {
-                  type: 'boolean',
-                  description: 'Show 1-2 lines before/after each error',
-                  default: true
-                }
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const tools = [
+        {
+          name: 'get_errors_only',
+          description: 'Extract only error-level log entries (browser and dev server) with optional context, grouped by the page route they happened on; failed requests include the server output logged around them',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to specific log file (optional)'
+              },
+              timeWindow: {
+                type: 'number',
+                description: 'How many minutes back to scan (default 10 minutes)',
+                default: 10
+              },
+              includeContext: {
+                type: 'boolean',
+                description: 'Show 1-2 lines before/after each error',
+                default: true
               }
             }
-          },
-          {
-            name: 'get_network_failures',
-            description: 'Extract only failed HTTP requests with response bodies',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                logFile: {
-                  type: 'string',
-                  description: 'Path to specific log file (optional)'
-                },
-                timeWindow: {
-                  type: 'number',
-                  description: 'How many minutes back to scan (default 10 minutes)',
-                  default: 10
-                },
-                statusCodes: {
-                  type: 'array',
-                  items: { type: 'number' },
-                  description: 'HTTP status codes to filter (default [400, 401, 403, 404, 500])',
-                  default: [400, 401, 403, 404, 500]
-                }
+          }
+        },
+        {
+          name: 'get_network_failures',
+          description: 'Extract only failed HTTP requests with response bodies',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to specific log file (optional)'
+              },
+              timeWindow: {
+                type: 'number',
+                description: 'How many minutes back to scan (default 10 minutes)',
+                default: 10
+              },
+              statusCodes: {
+                type: 'array',
+                items: { type: 'number' },
+                description: 'HTTP status codes to filter (default [400, 401, 403, 404, 500])',
+                default: [400, 401, 403, 404, 500]
               }
             }
-          },
-          {
-            name: 'get_last_action_context',
-            description: 'Show the last user action and any errors that followed within 5 seconds',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                logFile: {
-                  type: 'string',
-                  description: 'Path to specific log file (optional)'
-                }
+          }
+        },
+        {
+          name: 'get_last_action_context',
+          description: 'Show the last user action (click, typed value, key, select, checkbox, submit, hover, ...), the route it happened on and any errors that followed within 5 seconds',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to specific log file (optional)'
               }
             }
-          },
-          {
-            name: 'search_logs',
-            description: 'Simple text search in logs with time filtering',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                logFile: {
+          }
+        },
+        {
+          name: 'search_logs',
+          description: 'Simple text search in logs with time filtering',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to specific log file (optional)'
+              },
+              pattern: {
+                type: 'string',
+                description: 'Search pattern (regex supported, e.g., "404|error|failed")'
+              },
+              timeWindow: {
+                type: 'number',
+                description: 'How many minutes back to search (default 15 minutes)',
+                default: 15
+              },
+              maxResults: {
+                type: 'number',
+                description: 'Maximum number of results to return (default 10)',
+                default: 10
+              },
+              types: {
+                type: 'array',
+                items: {
                   type: 'string',
-                  description: 'Path to specific log file (optional)'
+                  enum: ['console', 'network', 'error', 'performance', 'page', 'security', 'runtime', 'interaction', 'server', 'browser']
                 },
-                pattern: {
+                description: 'Only search these entry types (e.g. ["server"] for dev-server output)'
+              }
+            },
+            required: ['pattern']
+          }
+        },
+        {
+          name: 'browser_control',
+          description: 'Unified browser automation tool for all interactions: click, type, navigate, scroll, inspect, evaluate, wait, screenshot, targets (list tabs, popups, iframes and workers), emulate (device, network and CPU throttling, location, time zone, locale, color scheme, reduced motion)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: {
+                type: 'string',
+                enum: ['click', 'type', 'navigate', 'scroll', 'inspect', 'evaluate', 'wait', 'screenshot', 'targets', 'emulate'],
+                description: 'Browser action to perform'
+              },
+              selector: {
+                type: 'string',
+                description: 'Element selector (required for click, type, inspect, scroll to element): CSS, text=<exact text> or role=<role>[name="<accessible name>"]'
+              },
+              text: {
+                type: 'string',
+                description: 'Text to type (required for type action)'
+              },
+              url: {
+                type: 'string',
+                description: 'URL to navigate to (required for navigate action)'
+              },
+              code: {
+                type: 'string',
+                description: 'JavaScript code to execute (required for evaluate action)'
+              },
+              x: {
+                type: 'number',
+                description: 'X coordinate for scroll action'
+              },
+              y: {
+                type: 'number',
+                description: 'Y coordinate for scroll action'
+              },
+              timeout: {
+                type: 'number',
+                description: 'Timeout in milliseconds',
+                default: 5000
+              },
+              context: {
+                type: 'string',
+                description: 'Context for screenshot action'
+              },
+              properties: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Properties to retrieve for inspect action'
+              },
+              waitFor: {
+                type: 'string',
+                enum: ['element', 'network'],
+                description: 'What to wait for (required for wait action)'
+              },
+              clear: {
+                type: 'boolean',
+                description: 'Clear field before typing',
+                default: false
+              },
+              targetId: {
+                type: 'string',
+                description: 'Tab, popup, iframe or worker to act on (id or unique prefix from the targets action); defaults to the main tab'
+              },
+              device: {
+                type: 'string',
+                enum: DEVICE_NAMES,
+                description: 'Device whose viewport, pixel ratio, touch and user agent to emulate (emulate action)'
+              },
+              width: {
+                type: 'number',
+                description: 'Viewport width in CSS pixels, overriding the device (emulate action)'
+              },
+              height: {
+                type: 'number',
+                description: 'Viewport height in CSS pixels, overriding the device (emulate action)'
+              },
+              throttle: {
+                type: 'string',
+                enum: NETWORK_PRESET_NAMES,
+                description: 'Network throttling preset; none turns it off (emulate action)'
+              },
+              offline: {
+                type: 'boolean',
+                description: 'Take the network offline (emulate action)'
+              },
+              cpuThrottle: {
+                type: 'number',
+                description: 'CPU slowdown factor, e.g. 4; 1 turns it off (emulate action)'
+              },
+              latitude: {
+                type: 'number',
+                description: 'Geolocation latitude, with longitude (emulate action)'
+              },
+              longitude: {
+                type: 'number',
+                description: 'Geolocation longitude, with latitude (emulate action)'
+              },
+              timezone: {
+                type: 'string',
+                description: 'IANA time zone such as America/New_York (emulate action)'
+              },
+              locale: {
+                type: 'string',
+                description: 'Locale such as de-DE for Intl and Accept-Language (emulate action)'
+              },
+              colorScheme: {
+                type: 'string',
+                enum: ['light', 'dark'],
+                description: 'prefers-color-scheme (emulate action)'
+              },
+              reducedMotion: {
+                type: 'boolean',
+                description: 'prefers-reduced-motion: reduce (emulate action)'
+              },
+              reset: {
+                type: 'boolean',
+                description: 'Turn all emulation off before applying the other settings (emulate action); emulate without settings reports what is emulated'
+              }
+            },
+            required: ['action']
+          }
+        },
+        {
+          name: 'browser_run_steps',
+          description: 'Run several browser actions and assertions in order in one call (e.g. navigate, wait for an element, type, click, wait for network idle, screenshot) and get each step\'s result, timing and the log entries it produced',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              steps: {
+                type: 'array',
+                minItems: 1,
+                description: 'Steps to run in order, e.g. [{"action": "navigate", "url": "http://localhost:3000/login"}, {"action": "type", "selector": "#email", "text": "a@b.c"}, {"action": "click", "selector": "text=Sign in"}, {"action": "assertUrl", "contains": "/dashboard"}]',
+                items: inlineSchema(CONTROL_API_SCHEMAS.ActionStep)
+              },
+              stepTimeout: {
+                type: 'number',
+                description: 'Milliseconds each step may take unless it sets a timeout',
+                default: 10000
+              },
+              continueOnError: {
+                type: 'boolean',
+                description: 'Keep going after a failed step (failed steps are still reported)',
+                default: false
+              },
+              targetId: {
+                type: 'string',
+                description: 'Tab, popup, iframe or worker to act on (from browser_control\'s targets action); defaults to the main tab'
+              }
+            },
+            required: ['steps']
+          }
+        },
+        {
+          name: 'list_sessions',
+          description: 'List recorded daisy sessions (newest first) with start/end time, script, app port and exit status',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              limit: {
+                type: 'number',
+                description: 'Maximum number of sessions to return (default 20)',
+                default: 20
+              },
+              status: {
+                type: 'string',
+                enum: ['running', 'completed', 'interrupted', 'crashed'],
+                description: 'Only return sessions with this exit status'
+              }
+            }
+          }
+        },
+        {
+          name: 'open_session',
+          description: 'Switch all log analysis tools to a past (or the current) session by ID',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session ID from list_sessions, a unique ID prefix, or "latest"'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'export_har',
+          description: 'Export captured network traffic as a HAR 1.2 file for browser devtools, proxies or test tooling',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source: {
+                type: 'string',
+                enum: ['log', 'live'],
+                description: 'log: network entries of a session log; live: the running daemon\'s buffer with full headers, bodies and timings',
+                default: 'log'
+              },
+              sessionId: {
+                type: 'string',
+                description: 'Session ID, prefix or "latest" to export from (source "log" only, defaults to the loaded session)'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Write the HAR to this path and return a summary instead of the document'
+              },
+              limit: {
+                type: 'number',
+                description: 'Only include the most recent N requests'
+              }
+            }
+          }
+        },
+        {
+          name: 'export_test',
+          description: 'Turn the clicks, typing, key presses and scrolls recorded in a session into a runnable Playwright, Puppeteer or Cypress regression test, with assertions on the API responses observed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              format: {
+                type: 'string',
+                enum: ['playwright', 'puppeteer', 'cypress'],
+                description: 'Test framework to generate for',
+                default: 'playwright'
+              },
+              sessionId: {
+                type: 'string',
+                description: 'Session ID, prefix or "latest" to export from (defaults to the loaded session)'
+              },
+              from: {
+                type: 'string',
+                description: 'Only export interactions at or after this ISO timestamp'
+              },
+              to: {
+                type: 'string',
+                description: 'Only export interactions at or before this ISO timestamp (e.g. the time of the error)'
+              },
+              name: {
+                type: 'string',
+                description: 'Test title'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Write the script to this path, relative to the tests directory under the daisy logs (e.g. "checkout.spec.ts"; it must end in ' +
+                  `${Object.values(TEST_EXPORT_EXTENSIONS).join(', ')}), and return a summary instead of the script`
+              }
+            }
+          }
+        },
+        {
+          name: 'replay_session',
+          description: 'Re-run the clicks, typing, key presses and scrolls recorded in a session against the live browser, and report where the replay diverged or whether the original error came back',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session ID from list_sessions, a unique ID prefix, or "latest"',
+                default: 'latest'
+              },
+              untilError: {
+                type: 'boolean',
+                description: 'Replay the interactions leading up to the session\'s first error and check whether it reappears',
+                default: false
+              },
+              lookbackSeconds: {
+                type: 'number',
+                description: 'With untilError: how many seconds of interactions before the error to replay',
+                default: 60
+              },
+              from: {
+                type: 'string',
+                description: 'Only replay interactions at or after this ISO timestamp'
+              },
+              to: {
+                type: 'string',
+                description: 'Only replay interactions at or before this ISO timestamp'
+              },
+              speed: {
+                type: 'number',
+                description: 'Playback speed: 1 waits as long as the user did between steps, 2 is twice as fast, 0 does not wait',
+                default: 1
+              },
+              stepTimeout: {
+                type: 'number',
+                description: 'Timeout for each step in milliseconds',
+                default: 5000
+              },
+              stopOnDivergence: {
+                type: 'boolean',
+                description: 'Stop at the first failed step or unexpected page URL',
+                default: true
+              }
+            }
+          }
+        },
+        {
+          name: 'read_raw_log',
+          description: 'Read raw log file content with filtering options',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to log file (optional, defaults to the log file this server is watching)'
+              },
+              lines: {
+                type: 'number',
+                description: 'Number of log records to return (optional, returns all if not specified)'
+              },
+              fromEnd: {
+                type: 'boolean',
+                description: 'If true, return records from end of file (tail), otherwise from beginning',
+                default: false
+              },
+              filter: {
+                type: 'string',
+                description: 'Filter by content (e.g., "error", "network")'
+              },
+              timeWindow: {
+                type: 'number',
+                description: 'Only show entries from last N minutes'
+              }
+            }
+          }
+        },
+        {
+          name: 'diagnose_error',
+          description: 'One-shot diagnosis of what just went wrong: takes a screenshot, inspects current browser state, and analyzes recent errors and network activity into prioritized insights',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              context: {
+                type: 'string',
+                description: 'What the user was trying to do (e.g., "submit the login form")'
+              },
+              timeWindow: {
+                type: 'number',
+                description: 'How far back to look for errors in milliseconds (default 30000)',
+                default: 30000
+              },
+              includeStackTraces: {
+                type: 'boolean',
+                description: 'Include stack traces in the report (default true)',
+                default: true
+              }
+            }
+          }
+        },
+        {
+          name: 'suggest_fixes',
+          description: 'Suggest fixes for errors and failed requests found in the logs, with optional code examples',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to specific log file (optional)'
+              },
+              errorContext: {
+                type: 'string',
+                description: 'Only consider entries matching this text (e.g., "TypeError" or "/api/users")'
+              },
+              includeCodeSuggestions: {
+                type: 'boolean',
+                description: 'Include code examples in suggestions (default true)',
+                default: true
+              }
+            }
+          }
+        },
+        {
+          name: 'performance_insights',
+          description: 'Analyze load times, slow or large network requests and memory usage, and recommend optimizations',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to specific log file (optional)'
+              },
+              metrics: {
+                type: 'array',
+                items: {
                   type: 'string',
-                  description: 'Search pattern (regex supported, e.g., "404|error|failed")'
+                  enum: ['all', 'load_times', 'network_performance', 'memory_usage']
                 },
-                timeWindow: {
-                  type: 'number',
-                  description: 'How many minutes back to search (default 15 minutes)',
-                  default: 15
-                },
-                maxResults: {
-                  type: 'number',
-                  description: 'Maximum number of results to return (default 10)',
-                  default: 10
+                description: 'Which metrics to analyze (default ["all"])'
+              },
+              thresholds: {
+                type: 'object',
+                properties: {
+                  slowRequestMs: {
+                    type: 'number',
+                    description: 'Requests slower than this are flagged (default 1000)'
+                  },
+                  largeResponseBytes: {
+                    type: 'number',
+                    description: 'Responses larger than this are flagged (default 1048576)'
+                  }
                 }
+              }
+            }
+          }
+        },
+        {
+          name: 'get_log_summary',
+          description: 'Summarize the debugging session with statistics, a health score and key findings',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to specific log file (optional)'
+              },
+              includeDetails: {
+                type: 'boolean',
+                description: 'Include detailed breakdowns (default true)',
+                default: true
               },
-              required: ['pattern']
+              format: {
+                type: 'string',
+                enum: ['concise', 'detailed', 'technical'],
+                description: 'Summary format (default "detailed")',
+                default: 'detailed'
+              }
             }
-          },
-          {
-            name: 'browser_control',
-            description: 'Unified browser automation tool for all interactions: click, type, navigate, scroll, inspect, evaluate, wait, screenshot',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                action: {
-                  type: 'string',
-                  enum: ['click', 'type', 'navigate', 'scroll', 'inspect', 'evaluate', 'wait', 'screenshot'],
-                  description: 'Browser action to perform'
-                },
-                selector: {
-                  type: 'string',
-                  description: 'CSS selector for element (required for click, type, inspect, scroll to element)'
-                },
-                text: {
-                  type: 'string',
-                  description: 'Text to type (required for type action)'
-                },
-                url: {
-                  type: 'string',
-                  description: 'URL to navigate to (required for navigate action)'
-                },
-                code: {
+          }
+        },
+        {
+          name: 'analyze_logs',
+          description: 'Filter log entries by type, level, time range, severity or text and return them with a categorized analysis',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to specific log file (optional)'
+              },
+              types: {
+                type: 'array',
+                items: {
                   type: 'string',
-                  description: 'JavaScript code to execute (required for evaluate action)'
+                  enum: ['console', 'network', 'error', 'performance', 'page', 'security', 'runtime', 'interaction', 'server', 'browser']
                 },
-                x: {
-                  type: 'number',
-                  description: 'X coordinate for scroll action'
-                },
-                y: {
-                  type: 'number',
-                  description: 'Y coordinate for scroll action'
-                },
-                timeout: {
-                  type: 'number',
-                  description: 'Timeout in milliseconds',
-                  default: 5000
-                },
-                context: {
+                description: 'Only include these entry types'
+              },
+              levels: {
+                type: 'array',
+                items: {
                   type: 'string',
-                  description: 'Context for screenshot action'
+                  enum: ['info', 'warn', 'error', 'debug']
                 },
+                description: 'Only include these levels'
+              },
+              timeRange: {
+                type: 'object',
                 properties: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Properties to retrieve for inspect action'
-                },
-                waitFor: {
-                  type: 'string',
-                  enum: ['element', 'network'],
-                  description: 'What to wait for (required for wait action)'
+                  start: {
+                    type: 'string',
+                    description: 'ISO 8601 start time'
+                  },
+                  end: {
+                    type: 'string',
+                    description: 'ISO 8601 end time'
+                  }
                 },
-                clear: {
-                  type: 'boolean',
-                  description: 'Clear field before typing',
-                  default: false
-                }
+                required: ['start', 'end']
               },
-              required: ['action']
+              minSeverity: {
+                type: 'number',
+                minimum: 1,
+                maximum: 5,
+                description: 'Minimum severity on a 1-5 scale'
+              },
+              search: {
+                type: 'string',
+                description: 'Only include entries containing this text'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of entries to return (default 100)',
+                default: 100
+              }
             }
-          },
-          {
-            name: 'read_raw_log',
-            description: 'Read raw log file content with filtering options',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                logFile: {
+          }
+        },
+        {
+          name: 'find_errors',
+          description: 'Group errors into recurring patterns (JavaScript, network, console, runtime) with counts and severity',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              logFile: {
+                type: 'string',
+                description: 'Path to specific log file (optional)'
+              },
+              errorTypes: {
+                type: 'array',
+                items: {
                   type: 'string',
-                  description: 'Path to log file (optional, defaults to current daisy log)'
-                },
-                lines: {
-                  type: 'number',
-                  description: 'Number of lines to return (optional, returns all if not specified)'
-                },
-                fromEnd: {
-                  type: 'boolean',
-                  description: 'If true, return lines from end of file (tail), otherwise from beginning',
-                  default: false
+                  enum: ['all', 'javascript_error', 'network_failure', 'console_error', 'runtime_error', 'unknown_error']
                 },
-                filter: {
-                  type: 'string',
-                  description: 'Filter by content (e.g., "error", "network")'
+                description: 'Which error types to include (default ["all"])'
+              },
+              includeContext: {
+                type: 'boolean',
+                description: 'Include surrounding log entries for each error group',
+                default: true
+              },
+              timeRange: {
+                type: 'object',
+                properties: {
+                  start: {
+                    type: 'string',
+                    description: 'ISO 8601 start time'
+                  },
+                  end: {
+                    type: 'string',
+                    description: 'ISO 8601 end time'
+                  }
                 },
-                timeWindow: {
-                  type: 'number',
-                  description: 'Only show entries from last N minutes'
-                }
+                required: ['start', 'end']
               }
             }
           }
-        ]
+        }
+      ];
+
+      return {
+        tools: tools.filter(tool => isToolInProfile(tool.name, this.config.toolProfile))
       };
     });
 
     // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       const resources = [];
       
       // Add resources for each log file
@@ -330,12 +816,20 @@ export class DaisyMCPServer {
         });
       }
       
+      // Add session index resource
+      resources.push({
+        uri: 'daisy://sessions',
+        name: 'Sessions',
+        description: 'Index of recorded daisy sessions',
+        mimeType: 'application/json'
+      });
+      
       // Add screenshots resource if directory exists
       if (fs.existsSync(this.config.screenshotsDir)) {
         resources.push({
           uri: 'daisy://screenshots',
           name: 'Screenshots',
-          description: 'Available debugging screenshots',
+          description: 'Available debugging screenshots, newest first, with thumbnail resources for previews',
           mimeType: 'application/json'
         });
       }
@@ -344,21 +838,29 @@ export class DaisyMCPServer {
     });
 
     // Handle resource reading
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const uri = request.params.uri;
       
       if (uri.startsWith('daisy://logs/')) {
         return this.handleLogResource(uri);
       } else if (uri === 'daisy://screenshots') {
         return this.handleScreenshotsResource();
+      } else if (uri.startsWith('daisy://screenshots/')) {
+        return this.handleScreenshotImageResource(uri);
+      } else if (uri === 'daisy://sessions') {
+        return this.handleSessionsResource();
       }
       
       throw new Error(`Unknown resource: ${uri}`);
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
+
+      if (!isToolInProfile(name, this.config.toolProfile)) {
+        throw new Error(`Tool "${name}" is not enabled in the "${this.config.toolProfile}" tool profile (start the server with --tools all to use it)`);
+      }
       
       switch (name) {
         // Focused debugging tools
@@ -372,8 +874,36 @@ export class DaisyMCPServer {
           return await this.handleSearchLogs(args);
         case 'browser_control':
           return await this.handleBrowserControl(args);
+        case 'browser_run_steps':
+          return await this.handleRunSteps(args);
         case 'read_raw_log':
           return await this.handleReadRawLog(args);
+        case 'list_sessions':
+          return await this.handleListSessions(args);
+        case 'open_session':
+          return await this.handleOpenSession(args);
+        case 'export_har':
+          return await this.handleExportHar(args);
+
+        case 'export_test':
+          return await this.handleExportTest(args);
+
+        case 'replay_session':
+          return await this.handleReplaySession(args);
+
+        // Analysis tools
+        case 'diagnose_error':
+          return await this.handleDiagnoseError(args);
+        case 'suggest_fixes':
+          return await this.handleSuggestFixes(args);
+        case 'performance_insights':
+          return await this.handlePerformanceInsights(args);
+        case 'get_log_summary':
+          return await this.handleGetLogSummary(args);
+        case 'analyze_logs':
+          return await this.handleAnalyzeLogs(args);
+        case 'find_errors':
+          return await this.handleFindErrors(args);
         
         default:
           throw new Error(`Unknown tool: ${name}`);
@@ -449,13 +979,24 @@ export class DaisyMCPServer {
       };
     }
     
+    const thumbnailsDir = path.join(this.config.screenshotsDir, 'thumbnails');
     const files = fs.readdirSync(this.config.screenshotsDir)
-      .filter(f => f.endsWith('.png') || f.endsWith('.jpg') || f.endsWith('.jpeg'))
-      .map(f => ({
-        name: f,
-        path: path.join(this.config.screenshotsDir, f),
-        timestamp: fs.statSync(path.join(this.config.screenshotsDir, f)).mtime.toISOString()
-      }));
+      .filter(f => SCREENSHOT_MIME_TYPES[path.extname(f).toLowerCase()])
+      .map(f => {
+        const stat = fs.statSync(path.join(this.config.screenshotsDir, f));
+        // Small PNG previews; reading one costs far fewer tokens than the full screenshot
+        const thumbnail = f.replace(/\.[^.]+$/, '.png');
+        const hasThumbnail = fs.existsSync(path.join(thumbnailsDir, thumbnail));
+        return {
+          name: f,
+          path: path.join(this.config.screenshotsDir, f),
+          uri: `daisy://screenshots/${f}`,
+          thumbnailUri: hasThumbnail ? `daisy://screenshots/thumbnails/${thumbnail}` : undefined,
+          size: stat.size,
+          timestamp: stat.mtime.toISOString()
+        };
+      })
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
     
     return {
       contents: [{
@@ -466,6 +1007,39 @@ export class DaisyMCPServer {
     };
   }
 
+  private async handleScreenshotImageResource(uri: string) {
+    const relative = uri.slice('daisy://screenshots/'.length);
+    const match = /^(thumbnails\/)?([\w-]+\.\w+)$/.exec(relative);
+    const mimeType = match && SCREENSHOT_MIME_TYPES[path.extname(match[2]).toLowerCase()];
+    if (!match || !mimeType) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    const filePath = path.join(this.config.screenshotsDir, match[1] ? 'thumbnails' : '', match[2]);
+    if (!fs.existsSync(filePath)) {
+      // Evicted to stay within the screenshot disk budget, or from another session
+      throw new Error(`Screenshot not found: ${relative}`);
+    }
+
+    return {
+      contents: [{
+        uri,
+        mimeType,
+        blob: fs.readFileSync(filePath).toString('base64')
+      }]
+    };
+  }
+
+  private async handleSessionsResource() {
+    return {
+      contents: [{
+        uri: 'daisy://sessions',
+        mimeType: 'application/json',
+        text: JSON.stringify({ sessions: readSessionIndex(this.config.sessionsIndex) }, null, 2)
+      }]
+    };
+  }
+
   // Tool implementations will be imported from separate files
   private async handleAnalyzeLogs(args: any) {
     const { analyzeLogs } = await import('./tools/analyze-logs.js');
@@ -493,13 +1067,13 @@ export class DaisyMCPServer {
   }
 
   private async handleDiagnoseError(args: any) {
-    return diagnoseError(args, this.getAllLogEntries(), this.parser, this.makeControlApiRequest.bind(this));
+    return diagnoseError(args, this.getAllLogEntries(), this.parser, this.controlApi);
   }
 
   // Browser interaction tool handlers
   private async handleTakeScreenshot(args: any) {
     try {
-      const response = await this.makeControlApiRequest('/screenshot', 'POST', {
+      const response = await this.controlApi.takeScreenshot({
         context: args.context || 'mcp-request'
       });
       
@@ -531,11 +1105,7 @@ export class DaisyMCPServer {
 
   private async handleBrowserClick(args: any) {
     try {
-      if (!args.selector) {
-        throw new Error('selector is required');
-      }
-
-      const response = await this.makeControlApiRequest('/click', 'POST', {
+      const response = await this.controlApi.click({
         selector: args.selector,
         timeout: args.timeout || 5000
       });
@@ -569,11 +1139,7 @@ export class DaisyMCPServer {
 
   private async handleBrowserType(args: any) {
     try {
-      if (!args.selector || args.text === undefined) {
-        throw new Error('selector and text are required');
-      }
-
-      const response = await this.makeControlApiRequest('/type', 'POST', {
+      const response = await this.controlApi.type({
         selector: args.selector,
         text: args.text,
         timeout: args.timeout || 5000,
@@ -610,11 +1176,7 @@ export class DaisyMCPServer {
 
   private async handleBrowserNavigate(args: any) {
     try {
-      if (!args.url) {
-        throw new Error('url is required');
-      }
-
-      const response = await this.makeControlApiRequest('/navigate', 'POST', {
+      const response = await this.controlApi.navigate({
         url: args.url,
         waitForLoad: args.waitForLoad !== false,
         timeout: args.timeout || 30000
@@ -649,7 +1211,7 @@ export class DaisyMCPServer {
 
   private async handleBrowserScroll(args: any) {
     try {
-      const response = await this.makeControlApiRequest('/scroll', 'POST', {
+      const response = await this.controlApi.scroll({
         selector: args.selector,
         x: args.x,
         y: args.y,
@@ -684,11 +1246,7 @@ export class DaisyMCPServer {
 
   private async handleInspectDOM(args: any) {
     try {
-      if (!args.selector) {
-        throw new Error('selector is required');
-      }
-
-      const response = await this.makeControlApiRequest('/inspect', 'POST', {
+      const response = await this.controlApi.inspect({
         selector: args.selector,
         properties: args.properties || ['textContent', 'innerHTML', 'outerHTML', 'className', 'id']
       });
@@ -723,11 +1281,7 @@ export class DaisyMCPServer {
 
   private async handleGetComputedStyles(args: any) {
     try {
-      if (!args.selector) {
-        throw new Error('selector is required');
-      }
-
-      const response = await this.makeControlApiRequest('/computed-styles', 'POST', {
+      const response = await this.controlApi.getComputedStyles({
         selector: args.selector,
         properties: args.properties || ['color', 'background-color', 'font-size', 'display', 'position']
       });
@@ -762,11 +1316,7 @@ export class DaisyMCPServer {
 
   private async handleEvaluateJavaScript(args: any) {
     try {
-      if (!args.code) {
-        throw new Error('code is required');
-      }
-
-      const response = await this.makeControlApiRequest('/execute', 'POST', {
+      const response = await this.controlApi.execute({
         code: args.code,
         returnByValue: args.returnByValue !== false,
         timeout: args.timeout || 10000
@@ -801,8 +1351,7 @@ export class DaisyMCPServer {
 
   private async handleInspectNetworkTab(args: any) {
     try {
-      const queryParams = args.limit ? `?limit=${args.limit}` : '';
-      const response = await this.makeControlApiRequest(`/network-requests${queryParams}`);
+      const response = await this.controlApi.getNetworkRequests({ limit: args.limit });
       
       return {
         content: [{
@@ -833,11 +1382,7 @@ export class DaisyMCPServer {
 
   private async handleWaitForElement(args: any) {
     try {
-      if (!args.selector) {
-        throw new Error('selector is required');
-      }
-
-      const response = await this.makeControlApiRequest('/wait-for-element', 'POST', {
+      const response = await this.controlApi.waitForElement({
         selector: args.selector,
         timeout: args.timeout || 10000,
         visible: args.visible !== false
@@ -874,7 +1419,7 @@ export class DaisyMCPServer {
 
   private async handleWaitForNetworkIdle(args: any) {
     try {
-      const response = await this.makeControlApiRequest('/wait-for-network-idle', 'POST', {
+      const response = await this.controlApi.waitForNetworkIdle({
         timeout: args.timeout || 10000,
         idleTime: args.idleTime || 1000
       });
@@ -908,7 +1453,7 @@ export class DaisyMCPServer {
 
   private async handleReadRawLog(args: any) {
     const { readRawLog } = await import('./tools/read-raw-log.js');
-    return readRawLog(args);
+    return readRawLog(args, this.config.logFiles[0]);
   }
 
   private async handleGetErrorsOnly(args: any) {
@@ -931,9 +1476,39 @@ export class DaisyMCPServer {
     return searchLogs(args, this.getAllLogEntries(), this.parser);
   }
 
+  private async handleListSessions(args: any) {
+    const { listSessions } = await import('./tools/list-sessions.js');
+    return listSessions(args, this.config.sessionsIndex, this.config.logFiles);
+  }
+
+  private async handleOpenSession(args: any) {
+    const { openSession } = await import('./tools/open-session.js');
+    return openSession(args, this.config.sessionsIndex, this.switchToSession.bind(this));
+  }
+
+  private async handleExportHar(args: any) {
+    const { exportHar } = await import('./tools/export-har.js');
+    return exportHar(args, this.getAllLogEntries(), this.config.sessionsIndex, this.controlApi);
+  }
+
+  private async handleExportTest(args: any) {
+    const { exportTest } = await import('./tools/export-test.js');
+    return exportTest(args, this.getAllLogEntries(), this.config.sessionsIndex);
+  }
+
+  private async handleReplaySession(args: any) {
+    const { replaySession } = await import('./tools/replay-session.js');
+    return replaySession(args, this.controlApi);
+  }
+
   private async handleBrowserControl(args: any) {
     const { browserControl } = await import('./tools/browser-control.js');
-    return browserControl(args, this.makeControlApiRequest.bind(this));
+    return browserControl(args, this.controlApi);
+  }
+
+  private async handleRunSteps(args: any) {
+    const { runSteps } = await import('./tools/run-steps.js');
+    return runSteps(args, this.controlApi);
   }
 
   private getAllLogEntries(): DaisyLogEntry[] {
@@ -954,8 +1529,20 @@ export class DaisyMCPServer {
     }
 
     // Setup transport
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    if (this.config.transport === 'http') {
+      const port = this.config.httpPort || 3684;
+      this.httpHost = new McpHttpHost(() => this.createServer(), {
+        port,
+        host: this.config.httpHost || '127.0.0.1',
+        token: ensureMcpToken(port)
+      });
+      await this.httpHost.start();
+      console.error(`🔗 Streamable HTTP: ${this.httpHost.getUrl()} (SSE fallback at /sse)`);
+      console.error(`🔑 Clients send Authorization: Bearer <token>, the token is in ${mcpTokenPath(port)}`);
+    } else {
+      this.stdioServer = this.createServer();
+      await this.stdioServer.connect(new StdioServerTransport());
+    }
     
     console.error('🌼 Daisy MCP Server started successfully');
     console.error(`📊 Loaded ${this.getAllLogEntries().length} log entries from ${this.config.logFiles.length} file(s)`);
@@ -964,7 +1551,7 @@ export class DaisyMCPServer {
   private async loadLogFiles(): Promise<void> {
     for (const logFile of this.config.logFiles) {
       try {
-        const data = this.parser.parseLogFile(logFile);
+        const { data } = this.parser.readLogFileIncremental(logFile);
         this.logData.set(logFile, data);
         console.error(`✅ Loaded ${data.entries.length} entries from ${path.basename(logFile)}`);
       } catch (error) {
@@ -973,6 +1560,66 @@ export class DaisyMCPServer {
     }
   }
 
+  /**
+   * Replace the loaded log files with a session's log and screenshots
+   */
+  private async switchToSession(session: SessionRecord): Promise<number> {
+    await this.closeFileWatchers();
+
+    this.config.logFiles = [session.logFile];
+    this.config.screenshotsDir = session.screenshotsDir;
+    this.parser = new DaisyLogParser(session.screenshotsDir);
+    this.logData.clear();
+
+    await this.loadLogFiles();
+
+    // Only live sessions keep changing
+    if (this.config.watchMode && session.exitStatus === 'running') {
+      this.setupFileWatchers();
+    }
+
+    console.error(`📂 Opened session ${session.id}`);
+    return this.getAllLogEntries().length;
+  }
+
+  /**
+   * The logger appends many small writes in bursts, so coalesce change events
+   * (at most one read per RELOAD_DEBOUNCE_MS, even under constant writes)
+   * and then parse only the bytes appended since the last read.
+   */
+  private scheduleReload(logFile: string): void {
+    if (this.reloadTimers.has(logFile)) {
+      return;
+    }
+
+    this.reloadTimers.set(logFile, setTimeout(() => {
+      this.reloadTimers.delete(logFile);
+      try {
+        const { data, newEntries, reset } = this.parser.readLogFileIncremental(logFile);
+        this.logData.set(logFile, data);
+        if (reset) {
+          console.error(`🔄 ${path.basename(logFile)} was replaced, reloaded ${data.entries.length} entries`);
+        } else if (newEntries.length > 0) {
+          console.error(`✅ +${newEntries.length} entries (${data.entries.length} total)`);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to reload ${logFile}: ${error}`);
+      }
+    }, RELOAD_DEBOUNCE_MS));
+  }
+
+  private async closeFileWatchers(): Promise<void> {
+    for (const timer of this.reloadTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reloadTimers.clear();
+
+    for (const watcher of this.watchers) {
+      await watcher.close();
+    }
+    this.watchers = [];
+  }
+
   private setupFileWatchers(): void {
     for (const logFile of this.config.logFiles) {
       const watcher = chokidar.watch(logFile, {
@@ -981,16 +1628,7 @@ export class DaisyMCPServer {
         ignoreInitial: true
       });
 
-      watcher.on('change', async () => {
-        try {
-          console.error(`🔄 Reloading ${path.basename(logFile)}...`);
-          const data = this.parser.parseLogFile(logFile);
-          this.logData.set(logFile, data);
-          console.error(`✅ Reloaded ${data.entries.length} entries`);
-        } catch (error) {
-          console.error(`❌ Failed to reload ${logFile}: ${error}`);
-        }
-      });
+      watcher.on('change', () => this.scheduleReload(logFile));
 
       this.watchers.push(watcher);
     }
@@ -998,12 +1636,17 @@ export class DaisyMCPServer {
 
   async stop(): Promise<void> {
     // Close file watchers
-    for (const watcher of this.watchers) {
-      await watcher.close();
-    }
+    await this.closeFileWatchers();
     
-    // Close server
-    await this.server.close();
+    // Close transports
+    if (this.httpHost) {
+      await this.httpHost.close();
+      this.httpHost = null;
+    }
+    if (this.stdioServer) {
+      await this.stdioServer.close();
+      this.stdioServer = null;
+    }
     console.error('🛑 Daisy MCP Server stopped');
   }
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SessionRecord, findSessionRecord, listSessions, parseSessionIndex } from 'daisy-shared';
+
+export { SessionExitStatus, SessionRecord } from 'daisy-shared';
+
+export function defaultSessionsIndexPath(): string {
+  return path.join(os.homedir(), '.daisy', 'logs', 'sessions.json');
+}
+
+/**
+ * Read the session index written by the daisy daemon, newest first.
+ * Sessions whose daisy process is gone without closing the session are reported as interrupted.
+ */
+export function readSessionIndex(indexPath: string): SessionRecord[] {
+  try {
+    if (!fs.existsSync(indexPath)) {
+      return [];
+    }
+
+    return listSessions(parseSessionIndex(fs.readFileSync(indexPath, 'utf8')), isProcessAlive);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find a session by ID, unique ID prefix, or the alias "latest"
+ */
+export function findSession(indexPath: string, idOrAlias: string): SessionRecord | undefined {
+  return findSessionRecord(readSessionIndex(indexPath), idOrAlias);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
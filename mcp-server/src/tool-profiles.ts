@@ -0,0 +1,42 @@
+export type ToolProfile = 'minimal' | 'standard' | 'all';
+
+export const TOOL_PROFILE_NAMES: ToolProfile[] = ['minimal', 'standard', 'all'];
+
+/**
+ * Tools exposed per profile. Smaller profiles keep the assistant's tool list short;
+ * 'all' exposes every registered tool.
+ */
+const TOOL_PROFILES: Record<Exclude<ToolProfile, 'all'>, string[]> = {
+  // Focused debugging loop: what broke, and poke the browser
+  minimal: [
+    'get_errors_only',
+    'get_network_failures',
+    'search_logs',
+    'browser_control'
+  ],
+  // Day-to-day debugging including one-shot diagnosis and session history
+  standard: [
+    'get_errors_only',
+    'get_network_failures',
+    'get_last_action_context',
+    'search_logs',
+    'browser_control',
+    'browser_run_steps',
+    'diagnose_error',
+    'suggest_fixes',
+    'read_raw_log',
+    'list_sessions',
+    'open_session',
+    'export_har',
+    'export_test',
+    'replay_session'
+  ]
+};
+
+export function isToolProfile(value: string): value is ToolProfile {
+  return (TOOL_PROFILE_NAMES as string[]).includes(value);
+}
+
+export function isToolInProfile(toolName: string, profile: ToolProfile): boolean {
+  return profile === 'all' || TOOL_PROFILES[profile].includes(toolName);
+}
@@ -1,5 +1,7 @@
+import { ControlApiClient, EmulateRequest } from 'daisy-shared';
+
 export interface BrowserControlArgs {
-  action: 'click' | 'type' | 'navigate' | 'scroll' | 'inspect' | 'evaluate' | 'wait' | 'screenshot';
+  action: 'click' | 'type' | 'navigate' | 'scroll' | 'inspect' | 'evaluate' | 'wait' | 'screenshot' | 'targets' | 'emulate';
   selector?: string;
   text?: string;
   url?: string;
@@ -11,27 +13,46 @@ export interface BrowserControlArgs {
   properties?: string[];
   waitFor?: 'element' | 'network' | 'load';
   clear?: boolean;
+  targetId?: string; // Attached target to act on; main tab when omitted
+  // emulate: fields left out keep their current value
+  device?: EmulateRequest['device'];
+  width?: number;
+  height?: number;
+  throttle?: EmulateRequest['throttle'];
+  offline?: boolean;
+  cpuThrottle?: number;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+  locale?: string;
+  colorScheme?: EmulateRequest['colorScheme'];
+  reducedMotion?: boolean;
+  reset?: boolean; // turn all emulation off before applying the other fields
 }
 
-export async function browserControl(args: BrowserControlArgs, controlApiRequest: Function) {
+export async function browserControl(args: BrowserControlArgs, controlApi: ControlApiClient) {
   try {
     switch (args.action) {
       case 'click':
-        return await handleClick(args, controlApiRequest);
+        return await handleClick(args, controlApi);
       case 'type':
-        return await handleType(args, controlApiRequest);
+        return await handleType(args, controlApi);
       case 'navigate':
-        return await handleNavigate(args, controlApiRequest);
+        return await handleNavigate(args, controlApi);
       case 'scroll':
-        return await handleScroll(args, controlApiRequest);
+        return await handleScroll(args, controlApi);
       case 'inspect':
-        return await handleInspect(args, controlApiRequest);
+        return await handleInspect(args, controlApi);
       case 'evaluate':
-        return await handleEvaluate(args, controlApiRequest);
+        return await handleEvaluate(args, controlApi);
       case 'wait':
-        return await handleWait(args, controlApiRequest);
+        return await handleWait(args, controlApi);
       case 'screenshot':
-        return await handleScreenshot(args, controlApiRequest);
+        return await handleScreenshot(args, controlApi);
+      case 'targets':
+        return await handleTargets(controlApi);
+      case 'emulate':
+        return await handleEmulate(args, controlApi);
       default:
         throw new Error(`Unknown browser action: ${args.action}`);
     }
@@ -51,14 +72,15 @@ export async function browserControl(args: BrowserControlArgs, controlApiRequest
   }
 }
 
-async function handleClick(args: BrowserControlArgs, controlApiRequest: Function) {
+async function handleClick(args: BrowserControlArgs, controlApi: ControlApiClient) {
   if (!args.selector) {
     throw new Error('selector is required for click action');
   }
 
-  const response = await controlApiRequest('/click', 'POST', {
+  const response = await controlApi.click({
     selector: args.selector,
-    timeout: args.timeout || 5000
+    timeout: args.timeout || 5000,
+    targetId: args.targetId
   });
 
   return {
@@ -80,16 +102,17 @@ async function handleClick(args: BrowserControlArgs, controlApiRequest: Function
   };
 }
 
-async function handleType(args: BrowserControlArgs, controlApiRequest: Function) {
+async function handleType(args: BrowserControlArgs, controlApi: ControlApiClient) {
   if (!args.selector || args.text === undefined) {
     throw new Error('selector and text are required for type action');
   }
 
-  const response = await controlApiRequest('/type', 'POST', {
+  const response = await controlApi.type({
     selector: args.selector,
     text: args.text,
     timeout: args.timeout || 5000,
-    clear: args.clear || false
+    clear: args.clear || false,
+    targetId: args.targetId
   });
 
   return {
@@ -112,15 +135,16 @@ async function handleType(args: BrowserControlArgs, controlApiRequest: Function)
   };
 }
 
-async function handleNavigate(args: BrowserControlArgs, controlApiRequest: Function) {
+async function handleNavigate(args: BrowserControlArgs, controlApi: ControlApiClient) {
   if (!args.url) {
     throw new Error('url is required for navigate action');
   }
 
-  const response = await controlApiRequest('/navigate', 'POST', {
+  const response = await controlApi.navigate({
     url: args.url,
     waitForLoad: true,
-    timeout: args.timeout || 10000
+    timeout: args.timeout || 10000,
+    targetId: args.targetId
   });
 
   return {
@@ -141,12 +165,13 @@ async function handleNavigate(args: BrowserControlArgs, controlApiRequest: Funct
   };
 }
 
-async function handleScroll(args: BrowserControlArgs, controlApiRequest: Function) {
-  const response = await controlApiRequest('/scroll', 'POST', {
+async function handleScroll(args: BrowserControlArgs, controlApi: ControlApiClient) {
+  const response = await controlApi.scroll({
     selector: args.selector,
     x: args.x,
     y: args.y,
-    behavior: 'smooth'
+    behavior: 'smooth',
+    targetId: args.targetId
   });
 
   return {
@@ -163,14 +188,15 @@ async function handleScroll(args: BrowserControlArgs, controlApiRequest: Functio
   };
 }
 
-async function handleInspect(args: BrowserControlArgs, controlApiRequest: Function) {
+async function handleInspect(args: BrowserControlArgs, controlApi: ControlApiClient) {
   if (!args.selector) {
     throw new Error('selector is required for inspect action');
   }
 
-  const response = await controlApiRequest('/inspect', 'POST', {
+  const response = await controlApi.inspect({
     selector: args.selector,
-    properties: args.properties || ['textContent', 'innerHTML', 'className', 'id']
+    properties: args.properties || ['textContent', 'innerHTML', 'className', 'id'],
+    targetId: args.targetId
   });
 
   return {
@@ -191,15 +217,16 @@ async function handleInspect(args: BrowserControlArgs, controlApiRequest: Functi
   };
 }
 
-async function handleEvaluate(args: BrowserControlArgs, controlApiRequest: Function) {
+async function handleEvaluate(args: BrowserControlArgs, controlApi: ControlApiClient) {
   if (!args.code) {
     throw new Error('code is required for evaluate action');
   }
 
-  const response = await controlApiRequest('/execute', 'POST', {
+  const response = await controlApi.execute({
     code: args.code,
     returnByValue: true,
-    timeout: args.timeout || 10000
+    timeout: args.timeout || 10000,
+    targetId: args.targetId
   });
 
   return {
@@ -213,42 +240,39 @@ async function handleEvaluate(args: BrowserControlArgs, controlApiRequest: Funct
         timestamp: response.timestamp,
         debugInfo: {
           executionTime: 'unknown',
-          returnType: typeof response.result?.result
+          returnType: response.result.subtype || response.result.type
         }
       }, null, 2)
     }]
   };
 }
 
-async function handleWait(args: BrowserControlArgs, controlApiRequest: Function) {
-  let endpoint = '';
-  let payload: any = {};
+async function handleWait(args: BrowserControlArgs, controlApi: ControlApiClient) {
+  let response;
 
   switch (args.waitFor) {
     case 'element':
       if (!args.selector) {
         throw new Error('selector is required when waiting for element');
       }
-      endpoint = '/wait-for-element';
-      payload = {
+      response = await controlApi.waitForElement({
         selector: args.selector,
         timeout: args.timeout || 10000,
-        visible: true
-      };
+        visible: true,
+        targetId: args.targetId
+      });
       break;
     case 'network':
-      endpoint = '/wait-for-network-idle';
-      payload = {
+      response = await controlApi.waitForNetworkIdle({
         timeout: args.timeout || 10000,
-        idleTime: 1000
-      };
+        idleTime: 1000,
+        targetId: args.targetId
+      });
       break;
     default:
       throw new Error('waitFor must be "element" or "network"');
   }
 
-  const response = await controlApiRequest(endpoint, 'POST', payload);
-
   return {
     content: [{
       type: 'text',
@@ -268,9 +292,10 @@ async function handleWait(args: BrowserControlArgs, controlApiRequest: Function)
   };
 }
 
-async function handleScreenshot(args: BrowserControlArgs, controlApiRequest: Function) {
-  const response = await controlApiRequest('/screenshot', 'POST', {
-    context: args.context || 'browser-control'
+async function handleScreenshot(args: BrowserControlArgs, controlApi: ControlApiClient) {
+  const response = await controlApi.takeScreenshot({
+    context: args.context || 'browser-control',
+    targetId: args.targetId
   });
 
   return {
@@ -290,6 +315,66 @@ async function handleScreenshot(args: BrowserControlArgs, controlApiRequest: Fun
   };
 }
 
+async function handleTargets(controlApi: ControlApiClient) {
+  const response = await controlApi.getTargets();
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        action: 'targets',
+        targets: response.result,
+        count: response.count,
+        timestamp: response.timestamp,
+        debugInfo: {
+          usage: 'Pass a targetId to other actions to run them in that tab, popup or iframe'
+        }
+      }, null, 2)
+    }]
+  };
+}
+
+async function handleEmulate(args: BrowserControlArgs, controlApi: ControlApiClient) {
+  const settings: EmulateRequest = {
+    device: args.device,
+    width: args.width,
+    height: args.height,
+    throttle: args.throttle,
+    offline: args.offline,
+    cpuThrottle: args.cpuThrottle,
+    geolocation: args.latitude !== undefined && args.longitude !== undefined
+      ? { latitude: args.latitude, longitude: args.longitude }
+      : undefined,
+    timezone: args.timezone,
+    locale: args.locale,
+    colorScheme: args.colorScheme,
+    reducedMotion: args.reducedMotion,
+    reset: args.reset
+  };
+  const changes = Object.values(settings).some(value => value !== undefined);
+
+  // Without any setting this only reports what is emulated
+  const response = changes ? await controlApi.emulate(settings) : await controlApi.getEmulation();
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        action: 'emulate',
+        emulation: response.result.settings,
+        timestamp: response.timestamp,
+        debugInfo: {
+          devices: response.result.devices,
+          networkPresets: response.result.networkPresets,
+          usage: 'Reload the page (navigate) so it renders and fetches under the new settings; reset: true turns emulation off'
+        }
+      }, null, 2)
+    }]
+  };
+}
+
 function generateTroubleshooting(action: string, errorMessage: string): string[] {
   const tips: string[] = [];
 
@@ -303,6 +388,10 @@ function generateTroubleshooting(action: string, errorMessage: string): string[]
     tips.push('Check if the element appears after some delay');
   }
 
+  if (errorMessage.includes('Unknown target')) {
+    tips.push('The tab or popup may have closed; run the targets action to list attached targets');
+  }
+
   if (errorMessage.includes('not found')) {
     tips.push('Element may not be visible or may not exist on the current page');
     tips.push('Check the page URL and ensure you\'re on the correct page');
@@ -320,6 +409,10 @@ function generateTroubleshooting(action: string, errorMessage: string): string[]
       tips.push('Verify the URL is correct and accessible');
       tips.push('Check network connectivity');
       break;
+    case 'emulate':
+      tips.push('Run emulate without settings to list the device names and network presets');
+      tips.push('Time zones are IANA names (e.g. Europe/Berlin), locales BCP 47 tags (e.g. de-DE)');
+      break;
   }
 
   return tips;
@@ -1,4 +1,5 @@
 import { DaisyLogEntry, DaisyLogParser } from '../log-parser.js';
+import { ControlApiClient, SourceContext, getEventMessage, getEventStack } from 'daisy-shared';
 
 export interface DiagnoseErrorArgs {
   context?: string;  // Optional description of what the user was trying to do
@@ -23,6 +24,7 @@ interface DiagnosticSummary {
   networkFailures: number;
   consoleErrors: number;
   javascriptErrors: number;
+  serverErrors: number;
   primaryConcern: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
 }
@@ -46,7 +48,7 @@ interface ErrorAnalysis {
 }
 
 interface CategorizedError {
-  type: 'javascript' | 'network' | 'console' | 'runtime' | 'unknown';
+  type: 'javascript' | 'network' | 'console' | 'runtime' | 'server' | 'unknown';
   severity: number;
   message: string;
   timestamp: string;
@@ -71,13 +73,16 @@ interface StackTraceInfo {
   stack: string;
   timestamp: string;
   frames: StackFrame[];
+  sourceContext?: SourceContext; // Original code around the top frame
 }
 
+// 1-based positions; `generated` is the bundle location when the frame was source-mapped
 interface StackFrame {
   file: string;
   line: number;
   column: number;
   function: string;
+  generated?: string;
 }
 
 interface BrowserState {
@@ -148,6 +153,7 @@ interface NetworkFailure {
   error: string;
   timestamp: number;
   retryCount?: number;
+  serverOutput?: { timestamp: string; level: string; message: string; lines?: string[] }[];
 }
 
 interface SlowRequest {
@@ -170,7 +176,7 @@ export async function diagnoseError(
   args: DiagnoseErrorArgs, 
   allEntries: DaisyLogEntry[], 
   parser: DaisyLogParser,
-  makeControlApiRequest: (endpoint: string, method: 'GET' | 'POST', data?: any) => Promise<any>
+  controlApi: ControlApiClient
 ) {
   try {
     const timeWindow = args.timeWindow || 30000; // Default 30 seconds
@@ -178,11 +184,11 @@ export async function diagnoseError(
     const now = new Date();
     const cutoffTime = new Date(now.getTime() - timeWindow);
 
-    console.log('🔍 Starting comprehensive error diagnosis...');
+    console.error('🔍 Starting comprehensive error diagnosis...');
 
     // 1. Take screenshot first
-    console.log('📸 Capturing screenshot...');
-    const screenshot = await captureScreenshot(makeControlApiRequest, args.context);
+    console.error('📸 Capturing screenshot...');
+    const screenshot = await captureScreenshot(controlApi, args.context);
 
     // 2. Filter logs to time window
     const recentEntries = allEntries.filter(entry => {
@@ -190,26 +196,26 @@ export async function diagnoseError(
       return entryTime >= cutoffTime;
     });
 
-    console.log(`📊 Analyzing ${recentEntries.length} recent log entries...`);
+    console.error(`📊 Analyzing ${recentEntries.length} recent log entries...`);
 
     // 3. Get current browser state
-    console.log('🌐 Gathering browser state...');
-    const browserState = await getBrowserState(makeControlApiRequest);
+    console.error('🌐 Gathering browser state...');
+    const browserState = await getBrowserState(controlApi);
 
     // 4. Analyze errors from logs
-    console.log('⚠️ Analyzing errors...');
+    console.error('⚠️ Analyzing errors...');
     const errorAnalysis = analyzeErrorsInLogs(recentEntries, includeStackTraces, cutoffTime, now);
 
     // 5. Analyze network activity
-    console.log('🌐 Analyzing network activity...');
-    const networkAnalysis = analyzeNetworkActivity(recentEntries, timeWindow);
+    console.error('🌐 Analyzing network activity...');
+    const networkAnalysis = analyzeNetworkActivity(recentEntries, timeWindow, parser);
 
     // 6. Generate diagnostic summary
-    console.log('📋 Generating summary...');
+    console.error('📋 Generating summary...');
     const summary = generateDiagnosticSummary(errorAnalysis, networkAnalysis, browserState);
 
     // 7. Generate actionable insights
-    console.log('💡 Generating actionable insights...');
+    console.error('💡 Generating actionable insights...');
     const actionableInsights = generateActionableInsights(
       errorAnalysis, 
       networkAnalysis, 
@@ -229,7 +235,7 @@ export async function diagnoseError(
       context: args.context
     };
 
-    console.log('✅ Error diagnosis complete');
+    console.error('✅ Error diagnosis complete');
 
     return {
       content: [
@@ -254,19 +260,20 @@ export async function diagnoseError(
             context: args.context
           }, null, 2)
         }
-      ]
+      ],
+      isError: true
     };
   }
 }
 
 async function captureScreenshot(
-  makeControlApiRequest: (endpoint: string, method: 'GET' | 'POST', data?: any) => Promise<any>,
+  controlApi: ControlApiClient,
   context?: string
 ): Promise<ScreenshotInfo> {
   try {
     const screenshotContext = context ? `diagnose-${context.replace(/[^a-zA-Z0-9]/g, '-')}` : 'diagnose-error';
-    const response = await makeControlApiRequest('/screenshot', 'POST', { 
-      context: screenshotContext 
+    const response = await controlApi.takeScreenshot({
+      context: screenshotContext
     });
     
     return {
@@ -285,10 +292,10 @@ async function captureScreenshot(
 }
 
 async function getBrowserState(
-  makeControlApiRequest: (endpoint: string, method: 'GET' | 'POST', data?: any) => Promise<any>
+  controlApi: ControlApiClient
 ): Promise<BrowserState> {
   try {
-    const response = await makeControlApiRequest('/evaluate-javascript', 'POST', {
+    const response = await controlApi.execute({
       code: `
         (() => {
           // Gather comprehensive browser state
@@ -375,7 +382,8 @@ async function getBrowserState(
       `
     });
 
-    return response.result || {
+    // The state comes back by value
+    return (response.result.value as BrowserState) || {
       page: { url: 'unknown', title: 'unknown', loaded: false, readyState: 'unknown', referrer: '' },
       javascript: { globalErrors: [], undefinedVariables: [], consoleErrors: [], unhandledPromises: [], performance: {} },
       dom: { elementCount: 0, formsCount: 0, imagesCount: 0, scriptsCount: 0, stylesheetsCount: 0, brokenImages: [], missingElements: [] },
@@ -411,7 +419,7 @@ function analyzeErrorsInLogs(
       recentErrors.push(categorizedError);
 
       // Extract stack trace if available and requested
-      if (includeStackTraces && (entry.data?.stack || entry.context?.stackTrace)) {
+      if (includeStackTraces && (getEventStack(entry))) {
         const stackInfo = parseStackTrace(entry);
         if (stackInfo) {
           stackTraces.push(stackInfo);
@@ -457,11 +465,14 @@ function analyzeErrorsInLogs(
 }
 
 function categorizeLogError(entry: DaisyLogEntry, includeStackTraces: boolean): CategorizedError {
-  let type: 'javascript' | 'network' | 'console' | 'runtime' | 'unknown' = 'unknown';
+  let type: CategorizedError['type'] = 'unknown';
   const recommendations: string[] = [];
 
   // Determine error type
-  if (entry.type === 'error' || entry.category?.includes('error')) {
+  if (entry.type === 'server') {
+    type = 'server';
+    recommendations.push('Check the dev server output - the top stack frame points at the failing backend code');
+  } else if (entry.type === 'error' || entry.category?.includes('error')) {
     type = 'javascript';
     recommendations.push('Check JavaScript code for syntax and runtime errors');
   } else if (entry.type === 'network') {
@@ -476,7 +487,7 @@ function categorizeLogError(entry: DaisyLogEntry, includeStackTraces: boolean):
   }
 
   // Add specific recommendations based on error content
-  const errorMessage = entry.data?.message || entry.summary || '';
+  const errorMessage = getEventMessage(entry) || entry.summary || '';
   if (errorMessage.includes('TypeError')) {
     recommendations.push('Add null/undefined checks for object properties');
   }
@@ -498,19 +509,34 @@ function categorizeLogError(entry: DaisyLogEntry, includeStackTraces: boolean):
     source: entry.source,
     category: entry.category || 'unknown',
     details: entry.data,
-    stackTrace: includeStackTraces ? (entry.data?.stack || entry.context?.stackTrace) : undefined,
+    stackTrace: includeStackTraces ? (getEventStack(entry)) : undefined,
     recommendations
   };
 }
 
 function parseStackTrace(entry: DaisyLogEntry): StackTraceInfo | null {
-  const stack = entry.data?.stack || entry.context?.stackTrace;
+  const stack = getEventStack(entry);
   if (!stack) return null;
 
   const frames: StackFrame[] = [];
   const stackLines = stack.split('\n');
+  const data = entry.type === 'error' || entry.type === 'console' ? entry.data : undefined;
+  const structuredFrames = entry.type === 'error' ? entry.data.frames : undefined;
+
+  // Structured frames are already source-mapped; stack text is the fallback for older logs
+  for (const frame of structuredFrames || []) {
+    frames.push({
+      function: frame.functionName || 'anonymous',
+      file: frame.url,
+      line: frame.lineNumber + 1,
+      column: frame.columnNumber + 1,
+      generated: frame.generated
+        ? `${frame.generated.url}:${frame.generated.lineNumber + 1}:${frame.generated.columnNumber + 1}`
+        : undefined
+    });
+  }
 
-  for (const line of stackLines) {
+  for (const line of structuredFrames?.length ? [] : stackLines) {
     const match = line.match(/at\s+(.+?)\s+\((.+?):(\d+):(\d+)\)/);
     if (match) {
       frames.push({
@@ -523,15 +549,16 @@ function parseStackTrace(entry: DaisyLogEntry): StackTraceInfo | null {
   }
 
   return {
-    error: entry.data?.message || entry.summary || 'Unknown error',
+    error: getEventMessage(entry) || entry.summary || 'Unknown error',
     stack,
     timestamp: entry.timestamp,
-    frames: frames.slice(0, 10) // Top 10 stack frames
+    frames: frames.slice(0, 10), // Top 10 stack frames
+    sourceContext: data?.sourceContext
   };
 }
 
 function generateErrorPatternKey(entry: DaisyLogEntry): string {
-  const message = entry.data?.message || entry.summary || '';
+  const message = getEventMessage(entry) || entry.summary || '';
   // Remove specific values to create a pattern
   return message
     .replace(/\d+/g, 'N')
@@ -540,7 +567,7 @@ function generateErrorPatternKey(entry: DaisyLogEntry): string {
     .substring(0, 100);
 }
 
-function analyzeNetworkActivity(entries: DaisyLogEntry[], timeWindow: number): NetworkAnalysis {
+function analyzeNetworkActivity(entries: DaisyLogEntry[], timeWindow: number, parser: DaisyLogParser): NetworkAnalysis {
   const networkEntries = entries.filter(entry => entry.type === 'network');
   const recentRequests: NetworkRequestSummary[] = [];
   const failures: NetworkFailure[] = [];
@@ -557,7 +584,7 @@ function analyzeNetworkActivity(entries: DaisyLogEntry[], timeWindow: number): N
     const url = entry.data?.url || 'unknown';
     const method = entry.data?.method || 'UNKNOWN';
     const duration = entry.data?.duration || 0;
-    const size = entry.data?.responseSize || 0;
+    const size = entry.data?.encodedSize ?? entry.data?.responseSize ?? 0;
 
     totalResponseTime += duration;
     totalDataTransferred += size;
@@ -578,10 +605,12 @@ function analyzeNetworkActivity(entries: DaisyLogEntry[], timeWindow: number): N
         url: requestSummary.url,
         method,
         status,
-        error: entry.data?.errorText || entry.data?.message || `HTTP ${status}`,
-        timestamp: requestSummary.timestamp
+        error: entry.data.errorText || `HTTP ${status}`,
+        timestamp: requestSummary.timestamp,
+        // Backend exceptions logged around the failure usually explain a 5xx
+        serverOutput: parser.summarizeServerOutput(parser.findRelatedServerOutput(entries, entry))
       });
-      requestSummary.error = entry.data?.errorText || entry.data?.message;
+      requestSummary.error = entry.data.errorText;
     }
 
     // Check for slow requests (> 2 seconds)
@@ -630,6 +659,8 @@ function generateDiagnosticSummary(
   const networkFailures = networkAnalysis.failures.length;
   const consoleErrors = errorAnalysis.recentErrors.filter(e => e.type === 'console').length;
   const javascriptErrors = errorAnalysis.recentErrors.filter(e => e.type === 'javascript').length;
+  const serverErrors = errorAnalysis.recentErrors.filter(e => e.type === 'server').length;
+  const failuresWithServerErrors = networkAnalysis.failures.filter(f => f.serverOutput?.some(o => o.level === 'error')).length;
 
   // Determine primary concern
   let primaryConcern = 'No significant issues detected';
@@ -638,6 +669,9 @@ function generateDiagnosticSummary(
   if (criticalErrors > 0) {
     primaryConcern = `${criticalErrors} critical JavaScript errors detected`;
     severity = 'critical';
+  } else if (failuresWithServerErrors > 0) {
+    primaryConcern = `Dev server errors behind ${failuresWithServerErrors} failed request(s)`;
+    severity = 'high';
   } else if (javascriptErrors > 2) {
     primaryConcern = `Multiple JavaScript errors (${javascriptErrors}) affecting functionality`;
     severity = 'high';
@@ -658,6 +692,7 @@ function generateDiagnosticSummary(
     networkFailures,
     consoleErrors,
     javascriptErrors,
+    serverErrors,
     primaryConcern,
     severity
   };
@@ -719,6 +754,15 @@ function generateActionableInsights(
     }
   }
 
+  // Backend issues from the dev server output
+  if (summary.serverErrors > 0) {
+    insights.push(`🖥️ Server Issues: ${summary.serverErrors} errors in the dev server output - check backend logs and stack traces`);
+  }
+
+  for (const failure of networkAnalysis.failures.filter(f => f.serverOutput).slice(0, 3)) {
+    insights.push(`   → ${failure.method} ${failure.url} (${failure.status}) ← server: ${failure.serverOutput![0].message.substring(0, 100)}`);
+  }
+
   // Performance issues
   if (networkAnalysis.slowRequests.length > 0) {
     insights.push(`⏱️ Performance: ${networkAnalysis.slowRequests.length} slow requests detected - consider optimization`);
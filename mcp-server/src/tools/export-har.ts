@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ControlApiClient,
+  HarDocument,
+  LogEntry,
+  createHarDocument,
+  decodeLogContent,
+  harRecordFromNetworkEvent,
+  isEventType
+} from 'daisy-shared';
+import { findSession } from '../session-index.js';
+
+export interface ExportHarArgs {
+  source?: 'log' | 'live'; // log: network entries of a session log; live: daemon's network buffer
+  sessionId?: string; // Session to export from (source "log" only; defaults to the loaded session)
+  outputPath?: string; // Write the HAR here instead of returning it inline
+  limit?: number; // Most recent requests to include
+}
+
+export async function exportHar(
+  args: ExportHarArgs,
+  entries: LogEntry[],
+  sessionsIndexPath: string,
+  controlApi: ControlApiClient
+) {
+  const source = args.source || 'log';
+
+  try {
+    let har: HarDocument;
+
+    if (source === 'live') {
+      har = await controlApi.exportHar({ limit: args.limit || undefined });
+    } else {
+      let logEntries = entries;
+      let comment = 'Exported from the loaded daisy session log';
+
+      if (args.sessionId) {
+        const session = findSession(sessionsIndexPath, args.sessionId);
+        if (!session) {
+          throw new Error(`Session not found: ${args.sessionId}. Use list_sessions to see available sessions.`);
+        }
+        const { records } = decodeLogContent(fs.readFileSync(session.logFile, 'utf8'));
+        logEntries = records.flatMap(record => record.kind === 'entry' ? [record.entry] : []);
+        comment = `Exported from daisy session ${session.id}`;
+      }
+
+      let networkEntries = logEntries.filter(entry => isEventType(entry, 'network'));
+      if (args.limit && args.limit > 0) {
+        networkEntries = networkEntries.slice(-args.limit);
+      }
+      har = createHarDocument(networkEntries.map(harRecordFromNetworkEvent), { comment });
+    }
+
+    if (args.outputPath) {
+      const outputPath = path.resolve(args.outputPath);
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, JSON.stringify(har, null, 2));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              source,
+              path: outputPath,
+              entries: har.log.entries.length
+            }, null, 2)
+          }
+        ]
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(har, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: 'Failed to export HAR',
+            source,
+            details: error instanceof Error ? error.message : String(error)
+          }, null, 2)
+        }
+      ],
+      isError: true
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  LogEntry,
+  TEST_EXPORT_EXTENSIONS,
+  TestExportFormat,
+  decodeLogContent,
+  generateTestScript,
+  isGeneratedTestScript
+} from 'daisy-shared';
+import { findSession } from '../session-index.js';
+
+export interface ExportTestArgs {
+  format?: TestExportFormat; // playwright (default), puppeteer or cypress
+  sessionId?: string; // Session to export from (defaults to the loaded session)
+  from?: string; // ISO timestamp, inclusive
+  to?: string;
+  name?: string; // Test title
+  outputPath?: string; // Write the script here (relative to the tests directory under the daisy logs) instead of returning it inline
+}
+
+export async function exportTest(args: ExportTestArgs, entries: LogEntry[], sessionsIndexPath: string) {
+  const format = args.format || 'playwright';
+
+  try {
+    let logEntries = entries;
+    let sessionId: string | undefined;
+
+    if (args.sessionId) {
+      const session = findSession(sessionsIndexPath, args.sessionId);
+      if (!session) {
+        throw new Error(`Session not found: ${args.sessionId}. Use list_sessions to see available sessions.`);
+      }
+      const { records } = decodeLogContent(fs.readFileSync(session.logFile, 'utf8'));
+      logEntries = records.flatMap(record => record.kind === 'entry' ? [record.entry] : []);
+      sessionId = session.id;
+    }
+
+    const result = generateTestScript(logEntries, {
+      format,
+      from: args.from,
+      to: args.to,
+      name: args.name,
+      sessionId
+    });
+
+    const summary = {
+      success: true,
+      format,
+      steps: result.steps,
+      assertions: result.assertions,
+      baseUrl: result.baseUrl || null
+    };
+
+    if (args.outputPath) {
+      const outputPath = resolveOutputPath(path.join(path.dirname(sessionsIndexPath), TESTS_DIR), args.outputPath);
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      writeExport(outputPath, result.script);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ ...summary, path: outputPath }, null, 2)
+          }
+        ]
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(summary, null, 2)
+        },
+        {
+          type: 'text',
+          text: result.script
+        }
+      ]
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: 'Failed to export test',
+            format,
+            details: error instanceof Error ? error.message : String(error)
+          }, null, 2)
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+// Exports go here, apart from the session index and logs next to it
+const TESTS_DIR = 'tests';
+
+/**
+ * Where to write an exported script: a client may only choose a test file inside the
+ * tests directory, so it cannot overwrite the session logs or the user's other files
+ */
+function resolveOutputPath(testsDir: string, outputPath: string): string {
+  const root = path.resolve(testsDir);
+  const resolved = path.resolve(root, outputPath);
+  const relative = path.relative(root, resolved);
+  if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`outputPath must be a file inside the daisy tests directory (${root}), got ${outputPath}`);
+  }
+
+  const extensions = Object.values(TEST_EXPORT_EXTENSIONS);
+  if (!extensions.some(extension => resolved.endsWith(extension))) {
+    throw new Error(`outputPath must end in ${extensions.join(', ')}, got ${outputPath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Write a new file, or replace one an earlier export wrote; anything else is left alone
+ */
+function writeExport(outputPath: string, script: string): void {
+  try {
+    fs.writeFileSync(outputPath, script, { flag: 'wx' });
+    return;
+  } catch (error: any) {
+    if (error.code !== 'EEXIST') {
+      throw error;
+    }
+  }
+
+  const existing = fs.lstatSync(outputPath);
+  if (!existing.isFile() || !isGeneratedTestScript(fs.readFileSync(outputPath, 'utf8'))) {
+    throw new Error(`${outputPath} already exists and was not exported by daisy; choose another outputPath`);
+  }
+  fs.writeFileSync(outputPath, script);
+}
@@ -1,4 +1,5 @@
 import { DaisyLogEntry, DaisyLogParser } from '../log-parser.js';
+import { getEventMessage, getEventStack } from 'daisy-shared';
 
 export interface FindErrorsArgs {
   logFile?: string;
@@ -59,7 +60,7 @@ export async function findErrors(args: FindErrorsArgs, allEntries: DaisyLogEntry
                 hasScreenshot: entry.hasScreenshot,
                 data: entry.data,
                 context: entry.context,
-                surrounding_context: (entry as any).surrounding_context
+                surrounding_context: entry.surrounding_context
               }))
             }))
           }, null, 2)
@@ -81,6 +82,17 @@ export async function findErrors(args: FindErrorsArgs, allEntries: DaisyLogEntry
   }
 }
 
+interface ContextEntrySummary {
+  timestamp: string;
+  type: string;
+  level: string;
+  summary?: string;
+}
+
+type ErrorGroupEntry = DaisyLogEntry & {
+  surrounding_context?: { before: ContextEntrySummary[]; after: ContextEntrySummary[] };
+};
+
 interface ErrorGroup {
   type: 'javascript_error' | 'network_failure' | 'console_error' | 'runtime_error' | 'unknown_error';
   pattern: string;
@@ -88,7 +100,7 @@ interface ErrorGroup {
   severity: number;
   first_occurrence: string;
   last_occurrence: string;
-  entries: DaisyLogEntry[];
+  entries: ErrorGroupEntry[];
   recommendations: string[];
 }
 
@@ -141,8 +153,8 @@ interface ErrorInfo {
 function classifyError(entry: DaisyLogEntry): ErrorInfo | null {
   // JavaScript/Runtime Errors
   if (entry.type === 'error' || (entry.type === 'console' && entry.level === 'error')) {
-    const message = entry.data?.message || entry.summary || '';
-    const stack = entry.data?.stack || entry.context?.stackTrace || '';
+    const message = getEventMessage(entry) || entry.summary || '';
+    const stack = getEventStack(entry) || '';
     
     // Classify by error type
     if (message.includes('TypeError') || stack.includes('TypeError')) {
@@ -305,30 +317,33 @@ function generateErrorRecommendations(type: string, pattern: string, entry: Dais
 }
 
 function addContextToErrors(errorGroups: ErrorGroup[], allEntries: DaisyLogEntry[]): void {
+  const summarize = (e: DaisyLogEntry): ContextEntrySummary => ({
+    timestamp: e.timestamp,
+    type: e.type,
+    level: e.level,
+    summary: e.summary
+  });
+
   for (const group of errorGroups) {
-    for (const errorEntry of group.entries) {
+    // Copy entries rather than mutating the parser's cached ones
+    group.entries = group.entries.map(errorEntry => {
       // Find surrounding log entries (3 before, 3 after)
       const errorIndex = allEntries.findIndex(e => e.id === errorEntry.id);
-      if (errorIndex !== -1) {
-        const contextBefore = allEntries.slice(Math.max(0, errorIndex - 3), errorIndex);
-        const contextAfter = allEntries.slice(errorIndex + 1, errorIndex + 4);
-        
-        (errorEntry as any).surrounding_context = {
-          before: contextBefore.map(e => ({
-            timestamp: e.timestamp,
-            type: e.type,
-            level: e.level,
-            summary: e.summary
-          })),
-          after: contextAfter.map(e => ({
-            timestamp: e.timestamp,
-            type: e.type,
-            level: e.level,
-            summary: e.summary
-          }))
-        };
+      if (errorIndex === -1) {
+        return errorEntry;
       }
-    }
+
+      const contextBefore = allEntries.slice(Math.max(0, errorIndex - 3), errorIndex);
+      const contextAfter = allEntries.slice(errorIndex + 1, errorIndex + 4);
+
+      return {
+        ...errorEntry,
+        surrounding_context: {
+          before: contextBefore.map(summarize),
+          after: contextAfter.map(summarize)
+        }
+      };
+    });
   }
 }
 
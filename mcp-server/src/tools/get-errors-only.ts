@@ -1,4 +1,5 @@
 import { DaisyLogEntry, DaisyLogParser } from '../log-parser.js';
+import { getEventMessage, getEventStack, groupErrorsByRoute, resolveRoutes } from 'daisy-shared';
 
 export interface GetErrorsOnlyArgs {
   logFile?: string;
@@ -6,6 +7,17 @@ export interface GetErrorsOnlyArgs {
   includeContext?: boolean;
 }
 
+interface ContextEntrySummary {
+  timestamp: string;
+  type: string;
+  level: string;
+  summary?: string;
+}
+
+type ErrorWithContext = DaisyLogEntry & {
+  contextEntries?: { before: ContextEntrySummary[]; after: ContextEntrySummary[] };
+};
+
 export async function getErrorsOnly(args: GetErrorsOnlyArgs, allEntries: DaisyLogEntry[], parser: DaisyLogParser) {
   try {
     const timeWindow = (args.timeWindow || 10) * 60 * 1000;
@@ -17,9 +29,12 @@ export async function getErrorsOnly(args: GetErrorsOnlyArgs, allEntries: DaisyLo
     
     // Extract only error-level entries
     const errorEntries = recentEntries.filter(entry => entry.level === 'error');
+
+    // Routes come from the whole log: the page may have been opened before the window
+    const routes = resolveRoutes(allEntries);
     
     // Add context if requested
-    let entriesWithContext = errorEntries;
+    let entriesWithContext: ErrorWithContext[] = errorEntries;
     if (args.includeContext) {
       entriesWithContext = errorEntries.map(errorEntry => {
         const errorIndex = recentEntries.findIndex(e => e.id === errorEntry.id);
@@ -55,16 +70,25 @@ export async function getErrorsOnly(args: GetErrorsOnlyArgs, allEntries: DaisyLo
               timeWindow: `${args.timeWindow || 10} minutes`,
               totalEntries: recentEntries.length,
               errorCount: errorEntries.length,
+              serverErrorCount: errorEntries.filter(e => e.type === 'server').length,
               contextIncluded: args.includeContext || false
             },
-            errors: entriesWithContext.map(entry => ({
+            byRoute: groupErrorsByRoute(errorEntries, routes),
+            errors: entriesWithContext.map((entry, index) => ({
               timestamp: entry.timestamp,
               type: entry.type,
               source: entry.source,
-              message: entry.data?.message || entry.summary,
-              location: entry.data?.source || 'unknown',
-              stack: entry.data?.stack,
-              context: (entry as any).contextEntries
+              message: getEventMessage(entry) || entry.summary,
+              route: routes.get(errorEntries[index]),
+              location: (entry.type === 'console' ? entry.data.source : undefined) || 'unknown',
+              stack: getEventStack(entry),
+              status: entry.type === 'network' ? entry.data.status : undefined,
+              // Screen recording of the seconds before (--record-video), under screenshots/clips/<id>/
+              clip: entry.clip,
+              relatedServerOutput: entry.type === 'network'
+                ? parser.summarizeServerOutput(parser.findRelatedServerOutput(recentEntries, entry))
+                : undefined,
+              context: entry.contextEntries
             }))
           }, null, 2)
         }
@@ -84,4 +108,4 @@ export async function getErrorsOnly(args: GetErrorsOnlyArgs, allEntries: DaisyLo
       isError: true
     };
   }
-}
\ No newline at end of file
+}
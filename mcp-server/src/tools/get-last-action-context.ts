@@ -1,4 +1,5 @@
 import { DaisyLogEntry, DaisyLogParser } from '../log-parser.js';
+import { getEventMessage, getEventStack, isEventType, resolveRoutes } from 'daisy-shared';
 
 export interface GetLastActionContextArgs {
   logFile?: string;
@@ -10,9 +11,9 @@ export async function getLastActionContext(args: GetLastActionContextArgs, allEn
     const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString();
     const recentEntries = allEntries.filter(entry => entry.timestamp >= fiveMinutesAgo);
     
-    // Find the last user interaction (interaction is a valid type in our logs)
+    // Find the last user interaction; a route change is the effect of one, not an action itself
     const lastAction = recentEntries
-      .filter(entry => (entry as any).type === 'interaction')
+      .flatMap(entry => isEventType(entry, 'interaction') && entry.data.action !== 'ROUTE' ? [entry] : [])
       .sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
     
     if (!lastAction) {
@@ -31,6 +32,9 @@ export async function getLastActionContext(args: GetLastActionContextArgs, allEn
       };
     }
     
+    const action = lastAction.data;
+    const route = resolveRoutes(allEntries).get(lastAction);
+
     // Find errors that occurred within 5 seconds after the action
     const actionTime = new Date(lastAction.timestamp).getTime();
     const fiveSecondsLater = new Date(actionTime + 5000).toISOString();
@@ -57,17 +61,26 @@ export async function getLastActionContext(args: GetLastActionContextArgs, allEn
           text: JSON.stringify({
             summary: {
               lastActionTime: lastAction.timestamp,
-              actionType: lastAction.data?.action,
-              target: lastAction.data?.target,
+              actionType: action.action,
+              target: action.target,
+              route,
               errorsFound: errorsAfterAction.length,
               contextWindow: '10 seconds around action'
             },
             lastAction: {
               timestamp: lastAction.timestamp,
               type: lastAction.type,
-              action: lastAction.data?.action,
-              target: lastAction.data?.target,
-              elementType: lastAction.data?.element_type,
+              action: action.action,
+              target: action.target,
+              elementType: action.element_type,
+              selector: action.selector,
+              url: lastAction.context?.url,
+              route,
+              // What was typed, pressed, selected or toggled
+              text: action.text,
+              key: action.key,
+              values: action.values,
+              checked: action.checked,
               summary: lastAction.summary
             },
             errorsAfterAction: errorsAfterAction.map(error => ({
@@ -75,8 +88,8 @@ export async function getLastActionContext(args: GetLastActionContextArgs, allEn
               timeSinceAction: `${Math.round((new Date(error.timestamp).getTime() - actionTime) / 1000)}s`,
               type: error.type,
               source: error.source,
-              message: error.data?.message || error.summary,
-              stack: error.data?.stack
+              message: getEventMessage(error) || error.summary,
+              stack: getEventStack(error)
             })),
             contextTimeline: contextEntries.map(entry => ({
               timestamp: entry.timestamp,
@@ -1,4 +1,5 @@
 import { ParsedLogData, DaisyLogEntry, LogStatistics } from '../log-parser.js';
+import { getEventMessage, groupErrorsByRoute, resolveRoutes } from 'daisy-shared';
 
 export interface GetLogSummaryArgs {
   logFile?: string;
@@ -297,6 +298,7 @@ function generateIssueAnalysis(entries: DaisyLogEntry[]) {
       low: entries.filter(e => e.severity && e.severity <= 2).length
     },
     categories: issuesByCategory,
+    errors_by_route: groupErrorsByRoute(entries.filter(e => e.level === 'error'), resolveRoutes(entries)),
     most_critical: criticalIssues.slice(0, 5).map(e => ({
       summary: e.summary,
       timestamp: e.timestamp,
@@ -536,7 +538,7 @@ function formatDuration(ms: number): string {
 }
 
 function extractErrorPattern(error: DaisyLogEntry): string {
-  const message = error.data?.message || error.summary || 'Unknown error';
+  const message = getEventMessage(error) || error.summary || 'Unknown error';
   return message.substring(0, 50).replace(/\d+/g, 'N').replace(/['"`]([^'"`]+)['"`]/g, '"VALUE"');
 }
 
@@ -1,4 +1,5 @@
 import { DaisyLogEntry, DaisyLogParser } from '../log-parser.js';
+import { isEventType } from 'daisy-shared';
 
 export interface GetNetworkFailuresArgs {
   logFile?: string;
@@ -17,11 +18,9 @@ export async function getNetworkFailures(args: GetNetworkFailuresArgs, allEntrie
     const recentEntries = allEntries.filter(entry => entry.timestamp >= cutoff);
     
     // Extract only failed network requests
-    const networkFailures = recentEntries.filter(entry => {
-      return entry.type === 'network' && 
-             entry.data?.status && 
-             statusCodes.includes(entry.data.status);
-    });
+    const networkFailures = recentEntries
+      .filter(entry => isEventType(entry, 'network'))
+      .filter(entry => entry.data.status && statusCodes.includes(entry.data.status));
 
     return {
       content: [
@@ -36,14 +35,14 @@ export async function getNetworkFailures(args: GetNetworkFailuresArgs, allEntrie
             },
             failures: networkFailures.map(entry => ({
               timestamp: entry.timestamp,
-              method: entry.data?.method || 'UNKNOWN',
-              url: entry.data?.url,
-              status: entry.data?.status,
-              headers: entry.data?.headers,
-              requestBody: entry.data?.requestBody,
-              responseBody: entry.data?.responseBody,
-              errorType: (entry.context as any)?.errorType,
-              description: (entry.context as any)?.description
+              method: entry.data.method || 'UNKNOWN',
+              url: entry.data.url,
+              status: entry.data.status,
+              headers: entry.data.headers,
+              requestBody: entry.data.requestBody,
+              responseBody: entry.data.responseBody,
+              errorType: entry.context?.errorType,
+              description: entry.context?.description
             }))
           }, null, 2)
         }
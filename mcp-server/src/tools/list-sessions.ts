@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import { readSessionIndex, SessionRecord } from '../session-index.js';
+
+export interface ListSessionsArgs {
+  limit?: number;
+  status?: 'running' | 'completed' | 'interrupted' | 'crashed';
+}
+
+export async function listSessions(args: ListSessionsArgs, sessionsIndexPath: string, activeLogFiles: string[]) {
+  try {
+    const limit = args.limit || 20;
+    let sessions = readSessionIndex(sessionsIndexPath);
+
+    if (args.status) {
+      sessions = sessions.filter(s => s.exitStatus === args.status);
+    }
+
+    const limited = sessions.slice(0, limit);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            summary: {
+              sessionsIndex: sessionsIndexPath,
+              totalSessions: sessions.length,
+              returned: limited.length
+            },
+            sessions: limited.map(session => ({
+              id: session.id,
+              startTime: session.startTime,
+              endTime: session.endTime || null,
+              duration: formatSessionDuration(session),
+              script: session.script,
+              appPort: session.appPort,
+              exitStatus: session.exitStatus,
+              scriptExitCode: session.scriptExitCode ?? null,
+              logFile: session.logFile,
+              logSizeBytes: getFileSize(session.logFile),
+              screenshotsDir: session.screenshotsDir,
+              active: activeLogFiles.includes(session.logFile)
+            }))
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Failed to list sessions',
+            details: error instanceof Error ? error.message : String(error)
+          }, null, 2)
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+function formatSessionDuration(session: SessionRecord): string | null {
+  if (!session.endTime) {
+    return null;
+  }
+
+  const ms = new Date(session.endTime).getTime() - new Date(session.startTime).getTime();
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+function getFileSize(filePath: string): number | null {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return null;
+  }
+}
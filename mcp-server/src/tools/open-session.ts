@@ -0,0 +1,61 @@
+import { findSession, SessionRecord } from '../session-index.js';
+
+export interface OpenSessionArgs {
+  sessionId: string;
+}
+
+export async function openSession(
+  args: OpenSessionArgs,
+  sessionsIndexPath: string,
+  loadSession: (session: SessionRecord) => Promise<number>
+) {
+  try {
+    if (!args.sessionId) {
+      throw new Error('sessionId is required (use "latest" for the newest session)');
+    }
+
+    const session = findSession(sessionsIndexPath, args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}. Use list_sessions to see available sessions.`);
+    }
+
+    const entryCount = await loadSession(session);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            session: {
+              id: session.id,
+              startTime: session.startTime,
+              endTime: session.endTime || null,
+              script: session.script,
+              appPort: session.appPort,
+              exitStatus: session.exitStatus,
+              logFile: session.logFile,
+              screenshotsDir: session.screenshotsDir
+            },
+            entriesLoaded: entryCount,
+            message: 'All log analysis tools now read from this session'
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: 'Failed to open session',
+            details: error instanceof Error ? error.message : String(error)
+          }, null, 2)
+        }
+      ],
+      isError: true
+    };
+  }
+}
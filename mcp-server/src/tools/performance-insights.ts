@@ -1,4 +1,5 @@
 import { DaisyLogEntry, DaisyLogParser } from '../log-parser.js';
+import { NetworkEventData, NetworkTiming, PerformanceDetails, getEventMessage, isEventType } from 'daisy-shared';
 
 export interface PerformanceInsightsArgs {
   logFile?: string;
@@ -69,30 +70,24 @@ export async function performanceInsights(args: PerformanceInsightsArgs, allEntr
 }
 
 function analyzeLoadTimes(entries: DaisyLogEntry[]) {
-  const loadEvents = entries.filter(e => 
-    e.type === 'page' || 
-    (e.type === 'performance' && e.data?.metric?.includes('load'))
-  );
+  const performanceEntries = entries.filter(e => isEventType(e, 'performance'));
 
   const loadTimes: number[] = [];
   const pageLoadEvents = [];
 
-  for (const entry of loadEvents) {
-    if (entry.type === 'page' && entry.data?.details) {
-      const details = entry.data.details;
-      if (details.loadEventEnd && details.loadEventStart) {
-        const loadTime = details.loadEventEnd - details.loadEventStart;
-        loadTimes.push(loadTime);
-        pageLoadEvents.push({
-          timestamp: entry.timestamp,
-          loadTime,
-          url: entry.context?.url,
-          details
-        });
-      }
-    } else if (entry.type === 'performance' && entry.data?.details?.duration) {
-      loadTimes.push(entry.data.details.duration);
+  for (const entry of performanceEntries) {
+    const loadTime = getLoadTime(entry.data.details);
+    if (loadTime === null) {
+      continue;
     }
+
+    loadTimes.push(loadTime);
+    pageLoadEvents.push({
+      timestamp: entry.timestamp,
+      loadTime,
+      url: entry.context?.url,
+      title: entry.data.details.title
+    });
   }
 
   if (loadTimes.length === 0) {
@@ -140,7 +135,11 @@ function analyzeNetworkPerformance(entries: DaisyLogEntry[], thresholds: any) {
       url: data?.url || '',
       status: data?.status || context?.statusCode || 0,
       responseSize: estimateResponseSize(data),
-      isSlowRequest: false, // Will be determined based on timing if available
+      transferSize: data.encodedSize ?? null,
+      duration: data.duration ?? null,
+      timing: data.timing ?? null,
+      cache: data.cache ?? null,
+      isSlowRequest: data.duration !== undefined && data.duration > thresholds.slowRequestMs,
       entry
     };
   });
@@ -148,12 +147,22 @@ function analyzeNetworkPerformance(entries: DaisyLogEntry[], thresholds: any) {
   // Analyze request patterns
   const statusDistribution: Record<number, number> = {};
   const methodDistribution: Record<string, number> = {};
+  const cacheDistribution: Record<string, number> = {};
+  const durations: number[] = [];
   let largeResponses = 0;
   let failedRequests = 0;
+  let bytesTransferred = 0;
 
   requests.forEach(req => {
     statusDistribution[req.status] = (statusDistribution[req.status] || 0) + 1;
     methodDistribution[req.method] = (methodDistribution[req.method] || 0) + 1;
+    if (req.cache) {
+      cacheDistribution[req.cache] = (cacheDistribution[req.cache] || 0) + 1;
+    }
+    if (req.duration !== null) {
+      durations.push(req.duration);
+    }
+    bytesTransferred += req.transferSize || 0;
     
     if (req.responseSize > thresholds.largeResponseBytes) {
       largeResponses++;
@@ -164,6 +173,9 @@ function analyzeNetworkPerformance(entries: DaisyLogEntry[], thresholds: any) {
     }
   });
 
+  const slowRequests = requests.filter(r => r.isSlowRequest);
+  durations.sort((a, b) => a - b);
+
   const successRate = requests.length > 0 ? 
     ((requests.length - failedRequests) / requests.length) * 100 : 0;
 
@@ -174,23 +186,29 @@ function analyzeNetworkPerformance(entries: DaisyLogEntry[], thresholds: any) {
       success_rate_percent: Math.round(successRate * 100) / 100,
       failed_requests: failedRequests,
       large_responses: largeResponses,
+      slow_requests: slowRequests.length,
+      timed_requests: durations.length,
+      avg_duration_ms: durations.length > 0 ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length) : null,
+      p95_duration_ms: durations.length > 0 ? Math.round(durations[Math.min(durations.length - 1, Math.floor(durations.length * 0.95))]) : null,
+      bytes_transferred: bytesTransferred,
       status_distribution: statusDistribution,
-      method_distribution: methodDistribution
+      method_distribution: methodDistribution,
+      cache_distribution: cacheDistribution
     },
     performance_issues: {
+      slow_requests: slowRequests.sort((a, b) => (b.duration || 0) - (a.duration || 0)),
       large_responses: requests.filter(r => r.responseSize > thresholds.largeResponseBytes),
       failed_requests: requests.filter(r => r.status >= 400),
       redirect_chains: requests.filter(r => r.status >= 300 && r.status < 400)
     },
-    insights: generateNetworkInsights(successRate, failedRequests, requests.length, largeResponses)
+    insights: generateNetworkInsights(successRate, failedRequests, requests.length, largeResponses, slowRequests)
   };
 }
 
 function analyzeMemoryUsage(entries: DaisyLogEntry[]) {
-  const memoryEntries = entries.filter(e => 
-    e.type === 'performance' && 
-    e.data?.metric?.toLowerCase().includes('memory')
-  );
+  const memoryEntries = entries
+    .filter(e => isEventType(e, 'performance'))
+    .filter(e => extractMemoryValue(e.data.details) !== null);
 
   if (memoryEntries.length === 0) {
     return {
@@ -201,9 +219,9 @@ function analyzeMemoryUsage(entries: DaisyLogEntry[]) {
 
   const memorySnapshots = memoryEntries.map(entry => ({
     timestamp: entry.timestamp,
-    metric: entry.data?.metric,
-    value: extractMemoryValue(entry.data?.details),
-    details: entry.data?.details
+    metric: entry.data.metric,
+    value: extractMemoryValue(entry.data.details),
+    details: entry.data.details
   })).filter(snapshot => snapshot.value !== null);
 
   if (memorySnapshots.length === 0) {
@@ -235,17 +253,16 @@ function identifyBottlenecks(entries: DaisyLogEntry[], thresholds: any) {
   const bottlenecks = [];
 
   // Network bottlenecks
-  const slowNetworkRequests = entries.filter(e => 
-    e.type === 'network' && 
-    e.severity && e.severity >= 3
-  );
+  const slowNetworkRequests = entries
+    .filter(e => isEventType(e, 'network'))
+    .filter(e => (e.severity && e.severity >= 3) || (e.data.duration !== undefined && e.data.duration > thresholds.slowRequestMs));
 
   if (slowNetworkRequests.length > 0) {
     bottlenecks.push({
       type: 'network',
       severity: 'high',
       description: `${slowNetworkRequests.length} slow or failed network requests detected`,
-      affected_urls: [...new Set(slowNetworkRequests.map(e => e.data?.url).filter(Boolean))],
+      affected_urls: [...new Set(slowNetworkRequests.map(e => e.data.url).filter(Boolean))],
       recommendations: [
         'Optimize API endpoints for faster response times',
         'Implement request caching where appropriate',
@@ -367,25 +384,48 @@ function getPerformanceGrade(avgLoadTime: number): string {
   return 'F'; // Very Poor
 }
 
-function estimateResponseSize(data: any): number {
+function estimateResponseSize(data: NetworkEventData): number {
   // Estimate response size from available data
-  if (data?.headers?.['content-length']) {
+  if (data.responseSize) {
+    return data.responseSize;
+  }
+  if (data.headers?.['content-length']) {
     return parseInt(data.headers['content-length']) || 0;
   }
-  if (data?.responseBody) {
+  if (data.responseBody) {
     return JSON.stringify(data.responseBody).length;
   }
   return 0;
 }
 
-function extractMemoryValue(details: any): number | null {
-  if (!details) return null;
-  
-  // Try different possible memory value locations
-  if (typeof details.usedJSHeapSize === 'number') return details.usedJSHeapSize;
-  if (typeof details.totalJSHeapSize === 'number') return details.totalJSHeapSize;
+/**
+ * Load time in ms, either recorded directly or derived from CDP Performance.metrics
+ * (timestamps in seconds)
+ */
+function getLoadTime(details: PerformanceDetails): number | null {
+  if (typeof details.duration === 'number') {
+    return details.duration;
+  }
+
+  const metric = (name: string) => details.metrics?.find(m => m.name === name)?.value;
+  const navigationStart = metric('NavigationStart');
+  const domContentLoaded = metric('DomContentLoaded');
+  if (navigationStart && domContentLoaded && domContentLoaded >= navigationStart) {
+    return (domContentLoaded - navigationStart) * 1000;
+  }
+
+  return null;
+}
+
+function extractMemoryValue(details: PerformanceDetails): number | null {
+  // CDP Performance.metrics reports the JS heap as JSHeapUsedSize/JSHeapTotalSize
+  const metric = (name: string) => details.metrics?.find(m => m.name === name)?.value;
+
+  const used = metric('JSHeapUsedSize') ?? details.usedJSHeapSize;
+  if (typeof used === 'number') return used;
+  const total = metric('JSHeapTotalSize') ?? details.totalJSHeapSize;
+  if (typeof total === 'number') return total;
   if (typeof details.memoryUsage === 'number') return details.memoryUsage;
-  if (typeof details === 'number') return details;
   
   return null;
 }
@@ -427,7 +467,13 @@ function generateLoadTimeInsights(avg: number, max: number, count: number): stri
   return insights;
 }
 
-function generateNetworkInsights(successRate: number, failed: number, total: number, large: number): string[] {
+function generateNetworkInsights(
+  successRate: number,
+  failed: number,
+  total: number,
+  large: number,
+  slow: Array<{ timing: NetworkTiming | null }>
+): string[] {
   const insights = [];
   
   if (successRate < 90) {
@@ -441,6 +487,17 @@ function generateNetworkInsights(successRate: number, failed: number, total: num
   if (large > 0) {
     insights.push(`${large} large responses detected - consider response optimization`);
   }
+
+  // Say where slow requests spend their time: waiting on the server or downloading
+  const timed = slow.map(r => r.timing).filter((t): t is NetworkTiming => t !== null);
+  if (timed.length > 0) {
+    const serverBound = timed.filter(t => t.ttfb >= t.download).length;
+    insights.push(serverBound >= timed.length / 2
+      ? `${slow.length} slow requests are mostly waiting for the server (time to first byte) - look at backend latency`
+      : `${slow.length} slow requests are mostly spent downloading - reduce payload size or enable compression`);
+  } else if (slow.length > 0) {
+    insights.push(`${slow.length} requests exceeded the slow request threshold`);
+  }
   
   return insights;
 }
@@ -470,7 +527,7 @@ function getTopErrorPatterns(errors: DaisyLogEntry[]): string[] {
   const patterns: Record<string, number> = {};
   
   errors.forEach(error => {
-    const message = error.data?.message || error.summary || 'Unknown error';
+    const message = getEventMessage(error) || error.summary || 'Unknown error';
     const pattern = message.substring(0, 50);
     patterns[pattern] = (patterns[pattern] || 0) + 1;
   });
@@ -498,8 +555,8 @@ function generateDetailedMetrics(entries: DaisyLogEntry[], thresholds: any) {
     })),
     page_events: entries.filter(e => e.type === 'page').map(e => ({
       timestamp: e.timestamp,
-      event: e.data?.event,
-      details: e.data?.details,
+      event: e.data.event,
+      url: e.data.url,
       summary: e.summary
     }))
   };
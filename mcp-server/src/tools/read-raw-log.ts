@@ -1,27 +1,29 @@
 import * as fs from 'fs';
-import * as path from 'path';
+import { LEGACY_LOG_FORMAT, LogRecord, decodeLogContent } from 'daisy-shared';
 
 export interface ReadRawLogArgs {
   logFile?: string;
-  lines?: number;
+  lines?: number; // Number of log records (not physical lines) to return
   fromEnd?: boolean;
   filter?: string; // Filter by log level or type
   timeWindow?: number; // Minutes back from now
 }
 
-export async function readRawLog(args: ReadRawLogArgs) {
+type EntryRecord = Extract<LogRecord, { kind: 'entry' }>;
+
+export async function readRawLog(args: ReadRawLogArgs, defaultLogFile?: string) {
+  // Default to the log file the server is currently watching
+  const logFile = args.logFile || defaultLogFile;
+
   try {
-    // Default to the standard daisy log file if not specified
-    const logFile = args.logFile || 'C:/Users/aldvincent/.daisy/logs/daisy-current.log';
-    
-    if (!fs.existsSync(logFile)) {
+    if (!logFile || !fs.existsSync(logFile)) {
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
               error: 'Log file not found',
-              path: logFile,
+              path: logFile || null,
               exists: false
             }, null, 2)
           }
@@ -29,47 +31,38 @@ export async function readRawLog(args: ReadRawLogArgs) {
       };
     }
 
-    // Read the entire file
+    // Work on whole records so multi-line legacy entries are never split into fragments
     const content = fs.readFileSync(logFile, 'utf8');
-    let lines = content.split('\n');
-    const totalLines = lines.length;
-    
+    const { records, parseErrors } = decodeLogContent(content);
+    const header = records.find(record => record.kind === 'header');
+    const footer = records.find(record => record.kind === 'footer');
+    let entries = records
+      .filter((record): record is EntryRecord => record.kind === 'entry')
+      .map((record, index) => ({ record, number: index + 1 }));
+    const totalRecords = entries.length;
+
     // Apply time filtering if requested
     if (args.timeWindow) {
       const cutoffTime = new Date(Date.now() - args.timeWindow * 60 * 1000).toISOString();
-      lines = lines.filter(line => {
-        if (line.includes('"timestamp"')) {
-          const match = line.match(/"timestamp":\s*"([^"]+)"/);
-          if (match) {
-            return match[1] >= cutoffTime;
-          }
-        }
-        return true; // Keep non-log lines (headers, etc.)
-      });
+      entries = entries.filter(({ record }) => record.entry.timestamp >= cutoffTime);
     }
-    
+
     // Apply content filtering if requested
     if (args.filter) {
-      lines = lines.filter(line => 
-        line.toLowerCase().includes(args.filter!.toLowerCase())
-      );
+      const filter = args.filter.toLowerCase();
+      entries = entries.filter(({ record }) => record.raw.toLowerCase().includes(filter));
     }
-    
-    // Apply line count filtering if requested
-    let selectedLines = lines;
+
+    // Apply record count filtering if requested
+    let selected = entries;
     if (args.lines && args.lines > 0) {
-      if (args.fromEnd) {
-        // Get last N lines
-        selectedLines = lines.slice(-args.lines);
-      } else {
-        // Get first N lines
-        selectedLines = lines.slice(0, args.lines);
-      }
+      selected = args.fromEnd ? selected.slice(-args.lines) : selected.slice(0, args.lines);
     }
 
     // Get file stats
     const stats = fs.statSync(logFile);
-    
+    const headerRecord = header && header.kind === 'header' ? header.header : null;
+
     return {
       content: [
         {
@@ -79,14 +72,20 @@ export async function readRawLog(args: ReadRawLogArgs) {
               path: logFile,
               size_bytes: stats.size,
               modified: stats.mtime.toISOString(),
-              total_lines: totalLines,
-              lines_returned: selectedLines.length,
-              filter_applied: args.lines ? (args.fromEnd ? `last ${args.lines} lines` : `first ${args.lines} lines`) : 'none'
+              format: headerRecord ? headerRecord.format : LEGACY_LOG_FORMAT,
+              schema_version: headerRecord?.schemaVersion ?? null,
+              session_ended: footer && footer.kind === 'footer' ? footer.endTime : null,
+              total_records: totalRecords,
+              records_matched: entries.length,
+              records_returned: selected.length,
+              parse_errors: parseErrors,
+              filter_applied: args.lines ? (args.fromEnd ? `last ${args.lines} records` : `first ${args.lines} records`) : 'none'
             },
-            raw_content: selectedLines.join('\n'),
-            line_by_line: selectedLines.map((line, index) => ({
-              line_number: args.fromEnd ? (totalLines - selectedLines.length + index + 1) : (index + 1),
-              content: line
+            header: headerRecord,
+            raw_content: selected.map(({ record }) => record.raw).join('\n'),
+            records: selected.map(({ record, number }) => ({
+              record_number: number,
+              entry: record.entry
             }))
           }, null, 2)
         }
@@ -100,11 +99,11 @@ export async function readRawLog(args: ReadRawLogArgs) {
           text: JSON.stringify({
             error: 'Failed to read log file',
             details: error instanceof Error ? error.message : String(error),
-            path: args.logFile
+            path: logFile
           }, null, 2)
         }
       ],
       isError: true
     };
   }
-}
\ No newline at end of file
+}
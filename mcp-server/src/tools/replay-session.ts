@@ -0,0 +1,105 @@
+import { ControlApiClient, ReplayResult } from 'daisy-shared';
+
+export interface ReplaySessionArgs {
+  sessionId?: string; // Session to replay (defaults to "latest")
+  from?: string; // ISO timestamp, inclusive
+  to?: string;
+  untilError?: boolean; // Replay the interactions leading up to the session's first error
+  lookbackSeconds?: number;
+  speed?: number; // 1 = recorded pace, 0 = no waiting between steps
+  stepTimeout?: number;
+  stopOnDivergence?: boolean;
+}
+
+// Replays wait between steps as the user did, so allow far longer than a single action
+const REPLAY_REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+export async function replaySession(
+  args: ReplaySessionArgs,
+  controlApi: ControlApiClient
+) {
+  try {
+    const response = await controlApi.replay({
+      sessionId: args.sessionId || 'latest',
+      from: args.from,
+      to: args.to,
+      untilError: args.untilError,
+      lookbackSeconds: args.lookbackSeconds,
+      speed: args.speed,
+      stepTimeout: args.stepTimeout,
+      stopOnDivergence: args.stopOnDivergence
+    }, { timeout: REPLAY_REQUEST_TIMEOUT_MS });
+
+    const result = response.result;
+    const okSteps = result.steps.filter(step => step.status === 'ok').length;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            summary: {
+              sessionId: result.sessionId,
+              range: result.range,
+              steps: `${okSteps}/${result.steps.length} ok`,
+              completed: result.completed,
+              reproduced: result.reproduced,
+              diverged: !!result.divergence,
+              errorsDuringReplay: result.errors.length,
+              durationMs: result.durationMs
+            },
+            originalError: result.originalError || null,
+            reproducedError: result.reproducedError || null,
+            divergence: result.divergence || null,
+            steps: result.steps,
+            errors: result.errors,
+            nextSteps: suggestNextSteps(result)
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: 'Failed to replay session',
+            details: error.message,
+            troubleshooting: [
+              'Replay needs a running daisy daemon with Chrome attached (start it with `daisy`)',
+              'Use list_sessions to find a session ID; "latest" is the running session',
+              'A session only has replayable steps if interactions were recorded (clicks, typing, keys, selects, hovers, scrolls)',
+              'Only one replay can run at a time'
+            ]
+          }, null, 2)
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+function suggestNextSteps(result: ReplayResult): string[] {
+  if (result.reproduced) {
+    return [
+      `The original error came back at step ${result.reproducedError?.stepIndex}: the steps up to it are a reliable reproduction`,
+      'Use diagnose_error or get_last_action_context to investigate, then replay again to confirm a fix'
+    ];
+  }
+  if (result.divergence) {
+    return [
+      `The replay stopped matching the recording at step ${result.divergence.stepIndex} (${result.divergence.reason})`,
+      'Check whether the selector or page changed since the session was recorded, or replay with stopOnDivergence: false'
+    ];
+  }
+  if (result.originalError) {
+    return [
+      'All steps ran but the original error did not reappear: it may depend on data, timing or server state',
+      'Try a slower speed or a longer lookbackSeconds'
+    ];
+  }
+  return ['All steps ran without application errors'];
+}
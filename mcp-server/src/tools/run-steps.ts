@@ -0,0 +1,93 @@
+import { ActionRunResult, ActionStep, ControlApiClient, getEventMessage } from 'daisy-shared';
+
+export interface RunStepsArgs {
+  steps: ActionStep[];
+  stepTimeout?: number; // Milliseconds per step unless the step sets its own timeout
+  continueOnError?: boolean;
+  targetId?: string; // Attached target to act on; main tab when omitted
+}
+
+const DEFAULT_STEP_TIMEOUT_MS = 10000;
+// Headroom on top of the steps' own timeouts for the request itself
+const REQUEST_TIMEOUT_MARGIN_MS = 30000;
+
+export async function runSteps(args: RunStepsArgs, controlApi: ControlApiClient) {
+  try {
+    const steps = args.steps || [];
+    const stepsTimeout = steps.reduce((total, step) => total + (step.timeout ?? args.stepTimeout ?? DEFAULT_STEP_TIMEOUT_MS), 0);
+
+    const response = await controlApi.runActions({
+      steps,
+      stepTimeout: args.stepTimeout,
+      continueOnError: args.continueOnError,
+      targetId: args.targetId
+    }, { timeout: stepsTimeout + REQUEST_TIMEOUT_MARGIN_MS });
+
+    const result = response.result;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            summary: {
+              passed: result.passed,
+              steps: `${result.steps.filter(step => step.status === 'ok').length}/${result.steps.length} ok`,
+              completed: result.completed,
+              failedStep: result.failedStep ?? null,
+              durationMs: result.durationMs
+            },
+            steps: result.steps.map(step => ({
+              ...step,
+              // The full entries are in the log; the messages show what each step caused
+              logs: step.logs.map(entry => ({
+                timestamp: entry.timestamp,
+                type: entry.type,
+                level: entry.level,
+                message: getEventMessage(entry) || entry.source
+              }))
+            })),
+            nextSteps: suggestNextSteps(result, steps)
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: 'Failed to run steps',
+            details: error.message,
+            issues: error.issues,
+            troubleshooting: [
+              'Running steps needs a running daisy daemon with Chrome attached (start it with `daisy`)',
+              'Each step needs an action and that action\'s fields, e.g. {"action": "click", "selector": "#submit"}',
+              'Only one list of steps can run at a time'
+            ]
+          }, null, 2)
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+function suggestNextSteps(result: ActionRunResult, steps: ActionStep[]): string[] {
+  if (result.failedStep === undefined) {
+    return ['All steps passed'];
+  }
+  const failed = steps[result.failedStep];
+  const suggestions = [`Step ${result.failedStep} (${failed.action}) failed: ${result.steps[result.failedStep].error}`];
+  if (failed.action.startsWith('assert')) {
+    suggestions.push('The assertion\'s actual value is in its error; check the logs of the steps before it for what went wrong');
+  } else {
+    suggestions.push('Use browser_control (inspect, screenshot) to look at the page, or get_errors_only for errors the steps caused');
+  }
+  if (!result.completed) {
+    suggestions.push('Later steps were skipped: fix the failing step, or pass continueOnError to run them anyway');
+  }
+  return suggestions;
+}
@@ -1,10 +1,12 @@
 import { DaisyLogEntry, DaisyLogParser } from '../log-parser.js';
+import { getEventMessage, getEventUrl } from 'daisy-shared';
 
 export interface SearchLogsArgs {
   logFile?: string;
   pattern: string;
   timeWindow?: number; // minutes
   maxResults?: number;
+  types?: string[]; // restrict to entry types, e.g. ['server']
 }
 
 export async function searchLogs(args: SearchLogsArgs, allEntries: DaisyLogEntry[], parser: DaisyLogParser) {
@@ -19,7 +21,10 @@ export async function searchLogs(args: SearchLogsArgs, allEntries: DaisyLogEntry
     }
     
     // Get recent entries
-    const recentEntries = allEntries.filter(entry => entry.timestamp >= cutoff);
+    let recentEntries = allEntries.filter(entry => entry.timestamp >= cutoff);
+    if (args.types && args.types.length > 0) {
+      recentEntries = parser.filterByType(recentEntries, args.types);
+    }
     
     // Create regex pattern (case insensitive)
     const regex = new RegExp(args.pattern, 'i');
@@ -28,8 +33,8 @@ export async function searchLogs(args: SearchLogsArgs, allEntries: DaisyLogEntry
     const matchingEntries = recentEntries.filter(entry => {
       const searchableText = [
         entry.summary,
-        entry.data?.message,
-        entry.data?.url,
+        getEventMessage(entry),
+        getEventUrl(entry),
         entry.source,
         JSON.stringify(entry.data)
       ].join(' ').toLowerCase();
@@ -59,9 +64,13 @@ export async function searchLogs(args: SearchLogsArgs, allEntries: DaisyLogEntry
               level: entry.level,
               source: entry.source,
               summary: entry.summary,
-              message: entry.data?.message,
-              url: entry.data?.url,
-              status: entry.data?.status,
+              message: getEventMessage(entry),
+              url: getEventUrl(entry),
+              status: entry.type === 'network' ? entry.data.status : undefined,
+              stream: entry.type === 'server' ? entry.data.stream : undefined,
+              relatedServerOutput: isFailedRequest(entry)
+                ? parser.summarizeServerOutput(parser.findRelatedServerOutput(allEntries, entry))
+                : undefined,
               // Highlight the matching part
               matchContext: extractMatchContext(entry, regex)
             }))
@@ -85,11 +94,16 @@ export async function searchLogs(args: SearchLogsArgs, allEntries: DaisyLogEntry
   }
 }
 
+function isFailedRequest(entry: DaisyLogEntry): boolean {
+  return entry.type === 'network' && (entry.level === 'error' || (entry.data.status || 0) >= 500);
+}
+
 function extractMatchContext(entry: DaisyLogEntry, regex: RegExp): string {
   const searchableText = [
     entry.summary,
-    entry.data?.message,
-    entry.data?.url
+    getEventMessage(entry),
+    getEventUrl(entry),
+    entry.type === 'server' ? entry.data.lines?.join(' ') : undefined
   ].filter(Boolean).join(' ');
   
   const match = searchableText.match(regex);
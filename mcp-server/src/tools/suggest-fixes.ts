@@ -1,4 +1,5 @@
 import { DaisyLogEntry, DaisyLogParser } from '../log-parser.js';
+import { getEventMessage } from 'daisy-shared';
 
 export interface SuggestFixesArgs {
   logFile?: string;
@@ -336,7 +337,7 @@ function generateJavaScriptCodeExamples(errors: DaisyLogEntry[]): CodeExample[]
 
   // Type Error handling
   const typeErrors = errors.filter(e => 
-    e.data?.message?.includes('TypeError') || e.summary?.includes('TypeError')
+    getEventMessage(e)?.includes('TypeError') || e.summary?.includes('TypeError')
   );
   
   if (typeErrors.length > 0) {
@@ -358,7 +359,7 @@ const userName = user && user.profile && user.profile.name ? user.profile.name :
 
   // Reference Error handling
   const refErrors = errors.filter(e => 
-    e.data?.message?.includes('ReferenceError') || e.summary?.includes('ReferenceError')
+    getEventMessage(e)?.includes('ReferenceError') || e.summary?.includes('ReferenceError')
   );
   
   if (refErrors.length > 0) {
@@ -658,7 +659,7 @@ function analyzeErrorPatterns(errors: DaisyLogEntry[]) {
   const patterns: Record<string, number> = {};
   
   errors.forEach(error => {
-    const message = error.data?.message || error.summary || 'Unknown error';
+    const message = getEventMessage(error) || error.summary || 'Unknown error';
     const pattern = message.substring(0, 50);
     patterns[pattern] = (patterns[pattern] || 0) + 1;
   });
@@ -0,0 +1,240 @@
+#!/usr/bin/env node
+
+/**
+ * Generates src/control-api-client.ts from the Control API's OpenAPI document.
+ *
+ * Run after changing src/control-api.ts (the shared package must be built first):
+ *   npm run generate:control-api-client
+ * With --check it only fails when the checked-in client is out of date.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { createOpenApiDocument } = require('../dist/control-api');
+
+const OUTPUT = path.join(__dirname, '..', 'src', 'control-api-client.ts');
+const SCHEMA_PREFIX = '#/components/schemas/';
+
+// Modules of the shared types schemas name with x-ts-type
+const SHARED_TYPE_MODULES = {
+  HarDocument: './har',
+  LogEntry: './log-events'
+};
+
+// Unions longer than this are written one alternative per line
+const MAX_UNION_LINE = 100;
+
+function pascalCase(name) {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function schemaName(ref) {
+  if (!ref.startsWith(SCHEMA_PREFIX)) {
+    throw new Error(`Unsupported $ref: ${ref}`);
+  }
+  return ref.slice(SCHEMA_PREFIX.length);
+}
+
+function literal(value) {
+  return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value);
+}
+
+function propertyKey(name) {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : literal(name);
+}
+
+function docComment(schema, indent) {
+  const parts = [];
+  if (schema.description) {
+    parts.push(schema.description);
+  }
+  if (schema.default !== undefined) {
+    parts.push(`(default ${JSON.stringify(schema.default)})`);
+  }
+  return parts.length > 0 ? `${indent}/** ${parts.join(' ').replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+/**
+ * TypeScript type of a schema; `imports` collects the shared types named by x-ts-type
+ */
+function typeOf(schema, indent, imports) {
+  if (schema['x-ts-type']) {
+    if (!SHARED_TYPE_MODULES[schema['x-ts-type']]) {
+      throw new Error(`No module known for x-ts-type ${schema['x-ts-type']}: add it to SHARED_TYPE_MODULES`);
+    }
+    imports.add(schema['x-ts-type']);
+    return schema['x-ts-type'];
+  }
+  if (schema.$ref) {
+    return schemaName(schema.$ref);
+  }
+  if (schema.oneOf) {
+    return schema.oneOf.map(option => wrapUnion(typeOf(option, indent, imports))).join(' | ');
+  }
+  if (schema.enum) {
+    return schema.enum.map(literal).join(' | ');
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => typeOf({ ...schema, type }, indent, imports)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return `${wrapUnion(schema.items ? typeOf(schema.items, indent, imports) : 'unknown')}[]`;
+    case 'object':
+      return objectType(schema, indent, imports);
+    default:
+      return schema.properties ? objectType(schema, indent, imports) : 'unknown';
+  }
+}
+
+function wrapUnion(type) {
+  return type.includes(' | ') ? `(${type})` : type;
+}
+
+function objectType(schema, indent, imports) {
+  const inner = `${indent}  `;
+  const required = new Set(schema.required || []);
+  let body = '';
+
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    const optional = required.has(name) ? '' : '?';
+    body += `${docComment(property, inner)}${inner}${propertyKey(name)}${optional}: ${typeOf(property, inner, imports)};\n`;
+  }
+
+  const additional = schema.additionalProperties;
+  if (additional === true || (additional && typeof additional === 'object')) {
+    body += `${inner}[key: string]: ${additional === true ? 'unknown' : typeOf(additional, inner, imports)};\n`;
+  }
+
+  return body ? `{\n${body}${indent}}` : 'Record<string, never>';
+}
+
+function declaration(name, schema, imports) {
+  let type = typeOf(schema, '', imports);
+  if (schema.oneOf && type.length > MAX_UNION_LINE) {
+    type = schema.oneOf.map(option => `\n  | ${typeOf(option, '  ', imports)}`).join('');
+  }
+  const isInterface = type.startsWith('{') && !schema['x-ts-type'];
+  return `${docComment(schema, '')}${isInterface ? `export interface ${name} ${type}` : `export type ${name} =${type.startsWith('\n') ? '' : ' '}${type};`}\n`;
+}
+
+function generate(document) {
+  const imports = new Set();
+  const declarations = [];
+  const methods = [];
+
+  for (const [name, schema] of Object.entries(document.components.schemas)) {
+    declarations.push(declaration(name, schema, imports));
+  }
+
+  for (const [routePath, operations] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(operations)) {
+      const content = operation.responses[200].content;
+      if (!content['application/json']) {
+        continue; // streams (/events) need an EventSource or WebSocket client, not a request
+      }
+
+      const base = pascalCase(operation.operationId);
+      const responseType = `${base}Response`;
+      declarations.push(declaration(responseType, content['application/json'].schema, imports));
+
+      const parameters = [];
+      let call;
+      const requestSchema = operation.requestBody?.content['application/json'].schema;
+      if (requestSchema) {
+        const requestType = `${base}Request`;
+        declarations.push(declaration(requestType, requestSchema, imports));
+        parameters.push(operation.requestBody.required ? `body: ${requestType}` : `body: ${requestType} = {}`);
+        call = `this.call('POST', '${routePath}', body, options)`;
+      } else if (operation.parameters) {
+        const queryType = `${base}Query`;
+        const query = {
+          type: 'object',
+          properties: Object.fromEntries(operation.parameters.map(parameter => [
+            parameter.name,
+            { ...parameter.schema, ...(parameter.description ? { description: parameter.description } : {}) }
+          ])),
+          required: operation.parameters.filter(parameter => parameter.required).map(parameter => parameter.name)
+        };
+        declarations.push(declaration(queryType, query, imports));
+        parameters.push(`query: ${queryType} = {}`);
+        call = `this.call('${method.toUpperCase()}', \`${routePath}\${queryString(query)}\`, undefined, options)`;
+      } else {
+        call = `this.call('${method.toUpperCase()}', '${routePath}', undefined, options)`;
+      }
+      parameters.push('options: ControlApiCallOptions = {}');
+
+      methods.push(
+        `  /**\n   * ${operation.summary} (${method.toUpperCase()} ${routePath})\n   */\n` +
+        `  ${operation.operationId}(${parameters.join(', ')}): Promise<${responseType}> {\n` +
+        `    return ${call};\n` +
+        '  }\n'
+      );
+    }
+  }
+
+  const modules = new Map();
+  for (const name of [...imports].sort()) {
+    const module = SHARED_TYPE_MODULES[name];
+    modules.set(module, [...(modules.get(module) || []), name]);
+  }
+  const sharedImports = [...modules].map(([module, names]) => `import { ${names.join(', ')} } from '${module}';\n`).join('');
+  return `/**
+ * Typed client for the daisy Control API.
+ *
+ * Generated by scripts/generate-control-api-client.js from the OpenAPI document in
+ * control-api.ts (OpenAPI ${document.openapi}, API version ${document.info.version}). Do not edit by hand.
+ */
+
+import { ControlApiCallOptions, ControlApiError, ControlApiTransport, ControlApiValidationIssue } from './control-api';
+${sharedImports}
+${declarations.join('\n')}
+export class ControlApiClient {
+  private transport: ControlApiTransport;
+
+  constructor(transport: ControlApiTransport) {
+    this.transport = transport;
+  }
+
+${methods.join('\n')}
+  private async call<T>(method: 'GET' | 'POST', path: string, body: unknown, options: ControlApiCallOptions): Promise<T> {
+    const reply = await this.transport({ method, path, body, timeout: options.timeout });
+    if (reply.status < 200 || reply.status >= 300) {
+      const error = (reply.body || {}) as { error?: string; issues?: ControlApiValidationIssue[] };
+      throw new ControlApiError(reply.status, error.error || \`HTTP \${reply.status}\`, error.issues);
+    }
+    return reply.body as T;
+  }
+}
+
+function queryString(query: object): string {
+  const parts = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => \`\${encodeURIComponent(name)}=\${encodeURIComponent(String(value))}\`);
+  return parts.length > 0 ? \`?\${parts.join('&')}\` : '';
+}
+`;
+}
+
+const source = generate(createOpenApiDocument());
+
+if (process.argv.includes('--check')) {
+  const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, 'utf8') : '';
+  if (current !== source) {
+    console.error('❌ src/control-api-client.ts is out of date: run npm run generate:control-api-client');
+    process.exit(1);
+  }
+} else {
+  fs.writeFileSync(OUTPUT, source);
+  console.log(`✅ Wrote ${path.relative(process.cwd(), OUTPUT)}`);
+}
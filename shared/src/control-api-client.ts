@@ -0,0 +1,1004 @@
+/**
+ * Typed client for the daisy Control API.
+ *
+ * Generated by scripts/generate-control-api-client.js from the OpenAPI document in
+ * control-api.ts (OpenAPI 3.1.0, API version 1.0.0). Do not edit by hand.
+ */
+
+import { ControlApiCallOptions, ControlApiError, ControlApiTransport, ControlApiValidationIssue } from './control-api';
+import { HarDocument } from './har';
+import { LogEntry } from './log-events';
+
+/** CSS selector (or a text=<exact text> or role=<role>[name="<accessible name>"] selector), or fallbacks tried in order */
+export type Selector = string | string[];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  /** 422 only */
+  issues?: ValidationIssue[];
+}
+
+export interface ValidationIssue {
+  location: 'body' | 'query';
+  /** JSON pointer into the body or query, e.g. /selector */
+  path: string;
+  message: string;
+}
+
+export interface ConnectionStatus {
+  state: 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+  port: number;
+  /** Page restored after a reconnect */
+  lastUrl?: string;
+  /** Successful recoveries this session */
+  reconnects: number;
+  lastDisconnect?: {
+    event: string;
+    reason?: string;
+    timestamp: string;
+  };
+}
+
+export interface BrowserTarget {
+  targetId: string;
+  /** page, iframe, worker, service_worker or shared_worker */
+  type: string;
+  url: string;
+  title: string;
+  /** The tab daisy connected to; actions go here unless a targetId is given */
+  main: boolean;
+  /** Page that owns an iframe or dedicated worker */
+  parentTargetId?: string;
+  /** Tab that opened a popup */
+  openerId?: string;
+}
+
+/** A request from the live network buffer */
+export interface NetworkRequest {
+  requestId: string;
+  method: string;
+  url: string;
+  status?: number;
+  resourceType?: string;
+  mimeType?: string;
+  /** Milliseconds */
+  duration?: number;
+  loadingFailed?: boolean;
+  errorText?: string;
+  timestamp: number;
+  targetId?: string;
+  [key: string]: unknown;
+}
+
+export interface ClickResult {
+  success: boolean;
+  /** The selector that matched */
+  selector: string;
+  coordinates: Point;
+  elementTag: string;
+  elementText: string;
+}
+
+export interface TypeResult {
+  success: boolean;
+  /** The selector that matched */
+  selector: string;
+  text: string;
+  elementTag: string;
+  /** The field's value after typing */
+  finalValue?: string;
+}
+
+export interface NavigateResult {
+  success: boolean;
+  url: string;
+  fast?: boolean;
+}
+
+export interface ScrollResult {
+  success: boolean;
+  selector?: string;
+  elementPosition?: Point;
+  coordinates?: Point;
+  scrollBehavior: string;
+}
+
+export interface ElementInspection {
+  selector: string;
+  tagName: string;
+  properties: {
+    [key: string]: unknown;
+  };
+  attributes: {
+    [key: string]: string;
+  };
+  rect: {
+    [key: string]: number;
+  };
+  visible: boolean;
+}
+
+export interface ComputedStyles {
+  selector: string;
+  styles: {
+    [key: string]: string;
+  };
+}
+
+/** CDP Runtime.RemoteObject: the value when returned by value, otherwise a description of it */
+export interface RemoteObject {
+  type: string;
+  subtype?: string;
+  className?: string;
+  /** Absent for undefined, and for objects not returned by value */
+  value?: unknown;
+  description?: string;
+  objectId?: string;
+  [key: string]: unknown;
+}
+
+export interface ElementWait {
+  found: boolean;
+  selector?: string;
+  visible?: boolean;
+  ready?: boolean;
+}
+
+export interface NetworkIdle {
+  success: boolean;
+  idleTime: number;
+  totalTime: number;
+}
+
+export interface ElementBounds {
+  selector: string;
+  bounds: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+  scroll: {
+    scrollX: number;
+    scrollY: number;
+  };
+  visible: boolean;
+  display: string;
+  position: string;
+}
+
+export interface PageInfo {
+  url: string;
+  title: string;
+  readyState: string;
+  scroll: {
+    x: number;
+    y: number;
+    maxX: number;
+    maxY: number;
+  };
+  viewport: {
+    width: number;
+    height: number;
+  };
+  document: {
+    width: number;
+    height: number;
+  };
+  timestamp: number;
+}
+
+export interface ReplayStep {
+  index: number;
+  timestamp: string;
+  action: 'navigate' | 'click' | 'type' | 'key' | 'select' | 'check' | 'scroll' | 'hover';
+  url?: string;
+  selector?: string;
+  selectors?: string[];
+  text?: string;
+  clear?: boolean;
+  key?: string;
+  values?: string[];
+  checked?: boolean;
+  x?: number;
+  y?: number;
+  redacted?: boolean;
+  status: 'ok' | 'failed' | 'skipped';
+  error?: string;
+  durationMs: number;
+}
+
+export interface ReplayedError {
+  timestamp: string;
+  type: string;
+  source: string;
+  message?: string;
+  url?: string;
+  /** Step running (or last finished) when the error was logged */
+  stepIndex?: number;
+}
+
+export interface ReplayResult {
+  sessionId: string;
+  range: {
+    from?: string;
+    to?: string;
+  };
+  steps: ReplayStep[];
+  /** Every step ran */
+  completed: boolean;
+  /** First point where the replay stopped matching the recording */
+  divergence?: {
+    stepIndex: number;
+    reason: 'url_mismatch' | 'step_failed';
+    message: string;
+    expectedUrl?: string;
+    actualUrl?: string;
+  };
+  originalError?: ReplayedError;
+  reproduced: boolean;
+  reproducedError?: ReplayedError;
+  /** Application errors logged during the replay */
+  errors: ReplayedError[];
+  durationMs: number;
+}
+
+/** Load a URL */
+export interface NavigateStep {
+  action: 'navigate';
+  url: string;
+  /** Wait for DOMContentLoaded (default true) */
+  waitForLoad?: boolean;
+  /** Continue as soon as navigation starts (default false) */
+  fast?: boolean;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Click an element once it is visible */
+export interface ClickStep {
+  action: 'click';
+  selector: Selector;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Type text into an element */
+export interface TypeStep {
+  action: 'type';
+  selector: Selector;
+  text: string;
+  /** Replace the current value instead of appending (default false) */
+  clear?: boolean;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Press a key in the focused element */
+export interface KeyStep {
+  action: 'key';
+  /** Enter, Tab, Escape, Backspace, an arrow or a character, optionally as in Control+a */
+  key: string;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Move the mouse over an element */
+export interface HoverStep {
+  action: 'hover';
+  selector: Selector;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Scroll an element into view, or the page to coordinates */
+export interface ScrollStep {
+  action: 'scroll';
+  selector?: string;
+  x?: number;
+  y?: number;
+  /** (default "smooth") */
+  behavior?: 'smooth' | 'instant' | 'auto';
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Wait until an element exists (and is visible) */
+export interface WaitForElementStep {
+  action: 'waitForElement';
+  selector: Selector;
+  /** (default true) */
+  visible?: boolean;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Wait until none of the target's requests has been in flight for idleTime */
+export interface WaitForNetworkIdleStep {
+  action: 'waitForNetworkIdle';
+  /** Milliseconds (default 1000) */
+  idleTime?: number;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Screenshot of the page */
+export interface ScreenshotStep {
+  action: 'screenshot';
+  /** Goes into the file name (default "actions") */
+  context?: string;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Run JavaScript in the page */
+export interface ExecuteStep {
+  action: 'execute';
+  code: string;
+  /** (default true) */
+  returnByValue?: boolean;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Fail unless an element's text (whitespace collapsed) matches before the timeout */
+export interface AssertTextStep {
+  action: 'assertText';
+  selector: Selector;
+  equals?: string;
+  contains?: string;
+  /** JavaScript regular expression */
+  matches?: string;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Fail unless the page's URL matches before the timeout */
+export interface AssertUrlStep {
+  action: 'assertUrl';
+  equals?: string;
+  contains?: string;
+  /** JavaScript regular expression */
+  matches?: string;
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** Fail if a console error or uncaught exception was logged since the run started */
+export interface AssertNoConsoleErrorsStep {
+  action: 'assertNoConsoleErrors';
+  /** Skip errors whose message contains one of these */
+  ignore?: string[];
+  /** Milliseconds the step may take; defaults to the run's stepTimeout */
+  timeout?: number;
+  /** Run the following steps even if this one fails; defaults to the run's continueOnError */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+/** One step of POST /actions, chosen by its action */
+export type ActionStep =
+  | NavigateStep
+  | ClickStep
+  | TypeStep
+  | KeyStep
+  | HoverStep
+  | ScrollStep
+  | WaitForElementStep
+  | WaitForNetworkIdleStep
+  | ScreenshotStep
+  | ExecuteStep
+  | AssertTextStep
+  | AssertUrlStep
+  | AssertNoConsoleErrorsStep;
+
+/** Emulation in effect; absent fields are not emulated */
+export interface EmulationSettings {
+  /** Viewport, pixel ratio, touch and user agent of a catalog device */
+  device?: 'iPhone SE' | 'iPhone 14' | 'iPhone 14 Pro Max' | 'iPhone 15 Pro' | 'Pixel 7' | 'Galaxy S23' | 'iPad Mini' | 'iPad Pro 11' | 'Desktop 1366x768' | 'Desktop 1920x1080';
+  /** Viewport width in CSS pixels (overrides the device) */
+  width?: number;
+  /** Viewport height in CSS pixels (overrides the device) */
+  height?: number;
+  /** Device pixel ratio (overrides the device) */
+  deviceScaleFactor?: number;
+  /** Mobile viewport handling (overrides the device) */
+  mobile?: boolean;
+  /** Touch events and maxTouchPoints (overrides the device) */
+  touch?: boolean;
+  /** User agent (overrides the device's) */
+  userAgent?: string;
+  /** Network throttling preset; none turns it off */
+  throttle?: 'none' | 'slow-3g' | 'fast-3g' | '4g';
+  offline?: boolean;
+  /** CPU slowdown factor; 1 turns it off */
+  cpuThrottle?: number;
+  geolocation?: {
+    latitude: number;
+    longitude: number;
+    /** Meters (default 100) */
+    accuracy?: number;
+  };
+  /** IANA time zone, e.g. America/New_York */
+  timezone?: string;
+  /** BCP 47 locale for Intl and Accept-Language, e.g. de-DE */
+  locale?: string;
+  /** prefers-color-scheme */
+  colorScheme?: 'light' | 'dark';
+  /** prefers-reduced-motion: reduce */
+  reducedMotion?: boolean;
+}
+
+export interface EmulationState {
+  settings: EmulationSettings;
+  /** Names accepted as device */
+  devices: string[];
+  /** Names accepted as throttle */
+  networkPresets: string[];
+}
+
+export interface ActionStepResult {
+  index: number;
+  action: string;
+  /** skipped: an earlier step failed */
+  status: 'ok' | 'failed' | 'skipped';
+  error?: string;
+  /** What the action returned (the same as its own route's result); for assertions the actual value */
+  result?: unknown;
+  startedAt?: string;
+  durationMs: number;
+  /** Entries logged from the start of this step until the next one started */
+  logs: LogEntry[];
+}
+
+export interface ActionRunResult {
+  steps: ActionStepResult[];
+  /** No step failed */
+  passed: boolean;
+  /** Every step ran */
+  completed: boolean;
+  /** Index of the first failed step */
+  failedStep?: number;
+  durationMs: number;
+}
+
+export interface GetHealthResponse {
+  success: true;
+  /** degraded: browser actions fail until DevTools reconnects */
+  status: 'healthy' | 'degraded';
+  connected: boolean;
+  browser: ConnectionStatus;
+  timestamp: string;
+}
+
+export interface GetOpenApiDocumentResponse {
+  [key: string]: unknown;
+}
+
+export interface TakeScreenshotResponse {
+  success: true;
+  /** Path of the file; null when the browser is not connected */
+  screenshot: string | null;
+  timestamp: string;
+}
+
+export interface TakeScreenshotRequest {
+  /** Goes into the file name (default "api-request") */
+  context?: string;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface ClickResponse {
+  success: true;
+  result: ClickResult;
+  timestamp: string;
+}
+
+export interface ClickRequest {
+  selector: Selector;
+  /** Milliseconds (default 5000) */
+  timeout?: number;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface TypeResponse {
+  success: true;
+  result: TypeResult;
+  timestamp: string;
+}
+
+export interface TypeRequest {
+  selector: Selector;
+  text: string;
+  /** Milliseconds (default 5000) */
+  timeout?: number;
+  /** Replace the current value instead of appending (default false) */
+  clear?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface NavigateResponse {
+  success: true;
+  result: NavigateResult;
+  timestamp: string;
+}
+
+export interface NavigateRequest {
+  url: string;
+  /** Wait for DOMContentLoaded (default true) */
+  waitForLoad?: boolean;
+  /** Milliseconds (default 10000) */
+  timeout?: number;
+  /** Return as soon as navigation starts (default false) */
+  fast?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface ScrollResponse {
+  success: true;
+  result: ScrollResult;
+  timestamp: string;
+}
+
+export interface ScrollRequest {
+  selector?: string;
+  x?: number;
+  y?: number;
+  /** (default "smooth") */
+  behavior?: 'smooth' | 'instant' | 'auto';
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface InspectResponse {
+  success: true;
+  result: ElementInspection;
+  timestamp: string;
+}
+
+export interface InspectRequest {
+  selector: string;
+  /** (default ["textContent","innerHTML","outerHTML","className","id"]) */
+  properties?: string[];
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface GetComputedStylesResponse {
+  success: true;
+  result: ComputedStyles;
+  timestamp: string;
+}
+
+export interface GetComputedStylesRequest {
+  selector: string;
+  /** (default ["color","background-color","font-size","display","position"]) */
+  properties?: string[];
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface ExecuteResponse {
+  success: true;
+  result: RemoteObject;
+  timestamp: string;
+}
+
+export interface ExecuteRequest {
+  code: string;
+  /** (default true) */
+  returnByValue?: boolean;
+  /** Milliseconds (default 10000) */
+  timeout?: number;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface GetNetworkRequestsResponse {
+  success: true;
+  result: NetworkRequest[];
+  count: number;
+  timestamp: string;
+}
+
+export interface GetNetworkRequestsQuery {
+  /** (default 50) */
+  limit?: number;
+}
+
+/** HAR 1.2 document */
+export type ExportHarResponse = HarDocument;
+
+export interface ExportHarQuery {
+  /** Most recent requests only */
+  limit?: number;
+  /** Present (any value) to send the HAR as a file download */
+  download?: string;
+}
+
+export interface GetTargetsResponse {
+  success: true;
+  result: BrowserTarget[];
+  count: number;
+  timestamp: string;
+}
+
+export interface GetPageInfoResponse {
+  success: true;
+  result: PageInfo;
+  timestamp: string;
+}
+
+export interface GetPageInfoQuery {
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface WaitForElementResponse {
+  success: true;
+  result: ElementWait;
+  timestamp: string;
+}
+
+export interface WaitForElementRequest {
+  selector: Selector;
+  /** Milliseconds (default 10000) */
+  timeout?: number;
+  /** (default true) */
+  visible?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface WaitForNetworkIdleResponse {
+  success: true;
+  result: NetworkIdle;
+  timestamp: string;
+}
+
+export interface WaitForNetworkIdleRequest {
+  /** Milliseconds (default 10000) */
+  timeout?: number;
+  /** Milliseconds (default 1000) */
+  idleTime?: number;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface GetElementBoundsResponse {
+  success: true;
+  result: ElementBounds;
+  timestamp: string;
+}
+
+export interface GetElementBoundsRequest {
+  selector: string;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface ReplayResponse {
+  success: true;
+  result: ReplayResult;
+  timestamp: string;
+}
+
+export interface ReplayRequest {
+  /** Session id, unique prefix or "latest" (default "latest") */
+  sessionId?: string;
+  /** ISO timestamp, inclusive */
+  from?: string;
+  /** ISO timestamp, inclusive */
+  to?: string;
+  /** Replay the interactions leading up to the first error in the range */
+  untilError?: boolean;
+  /** With untilError and no from: how far before the error to start */
+  lookbackSeconds?: number;
+  /** 1 = recorded pace, 0 = no waiting between steps */
+  speed?: number;
+  maxDelayMs?: number;
+  stepTimeout?: number;
+  stopOnDivergence?: boolean;
+  /** Wait after the last step for the original error to reappear */
+  settleMs?: number;
+}
+
+export interface RunActionsResponse {
+  success: true;
+  result: ActionRunResult;
+  timestamp: string;
+}
+
+export interface RunActionsRequest {
+  steps: ActionStep[];
+  /** Milliseconds each step may take unless it sets a timeout (default 10000) */
+  stepTimeout?: number;
+  /** Keep going after a failed step (default false) */
+  continueOnError?: boolean;
+  /** Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets */
+  targetId?: string;
+}
+
+export interface GetEmulationResponse {
+  success: true;
+  result: EmulationState;
+  timestamp: string;
+}
+
+export interface EmulateResponse {
+  success: true;
+  result: EmulationState;
+  timestamp: string;
+}
+
+export interface EmulateRequest {
+  /** Viewport, pixel ratio, touch and user agent of a catalog device */
+  device?: 'iPhone SE' | 'iPhone 14' | 'iPhone 14 Pro Max' | 'iPhone 15 Pro' | 'Pixel 7' | 'Galaxy S23' | 'iPad Mini' | 'iPad Pro 11' | 'Desktop 1366x768' | 'Desktop 1920x1080';
+  /** Viewport width in CSS pixels (overrides the device) */
+  width?: number;
+  /** Viewport height in CSS pixels (overrides the device) */
+  height?: number;
+  /** Device pixel ratio (overrides the device) */
+  deviceScaleFactor?: number;
+  /** Mobile viewport handling (overrides the device) */
+  mobile?: boolean;
+  /** Touch events and maxTouchPoints (overrides the device) */
+  touch?: boolean;
+  /** User agent (overrides the device's) */
+  userAgent?: string;
+  /** Network throttling preset; none turns it off */
+  throttle?: 'none' | 'slow-3g' | 'fast-3g' | '4g';
+  offline?: boolean;
+  /** CPU slowdown factor; 1 turns it off */
+  cpuThrottle?: number;
+  geolocation?: {
+    latitude: number;
+    longitude: number;
+    /** Meters (default 100) */
+    accuracy?: number;
+  };
+  /** IANA time zone, e.g. America/New_York */
+  timezone?: string;
+  /** BCP 47 locale for Intl and Accept-Language, e.g. de-DE */
+  locale?: string;
+  /** prefers-color-scheme */
+  colorScheme?: 'light' | 'dark';
+  /** prefers-reduced-motion: reduce */
+  reducedMotion?: boolean;
+  /** Turn all emulation off before applying the other fields (default false) */
+  reset?: boolean;
+}
+
+export class ControlApiClient {
+  private transport: ControlApiTransport;
+
+  constructor(transport: ControlApiTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Whether the API is up and the browser connected (GET /health)
+   */
+  getHealth(options: ControlApiCallOptions = {}): Promise<GetHealthResponse> {
+    return this.call('GET', '/health', undefined, options);
+  }
+
+  /**
+   * This API as an OpenAPI 3.1 document (GET /openapi.json)
+   */
+  getOpenApiDocument(options: ControlApiCallOptions = {}): Promise<GetOpenApiDocumentResponse> {
+    return this.call('GET', '/openapi.json', undefined, options);
+  }
+
+  /**
+   * Screenshot of the page (an unchanged page returns the previous file) (POST /screenshot)
+   */
+  takeScreenshot(body: TakeScreenshotRequest = {}, options: ControlApiCallOptions = {}): Promise<TakeScreenshotResponse> {
+    return this.call('POST', '/screenshot', body, options);
+  }
+
+  /**
+   * Click an element once it is visible (POST /click)
+   */
+  click(body: ClickRequest, options: ControlApiCallOptions = {}): Promise<ClickResponse> {
+    return this.call('POST', '/click', body, options);
+  }
+
+  /**
+   * Type text into an element (POST /type)
+   */
+  type(body: TypeRequest, options: ControlApiCallOptions = {}): Promise<TypeResponse> {
+    return this.call('POST', '/type', body, options);
+  }
+
+  /**
+   * Load a URL (POST /navigate)
+   */
+  navigate(body: NavigateRequest, options: ControlApiCallOptions = {}): Promise<NavigateResponse> {
+    return this.call('POST', '/navigate', body, options);
+  }
+
+  /**
+   * Scroll an element into view, or the page to coordinates (POST /scroll)
+   */
+  scroll(body: ScrollRequest = {}, options: ControlApiCallOptions = {}): Promise<ScrollResponse> {
+    return this.call('POST', '/scroll', body, options);
+  }
+
+  /**
+   * An element's properties, attributes and position (POST /inspect)
+   */
+  inspect(body: InspectRequest, options: ControlApiCallOptions = {}): Promise<InspectResponse> {
+    return this.call('POST', '/inspect', body, options);
+  }
+
+  /**
+   * An element's computed CSS values (POST /computed-styles)
+   */
+  getComputedStyles(body: GetComputedStylesRequest, options: ControlApiCallOptions = {}): Promise<GetComputedStylesResponse> {
+    return this.call('POST', '/computed-styles', body, options);
+  }
+
+  /**
+   * Evaluate a JavaScript expression in the page (POST /execute)
+   */
+  execute(body: ExecuteRequest, options: ControlApiCallOptions = {}): Promise<ExecuteResponse> {
+    return this.call('POST', '/execute', body, options);
+  }
+
+  /**
+   * The most recent requests of the live network buffer (GET /network-requests)
+   */
+  getNetworkRequests(query: GetNetworkRequestsQuery = {}, options: ControlApiCallOptions = {}): Promise<GetNetworkRequestsResponse> {
+    return this.call('GET', `/network-requests${queryString(query)}`, undefined, options);
+  }
+
+  /**
+   * The live network buffer as a HAR 1.2 document (GET /network-requests.har)
+   */
+  exportHar(query: ExportHarQuery = {}, options: ControlApiCallOptions = {}): Promise<ExportHarResponse> {
+    return this.call('GET', `/network-requests.har${queryString(query)}`, undefined, options);
+  }
+
+  /**
+   * Attached browser targets (tabs, popups, iframes, workers) (GET /targets)
+   */
+  getTargets(options: ControlApiCallOptions = {}): Promise<GetTargetsResponse> {
+    return this.call('GET', '/targets', undefined, options);
+  }
+
+  /**
+   * The page's URL, title, scroll position and size (GET /page-info)
+   */
+  getPageInfo(query: GetPageInfoQuery = {}, options: ControlApiCallOptions = {}): Promise<GetPageInfoResponse> {
+    return this.call('GET', `/page-info${queryString(query)}`, undefined, options);
+  }
+
+  /**
+   * Wait until an element exists (and is visible) (POST /wait-for-element)
+   */
+  waitForElement(body: WaitForElementRequest, options: ControlApiCallOptions = {}): Promise<WaitForElementResponse> {
+    return this.call('POST', '/wait-for-element', body, options);
+  }
+
+  /**
+   * Wait until no request (of targetId, when given) has been in flight for idleTime (POST /wait-for-network-idle)
+   */
+  waitForNetworkIdle(body: WaitForNetworkIdleRequest = {}, options: ControlApiCallOptions = {}): Promise<WaitForNetworkIdleResponse> {
+    return this.call('POST', '/wait-for-network-idle', body, options);
+  }
+
+  /**
+   * An element's bounding box and the page scroll (POST /element-bounds)
+   */
+  getElementBounds(body: GetElementBoundsRequest, options: ControlApiCallOptions = {}): Promise<GetElementBoundsResponse> {
+    return this.call('POST', '/element-bounds', body, options);
+  }
+
+  /**
+   * Re-run a recorded session's interactions and report divergence or a reproduced error (POST /replay)
+   */
+  replay(body: ReplayRequest = {}, options: ControlApiCallOptions = {}): Promise<ReplayResponse> {
+    return this.call('POST', '/replay', body, options);
+  }
+
+  /**
+   * Run steps (actions and assertions) in order and report each one with its timing and log entries (POST /actions)
+   */
+  runActions(body: RunActionsRequest, options: ControlApiCallOptions = {}): Promise<RunActionsResponse> {
+    return this.call('POST', '/actions', body, options);
+  }
+
+  /**
+   * Device, network, CPU, location, locale and media emulation in effect, and the devices and presets available (GET /emulation)
+   */
+  getEmulation(options: ControlApiCallOptions = {}): Promise<GetEmulationResponse> {
+    return this.call('GET', '/emulation', undefined, options);
+  }
+
+  /**
+   * Change device, network, CPU, location, locale or media emulation; fields left out keep their value (POST /emulation)
+   */
+  emulate(body: EmulateRequest = {}, options: ControlApiCallOptions = {}): Promise<EmulateResponse> {
+    return this.call('POST', '/emulation', body, options);
+  }
+
+  private async call<T>(method: 'GET' | 'POST', path: string, body: unknown, options: ControlApiCallOptions): Promise<T> {
+    const reply = await this.transport({ method, path, body, timeout: options.timeout });
+    if (reply.status < 200 || reply.status >= 300) {
+      const error = (reply.body || {}) as { error?: string; issues?: ControlApiValidationIssue[] };
+      throw new ControlApiError(reply.status, error.error || `HTTP ${reply.status}`, error.issues);
+    }
+    return reply.body as T;
+  }
+}
+
+function queryString(query: object): string {
+  const parts = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`);
+  return parts.length > 0 ? `?${parts.join('&')}` : '';
+}
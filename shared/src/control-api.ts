@@ -0,0 +1,1058 @@
+/**
+ * Schema of the Control API, the daemon's HTTP interface for driving the browser.
+ *
+ * Every route is described here once: the daemon validates requests against these JSON
+ * Schemas (answering 422 with the mismatches) and serves them as an OpenAPI document at
+ * /openapi.json, and control-api-client.ts is generated from that document. Changing a
+ * route means changing its entry here and regenerating the client with
+ * `npm run generate:control-api-client`.
+ */
+
+import { DEVICE_NAMES, NETWORK_PRESET_NAMES } from './emulation';
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * The JSON Schema subset the Control API uses. `anyOf` only adds constraints (it is not
+ * part of the generated types); `x-ts-type` names a shared type the client uses instead
+ * of generating one.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: (string | number | boolean)[];
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  $ref?: string;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  minItems?: number;
+  discriminator?: { propertyName: string }; // with oneOf: the property whose enum picks the alternative
+  'x-ts-type'?: string;
+}
+
+export interface ControlApiRoute {
+  operationId: string; // client method name
+  method: 'GET' | 'POST';
+  path: string;
+  summary: string;
+  query?: JsonSchema; // query parameters, as an object schema
+  body?: JsonSchema; // JSON request body
+  response: JsonSchema; // 200 body
+  responseType?: string; // content type of a non-JSON 200 body
+  drivesBrowser?: boolean; // acts on the page: refused in read-only mode
+}
+
+export interface ControlApiValidationIssue {
+  location: 'body' | 'query';
+  path: string; // JSON pointer into the body or query, e.g. /selector
+  message: string;
+}
+
+export interface ControlApiRequest {
+  method: 'GET' | 'POST';
+  path: string; // with the query string
+  body?: unknown;
+  timeout?: number; // milliseconds
+}
+
+export interface ControlApiReply {
+  status: number;
+  body: unknown; // parsed JSON
+}
+
+/**
+ * Sends a request to the daemon; the generated client is independent of the HTTP library
+ */
+export type ControlApiTransport = (request: ControlApiRequest) => Promise<ControlApiReply>;
+
+export interface ControlApiCallOptions {
+  timeout?: number; // milliseconds; long-running routes such as /replay need more than the default
+}
+
+/**
+ * A non-2xx Control API response
+ */
+export class ControlApiError extends Error {
+  status: number;
+  issues?: ControlApiValidationIssue[]; // 422: where the request did not match the schema
+
+  constructor(status: number, message: string, issues?: ControlApiValidationIssue[]) {
+    super(message);
+    this.name = 'ControlApiError';
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+export const CONTROL_API_VERSION = '1.0.0';
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+const TARGET_ID: JsonSchema = {
+  type: 'string',
+  description: 'Browser target (tab, popup, iframe or worker) to act on; defaults to the main tab. See GET /targets'
+};
+const TIMEOUT: JsonSchema = { type: 'number', minimum: 0, description: 'Milliseconds' };
+
+// Successful JSON responses: {success: true, result, timestamp}, plus any extra fields
+function envelope(result: JsonSchema, extra: Record<string, JsonSchema> = {}): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', enum: [true] },
+      result,
+      ...extra,
+      timestamp: { type: 'string' }
+    },
+    required: ['success', 'result', ...Object.keys(extra), 'timestamp']
+  };
+}
+
+// Options every /actions step takes besides its own fields
+const STEP_OPTIONS: Record<string, JsonSchema> = {
+  timeout: { ...TIMEOUT, description: "Milliseconds the step may take; defaults to the run's stepTimeout" },
+  continueOnError: { type: 'boolean', description: "Run the following steps even if this one fails; defaults to the run's continueOnError" },
+  targetId: TARGET_ID
+};
+
+// One kind of /actions step, told apart from the others by its `action`
+function actionStep(
+  action: string,
+  description: string,
+  properties: Record<string, JsonSchema> = {},
+  required: string[] = [],
+  constraints: Pick<JsonSchema, 'anyOf'> = {}
+): JsonSchema {
+  return {
+    type: 'object',
+    description,
+    properties: { action: { type: 'string', enum: [action] }, ...properties, ...STEP_OPTIONS },
+    required: ['action', ...required],
+    additionalProperties: false,
+    ...constraints
+  };
+}
+
+// What an assertion compares the actual text or URL with (at least one)
+const TEXT_EXPECTATIONS: Record<string, JsonSchema> = {
+  equals: { type: 'string' },
+  contains: { type: 'string' },
+  matches: { type: 'string', minLength: 1, description: 'JavaScript regular expression' }
+};
+const ANY_TEXT_EXPECTATION: Pick<JsonSchema, 'anyOf'> = {
+  anyOf: Object.keys(TEXT_EXPECTATIONS).map(name => ({ required: [name] }))
+};
+
+// What /emulation can change; fields left out keep their current value
+const EMULATION_PROPERTIES: Record<string, JsonSchema> = {
+  device: { type: 'string', enum: DEVICE_NAMES, description: 'Viewport, pixel ratio, touch and user agent of a catalog device' },
+  width: { type: 'integer', minimum: 1, description: 'Viewport width in CSS pixels (overrides the device)' },
+  height: { type: 'integer', minimum: 1, description: 'Viewport height in CSS pixels (overrides the device)' },
+  deviceScaleFactor: { type: 'number', minimum: 0.1, description: 'Device pixel ratio (overrides the device)' },
+  mobile: { type: 'boolean', description: 'Mobile viewport handling (overrides the device)' },
+  touch: { type: 'boolean', description: 'Touch events and maxTouchPoints (overrides the device)' },
+  userAgent: { type: 'string', minLength: 1, description: "User agent (overrides the device's)" },
+  throttle: { type: 'string', enum: NETWORK_PRESET_NAMES, description: 'Network throttling preset; none turns it off' },
+  offline: { type: 'boolean' },
+  cpuThrottle: { type: 'number', minimum: 1, description: 'CPU slowdown factor; 1 turns it off' },
+  geolocation: {
+    type: 'object',
+    properties: {
+      latitude: { type: 'number', minimum: -90, maximum: 90 },
+      longitude: { type: 'number', minimum: -180, maximum: 180 },
+      accuracy: { type: 'number', minimum: 0, default: 100, description: 'Meters' }
+    },
+    required: ['latitude', 'longitude'],
+    additionalProperties: false
+  },
+  timezone: { type: 'string', minLength: 1, description: 'IANA time zone, e.g. America/New_York' },
+  locale: { type: 'string', minLength: 1, description: 'BCP 47 locale for Intl and Accept-Language, e.g. de-DE' },
+  colorScheme: { type: 'string', enum: ['light', 'dark'], description: 'prefers-color-scheme' },
+  reducedMotion: { type: 'boolean', description: 'prefers-reduced-motion: reduce' }
+};
+
+/**
+ * Named schemas, referenced from the routes as #/components/schemas/<name>
+ */
+export const CONTROL_API_SCHEMAS: Record<string, JsonSchema> = {
+  Selector: {
+    description: 'CSS selector (or a text=<exact text> or role=<role>[name="<accessible name>"] selector), or fallbacks tried in order',
+    oneOf: [
+      { type: 'string', minLength: 1 },
+      { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 }
+    ]
+  },
+  Point: {
+    type: 'object',
+    properties: { x: { type: 'number' }, y: { type: 'number' } },
+    required: ['x', 'y']
+  },
+  ErrorResponse: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', enum: [false] },
+      error: { type: 'string' },
+      issues: { type: 'array', items: ref('ValidationIssue'), description: '422 only' }
+    },
+    required: ['success', 'error']
+  },
+  ValidationIssue: {
+    type: 'object',
+    properties: {
+      location: { type: 'string', enum: ['body', 'query'] },
+      path: { type: 'string', description: 'JSON pointer into the body or query, e.g. /selector' },
+      message: { type: 'string' }
+    },
+    required: ['location', 'path', 'message']
+  },
+  ConnectionStatus: {
+    type: 'object',
+    properties: {
+      state: { type: 'string', enum: ['connecting', 'connected', 'reconnecting', 'disconnected'] },
+      port: { type: 'integer' },
+      lastUrl: { type: 'string', description: 'Page restored after a reconnect' },
+      reconnects: { type: 'integer', description: 'Successful recoveries this session' },
+      lastDisconnect: {
+        type: 'object',
+        properties: { event: { type: 'string' }, reason: { type: 'string' }, timestamp: { type: 'string' } },
+        required: ['event', 'timestamp']
+      }
+    },
+    required: ['state', 'port', 'reconnects']
+  },
+  BrowserTarget: {
+    type: 'object',
+    properties: {
+      targetId: { type: 'string' },
+      type: { type: 'string', description: 'page, iframe, worker, service_worker or shared_worker' },
+      url: { type: 'string' },
+      title: { type: 'string' },
+      main: { type: 'boolean', description: 'The tab daisy connected to; actions go here unless a targetId is given' },
+      parentTargetId: { type: 'string', description: 'Page that owns an iframe or dedicated worker' },
+      openerId: { type: 'string', description: 'Tab that opened a popup' }
+    },
+    required: ['targetId', 'type', 'url', 'title', 'main']
+  },
+  NetworkRequest: {
+    type: 'object',
+    description: 'A request from the live network buffer',
+    properties: {
+      requestId: { type: 'string' },
+      method: { type: 'string' },
+      url: { type: 'string' },
+      status: { type: 'integer' },
+      resourceType: { type: 'string' },
+      mimeType: { type: 'string' },
+      duration: { type: 'number', description: 'Milliseconds' },
+      loadingFailed: { type: 'boolean' },
+      errorText: { type: 'string' },
+      timestamp: { type: 'number' },
+      targetId: { type: 'string' }
+    },
+    required: ['requestId', 'method', 'url', 'timestamp'],
+    additionalProperties: true
+  },
+  ClickResult: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      selector: { type: 'string', description: 'The selector that matched' },
+      coordinates: ref('Point'),
+      elementTag: { type: 'string' },
+      elementText: { type: 'string' }
+    },
+    required: ['success', 'selector', 'coordinates', 'elementTag', 'elementText']
+  },
+  TypeResult: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      selector: { type: 'string', description: 'The selector that matched' },
+      text: { type: 'string' },
+      elementTag: { type: 'string' },
+      finalValue: { type: 'string', description: "The field's value after typing" }
+    },
+    required: ['success', 'selector', 'text', 'elementTag']
+  },
+  NavigateResult: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      url: { type: 'string' },
+      fast: { type: 'boolean' }
+    },
+    required: ['success', 'url']
+  },
+  ScrollResult: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      selector: { type: 'string' },
+      elementPosition: ref('Point'),
+      coordinates: ref('Point'),
+      scrollBehavior: { type: 'string' }
+    },
+    required: ['success', 'scrollBehavior']
+  },
+  ElementInspection: {
+    type: 'object',
+    properties: {
+      selector: { type: 'string' },
+      tagName: { type: 'string' },
+      properties: { type: 'object', additionalProperties: true },
+      attributes: { type: 'object', additionalProperties: { type: 'string' } },
+      rect: { type: 'object', additionalProperties: { type: 'number' } },
+      visible: { type: 'boolean' }
+    },
+    required: ['selector', 'tagName', 'properties', 'attributes', 'rect', 'visible']
+  },
+  ComputedStyles: {
+    type: 'object',
+    properties: {
+      selector: { type: 'string' },
+      styles: { type: 'object', additionalProperties: { type: 'string' } }
+    },
+    required: ['selector', 'styles']
+  },
+  RemoteObject: {
+    type: 'object',
+    description: 'CDP Runtime.RemoteObject: the value when returned by value, otherwise a description of it',
+    properties: {
+      type: { type: 'string' },
+      subtype: { type: 'string' },
+      className: { type: 'string' },
+      value: { description: 'Absent for undefined, and for objects not returned by value' },
+      description: { type: 'string' },
+      objectId: { type: 'string' }
+    },
+    required: ['type'],
+    additionalProperties: true
+  },
+  ElementWait: {
+    type: 'object',
+    properties: {
+      found: { type: 'boolean' },
+      selector: { type: 'string' },
+      visible: { type: 'boolean' },
+      ready: { type: 'boolean' }
+    },
+    required: ['found']
+  },
+  NetworkIdle: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      idleTime: { type: 'number' },
+      totalTime: { type: 'number' }
+    },
+    required: ['success', 'idleTime', 'totalTime']
+  },
+  ElementBounds: {
+    type: 'object',
+    properties: {
+      selector: { type: 'string' },
+      bounds: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          top: { type: 'number' },
+          right: { type: 'number' },
+          bottom: { type: 'number' },
+          left: { type: 'number' }
+        },
+        required: ['x', 'y', 'width', 'height', 'top', 'right', 'bottom', 'left']
+      },
+      scroll: {
+        type: 'object',
+        properties: { scrollX: { type: 'number' }, scrollY: { type: 'number' } },
+        required: ['scrollX', 'scrollY']
+      },
+      visible: { type: 'boolean' },
+      display: { type: 'string' },
+      position: { type: 'string' }
+    },
+    required: ['selector', 'bounds', 'scroll', 'visible', 'display', 'position']
+  },
+  PageInfo: {
+    type: 'object',
+    properties: {
+      url: { type: 'string' },
+      title: { type: 'string' },
+      readyState: { type: 'string' },
+      scroll: {
+        type: 'object',
+        properties: { x: { type: 'number' }, y: { type: 'number' }, maxX: { type: 'number' }, maxY: { type: 'number' } },
+        required: ['x', 'y', 'maxX', 'maxY']
+      },
+      viewport: {
+        type: 'object',
+        properties: { width: { type: 'number' }, height: { type: 'number' } },
+        required: ['width', 'height']
+      },
+      document: {
+        type: 'object',
+        properties: { width: { type: 'number' }, height: { type: 'number' } },
+        required: ['width', 'height']
+      },
+      timestamp: { type: 'number' }
+    },
+    required: ['url', 'title', 'readyState', 'scroll', 'viewport', 'document', 'timestamp']
+  },
+  ReplayStep: {
+    type: 'object',
+    properties: {
+      index: { type: 'integer' },
+      timestamp: { type: 'string' },
+      action: { type: 'string', enum: ['navigate', 'click', 'type', 'key', 'select', 'check', 'scroll', 'hover'] },
+      url: { type: 'string' },
+      selector: { type: 'string' },
+      selectors: { type: 'array', items: { type: 'string' } },
+      text: { type: 'string' },
+      clear: { type: 'boolean' },
+      key: { type: 'string' },
+      values: { type: 'array', items: { type: 'string' } },
+      checked: { type: 'boolean' },
+      x: { type: 'number' },
+      y: { type: 'number' },
+      redacted: { type: 'boolean' },
+      status: { type: 'string', enum: ['ok', 'failed', 'skipped'] },
+      error: { type: 'string' },
+      durationMs: { type: 'number' }
+    },
+    required: ['index', 'timestamp', 'action', 'status', 'durationMs']
+  },
+  ReplayedError: {
+    type: 'object',
+    properties: {
+      timestamp: { type: 'string' },
+      type: { type: 'string' },
+      source: { type: 'string' },
+      message: { type: 'string' },
+      url: { type: 'string' },
+      stepIndex: { type: 'integer', description: 'Step running (or last finished) when the error was logged' }
+    },
+    required: ['timestamp', 'type', 'source']
+  },
+  ReplayResult: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string' },
+      range: {
+        type: 'object',
+        properties: { from: { type: 'string' }, to: { type: 'string' } }
+      },
+      steps: { type: 'array', items: ref('ReplayStep') },
+      completed: { type: 'boolean', description: 'Every step ran' },
+      divergence: {
+        type: 'object',
+        description: 'First point where the replay stopped matching the recording',
+        properties: {
+          stepIndex: { type: 'integer' },
+          reason: { type: 'string', enum: ['url_mismatch', 'step_failed'] },
+          message: { type: 'string' },
+          expectedUrl: { type: 'string' },
+          actualUrl: { type: 'string' }
+        },
+        required: ['stepIndex', 'reason', 'message']
+      },
+      originalError: ref('ReplayedError'),
+      reproduced: { type: 'boolean' },
+      reproducedError: ref('ReplayedError'),
+      errors: { type: 'array', items: ref('ReplayedError'), description: 'Application errors logged during the replay' },
+      durationMs: { type: 'number' }
+    },
+    required: ['sessionId', 'range', 'steps', 'completed', 'reproduced', 'errors', 'durationMs']
+  },
+  NavigateStep: actionStep('navigate', 'Load a URL', {
+    url: { type: 'string', minLength: 1 },
+    waitForLoad: { type: 'boolean', default: true, description: 'Wait for DOMContentLoaded' },
+    fast: { type: 'boolean', default: false, description: 'Continue as soon as navigation starts' }
+  }, ['url']),
+  ClickStep: actionStep('click', 'Click an element once it is visible', { selector: ref('Selector') }, ['selector']),
+  TypeStep: actionStep('type', 'Type text into an element', {
+    selector: ref('Selector'),
+    text: { type: 'string' },
+    clear: { type: 'boolean', default: false, description: 'Replace the current value instead of appending' }
+  }, ['selector', 'text']),
+  KeyStep: actionStep('key', 'Press a key in the focused element', {
+    key: { type: 'string', minLength: 1, description: 'Enter, Tab, Escape, Backspace, an arrow or a character, optionally as in Control+a' }
+  }, ['key']),
+  HoverStep: actionStep('hover', 'Move the mouse over an element', { selector: ref('Selector') }, ['selector']),
+  ScrollStep: actionStep('scroll', 'Scroll an element into view, or the page to coordinates', {
+    selector: { type: 'string', minLength: 1 },
+    x: { type: 'number' },
+    y: { type: 'number' },
+    behavior: { type: 'string', enum: ['smooth', 'instant', 'auto'], default: 'smooth' }
+  }, [], { anyOf: [{ required: ['selector'] }, { required: ['x'] }, { required: ['y'] }] }),
+  WaitForElementStep: actionStep('waitForElement', 'Wait until an element exists (and is visible)', {
+    selector: ref('Selector'),
+    visible: { type: 'boolean', default: true }
+  }, ['selector']),
+  WaitForNetworkIdleStep: actionStep('waitForNetworkIdle', "Wait until none of the target's requests has been in flight for idleTime", {
+    idleTime: { ...TIMEOUT, default: 1000 }
+  }),
+  ScreenshotStep: actionStep('screenshot', 'Screenshot of the page', {
+    context: { type: 'string', default: 'actions', description: 'Goes into the file name' }
+  }),
+  ExecuteStep: actionStep('execute', 'Run JavaScript in the page', {
+    code: { type: 'string', minLength: 1 },
+    returnByValue: { type: 'boolean', default: true }
+  }, ['code']),
+  AssertTextStep: actionStep(
+    'assertText',
+    "Fail unless an element's text (whitespace collapsed) matches before the timeout",
+    { selector: ref('Selector'), ...TEXT_EXPECTATIONS },
+    ['selector'],
+    ANY_TEXT_EXPECTATION
+  ),
+  AssertUrlStep: actionStep(
+    'assertUrl',
+    "Fail unless the page's URL matches before the timeout",
+    TEXT_EXPECTATIONS,
+    [],
+    ANY_TEXT_EXPECTATION
+  ),
+  AssertNoConsoleErrorsStep: actionStep('assertNoConsoleErrors', 'Fail if a console error or uncaught exception was logged since the run started', {
+    ignore: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'Skip errors whose message contains one of these' }
+  }),
+  ActionStep: {
+    type: 'object',
+    description: 'One step of POST /actions, chosen by its action',
+    discriminator: { propertyName: 'action' },
+    required: ['action'],
+    oneOf: [
+      'NavigateStep', 'ClickStep', 'TypeStep', 'KeyStep', 'HoverStep', 'ScrollStep', 'WaitForElementStep',
+      'WaitForNetworkIdleStep', 'ScreenshotStep', 'ExecuteStep', 'AssertTextStep', 'AssertUrlStep', 'AssertNoConsoleErrorsStep'
+    ].map(ref)
+  },
+  EmulationSettings: {
+    type: 'object',
+    description: 'Emulation in effect; absent fields are not emulated',
+    properties: EMULATION_PROPERTIES,
+    additionalProperties: false
+  },
+  EmulationState: {
+    type: 'object',
+    properties: {
+      settings: ref('EmulationSettings'),
+      devices: { type: 'array', items: { type: 'string' }, description: 'Names accepted as device' },
+      networkPresets: { type: 'array', items: { type: 'string' }, description: 'Names accepted as throttle' }
+    },
+    required: ['settings', 'devices', 'networkPresets']
+  },
+  ActionStepResult: {
+    type: 'object',
+    properties: {
+      index: { type: 'integer' },
+      action: { type: 'string' },
+      status: { type: 'string', enum: ['ok', 'failed', 'skipped'], description: 'skipped: an earlier step failed' },
+      error: { type: 'string' },
+      result: { description: "What the action returned (the same as its own route's result); for assertions the actual value" },
+      startedAt: { type: 'string' },
+      durationMs: { type: 'number' },
+      logs: {
+        type: 'array',
+        items: { type: 'object', 'x-ts-type': 'LogEntry' },
+        description: 'Entries logged from the start of this step until the next one started'
+      }
+    },
+    required: ['index', 'action', 'status', 'durationMs', 'logs']
+  },
+  ActionRunResult: {
+    type: 'object',
+    properties: {
+      steps: { type: 'array', items: ref('ActionStepResult') },
+      passed: { type: 'boolean', description: 'No step failed' },
+      completed: { type: 'boolean', description: 'Every step ran' },
+      failedStep: { type: 'integer', description: 'Index of the first failed step' },
+      durationMs: { type: 'number' }
+    },
+    required: ['steps', 'passed', 'completed', 'durationMs']
+  }
+};
+
+export const CONTROL_API_ROUTES: ControlApiRoute[] = [
+  {
+    operationId: 'getHealth',
+    method: 'GET',
+    path: '/health',
+    summary: 'Whether the API is up and the browser connected',
+    response: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', enum: [true] },
+        status: { type: 'string', enum: ['healthy', 'degraded'], description: 'degraded: browser actions fail until DevTools reconnects' },
+        connected: { type: 'boolean' },
+        browser: ref('ConnectionStatus'),
+        timestamp: { type: 'string' }
+      },
+      required: ['success', 'status', 'connected', 'browser', 'timestamp']
+    }
+  },
+  {
+    operationId: 'getOpenApiDocument',
+    method: 'GET',
+    path: '/openapi.json',
+    summary: 'This API as an OpenAPI 3.1 document',
+    response: { type: 'object', additionalProperties: true }
+  },
+  {
+    operationId: 'takeScreenshot',
+    method: 'POST',
+    path: '/screenshot',
+    summary: 'Screenshot of the page (an unchanged page returns the previous file)',
+    body: {
+      type: 'object',
+      properties: {
+        context: { type: 'string', default: 'api-request', description: 'Goes into the file name' },
+        targetId: TARGET_ID
+      },
+      additionalProperties: false
+    },
+    response: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', enum: [true] },
+        screenshot: { type: ['string', 'null'], description: 'Path of the file; null when the browser is not connected' },
+        timestamp: { type: 'string' }
+      },
+      required: ['success', 'screenshot', 'timestamp']
+    }
+  },
+  {
+    operationId: 'click',
+    method: 'POST',
+    path: '/click',
+    summary: 'Click an element once it is visible',
+    drivesBrowser: true,
+    body: {
+      type: 'object',
+      properties: {
+        selector: ref('Selector'),
+        timeout: { ...TIMEOUT, default: 5000 },
+        targetId: TARGET_ID
+      },
+      required: ['selector'],
+      additionalProperties: false
+    },
+    response: envelope(ref('ClickResult'))
+  },
+  {
+    operationId: 'type',
+    method: 'POST',
+    path: '/type',
+    summary: 'Type text into an element',
+    drivesBrowser: true,
+    body: {
+      type: 'object',
+      properties: {
+        selector: ref('Selector'),
+        text: { type: 'string' },
+        timeout: { ...TIMEOUT, default: 5000 },
+        clear: { type: 'boolean', default: false, description: 'Replace the current value instead of appending' },
+        targetId: TARGET_ID
+      },
+      required: ['selector', 'text'],
+      additionalProperties: false
+    },
+    response: envelope(ref('TypeResult'))
+  },
+  {
+    operationId: 'navigate',
+    method: 'POST',
+    path: '/navigate',
+    summary: 'Load a URL',
+    drivesBrowser: true,
+    body: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', minLength: 1 },
+        waitForLoad: { type: 'boolean', default: true, description: 'Wait for DOMContentLoaded' },
+        timeout: { ...TIMEOUT, default: 10000 },
+        fast: { type: 'boolean', default: false, description: 'Return as soon as navigation starts' },
+        targetId: TARGET_ID
+      },
+      required: ['url'],
+      additionalProperties: false
+    },
+    response: envelope(ref('NavigateResult'))
+  },
+  {
+    operationId: 'scroll',
+    method: 'POST',
+    path: '/scroll',
+    summary: 'Scroll an element into view, or the page to coordinates',
+    drivesBrowser: true,
+    body: {
+      type: 'object',
+      properties: {
+        selector: { type: 'string', minLength: 1 },
+        x: { type: 'number' },
+        y: { type: 'number' },
+        behavior: { type: 'string', enum: ['smooth', 'instant', 'auto'], default: 'smooth' },
+        targetId: TARGET_ID
+      },
+      anyOf: [{ required: ['selector'] }, { required: ['x'] }, { required: ['y'] }],
+      additionalProperties: false
+    },
+    response: envelope(ref('ScrollResult'))
+  },
+  {
+    operationId: 'inspect',
+    method: 'POST',
+    path: '/inspect',
+    summary: "An element's properties, attributes and position",
+    body: {
+      type: 'object',
+      properties: {
+        selector: { type: 'string', minLength: 1 },
+        properties: {
+          type: 'array',
+          items: { type: 'string' },
+          default: ['textContent', 'innerHTML', 'outerHTML', 'className', 'id']
+        },
+        targetId: TARGET_ID
+      },
+      required: ['selector'],
+      additionalProperties: false
+    },
+    response: envelope(ref('ElementInspection'))
+  },
+  {
+    operationId: 'getComputedStyles',
+    method: 'POST',
+    path: '/computed-styles',
+    summary: "An element's computed CSS values",
+    body: {
+      type: 'object',
+      properties: {
+        selector: { type: 'string', minLength: 1 },
+        properties: {
+          type: 'array',
+          items: { type: 'string' },
+          default: ['color', 'background-color', 'font-size', 'display', 'position']
+        },
+        targetId: TARGET_ID
+      },
+      required: ['selector'],
+      additionalProperties: false
+    },
+    response: envelope(ref('ComputedStyles'))
+  },
+  {
+    operationId: 'execute',
+    method: 'POST',
+    path: '/execute',
+    summary: 'Evaluate a JavaScript expression in the page',
+    drivesBrowser: true,
+    body: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', minLength: 1 },
+        returnByValue: { type: 'boolean', default: true },
+        timeout: { ...TIMEOUT, default: 10000 },
+        targetId: TARGET_ID
+      },
+      required: ['code'],
+      additionalProperties: false
+    },
+    response: envelope(ref('RemoteObject'))
+  },
+  {
+    operationId: 'getNetworkRequests',
+    method: 'GET',
+    path: '/network-requests',
+    summary: 'The most recent requests of the live network buffer',
+    query: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', minimum: 1, default: 50 }
+      }
+    },
+    response: envelope({ type: 'array', items: ref('NetworkRequest') }, { count: { type: 'integer' } })
+  },
+  {
+    operationId: 'exportHar',
+    method: 'GET',
+    path: '/network-requests.har',
+    summary: 'The live network buffer as a HAR 1.2 document',
+    query: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', minimum: 1, description: 'Most recent requests only' },
+        download: { type: 'string', description: 'Present (any value) to send the HAR as a file download' }
+      }
+    },
+    response: { type: 'object', 'x-ts-type': 'HarDocument', description: 'HAR 1.2 document' }
+  },
+  {
+    operationId: 'getTargets',
+    method: 'GET',
+    path: '/targets',
+    summary: 'Attached browser targets (tabs, popups, iframes, workers)',
+    response: envelope({ type: 'array', items: ref('BrowserTarget') }, { count: { type: 'integer' } })
+  },
+  {
+    operationId: 'getPageInfo',
+    method: 'GET',
+    path: '/page-info',
+    summary: "The page's URL, title, scroll position and size",
+    query: {
+      type: 'object',
+      properties: { targetId: TARGET_ID }
+    },
+    response: envelope(ref('PageInfo'))
+  },
+  {
+    operationId: 'waitForElement',
+    method: 'POST',
+    path: '/wait-for-element',
+    summary: 'Wait until an element exists (and is visible)',
+    body: {
+      type: 'object',
+      properties: {
+        selector: ref('Selector'),
+        timeout: { ...TIMEOUT, default: 10000 },
+        visible: { type: 'boolean', default: true },
+        targetId: TARGET_ID
+      },
+      required: ['selector'],
+      additionalProperties: false
+    },
+    response: envelope(ref('ElementWait'))
+  },
+  {
+    operationId: 'waitForNetworkIdle',
+    method: 'POST',
+    path: '/wait-for-network-idle',
+    summary: 'Wait until no request (of targetId, when given) has been in flight for idleTime',
+    body: {
+      type: 'object',
+      properties: {
+        timeout: { ...TIMEOUT, default: 10000 },
+        idleTime: { ...TIMEOUT, default: 1000 },
+        targetId: TARGET_ID
+      },
+      additionalProperties: false
+    },
+    response: envelope(ref('NetworkIdle'))
+  },
+  {
+    operationId: 'getElementBounds',
+    method: 'POST',
+    path: '/element-bounds',
+    summary: "An element's bounding box and the page scroll",
+    body: {
+      type: 'object',
+      properties: {
+        selector: { type: 'string', minLength: 1 },
+        targetId: TARGET_ID
+      },
+      required: ['selector'],
+      additionalProperties: false
+    },
+    response: envelope(ref('ElementBounds'))
+  },
+  {
+    operationId: 'streamEvents',
+    method: 'GET',
+    path: '/events',
+    summary: 'Live log entries as Server-Sent Events (the /ws WebSocket takes the same parameters)',
+    query: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', description: 'Entry types, comma-separated' },
+        level: { type: 'string', description: 'Levels, comma-separated' },
+        url: { type: 'string', description: 'Regular expression tested against the entry URL' },
+        targetId: { type: 'string', description: 'Target id or unique prefix' },
+        since: { type: 'integer', minimum: 0, description: 'Resume after this event id (or send Last-Event-ID)' }
+      }
+    },
+    response: { type: 'string', description: 'Entries as data messages with an id; lost history as a "gap" event' },
+    responseType: 'text/event-stream'
+  },
+  {
+    operationId: 'replay',
+    method: 'POST',
+    path: '/replay',
+    summary: "Re-run a recorded session's interactions and report divergence or a reproduced error",
+    drivesBrowser: true,
+    body: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', default: 'latest', description: 'Session id, unique prefix or "latest"' },
+        from: { type: 'string', description: 'ISO timestamp, inclusive' },
+        to: { type: 'string', description: 'ISO timestamp, inclusive' },
+        untilError: { type: 'boolean', description: 'Replay the interactions leading up to the first error in the range' },
+        lookbackSeconds: { type: 'number', minimum: 0, description: 'With untilError and no from: how far before the error to start' },
+        speed: { type: 'number', minimum: 0, description: '1 = recorded pace, 0 = no waiting between steps' },
+        maxDelayMs: { type: 'number', minimum: 0 },
+        stepTimeout: { type: 'number', minimum: 0 },
+        stopOnDivergence: { type: 'boolean' },
+        settleMs: { type: 'number', minimum: 0, description: 'Wait after the last step for the original error to reappear' }
+      },
+      additionalProperties: false
+    },
+    response: envelope(ref('ReplayResult'))
+  },
+  {
+    operationId: 'runActions',
+    method: 'POST',
+    path: '/actions',
+    summary: 'Run steps (actions and assertions) in order and report each one with its timing and log entries',
+    drivesBrowser: true,
+    body: {
+      type: 'object',
+      properties: {
+        steps: { type: 'array', items: ref('ActionStep'), minItems: 1 },
+        stepTimeout: { ...TIMEOUT, default: 10000, description: 'Milliseconds each step may take unless it sets a timeout' },
+        continueOnError: { type: 'boolean', default: false, description: 'Keep going after a failed step' },
+        targetId: TARGET_ID
+      },
+      required: ['steps'],
+      additionalProperties: false
+    },
+    response: envelope(ref('ActionRunResult'))
+  },
+  {
+    operationId: 'getEmulation',
+    method: 'GET',
+    path: '/emulation',
+    summary: 'Device, network, CPU, location, locale and media emulation in effect, and the devices and presets available',
+    response: envelope(ref('EmulationState'))
+  },
+  {
+    operationId: 'emulate',
+    method: 'POST',
+    path: '/emulation',
+    summary: 'Change device, network, CPU, location, locale or media emulation; fields left out keep their value',
+    drivesBrowser: true,
+    body: {
+      type: 'object',
+      properties: {
+        ...EMULATION_PROPERTIES,
+        reset: { type: 'boolean', default: false, description: 'Turn all emulation off before applying the other fields' }
+      },
+      additionalProperties: false
+    },
+    response: envelope(ref('EmulationState'))
+  }
+];
+
+/**
+ * OpenAPI 3.1 document of the Control API; schemas are shared with request validation
+ */
+export function createOpenApiDocument(serverUrl?: string): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of CONTROL_API_ROUTES) {
+    const responses: Record<string, unknown> = {
+      200: {
+        description: 'OK',
+        content: { [route.responseType || 'application/json']: { schema: route.response } }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/Error' }
+    };
+    if (route.query || route.body) {
+      responses[422] = { $ref: '#/components/responses/ValidationFailed' };
+    }
+
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method.toLowerCase()]: {
+        operationId: route.operationId,
+        summary: route.summary,
+        ...(route.query ? { parameters: queryParameters(route.query) } : {}),
+        ...(route.body ? {
+          requestBody: {
+            required: (route.body.required || []).length > 0,
+            content: { 'application/json': { schema: route.body } }
+          }
+        } : {}),
+        responses
+      }
+    };
+  }
+
+  const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: ref('ErrorResponse') } }
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'daisy Control API',
+      version: CONTROL_API_VERSION,
+      description: 'Drives the browser of a running daisy session. Every request needs the session token ' +
+        '(~/.daisy/control-api-<port>.token) as a bearer token, or a token query parameter.'
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      schemas: CONTROL_API_SCHEMAS,
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+      responses: {
+        Unauthorized: errorResponse('Missing or invalid token'),
+        Forbidden: errorResponse('Origin not allowed, or a browser-driving route in read-only mode'),
+        ValidationFailed: errorResponse('The request does not match the schema; see issues'),
+        Error: errorResponse('The browser action failed')
+      }
+    }
+  };
+}
+
+/**
+ * A schema with its #/components/schemas references inlined and the OpenAPI-only keywords
+ * dropped, for plain JSON Schema consumers such as MCP tool input schemas
+ */
+export function inlineSchema(schema: JsonSchema): JsonSchema {
+  if (schema.$ref) {
+    return inlineSchema(CONTROL_API_SCHEMAS[schema.$ref.split('/').pop()!]);
+  }
+
+  const { discriminator, 'x-ts-type': tsType, ...rest } = schema;
+  const inlined: JsonSchema = { ...rest };
+  if (rest.properties) {
+    inlined.properties = Object.fromEntries(
+      Object.entries(rest.properties).map(([name, property]) => [name, inlineSchema(property)])
+    );
+  }
+  if (rest.items) {
+    inlined.items = inlineSchema(rest.items);
+  }
+  if (typeof rest.additionalProperties === 'object') {
+    inlined.additionalProperties = inlineSchema(rest.additionalProperties);
+  }
+  if (rest.oneOf) {
+    inlined.oneOf = rest.oneOf.map(inlineSchema);
+  }
+  if (rest.anyOf) {
+    inlined.anyOf = rest.anyOf.map(inlineSchema);
+  }
+  return inlined;
+}
+
+function queryParameters(query: JsonSchema): unknown[] {
+  const required = query.required || [];
+  return Object.entries(query.properties || {}).map(([name, { description, ...schema }]) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    ...(description ? { description } : {}),
+    schema
+  }));
+}
@@ -0,0 +1,103 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Control API credentials.
+ *
+ * The Control API drives an authenticated browser session, including running arbitrary
+ * JavaScript, so every request needs the session's random token. daisy writes it to
+ * ~/.daisy/control-api-<port>.token (readable only by the user) for local tools such as
+ * `daisy replay`, and passes it to the MCP server on its command line.
+ *
+ * The MCP server's HTTP endpoint proxies the same powers, so its clients need a token
+ * too: ~/.daisy/mcp-<port>.token, created once and kept, so assistant configs that send
+ * it keep working from one daisy run to the next.
+ */
+
+export type ControlAuthFailure = 'token' | 'origin';
+
+export function createControlToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+export function controlTokenPath(port: number): string {
+  return path.join(os.homedir(), '.daisy', `control-api-${port}.token`);
+}
+
+export function writeControlToken(port: number, token: string): void {
+  writeTokenFile(controlTokenPath(port), token);
+}
+
+export function readControlToken(port: number): string | undefined {
+  return readTokenFile(controlTokenPath(port));
+}
+
+export function removeControlToken(port: number): void {
+  fs.rmSync(controlTokenPath(port), { force: true });
+}
+
+export function mcpTokenPath(port: number): string {
+  return path.join(os.homedir(), '.daisy', `mcp-${port}.token`);
+}
+
+/**
+ * Token of the MCP HTTP endpoint on `port`, created on first use
+ */
+export function ensureMcpToken(port: number): string {
+  const existing = readTokenFile(mcpTokenPath(port));
+  if (existing) {
+    return existing;
+  }
+  const token = createControlToken();
+  writeTokenFile(mcpTokenPath(port), token);
+  return token;
+}
+
+function writeTokenFile(tokenPath: string, token: string): void {
+  fs.mkdirSync(path.dirname(tokenPath), { recursive: true });
+  fs.writeFileSync(tokenPath, token, { mode: 0o600 });
+  // writeFileSync only applies the mode to new files
+  fs.chmodSync(tokenPath, 0o600);
+}
+
+function readTokenFile(tokenPath: string): string | undefined {
+  try {
+    return fs.readFileSync(tokenPath, 'utf8').trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Why a request may not use the API, or undefined when it may.
+ *
+ * The token comes from `Authorization: Bearer <token>`, or a `token` query parameter for
+ * EventSource and WebSocket clients, which cannot set headers. Browsers send an Origin
+ * header; it must be on the allowlist so other web pages (including DNS rebinding
+ * attacks) cannot reach the API. Clients outside a browser send none.
+ */
+export function checkControlRequest(
+  request: http.IncomingMessage,
+  token: string,
+  allowedOrigins: string[]
+): ControlAuthFailure | undefined {
+  const origin = request.headers.origin;
+  if (origin && !allowedOrigins.includes(origin)) {
+    return 'origin';
+  }
+
+  const header = request.headers.authorization;
+  const bearer = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+  const presented = bearer || new URL(request.url || '/', 'http://localhost').searchParams.get('token') || '';
+  return tokensMatch(presented, token) ? undefined : 'token';
+}
+
+// Constant-time comparison, so the token cannot be guessed byte by byte from response times
+function tokensMatch(presented: string, token: string): boolean {
+  const a = Buffer.from(presented);
+  const b = Buffer.from(token);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -0,0 +1,90 @@
+/**
+ * Devices and network conditions daisy can emulate (--device, --throttle and the Control
+ * API's /emulation). The numbers follow Chrome DevTools' own device list and throttling
+ * presets, so a bug seen there reproduces under daisy.
+ */
+
+import { EmulationSettings } from './control-api-client';
+
+export interface DeviceDescriptor {
+  width: number; // viewport, CSS pixels
+  height: number;
+  deviceScaleFactor: number;
+  mobile: boolean; // mobile viewport meta handling and scrollbars
+  touch: boolean;
+  userAgent?: string; // the browser's own when omitted
+}
+
+export interface NetworkConditions {
+  latencyMs: number; // added to every request's round trip
+  downloadKbps: number; // kilobits per second; 0 = unlimited
+  uploadKbps: number;
+}
+
+const IOS_16_USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1';
+const IOS_17_USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const IPADOS_16_USER_AGENT = 'Mozilla/5.0 (iPad; CPU OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1';
+
+export const DEVICE_CATALOG: Record<string, DeviceDescriptor> = {
+  'iPhone SE': { width: 375, height: 667, deviceScaleFactor: 2, mobile: true, touch: true, userAgent: IOS_16_USER_AGENT },
+  'iPhone 14': { width: 390, height: 844, deviceScaleFactor: 3, mobile: true, touch: true, userAgent: IOS_16_USER_AGENT },
+  'iPhone 14 Pro Max': { width: 430, height: 932, deviceScaleFactor: 3, mobile: true, touch: true, userAgent: IOS_16_USER_AGENT },
+  'iPhone 15 Pro': { width: 393, height: 852, deviceScaleFactor: 3, mobile: true, touch: true, userAgent: IOS_17_USER_AGENT },
+  'Pixel 7': {
+    width: 412, height: 915, deviceScaleFactor: 2.625, mobile: true, touch: true,
+    userAgent: 'Mozilla/5.0 (Linux; Android 13; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+  },
+  'Galaxy S23': {
+    width: 360, height: 780, deviceScaleFactor: 3, mobile: true, touch: true,
+    userAgent: 'Mozilla/5.0 (Linux; Android 13; SM-S911B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+  },
+  'iPad Mini': { width: 768, height: 1024, deviceScaleFactor: 2, mobile: true, touch: true, userAgent: IPADOS_16_USER_AGENT },
+  'iPad Pro 11': { width: 834, height: 1194, deviceScaleFactor: 2, mobile: true, touch: true, userAgent: IPADOS_16_USER_AGENT },
+  'Desktop 1366x768': { width: 1366, height: 768, deviceScaleFactor: 1, mobile: false, touch: false },
+  'Desktop 1920x1080': { width: 1920, height: 1080, deviceScaleFactor: 1, mobile: false, touch: false }
+};
+
+export type NetworkPreset = 'none' | 'slow-3g' | 'fast-3g' | '4g';
+
+export const NETWORK_PRESETS: Record<NetworkPreset, NetworkConditions> = {
+  'none': { latencyMs: 0, downloadKbps: 0, uploadKbps: 0 },
+  'slow-3g': { latencyMs: 2000, downloadKbps: 400, uploadKbps: 400 },
+  'fast-3g': { latencyMs: 563, downloadKbps: 1440, uploadKbps: 675 },
+  '4g': { latencyMs: 165, downloadKbps: 8100, uploadKbps: 1350 }
+};
+
+export const DEVICE_NAMES = Object.keys(DEVICE_CATALOG);
+export const NETWORK_PRESET_NAMES = Object.keys(NETWORK_PRESETS) as NetworkPreset[];
+
+/**
+ * Catalog name of a device, ignoring case and spacing ("iphone-14" finds "iPhone 14")
+ */
+export function findDeviceName(name: string): string | undefined {
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, '');
+  return DEVICE_NAMES.find(deviceName => normalize(deviceName) === normalize(name));
+}
+
+export function isNetworkPreset(value: string): value is NetworkPreset {
+  return (NETWORK_PRESET_NAMES as string[]).includes(value);
+}
+
+/**
+ * Short summary of emulation settings for logs and the console
+ */
+export function describeEmulation(settings: EmulationSettings): string {
+  const parts = [
+    settings.device,
+    settings.width || settings.height ? `${settings.width ?? 'auto'}x${settings.height ?? 'auto'}` : undefined,
+    settings.deviceScaleFactor ? `${settings.deviceScaleFactor}x pixel ratio` : undefined,
+    settings.userAgent ? 'custom user agent' : undefined,
+    settings.throttle && settings.throttle !== 'none' ? `${settings.throttle} network` : undefined,
+    settings.offline ? 'offline' : undefined,
+    settings.cpuThrottle && settings.cpuThrottle > 1 ? `${settings.cpuThrottle}x CPU slowdown` : undefined,
+    settings.geolocation ? `at ${settings.geolocation.latitude},${settings.geolocation.longitude}` : undefined,
+    settings.timezone,
+    settings.locale,
+    settings.colorScheme ? `${settings.colorScheme} mode` : undefined,
+    settings.reducedMotion ? 'reduced motion' : undefined
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'off';
+}
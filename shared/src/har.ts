@@ -0,0 +1,340 @@
+/**
+ * HAR 1.2 export (http://www.softwareishard.com/blog/har-12-spec/)
+ *
+ * Requests come from two places: the daemon's live network buffer (full headers,
+ * bodies and CDP timings) and the network entries of a session log (what the logger
+ * kept). Both are mapped to HarRequestRecord and then to a HAR document here.
+ */
+
+import { NetworkEvent, NetworkTiming } from './log-events';
+import { CdpResourceTiming, roundMs } from './network-timing';
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: { mimeType: string; text: string };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: { size: number; mimeType: string; text?: string; encoding?: string };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  _error?: string; // Transport failure reported by the browser (custom field)
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+}
+
+export interface HarDocument {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+    comment?: string;
+  };
+}
+
+/**
+ * One request/response pair, independent of where it was captured
+ */
+export interface HarRequestRecord {
+  method: string;
+  url: string;
+  startedDateTime: string; // ISO 8601
+  requestHeaders?: Record<string, string>;
+  postData?: string;
+  status?: number; // absent or 0 when no response arrived
+  statusText?: string;
+  httpVersion?: string;
+  responseHeaders?: Record<string, string>;
+  mimeType?: string;
+  responseBody?: unknown;
+  responseBodyBase64?: boolean;
+  encodedDataLength?: number; // bytes on the wire, headers included
+  remoteIPAddress?: string;
+  timings?: HarTimings;
+  errorText?: string;
+}
+
+export const HAR_CREATOR = { name: 'daisy', version: '1.0.0' };
+
+const UNKNOWN_TIMINGS: HarTimings = { blocked: -1, dns: -1, connect: -1, send: 0, wait: 0, receive: 0, ssl: -1 };
+
+/**
+ * Convert CDP resource timing to HAR timings.
+ * `finishedTimestamp` is the monotonic time (seconds) of Network.loadingFinished, if known.
+ */
+export function harTimingsFromCdp(timing: CdpResourceTiming, finishedTimestamp?: number): HarTimings {
+  const span = (start: number, end: number) => (start >= 0 && end >= start ? roundMs(end - start) : -1);
+  const firstKnown = [timing.dnsStart, timing.connectStart, timing.sendStart].find(t => t >= 0);
+  const receive = finishedTimestamp !== undefined
+    ? (finishedTimestamp - timing.requestTime) * 1000 - timing.receiveHeadersEnd
+    : 0;
+
+  return {
+    blocked: firstKnown !== undefined ? firstKnown : -1,
+    dns: span(timing.dnsStart, timing.dnsEnd),
+    // HAR counts the TLS handshake inside connect as well as in ssl
+    connect: span(timing.connectStart, timing.connectEnd),
+    send: Math.max(0, span(timing.sendStart, timing.sendEnd)),
+    wait: Math.max(0, span(timing.sendEnd, timing.receiveHeadersEnd)),
+    receive: Math.max(0, roundMs(receive)),
+    ssl: span(timing.sslStart, timing.sslEnd)
+  };
+}
+
+/**
+ * Map a logged network entry to a HAR record. Logs keep only essential headers and
+ * possibly truncated bodies, so the result is less complete than a live export.
+ */
+export function harRecordFromNetworkEvent(entry: NetworkEvent): HarRequestRecord {
+  const duration = entry.data.duration;
+  let timings: HarTimings | undefined;
+  if (entry.data.timing) {
+    timings = harTimingsFromNetworkTiming(entry.data.timing);
+  } else if (duration !== undefined) {
+    timings = { ...UNKNOWN_TIMINGS, wait: duration };
+  }
+
+  return {
+    method: entry.data.method,
+    url: entry.data.url,
+    startedDateTime: duration !== undefined
+      ? new Date(new Date(entry.timestamp).getTime() - duration).toISOString()
+      : entry.timestamp,
+    postData: entry.data.requestBody === undefined ? undefined : stringifyBody(entry.data.requestBody),
+    status: entry.data.status,
+    httpVersion: entry.data.protocol,
+    responseHeaders: entry.data.headers,
+    responseBody: entry.data.responseBody,
+    encodedDataLength: entry.data.encodedSize,
+    timings,
+    errorText: entry.data.errorText
+  };
+}
+
+function harTimingsFromNetworkTiming(timing: NetworkTiming): HarTimings {
+  return {
+    blocked: timing.blocked ?? -1,
+    dns: timing.dns ?? -1,
+    connect: timing.connect ?? -1,
+    send: 0,
+    wait: timing.ttfb,
+    receive: timing.download,
+    ssl: timing.tls ?? -1
+  };
+}
+
+export function createHarDocument(
+  records: HarRequestRecord[],
+  options: { creator?: { name: string; version: string }; comment?: string } = {}
+): HarDocument {
+  const entries = records
+    .map(toHarEntry)
+    .sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+
+  return {
+    log: {
+      version: '1.2',
+      creator: options.creator || HAR_CREATOR,
+      entries,
+      ...(options.comment ? { comment: options.comment } : {})
+    }
+  };
+}
+
+function toHarEntry(record: HarRequestRecord): HarEntry {
+  const requestHeaders = toNameValues(record.requestHeaders);
+  const responseHeaders = toNameValues(record.responseHeaders);
+  const httpVersion = normalizeHttpVersion(record.httpVersion);
+  const mimeType = record.mimeType || headerValue(record.responseHeaders, 'content-type') || 'x-unknown';
+  const bodyText = record.responseBody === undefined || record.responseBody === null
+    ? undefined
+    : stringifyBody(record.responseBody);
+  const contentSize = bodyText === undefined ? 0 : (record.responseBodyBase64 ? base64DecodedLength(bodyText) : utf8Length(bodyText));
+  const timings = record.timings || UNKNOWN_TIMINGS;
+
+  const request: HarRequest = {
+    method: record.method,
+    url: record.url,
+    httpVersion,
+    cookies: parseCookieHeader(headerValue(record.requestHeaders, 'cookie')),
+    headers: requestHeaders,
+    queryString: parseQueryString(record.url),
+    headersSize: -1,
+    bodySize: record.postData ? utf8Length(record.postData) : 0
+  };
+
+  if (record.postData) {
+    request.postData = {
+      mimeType: headerValue(record.requestHeaders, 'content-type') || 'application/octet-stream',
+      text: record.postData
+    };
+  }
+
+  const response: HarResponse = {
+    status: record.status || 0,
+    statusText: record.statusText || '',
+    httpVersion,
+    cookies: parseSetCookieHeader(headerValue(record.responseHeaders, 'set-cookie')),
+    headers: responseHeaders,
+    content: {
+      size: contentSize,
+      mimeType,
+      ...(bodyText !== undefined ? { text: bodyText } : {}),
+      ...(bodyText !== undefined && record.responseBodyBase64 ? { encoding: 'base64' } : {})
+    },
+    redirectURL: headerValue(record.responseHeaders, 'location') || '',
+    headersSize: -1,
+    bodySize: record.encodedDataLength !== undefined ? record.encodedDataLength : (record.status ? contentSize : 0)
+  };
+
+  if (record.errorText) {
+    response._error = record.errorText;
+  }
+
+  const entry: HarEntry = {
+    startedDateTime: record.startedDateTime,
+    time: totalTime(timings),
+    request,
+    response,
+    cache: {},
+    timings
+  };
+
+  if (record.remoteIPAddress) {
+    entry.serverIPAddress = record.remoteIPAddress.replace(/^\[|\]$/g, '');
+  }
+
+  return entry;
+}
+
+function totalTime(timings: HarTimings): number {
+  // ssl is already part of connect
+  return [timings.blocked, timings.dns, timings.connect, timings.send, timings.wait, timings.receive]
+    .filter(t => t > 0)
+    .reduce((sum, t) => sum + t, 0);
+}
+
+function toNameValues(headers?: Record<string, string>): HarNameValue[] {
+  if (!headers) {
+    return [];
+  }
+  const result: HarNameValue[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    // CDP joins repeated headers with newlines
+    for (const part of String(value).split('\n')) {
+      result.push({ name, value: part });
+    }
+  }
+  return result;
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key ? String(headers[key]) : undefined;
+}
+
+function parseQueryString(url: string): HarNameValue[] {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) {
+    return [];
+  }
+  const query = url.substring(queryStart + 1).split('#')[0];
+  return query.split('&').filter(Boolean).map(pair => {
+    const separator = pair.indexOf('=');
+    const name = separator === -1 ? pair : pair.substring(0, separator);
+    const value = separator === -1 ? '' : pair.substring(separator + 1);
+    return { name: safeDecode(name), value: safeDecode(value) };
+  });
+}
+
+function parseCookieHeader(header?: string): HarNameValue[] {
+  if (!header) {
+    return [];
+  }
+  return header.split(';').map(part => part.trim()).filter(Boolean).map(part => {
+    const separator = part.indexOf('=');
+    return separator === -1
+      ? { name: part, value: '' }
+      : { name: part.substring(0, separator), value: part.substring(separator + 1) };
+  });
+}
+
+function parseSetCookieHeader(header?: string): HarNameValue[] {
+  if (!header) {
+    return [];
+  }
+  // One cookie per line; attributes after the first ';' are not kept
+  return header.split('\n').map(line => parseCookieHeader(line.split(';')[0])[0]).filter(Boolean);
+}
+
+function stringifyBody(body: unknown): string {
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+// Bodies cut at a size limit can end in half a surrogate pair; it counts as U+FFFD
+function utf8Length(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+function base64DecodedLength(text: string): number {
+  const padding = text.endsWith('==') ? 2 : text.endsWith('=') ? 1 : 0;
+  return Math.max(0, Math.floor(text.length * 3 / 4) - padding);
+}
+
+function normalizeHttpVersion(protocol?: string): string {
+  if (!protocol) {
+    return 'HTTP/1.1';
+  }
+  const lower = protocol.toLowerCase();
+  if (lower === 'h2') return 'HTTP/2.0';
+  if (lower === 'h3' || lower.startsWith('h3-')) return 'HTTP/3.0';
+  if (lower.startsWith('http/')) return protocol.toUpperCase();
+  return protocol;
+}
@@ -0,0 +1,13 @@
+export * from './log-events';
+export * from './log-schema';
+export * from './log-reader';
+export * from './network-timing';
+export * from './har';
+export * from './interaction-steps';
+export * from './test-export';
+export * from './routes';
+export * from './session-index';
+export * from './emulation';
+export * from './control-api';
+export * from './control-api-client';
+export * from './control-auth';
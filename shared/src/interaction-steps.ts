@@ -0,0 +1,187 @@
+/**
+ * Replayable steps from a session's interaction log.
+ *
+ * The tracker records a field's typed value as one TYPE entry; sessions recorded before
+ * that have one KEY entry per key press, so consecutive printable keys in one element are
+ * joined into a single `type` step. Focus, paste, drag, submit and route changes are
+ * effects of the steps around them and are not replayed. The first step is always a
+ * navigation to the page the interactions started on.
+ */
+
+import { InteractionEvent, LogEntry, isEventType } from './log-events';
+
+export type InteractionStepAction = 'navigate' | 'click' | 'type' | 'key' | 'select' | 'check' | 'hover' | 'scroll';
+
+export interface InteractionStep {
+  index: number;
+  timestamp: string; // when the (last) recorded event of the step happened
+  action: InteractionStepAction;
+  url?: string; // navigate: destination; otherwise the page the action happened on
+  selector?: string;
+  selectors?: string[]; // fallbacks for `selector`, best first
+  text?: string; // type
+  clear?: boolean; // type: `text` replaces the field's value instead of being appended
+  key?: string; // key: Enter, Tab, Escape, Control+a, ...
+  values?: string[]; // select: option values
+  checked?: boolean; // check
+  x?: number; // click, hover: viewport coordinates; scroll: target offsets
+  y?: number;
+  redacted?: boolean; // typed text was masked when recorded and cannot be replayed as-is
+}
+
+export interface InteractionStepRange {
+  from?: string | Date; // inclusive
+  to?: string | Date; // inclusive
+}
+
+// Modifiers a recorded key can be combined with, as in Control+Shift+k
+export const KEY_MODIFIERS = ['Alt', 'Control', 'Meta', 'Shift'];
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'AltGraph', 'Fn']);
+const REDACTED_KEY = '[REDACTED]';
+
+/**
+ * Build replayable steps from log entries (in log order), optionally limited to a time range
+ */
+export function buildInteractionSteps(entries: LogEntry[], range: InteractionStepRange = {}): InteractionStep[] {
+  const from = range.from !== undefined ? new Date(range.from).getTime() : -Infinity;
+  const to = range.to !== undefined ? new Date(range.to).getTime() : Infinity;
+
+  const steps: Omit<InteractionStep, 'index'>[] = [];
+  let lastNavigation: string | undefined;
+  let typing: Omit<InteractionStep, 'index'> | undefined;
+
+  for (const entry of entries) {
+    const time = new Date(entry.timestamp).getTime();
+    if (time > to) {
+      break;
+    }
+
+    // Fallback start page for interactions recorded before the tracker reported URLs
+    if (isEventType(entry, 'page') && entry.data.event === 'navigation' && entry.data.url) {
+      lastNavigation = entry.data.url;
+    }
+
+    if (time < from || !isEventType(entry, 'interaction')) {
+      continue;
+    }
+
+    const step = toStep(entry);
+    if (!step) {
+      continue;
+    }
+
+    if (steps.length === 0) {
+      const start = step.url || lastNavigation;
+      if (start) {
+        steps.push({ timestamp: entry.timestamp, action: 'navigate', url: start });
+      }
+    }
+
+    // The tracker reports a field's whole value again after a pause in typing
+    const previous = steps[steps.length - 1];
+    if (step.action === 'type' && step.clear && previous?.action === 'type' && previous.clear && previous.selector === step.selector) {
+      Object.assign(previous, { timestamp: step.timestamp, text: step.text, redacted: step.redacted });
+      continue;
+    }
+
+    // Printable keys extend the text being typed into the same element
+    const continuesTyping = typing !== undefined && typing === steps[steps.length - 1] && typing.selector === step.selector;
+    if (step.action === 'key' && step.key !== undefined && isTypedKey(step.key, continuesTyping)) {
+      if (!typing || !continuesTyping) {
+        typing = { timestamp: entry.timestamp, action: 'type', url: step.url, selector: step.selector, selectors: step.selectors, text: '' };
+        steps.push(typing);
+      }
+      typing.timestamp = entry.timestamp;
+      if (step.key === 'Backspace') {
+        typing.text = typing.text!.slice(0, -1);
+      } else if (step.key === REDACTED_KEY) {
+        typing.redacted = true;
+      } else {
+        typing.text += step.key;
+      }
+      continue;
+    }
+
+    typing = undefined;
+    steps.push(step);
+  }
+
+  return steps.map((step, index) => ({ index, ...step }));
+}
+
+/**
+ * Split a recorded key such as Control+Shift+k into its modifiers and the key itself
+ */
+export function splitKeyCombo(combo: string): { modifiers: string[]; key: string } {
+  // The last part is the key, which may itself be "+"
+  const parts = combo.split(/\+(?!$)/);
+  return { modifiers: parts.slice(0, -1), key: parts[parts.length - 1] };
+}
+
+/**
+ * Whether an entry is an error raised by the application (page exception, console error,
+ * failed request) rather than by the browser connection or a failed Control API action
+ */
+export function isApplicationError(entry: LogEntry): boolean {
+  if (entry.level !== 'error' || entry.type === 'browser') {
+    return false;
+  }
+  // Control API actions log their own failures as click_error, navigation_error, ...
+  return !(entry.type === 'error' && entry.source.endsWith('_error'));
+}
+
+/**
+ * First application error in the log, optionally after a point in time
+ */
+export function findFirstError(entries: LogEntry[], after?: string | Date): LogEntry | undefined {
+  const start = after !== undefined ? new Date(after).getTime() : -Infinity;
+  return entries.find(entry => isApplicationError(entry) && new Date(entry.timestamp).getTime() >= start);
+}
+
+function toStep(entry: InteractionEvent): Omit<InteractionStep, 'index'> | undefined {
+  const data = entry.data;
+  const base = { timestamp: entry.timestamp, url: entry.context?.url, selector: data.selector, selectors: data.selectors };
+
+  switch (data.action) {
+    case 'CLICK':
+      return { ...base, action: 'click', x: data.x, y: data.y };
+    case 'TYPE':
+      if (data.text === undefined) {
+        return undefined;
+      }
+      return data.text === REDACTED_KEY && data.sensitive
+        ? { ...base, action: 'type', text: '', clear: data.clear, redacted: true }
+        : { ...base, action: 'type', text: data.text, clear: data.clear };
+    case 'KEY':
+      if (!data.key || MODIFIER_KEYS.has(data.key)) {
+        return undefined;
+      }
+      return { ...base, action: 'key', key: data.key };
+    case 'SELECT':
+      return data.values ? { ...base, action: 'select', values: data.values } : undefined;
+    case 'CHECK':
+      return data.checked !== undefined ? { ...base, action: 'check', checked: data.checked } : undefined;
+    case 'HOVER':
+      return { ...base, action: 'hover', x: data.x, y: data.y };
+    case 'SCROLL':
+      if (!data.to) {
+        return undefined;
+      }
+      return {
+        ...base,
+        action: 'scroll',
+        selector: data.selector === 'document' ? undefined : data.selector,
+        selectors: undefined,
+        x: data.to.x,
+        y: data.to.y
+      };
+    default:
+      return undefined;
+  }
+}
+
+// Keys that change an input's text rather than acting on the page; Backspace only edits text typed in this step
+function isTypedKey(key: string, continuesTyping: boolean): boolean {
+  return key.length === 1 || key === REDACTED_KEY || (key === 'Backspace' && continuesTyping);
+}
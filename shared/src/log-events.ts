@@ -0,0 +1,294 @@
+/**
+ * Typed event model for log entries.
+ *
+ * Every entry is a discriminated union member keyed by `type`, so narrowing on
+ * `entry.type` (or `isEventType`) gives a typed `data` payload. Renaming a payload
+ * field here breaks every writer and reader that still uses the old name.
+ */
+
+export type LogEntryType =
+  | 'console'
+  | 'network'
+  | 'error'
+  | 'performance'
+  | 'page'
+  | 'security'
+  | 'runtime'
+  | 'interaction'
+  | 'server'
+  | 'browser';
+
+export type LogEntryLevel = 'info' | 'warn' | 'error' | 'debug';
+
+export const LOG_ENTRY_LEVELS: LogEntryLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export const LOG_ENTRY_TYPES: LogEntryType[] = [
+  'console', 'network', 'error', 'performance', 'page', 'security', 'runtime', 'interaction', 'server', 'browser'
+];
+
+export interface LogEntryContext {
+  url?: string;
+  method?: string;
+  statusCode?: number;
+  stackTrace?: string;
+  serviceType?: string;
+  domain?: string;
+  errorType?: string;
+  description?: string;
+  errorPattern?: string;
+  quickFix?: string;
+  aiHints?: string[];
+}
+
+// One value masked before the entry was written
+export interface RedactionRecord {
+  path: string; // e.g. data.requestBody.password, data.headers.authorization
+  rule: string; // header, key:<pattern>, pattern:<name>, input:password
+}
+
+// Browser target an entry came from (tab, popup, out-of-process iframe, worker)
+export interface LogEntryOrigin {
+  targetId?: string;
+  targetType?: string; // CDP TargetInfo.type: page, iframe, worker, service_worker, shared_worker
+  frameId?: string;
+}
+
+// Screen recording of the seconds before an entry (--record-video): clip.gif and the
+// frame-NNN.png frames it was encoded from, in <screenshots dir>/clips/<id>/
+export interface ClipReference {
+  id: string;
+  frames: number;
+  from: string; // ISO timestamp the clip starts at
+  to: string; // when the entry was logged
+}
+
+interface LogEventBase<T extends LogEntryType, D> extends LogEntryOrigin {
+  timestamp: string;
+  type: T;
+  level: LogEntryLevel;
+  source: string;
+  data: D;
+  context?: LogEntryContext;
+  redactions?: RedactionRecord[];
+  screenshot?: string; // file name in the session's screenshots directory (thumbnail: thumbnails/<name>.png)
+  clip?: ClipReference;
+}
+
+// Line and column numbers are 0-based, as reported by CDP
+export interface StackFrame {
+  functionName: string;
+  url: string;
+  lineNumber: number;
+  columnNumber: number;
+  generated?: { url: string; lineNumber: number; columnNumber: number }; // bundle position, when source-mapped
+}
+
+// Original source around the top frame of an error (1-based line numbers)
+export interface SourceContext {
+  file: string;
+  line: number;
+  column: number;
+  lines: Array<{ line: number; text: string }>;
+}
+
+export interface ConsoleEventData {
+  message: string;
+  source?: unknown; // Source location reported by the page, if any
+  stackTrace?: { callFrames: StackFrame[] };
+  sourceContext?: SourceContext;
+}
+
+export interface NetworkEventData {
+  method: string;
+  url: string;
+  status: number;
+  headers?: Record<string, string>;
+  requestBody?: unknown;
+  responseBody?: unknown;
+  errorText?: string; // Transport-level failure (DNS, CORS, aborted)
+  duration?: number; // milliseconds, request sent to last byte received
+  responseSize?: number; // decoded body bytes
+  encodedSize?: number; // bytes on the wire, headers included
+  timing?: NetworkTiming;
+  cache?: NetworkCacheStatus;
+  initiator?: NetworkInitiator;
+  priority?: string; // VeryLow, Low, Medium, High, VeryHigh
+  protocol?: string; // http/1.1, h2, h3
+  resourceType?: string; // Document, XHR, Fetch, Script, Image, ...
+}
+
+// Request phases in milliseconds; a phase is omitted when it did not happen (reused connection, cache hit)
+export interface NetworkTiming {
+  blocked?: number; // queued before DNS/connect/send started
+  dns?: number;
+  connect?: number; // includes tls
+  tls?: number;
+  ttfb: number; // request sent to response headers received
+  download: number; // response headers to last byte
+  total: number;
+}
+
+export type NetworkCacheStatus = 'none' | 'memory' | 'disk' | 'service-worker' | 'prefetch';
+
+export interface NetworkInitiator {
+  type: string; // parser, script, preload, redirect, preflight, other
+  url?: string;
+  lineNumber?: number;
+  stack?: StackFrame[];
+}
+
+export interface ExceptionEventData {
+  message: string;
+  stack?: string;
+  name?: string;
+  category: string;
+  severity: number;
+  frames?: StackFrame[];
+  sourceContext?: SourceContext;
+}
+
+export interface PerformanceEventData {
+  metric: string;
+  details: PerformanceDetails;
+}
+
+// CDP Performance.metrics payload, plus any derived timing values
+export interface PerformanceDetails {
+  metrics?: Array<{ name: string; value: number }>;
+  title?: string;
+  duration?: number;
+  [key: string]: unknown;
+}
+
+export interface PageEventData {
+  event: string; // navigation, page_loaded, dom_ready, dom_updated, or the raw CDP event name
+  url?: string;
+}
+
+export interface InteractionEventData {
+  action: string; // CLICK, TYPE, KEY, SELECT, CHECK, SUBMIT, FOCUS, PASTE, DRAG, DROP, HOVER, SCROLL, RESIZE, ROUTE
+  target: string; // human-readable element description
+  element_type: string;
+  selector?: string; // most resilient unique selector: CSS, text=... or role=...[name="..."]
+  selectors?: string[]; // every unique selector found, best first, for fallback when `selector` no longer resolves
+  x?: number; // CLICK, HOVER: viewport coordinates
+  y?: number;
+  key?: string; // KEY: KeyboardEvent.key with held modifiers (Control+s, Shift+Tab)
+  text?: string; // TYPE: text entered ([REDACTED] in password and payment fields); SELECT: labels of the selected options
+  clear?: boolean; // TYPE: `text` replaced the field's value; the tracker always records the whole value
+  values?: string[]; // SELECT: values of the selected options
+  checked?: boolean; // CHECK: state of the checkbox or radio button afterwards
+  form?: { action: string; method: string }; // SUBMIT
+  dragged?: string; // DROP: selector of the element that was dragged
+  from?: { x: number; y: number }; // SCROLL: scroll offsets of `selector` (or the document)
+  to?: { x: number; y: number };
+  viewport?: { width: number; height: number }; // RESIZE
+  previousUrl?: string; // ROUTE: URL before a client-side route change (the new one is context.url)
+  trigger?: 'pushState' | 'replaceState' | 'popstate' | 'hashchange'; // ROUTE
+  sensitive?: boolean; // element is a password or payment field
+}
+
+export interface ServerEventData {
+  stream: 'stdout' | 'stderr';
+  message: string;
+  lines?: string[];
+}
+
+// Health of the DevTools connection and the browser behind it
+export type BrowserConnectionEvent =
+  | 'crashed' // renderer of the monitored tab died
+  | 'detached' // DevTools session was detached (tab closed, another client took over)
+  | 'disconnected' // DevTools WebSocket closed (browser exited or crashed)
+  | 'reconnecting'
+  | 'relaunched' // browser was started again
+  | 'reconnected'
+  | 'recovered' // crashed tab was reloaded
+  | 'recovery_failed';
+
+export interface BrowserEventData {
+  event: BrowserConnectionEvent;
+  reason?: string;
+  attempt?: number;
+  url?: string; // page restored (or to be restored) after recovery
+  port?: number; // debugging port after a relaunch
+}
+
+export type ConsoleEvent = LogEventBase<'console', ConsoleEventData>;
+export type NetworkEvent = LogEventBase<'network', NetworkEventData>;
+export type ExceptionEvent = LogEventBase<'error', ExceptionEventData>;
+export type PerformanceEvent = LogEventBase<'performance', PerformanceEventData>;
+export type PageEvent = LogEventBase<'page', PageEventData>;
+export type SecurityEvent = LogEventBase<'security', Record<string, unknown>>;
+export type RuntimeEvent = LogEventBase<'runtime', Record<string, unknown>>;
+export type InteractionEvent = LogEventBase<'interaction', InteractionEventData>;
+export type ServerEvent = LogEventBase<'server', ServerEventData>;
+export type BrowserEvent = LogEventBase<'browser', BrowserEventData>;
+
+export type LogEntry =
+  | ConsoleEvent
+  | NetworkEvent
+  | ExceptionEvent
+  | PerformanceEvent
+  | PageEvent
+  | SecurityEvent
+  | RuntimeEvent
+  | InteractionEvent
+  | ServerEvent
+  | BrowserEvent;
+
+/**
+ * Narrow an entry (or an entry extended with extra fields) to one event type
+ */
+export function isEventType<E extends { type: LogEntryType }, K extends LogEntryType>(
+  entry: E,
+  type: K
+): entry is Extract<E, { type: K }> {
+  return entry.type === type;
+}
+
+/**
+ * Message-like text of any entry, for searching and summaries
+ */
+export function getEventMessage(entry: LogEntry): string | undefined {
+  switch (entry.type) {
+    case 'console':
+    case 'error':
+    case 'server':
+      return entry.data.message;
+    case 'network':
+      return entry.data.errorText;
+    case 'interaction':
+      return `${entry.data.action} ${entry.data.target}`;
+    case 'page':
+      return entry.data.event;
+    case 'performance':
+      return entry.data.metric;
+    case 'browser':
+      return entry.data.reason ? `${entry.data.event}: ${entry.data.reason}` : entry.data.event;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Stack trace text of any entry, if one was captured
+ */
+export function getEventStack(entry: LogEntry): string | undefined {
+  if (entry.type === 'error' && entry.data.stack) {
+    return entry.data.stack;
+  }
+  return entry.context?.stackTrace;
+}
+
+/**
+ * URL an entry refers to (request URL, navigated page, or the page it was logged on)
+ */
+export function getEventUrl(entry: LogEntry): string | undefined {
+  if (entry.type === 'network') {
+    return entry.data.url;
+  }
+  if (entry.type === 'page' && entry.data.url) {
+    return entry.data.url;
+  }
+  return entry.context?.url;
+}
@@ -0,0 +1,153 @@
+import {
+  LogFileHeader,
+  isLogEntry,
+  isLogFileFooter,
+  isLogFileHeader
+} from './log-schema';
+import { LogEntry } from './log-events';
+
+export type LogRecord =
+  | { kind: 'header'; header: LogFileHeader; raw: string }
+  | { kind: 'entry'; entry: LogEntry; raw: string }
+  | { kind: 'footer'; endTime: string; raw: string };
+
+/**
+ * Turns log file lines into records. Accepts both NDJSON and the legacy pretty-printed
+ * format, and keeps enough state between calls to be fed a file piece by piece.
+ */
+export class LogRecordDecoder {
+  private buffer = '';
+  private braceCount = 0;
+  private inLegacyObject = false;
+  private errors = 0;
+
+  /** Number of JSON fragments that could not be parsed */
+  get parseErrors(): number {
+    return this.errors;
+  }
+
+  /**
+   * Decode complete lines. Callers feeding partial data must hold back an unterminated last line.
+   */
+  decodeLines(lines: string[]): LogRecord[] {
+    const records: LogRecord[] = [];
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+
+      if (this.inLegacyObject) {
+        // Continue building a multi-line legacy object
+        this.buffer += '\n' + line;
+        this.braceCount += countStructuralBraces(line);
+        if (this.braceCount <= 0) {
+          this.pushParsed(this.buffer, records);
+          this.resetBuffer();
+        }
+        continue;
+      }
+
+      // Skip empty lines and legacy markdown separators
+      if (!line || line === '---') {
+        continue;
+      }
+
+      if (line.startsWith('#')) {
+        // Legacy footer: "# Session ended: <iso>"
+        const ended = line.match(/^# Session ended:\s*(\S+)/);
+        if (ended) {
+          records.push({ kind: 'footer', endTime: ended[1], raw: line });
+        }
+        continue;
+      }
+
+      if (!line.startsWith('{')) {
+        continue;
+      }
+
+      // Fast path: a whole NDJSON record on one line
+      const parsed = tryParse(line);
+      if (parsed !== undefined) {
+        this.classify(parsed, line, records);
+        continue;
+      }
+
+      // Start of a legacy pretty-printed object
+      this.braceCount = countStructuralBraces(line);
+      if (this.braceCount > 0) {
+        this.inLegacyObject = true;
+        this.buffer = line;
+      } else {
+        this.errors++;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Flush a trailing legacy object that never closed (e.g. a crashed writer)
+   */
+  end(): LogRecord[] {
+    const records: LogRecord[] = [];
+    if (this.inLegacyObject && this.buffer) {
+      this.pushParsed(this.buffer, records);
+    }
+    this.resetBuffer();
+    return records;
+  }
+
+  private pushParsed(text: string, records: LogRecord[]): void {
+    const parsed = tryParse(text);
+    if (parsed === undefined) {
+      this.errors++;
+      return;
+    }
+    this.classify(parsed, text, records);
+  }
+
+  private classify(value: any, raw: string, records: LogRecord[]): void {
+    if (isLogFileHeader(value)) {
+      records.push({ kind: 'header', header: value, raw });
+    } else if (isLogFileFooter(value)) {
+      records.push({ kind: 'footer', endTime: value.daisy_session_end, raw });
+    } else if (isLogEntry(value)) {
+      records.push({ kind: 'entry', entry: value, raw });
+    }
+    // Other JSON objects are not part of the schema and are ignored
+  }
+
+  private resetBuffer(): void {
+    this.buffer = '';
+    this.braceCount = 0;
+    this.inLegacyObject = false;
+  }
+}
+
+/**
+ * Decode a whole log file's content
+ */
+export function decodeLogContent(content: string): { records: LogRecord[]; parseErrors: number } {
+  const decoder = new LogRecordDecoder();
+  const records = decoder.decodeLines(content.split('\n'));
+  records.push(...decoder.end());
+  return { records, parseErrors: decoder.parseErrors };
+}
+
+function tryParse(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Brace balance of one line, ignoring braces inside JSON strings.
+ * Strings never span lines because JSON escapes newlines.
+ */
+function countStructuralBraces(line: string): number {
+  const structural = line.replace(/"(?:[^"\\]|\\.)*"/g, '""');
+  const openBraces = (structural.match(/\{/g) || []).length;
+  const closeBraces = (structural.match(/\}/g) || []).length;
+  return openBraces - closeBraces;
+}
@@ -0,0 +1,89 @@
+/**
+ * On-disk format of daisy session logs.
+ *
+ * Current format (schemaVersion 1) is NDJSON - one JSON record per line:
+ *   line 1:   LogFileHeader   ({"daisy_session_start": ..., "schemaVersion": 1, "format": "ndjson", ...})
+ *   line 2..: LogEntry        (one per event)
+ *   last:     LogFileFooter   ({"daisy_session_end": ...}) once the session closes cleanly
+ *
+ * Sessions recorded before schemaVersion existed use the legacy "structured_json_logs"
+ * format: a markdown header, pretty-printed multi-line JSON and markdown separators.
+ * LogRecordDecoder reads both.
+ */
+
+import { LOG_ENTRY_TYPES, LogEntry } from './log-events';
+
+export const LOG_SCHEMA_VERSION = 1;
+export const LOG_FORMAT = 'ndjson';
+export const LEGACY_LOG_FORMAT = 'structured_json_logs';
+
+export interface LogFileHeader {
+  daisy_session_start: string;
+  schemaVersion?: number; // absent in legacy logs
+  format: string;
+  session_id?: string;
+  description?: string;
+  log_level?: string;
+  filtering?: Record<string, string>;
+  log_structure?: Record<string, string>;
+}
+
+export interface LogFileFooter {
+  daisy_session_end: string;
+}
+
+export function createLogFileHeader(options: { logLevel: string; sessionId?: string; startTime?: Date }): LogFileHeader {
+  return {
+    daisy_session_start: (options.startTime || new Date()).toISOString(),
+    schemaVersion: LOG_SCHEMA_VERSION,
+    format: LOG_FORMAT,
+    session_id: options.sessionId,
+    description: 'Real-time Chrome DevTools Protocol debugging data, one JSON record per line',
+    log_level: options.logLevel,
+    filtering: {
+      minimal: 'Only errors, warnings, and critical network requests',
+      standard: 'Essential debugging info without verbose metadata',
+      verbose: 'Full details including headers, certificates, and stack traces'
+    },
+    log_structure: {
+      timestamp: 'ISO 8601 timestamp',
+      type: `Event category (${LOG_ENTRY_TYPES.join(', ')})`,
+      level: 'Log level (info, warn, error, debug)',
+      source: 'Event source/origin',
+      data: 'Filtered event data from DevTools Protocol',
+      context: 'Additional contextual information for debugging',
+      targetId: 'Browser target (tab, iframe, worker) the event came from',
+      frameId: 'Frame the event came from, when known',
+      screenshot: 'Screenshot taken with the entry, a file name in the screenshots directory (identical screenshots share one file)',
+      clip: 'Screen recording of the seconds before an error (--record-video), in screenshots/clips/<id>/'
+    }
+  };
+}
+
+export function createLogFileFooter(endTime: Date = new Date()): LogFileFooter {
+  return { daisy_session_end: endTime.toISOString() };
+}
+
+/**
+ * Serialize one record as an NDJSON line (JSON.stringify escapes embedded newlines)
+ */
+export function serializeLogRecord(record: LogEntry | LogFileHeader | LogFileFooter): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+export function isLogEntry(value: any): value is LogEntry {
+  return !!value &&
+    typeof value === 'object' &&
+    typeof value.timestamp === 'string' &&
+    (LOG_ENTRY_TYPES as string[]).includes(value.type) &&
+    typeof value.level === 'string' &&
+    typeof value.source === 'string';
+}
+
+export function isLogFileHeader(value: any): value is LogFileHeader {
+  return !!value && typeof value === 'object' && typeof value.daisy_session_start === 'string';
+}
+
+export function isLogFileFooter(value: any): value is LogFileFooter {
+  return !!value && typeof value === 'object' && typeof value.daisy_session_end === 'string';
+}
@@ -0,0 +1,61 @@
+import { NetworkTiming } from './log-events';
+
+/**
+ * Subset of CDP Network.ResourceTiming (ms offsets from requestTime; -1 when a phase did not happen)
+ */
+export interface CdpResourceTiming {
+  requestTime: number; // seconds, monotonic
+  dnsStart: number;
+  dnsEnd: number;
+  connectStart: number;
+  connectEnd: number;
+  sslStart: number;
+  sslEnd: number;
+  sendStart: number;
+  sendEnd: number;
+  receiveHeadersEnd: number;
+}
+
+/**
+ * Break CDP resource timing into request phases.
+ * `finishedTimestamp` is the monotonic time (seconds) of Network.loadingFinished, if known.
+ */
+export function networkTimingFromCdp(timing: CdpResourceTiming, finishedTimestamp?: number): NetworkTiming {
+  const headersReceived = timing.receiveHeadersEnd;
+  const total = finishedTimestamp !== undefined
+    ? Math.max(headersReceived, (finishedTimestamp - timing.requestTime) * 1000)
+    : headersReceived;
+  const firstPhase = [timing.dnsStart, timing.connectStart, timing.sendStart].find(t => t >= 0);
+
+  const result: NetworkTiming = {
+    ttfb: roundMs(Math.max(0, headersReceived - Math.max(0, timing.sendEnd))),
+    download: roundMs(total - headersReceived),
+    total: roundMs(total)
+  };
+
+  if (firstPhase !== undefined && firstPhase > 0) {
+    result.blocked = roundMs(firstPhase);
+  }
+  const dns = phase(timing.dnsStart, timing.dnsEnd);
+  if (dns !== undefined) {
+    result.dns = dns;
+  }
+  const connect = phase(timing.connectStart, timing.connectEnd);
+  if (connect !== undefined) {
+    result.connect = connect;
+  }
+  const tls = phase(timing.sslStart, timing.sslEnd);
+  if (tls !== undefined) {
+    result.tls = tls;
+  }
+
+  return result;
+}
+
+export function roundMs(ms: number): number {
+  return Math.round(ms * 1000) / 1000;
+}
+
+function phase(start: number, end: number): number | undefined {
+  return start >= 0 && end >= start ? roundMs(end - start) : undefined;
+}
@@ -0,0 +1,126 @@
+/**
+ * Page routes, for telling which screen of an app an entry belongs to.
+ *
+ * Single-page apps change route with history.pushState or the URL fragment instead of
+ * loading a document; the interaction tracker logs those changes as ROUTE entries. An
+ * entry's route is the path of the last document navigation or ROUTE change in the main
+ * frame of the target it came from, so errors can be grouped by the route they hit on.
+ */
+
+import { LogEntry, getEventMessage, getEventUrl, isEventType } from './log-events';
+
+export interface RouteErrorGroup {
+  route: string; // normalized with normalizeRoute, or "unknown"
+  count: number;
+  byType: Record<string, number>;
+  firstSeen: string;
+  lastSeen: string;
+  messages: string[]; // distinct messages, first seen first
+}
+
+const UNKNOWN_ROUTE = 'unknown';
+const MAX_GROUP_MESSAGES = 5;
+
+// scheme://authority, then path, query and fragment
+const URL_PATH = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]*([^?#]*)(?:\?[^#]*)?(#.*)?$/i;
+
+// Path segments that identify a record rather than a screen
+const ID_SEGMENTS = [
+  /^\d+$/,
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  /^[0-9a-f]{12,}$/i
+];
+
+/**
+ * Route of a URL: its path, plus the fragment for hash-based routers (#/users, #!/users)
+ */
+export function routeFromUrl(url: string): string | undefined {
+  const match = URL_PATH.exec(url);
+  if (!match) {
+    return undefined; // about:blank, data: and other documents without a path
+  }
+  const path = match[1] || '/';
+  const hash = match[2];
+  return hash && /^#!?\//.test(hash) ? path + hash : path;
+}
+
+/**
+ * Replace id-like path segments with :id, so /orders/1042 and /orders/1043 are one route
+ */
+export function normalizeRoute(route: string): string {
+  return route
+    .split('/')
+    .map(segment => ID_SEGMENTS.some(pattern => pattern.test(segment)) ? ':id' : segment)
+    .join('/');
+}
+
+/**
+ * Route each entry (in log order) was logged on; entries before any navigation have none
+ */
+export function resolveRoutes<E extends LogEntry>(entries: E[]): Map<E, string> {
+  const routes = new Map<E, string>();
+  const current = new Map<string, string>();
+  let pageRoute: string | undefined; // for entries logged without a target
+
+  for (const entry of entries) {
+    const changedTo = routeChangeUrl(entry);
+    const route = changedTo !== undefined ? routeFromUrl(changedTo) : undefined;
+    if (route) {
+      current.set(entry.targetId || '', route);
+      if (!entry.targetType || entry.targetType === 'page') {
+        pageRoute = route;
+      }
+    }
+
+    const entryRoute = entry.targetId ? current.get(entry.targetId) : pageRoute;
+    if (entryRoute) {
+      routes.set(entry, entryRoute);
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Errors grouped by the (normalized) route they happened on, most frequent first
+ */
+export function groupErrorsByRoute<E extends LogEntry>(errors: E[], routes: Map<E, string>): RouteErrorGroup[] {
+  const groups = new Map<string, RouteErrorGroup>();
+
+  for (const error of errors) {
+    const route = routes.has(error) ? normalizeRoute(routes.get(error)!) : UNKNOWN_ROUTE;
+    let group = groups.get(route);
+    if (!group) {
+      group = { route, count: 0, byType: {}, firstSeen: error.timestamp, lastSeen: error.timestamp, messages: [] };
+      groups.set(route, group);
+    }
+
+    group.count++;
+    group.byType[error.type] = (group.byType[error.type] || 0) + 1;
+    if (error.timestamp < group.firstSeen) group.firstSeen = error.timestamp;
+    if (error.timestamp > group.lastSeen) group.lastSeen = error.timestamp;
+
+    const message = getEventMessage(error) || getEventUrl(error);
+    if (message && group.messages.length < MAX_GROUP_MESSAGES && !group.messages.includes(message)) {
+      group.messages.push(message);
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+}
+
+// URL a main-frame navigation or client-side route change went to
+function routeChangeUrl(entry: LogEntry): string | undefined {
+  // A target's main frame has the target's id
+  const mainFrame = !entry.frameId || !entry.targetId || entry.frameId === entry.targetId;
+  if (!mainFrame) {
+    return undefined;
+  }
+  if (isEventType(entry, 'page') && entry.data.event === 'navigation') {
+    return entry.data.url;
+  }
+  if (isEventType(entry, 'interaction') && entry.data.action === 'ROUTE') {
+    return entry.context?.url;
+  }
+  return undefined;
+}
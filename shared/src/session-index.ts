@@ -0,0 +1,65 @@
+/**
+ * The session index (~/.daisy/logs/sessions.json) the daisy daemon keeps of its runs.
+ * The daemon, the MCP server and the web viewer all list sessions through these helpers;
+ * reading the file and checking processes is left to the caller.
+ */
+
+export type SessionExitStatus = 'running' | 'completed' | 'interrupted' | 'crashed';
+
+export interface SessionRecord {
+  id: string;
+  startTime: string;
+  endTime?: string;
+  script: string;
+  appPort: number;
+  exitStatus: SessionExitStatus;
+  scriptExitCode?: number | null;
+  pid: number;
+  sessionDir: string;
+  logFile: string;
+  screenshotsDir: string;
+}
+
+export interface SessionIndex {
+  version: 1;
+  sessions: SessionRecord[];
+}
+
+/**
+ * Parse the index file's content; throws when it is not JSON, returns undefined when it
+ * is not an index
+ */
+export function parseSessionIndex(content: string): SessionIndex | undefined {
+  const index = JSON.parse(content);
+  return index && Array.isArray(index.sessions) ? index : undefined;
+}
+
+/**
+ * Sessions newest first. Sessions still marked running whose daisy process is gone
+ * (it died without closing the session) are reported as interrupted.
+ */
+export function listSessions(index: SessionIndex | undefined, isProcessAlive: (pid: number) => boolean): SessionRecord[] {
+  return (index?.sessions || []).map(record => {
+    if (record.exitStatus === 'running' && !isProcessAlive(record.pid)) {
+      return { ...record, exitStatus: 'interrupted' as SessionExitStatus };
+    }
+    return record;
+  });
+}
+
+/**
+ * Find a session by ID, unique ID prefix, or the alias "latest"
+ */
+export function findSessionRecord(sessions: SessionRecord[], idOrAlias: string): SessionRecord | undefined {
+  if (idOrAlias === 'latest') {
+    return sessions[0];
+  }
+
+  const exact = sessions.find(s => s.id === idOrAlias);
+  if (exact) {
+    return exact;
+  }
+
+  const prefixMatches = sessions.filter(s => s.id.startsWith(idOrAlias));
+  return prefixMatches.length === 1 ? prefixMatches[0] : undefined;
+}
@@ -0,0 +1,589 @@
+/**
+ * Regression test export.
+ *
+ * Turns a session's recorded interactions (see buildInteractionSteps) into a runnable
+ * Playwright, Puppeteer or Cypress script. API responses observed after each step
+ * become status assertions, and a click or key press that took the page to another URL
+ * is followed by a URL assertion. Same-origin URLs are written relative to BASE_URL so
+ * the test can run against another environment.
+ */
+
+import { InteractionStep, InteractionStepRange, buildInteractionSteps, splitKeyCombo } from './interaction-steps';
+import { LogEntry, NetworkEvent, isEventType } from './log-events';
+
+export type TestExportFormat = 'playwright' | 'puppeteer' | 'cypress';
+
+export const TEST_EXPORT_FORMATS: TestExportFormat[] = ['playwright', 'puppeteer', 'cypress'];
+
+// Conventional file name suffix per framework
+export const TEST_EXPORT_EXTENSIONS: Record<TestExportFormat, string> = {
+  playwright: '.spec.ts',
+  puppeteer: '.js',
+  cypress: '.cy.js'
+};
+
+// First words of every exported script, so a file daisy wrote can be told from the user's own
+const GENERATED_HEADER_PREFIX = 'Generated by daisy from ';
+
+/**
+ * Whether `content` is a script generateTestScript wrote (and may be overwritten by a new export)
+ */
+export function isGeneratedTestScript(content: string): boolean {
+  return content.startsWith(`// ${GENERATED_HEADER_PREFIX}`);
+}
+
+export interface TestExportOptions extends InteractionStepRange {
+  format: TestExportFormat;
+  name?: string; // test title
+  sessionId?: string; // mentioned in the header comment
+  maxAssertionsPerStep?: number; // default 5
+}
+
+export interface TestExportResult {
+  format: TestExportFormat;
+  script: string;
+  steps: number;
+  assertions: number;
+  baseUrl?: string; // origin written as BASE_URL
+}
+
+// Response an action is expected to produce
+interface ExpectedResponse {
+  method: string;
+  url: string;
+  status: number; // status to assert
+  recordedStatus: number; // differs from `status` when the recording captured a server error
+}
+
+interface PlannedStep {
+  step: InteractionStep;
+  responses: ExpectedResponse[];
+  expectUrl?: string; // page URL once the step's effects settle
+  gotoFirst?: string; // page changed without an action that could explain it; navigate directly
+}
+
+const DEFAULT_MAX_ASSERTIONS_PER_STEP = 5;
+const ROLE_SELECTOR = /^role=([\w-]+)(?:\[name=("(?:[^"\\]|\\.)*")\])?$/;
+const API_RESOURCE_TYPES = ['XHR', 'Fetch'];
+const STATIC_ASSET = /\.(js|mjs|css|map|png|jpe?g|gif|svg|webp|ico|woff2?|ttf|eot)(\?|$)/i;
+
+/**
+ * Generate a test script from log entries (in log order)
+ */
+export function generateTestScript(entries: LogEntry[], options: TestExportOptions): TestExportResult {
+  const steps = buildInteractionSteps(entries, options);
+  if (steps.length === 0) {
+    throw new Error('No recorded interactions to export');
+  }
+
+  const network = entries.filter((entry): entry is NetworkEvent => isEventType(entry, 'network'));
+  const plan = planSteps(steps, network, options.maxAssertionsPerStep ?? DEFAULT_MAX_ASSERTIONS_PER_STEP);
+  const baseUrl = originOf(steps[0].url);
+  const writer = new ScriptWriter(baseUrl);
+  const title = options.name || (options.sessionId ? `replays daisy session ${options.sessionId}` : 'replays recorded daisy session');
+  const header = `${GENERATED_HEADER_PREFIX}${options.sessionId ? `session ${options.sessionId}` : 'a recorded session'}: ${steps.length} step(s)`;
+
+  const lines = options.format === 'playwright' ? renderPlaywright(plan, writer, title, header)
+    : options.format === 'puppeteer' ? renderPuppeteer(plan, writer, title, header)
+      : renderCypress(plan, writer, title, header);
+
+  return {
+    format: options.format,
+    script: lines.join('\n') + '\n',
+    steps: steps.length,
+    assertions: writer.assertions,
+    baseUrl
+  };
+}
+
+function planSteps(steps: InteractionStep[], network: NetworkEvent[], maxAssertions: number): PlannedStep[] {
+  const planned: PlannedStep[] = steps.map(step => ({ step, responses: [] }));
+
+  for (let i = 0; i < planned.length; i++) {
+    const { step } = planned[i];
+    const start = new Date(step.timestamp).getTime();
+    const end = i + 1 < steps.length ? new Date(steps[i + 1].timestamp).getTime() : Infinity;
+
+    if (step.action === 'navigate') {
+      // The document response was logged before the first recorded interaction
+      const document = [...network].reverse().find(entry =>
+        entry.data.resourceType === 'Document' &&
+        stripHash(entry.data.url) === stripHash(step.url!) &&
+        new Date(entry.timestamp).getTime() <= start
+      );
+      if (document && document.data.status > 0) {
+        planned[i].responses.push(expectedResponse(document));
+      }
+    } else {
+      const seen = new Set<string>();
+      for (const entry of network) {
+        const requestStart = new Date(entry.timestamp).getTime() - (entry.data.duration || 0);
+        const key = `${entry.data.method} ${stripQuery(entry.data.url)}`;
+        if (requestStart < start || requestStart >= end || !isApiRequest(entry) || entry.data.status <= 0 || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        planned[i].responses.push(expectedResponse(entry));
+        if (planned[i].responses.length >= maxAssertions) {
+          break;
+        }
+      }
+    }
+
+    // A URL change after a click or key press is something the test should check happened
+    const next = steps[i + 1];
+    if (next?.url && step.url && stripHash(next.url) !== stripHash(step.url)) {
+      if (step.action === 'click' || step.action === 'key') {
+        planned[i].expectUrl = next.url;
+      } else {
+        planned[i + 1].gotoFirst = next.url;
+      }
+    }
+  }
+
+  return planned;
+}
+
+function expectedResponse(entry: NetworkEvent): ExpectedResponse {
+  const status = entry.data.status;
+  return {
+    method: entry.data.method,
+    url: stripQuery(entry.data.url),
+    // A recorded server error is the bug: the regression test asserts it no longer happens
+    status: status >= 500 ? 0 : status,
+    recordedStatus: status
+  };
+}
+
+function isApiRequest(entry: NetworkEvent): boolean {
+  if (entry.data.resourceType) {
+    return API_RESOURCE_TYPES.includes(entry.data.resourceType);
+  }
+  return !STATIC_ASSET.test(entry.data.url);
+}
+
+/**
+ * Shared helpers for the three renderers: literals, BASE_URL-relative URLs, variable names
+ */
+class ScriptWriter {
+  assertions = 0;
+  private counter = 0;
+  private baseUrl?: string;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  isSameOrigin(url: string): boolean {
+    return !!this.baseUrl && originOf(url) === this.baseUrl;
+  }
+
+  url(url: string): string {
+    if (this.baseUrl && this.isSameOrigin(url)) {
+      const rest = url.substring(this.baseUrl.length).replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${');
+      return `\`\${BASE_URL}${rest}\``;
+    }
+    return quote(url);
+  }
+
+  variable(prefix: string): string {
+    this.counter++;
+    return `${prefix}${this.counter}`;
+  }
+
+  baseUrlDefault(): string {
+    return quote(this.baseUrl || 'http://localhost:3000');
+  }
+}
+
+function describeStep(step: InteractionStep): string {
+  switch (step.action) {
+    case 'navigate':
+      return `open ${step.url}`;
+    case 'click':
+      return `click ${step.selector || `at ${step.x},${step.y}`}`;
+    case 'type':
+      return `fill ${step.selector}`;
+    case 'key':
+      return `press ${step.key}`;
+    case 'select':
+      return `select ${(step.values || []).join(', ')} in ${step.selector}`;
+    case 'check':
+      return `${step.checked ? 'check' : 'uncheck'} ${step.selector}`;
+    case 'hover':
+      return `hover ${step.selector}`;
+    case 'scroll':
+      return `scroll ${step.selector || 'page'} to ${step.x},${step.y}`;
+  }
+}
+
+function responseComment(response: ExpectedResponse): string[] {
+  return response.status === 0
+    ? [`// ${response.method} ${response.url} returned ${response.recordedStatus} when recorded`]
+    : [];
+}
+
+function renderPlaywright(plan: PlannedStep[], writer: ScriptWriter, title: string, header: string): string[] {
+  const body: string[] = [];
+
+  for (const { step, responses, expectUrl, gotoFirst } of plan) {
+    body.push('', `// ${step.index}. ${describeStep(step)}`);
+    if (gotoFirst) {
+      body.push(`await page.goto(${writer.url(gotoFirst)});`);
+    }
+
+    if (step.action === 'navigate') {
+      const response = writer.variable('response');
+      body.push(`const ${response} = await page.goto(${writer.url(step.url!)});`);
+      for (const expected of responses) {
+        body.push(...responseComment(expected), playwrightStatus(`${response}?.status()`, expected, writer));
+      }
+      continue;
+    }
+
+    const waits = responses.map(expected => {
+      const variable = writer.variable('response');
+      body.push(
+        `const ${variable} = page.waitForResponse(response => response.url().split('?')[0] === ${writer.url(expected.url)} && response.request().method() === ${quote(expected.method)});`
+      );
+      return { variable, expected };
+    });
+
+    const locator = playwrightLocator(step);
+    switch (step.action) {
+      case 'click':
+        body.push(locator ? `await ${locator}.click();` : `await page.mouse.click(${step.x}, ${step.y});`);
+        break;
+      case 'type':
+        if (step.redacted) {
+          body.push('// Value was redacted when recorded: fill in the real input');
+        }
+        body.push(`await ${locator}.fill(${quote(step.redacted ? '' : step.text || '')});`);
+        break;
+      case 'key':
+        body.push(`await page.keyboard.press(${quote(step.key!)});`);
+        break;
+      case 'select':
+        body.push(`await ${locator}.selectOption(${quoteList(step.values || [])});`);
+        break;
+      case 'check':
+        body.push(`await ${locator}.setChecked(${!!step.checked});`);
+        break;
+      case 'hover':
+        body.push(`await ${locator}.hover();`);
+        break;
+      case 'scroll':
+        body.push(locator
+          ? `await ${locator}.evaluate(element => element.scrollTo(${step.x || 0}, ${step.y || 0}));`
+          : `await page.evaluate(() => window.scrollTo(${step.x || 0}, ${step.y || 0}));`);
+        break;
+    }
+
+    for (const { variable, expected } of waits) {
+      body.push(...responseComment(expected), playwrightStatus(`(await ${variable}).status()`, expected, writer));
+    }
+    if (expectUrl) {
+      writer.assertions++;
+      body.push(`await expect(page).toHaveURL(${writer.url(expectUrl)});`);
+    }
+  }
+
+  return [
+    `// ${header}`,
+    `import { test, expect } from '@playwright/test';`,
+    '',
+    `const BASE_URL = process.env.BASE_URL || ${writer.baseUrlDefault()};`,
+    '',
+    `test(${quote(title)}, async ({ page }) => {`,
+    ...indent(body.slice(1)),
+    '});'
+  ];
+}
+
+// Playwright has locators for the engine's text= and role= selectors, so the best one can be used as is
+function playwrightLocator(step: InteractionStep): string | undefined {
+  const selector = (step.selectors || [])[0] || step.selector;
+  if (!selector) {
+    return undefined;
+  }
+  if (selector.startsWith('text=')) {
+    return `page.getByText(${quote(selector.substring(5))}, { exact: true })`;
+  }
+  const role = ROLE_SELECTOR.exec(selector);
+  if (role) {
+    return role[2]
+      ? `page.getByRole(${quote(role[1])}, { name: ${quote(JSON.parse(role[2]))}, exact: true })`
+      : `page.getByRole(${quote(role[1])})`;
+  }
+  return `page.locator(${quote(selector)})`;
+}
+
+function playwrightStatus(actual: string, expected: ExpectedResponse, writer: ScriptWriter): string {
+  writer.assertions++;
+  return expected.status === 0
+    ? `expect(${actual}).toBeLessThan(500);`
+    : `expect(${actual}).toBe(${expected.status});`;
+}
+
+function renderPuppeteer(plan: PlannedStep[], writer: ScriptWriter, title: string, header: string): string[] {
+  const body: string[] = [];
+
+  for (const { step, responses, expectUrl, gotoFirst } of plan) {
+    body.push('', `// ${step.index}. ${describeStep(step)}`);
+    if (gotoFirst) {
+      body.push(`await page.goto(${writer.url(gotoFirst)}, { waitUntil: 'networkidle2' });`);
+    }
+
+    if (step.action === 'navigate') {
+      const response = writer.variable('response');
+      body.push(`const ${response} = await page.goto(${writer.url(step.url!)}, { waitUntil: 'networkidle2' });`);
+      for (const expected of responses) {
+        body.push(...responseComment(expected), puppeteerStatus(`${response}.status()`, expected, writer));
+      }
+      continue;
+    }
+
+    const waits = responses.map(expected => {
+      const variable = writer.variable('response');
+      body.push(
+        `const ${variable} = page.waitForResponse(response => response.url().split('?')[0] === ${writer.url(expected.url)} && response.request().method() === ${quote(expected.method)});`
+      );
+      return { variable, expected };
+    });
+
+    const cssSelector = firstCssSelector(step);
+    const locator = cssSelector ? `page.locator(${quote(cssSelector)})` : undefined;
+    switch (step.action) {
+      case 'click':
+        body.push(locator ? `await ${locator}.click();` : `await page.mouse.click(${step.x}, ${step.y});`);
+        break;
+      case 'type':
+        if (step.redacted) {
+          body.push('// Value was redacted when recorded: fill in the real input');
+        }
+        body.push(`await ${locator}.fill(${quote(step.redacted ? '' : step.text || '')});`);
+        break;
+      case 'key': {
+        // keyboard.press takes a single key; modifiers are held around it
+        const { modifiers, key } = splitKeyCombo(step.key!);
+        body.push(
+          ...modifiers.map(modifier => `await page.keyboard.down(${quote(modifier)});`),
+          `await page.keyboard.press(${quote(key)});`,
+          ...[...modifiers].reverse().map(modifier => `await page.keyboard.up(${quote(modifier)});`)
+        );
+        break;
+      }
+      case 'select':
+        body.push(`await page.select(${quote(cssSelector!)}, ${(step.values || []).map(quote).join(', ')});`);
+        break;
+      case 'check':
+        body.push(`await page.$eval(${quote(cssSelector!)}, element => { if (${step.checked ? '!' : ''}element.checked) element.click(); });`);
+        break;
+      case 'hover':
+        body.push(`await page.hover(${quote(cssSelector!)});`);
+        break;
+      case 'scroll':
+        body.push(cssSelector
+          ? `await page.$eval(${quote(cssSelector)}, element => element.scrollTo(${step.x || 0}, ${step.y || 0}));`
+          : `await page.evaluate(() => window.scrollTo(${step.x || 0}, ${step.y || 0}));`);
+        break;
+    }
+
+    for (const { variable, expected } of waits) {
+      body.push(...responseComment(expected), puppeteerStatus(`(await ${variable}).status()`, expected, writer));
+    }
+    if (expectUrl) {
+      writer.assertions++;
+      body.push(`await page.waitForFunction(url => location.href === url, {}, ${writer.url(expectUrl)});`);
+    }
+  }
+
+  return [
+    `// ${header}`,
+    `// ${title}`,
+    `const puppeteer = require('puppeteer');`,
+    `const assert = require('node:assert');`,
+    '',
+    `const BASE_URL = process.env.BASE_URL || ${writer.baseUrlDefault()};`,
+    '',
+    '(async () => {',
+    '  const browser = await puppeteer.launch();',
+    '  try {',
+    '    const page = await browser.newPage();',
+    ...indent(body.slice(1), 4),
+    '  } finally {',
+    '    await browser.close();',
+    '  }',
+    '})().catch(error => {',
+    '  console.error(error);',
+    '  process.exit(1);',
+    '});'
+  ];
+}
+
+function puppeteerStatus(actual: string, expected: ExpectedResponse, writer: ScriptWriter): string {
+  writer.assertions++;
+  return expected.status === 0
+    ? `assert.ok(${actual} < 500);`
+    : `assert.strictEqual(${actual}, ${expected.status});`;
+}
+
+// cy.type() sequences for keys Cypress can type; others are dispatched as keydown events
+const CYPRESS_KEYS: Record<string, string> = {
+  Enter: '{enter}',
+  Escape: '{esc}',
+  Backspace: '{backspace}',
+  Delete: '{del}',
+  ArrowLeft: '{leftArrow}',
+  ArrowRight: '{rightArrow}',
+  ArrowUp: '{upArrow}',
+  ArrowDown: '{downArrow}',
+  Home: '{home}',
+  End: '{end}',
+  PageUp: '{pageUp}',
+  PageDown: '{pageDown}'
+};
+
+// Name of a modifier in cy.type() sequences ({ctrl}) and event flags (ctrlKey)
+function cypressModifier(modifier: string): string {
+  return modifier === 'Control' ? 'ctrl' : modifier.toLowerCase();
+}
+
+function renderCypress(plan: PlannedStep[], writer: ScriptWriter, title: string, header: string): string[] {
+  const body: string[] = [];
+
+  for (const { step, responses, expectUrl, gotoFirst } of plan) {
+    body.push('', `// ${step.index}. ${describeStep(step)}`);
+    if (gotoFirst) {
+      body.push(`cy.visit(${writer.url(gotoFirst)});`);
+    }
+
+    if (step.action === 'navigate') {
+      // cy.visit fails on its own when the document does not load with a 2xx/3xx status
+      body.push(`cy.visit(${writer.url(step.url!)});`);
+      continue;
+    }
+
+    const aliases = responses.map(expected => {
+      const alias = writer.variable('request');
+      body.push(`cy.intercept(${cypressRouteMatcher(expected, writer)}).as(${quote(alias)});`);
+      return { alias, expected };
+    });
+
+    const cssSelector = firstCssSelector(step);
+    const subject = cssSelector ? `cy.get(${quote(cssSelector)})` : undefined;
+    switch (step.action) {
+      case 'click':
+        body.push(subject ? `${subject}.click();` : `cy.get('body').click(${step.x}, ${step.y});`);
+        break;
+      case 'type':
+        if (step.redacted) {
+          body.push('// Value was redacted when recorded: type the real input');
+        }
+        body.push(step.redacted || !step.text
+          ? `${subject}.clear();`
+          : `${subject}.clear().type(${quote(step.text)}, { parseSpecialCharSequences: false });`);
+        break;
+      case 'key': {
+        const { modifiers, key } = splitKeyCombo(step.key!);
+        const held = modifiers.map(modifier => `{${cypressModifier(modifier)}}`).join('');
+        if (CYPRESS_KEYS[key]) {
+          body.push(`cy.focused().type(${quote(held + CYPRESS_KEYS[key])});`);
+        } else if (key.length === 1) {
+          body.push(held
+            ? `cy.focused().type(${quote(held + (key === '{' ? '{{}' : key))});`
+            : `cy.focused().type(${quote(key)}, { parseSpecialCharSequences: false });`);
+        } else {
+          const flags = modifiers.map(modifier => `, ${cypressModifier(modifier)}Key: true`).join('');
+          body.push(`cy.focused().trigger('keydown', { key: ${quote(key)}${flags} });`);
+        }
+        break;
+      }
+      case 'select':
+        body.push(`${subject}.select(${quoteList(step.values || [])});`);
+        break;
+      case 'check':
+        body.push(`${subject}.${step.checked ? 'check' : 'uncheck'}();`);
+        break;
+      case 'hover':
+        // Cypress has no real pointer: mouseover handlers run, CSS :hover rules do not apply
+        body.push(`${subject}.trigger('mouseover');`);
+        break;
+      case 'scroll':
+        body.push(subject
+          ? `${subject}.scrollTo(${step.x || 0}, ${step.y || 0});`
+          : `cy.scrollTo(${step.x || 0}, ${step.y || 0});`);
+        break;
+    }
+
+    for (const { alias, expected } of aliases) {
+      writer.assertions++;
+      body.push(
+        ...responseComment(expected),
+        expected.status === 0
+          ? `cy.wait(${quote(`@${alias}`)}).its('response.statusCode').should('be.lessThan', 500);`
+          : `cy.wait(${quote(`@${alias}`)}).its('response.statusCode').should('eq', ${expected.status});`
+      );
+    }
+    if (expectUrl) {
+      writer.assertions++;
+      body.push(`cy.url().should('eq', ${writer.url(expectUrl)});`);
+    }
+  }
+
+  return [
+    `// ${header}`,
+    `const BASE_URL = Cypress.env('BASE_URL') || ${writer.baseUrlDefault()};`,
+    '',
+    `describe(${quote(title)}, () => {`,
+    `  it('reproduces the recorded steps', () => {`,
+    ...indent(body.slice(1), 4),
+    '  });',
+    '});'
+  ];
+}
+
+// Same-origin requests match on the path alone so the spec still works against another BASE_URL
+function cypressRouteMatcher(expected: ExpectedResponse, writer: ScriptWriter): string {
+  const match = URL_PARTS.exec(expected.url);
+  if (!match) {
+    return `{ method: ${quote(expected.method)}, url: ${quote(expected.url)} }`;
+  }
+  const hostname = writer.isSameOrigin(expected.url) ? '' : `, hostname: ${quote(match[2].replace(/:\d+$/, ''))}`;
+  return `{ method: ${quote(expected.method)}${hostname}, pathname: ${quote(match[3] || '/')} }`;
+}
+
+// Puppeteer and Cypress take plain CSS; the recorded fallbacks always end with a structural CSS path
+function firstCssSelector(step: InteractionStep): string | undefined {
+  const candidates = step.selectors || (step.selector ? [step.selector] : []);
+  return candidates.find(selector => !selector.startsWith('text=') && !selector.startsWith('role=')) || step.selector;
+}
+
+function indent(lines: string[], spaces: number = 2): string[] {
+  const prefix = ' '.repeat(spaces);
+  return lines.map(line => line ? prefix + line : line);
+}
+
+function quoteList(values: string[]): string {
+  return `[${values.map(quote).join(', ')}]`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+}
+
+// scheme://host[:port], host[:port], path
+const URL_PARTS = /^([a-z][a-z0-9+.-]*:\/\/([^/?#]+))([^?#]*)/i;
+
+function originOf(url?: string): string | undefined {
+  const match = url ? URL_PARTS.exec(url) : null;
+  return match ? match[1] : undefined;
+}
+
+function stripQuery(url: string): string {
+  return url.split(/[?#]/)[0];
+}
+
+function stripHash(url: string): string {
+  return url.split('#')[0];
+}
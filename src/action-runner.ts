@@ -0,0 +1,258 @@
+import { ActionStep, LogEntry, getEventMessage } from 'daisy-shared';
+import { DevToolsMonitor, withTimeout } from './devtools-monitor';
+import { DaisyLogger } from './logger';
+import { describeSelector } from './selector-engine';
+
+export interface ActionRunOptions {
+  stepTimeout?: number; // for steps without their own timeout
+  continueOnError?: boolean; // for steps without their own continueOnError
+  targetId?: string; // for steps without their own targetId
+}
+
+export type ActionStepStatus = 'ok' | 'failed' | 'skipped';
+
+export interface ActionStepResult {
+  index: number;
+  action: ActionStep['action'];
+  status: ActionStepStatus;
+  error?: string;
+  result?: unknown; // what the DevToolsMonitor method returned; for assertions the actual value
+  startedAt?: string;
+  durationMs: number;
+  logs: LogEntry[]; // logged from the start of this step until the next one started
+}
+
+export interface ActionRunResult {
+  steps: ActionStepResult[];
+  passed: boolean; // no step failed
+  completed: boolean; // no step was skipped
+  failedStep?: number;
+  durationMs: number;
+}
+
+type TextExpectation = { equals?: string; contains?: string; matches?: string };
+
+const DEFAULT_STEP_TIMEOUT_MS = 10000;
+const ASSERTION_POLL_INTERVAL_MS = 100;
+const TIMED_OUT_STEP_GRACE_MS = 1000;
+
+/**
+ * Runs a list of steps (the Control API's actions plus assertions) against the monitored
+ * browser in one request, for POST /actions.
+ *
+ * Each step goes through the same DevToolsMonitor method as its own route, which gets the
+ * step's timeout and stops its own work when it runs out; after a timeout the next step
+ * waits (briefly) for that work to wind down. A failed step stops the run unless it (or
+ * the run) continues on error; the steps it leaves out are reported as skipped. Assertions on text and URLs
+ * poll until they hold or time out, so they also wait for the page to catch up. Every
+ * log entry written during the run is attributed to the step that was running.
+ */
+export class ActionRunner {
+  private devToolsMonitor: DevToolsMonitor;
+  private logger: DaisyLogger;
+  private running = false;
+
+  constructor(devToolsMonitor: DevToolsMonitor, logger: DaisyLogger) {
+    this.devToolsMonitor = devToolsMonitor;
+    this.logger = logger;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async run(steps: ActionStep[], options: ActionRunOptions = {}): Promise<ActionRunResult> {
+    if (this.running) {
+      throw new Error('Actions are already running');
+    }
+
+    this.running = true;
+    const startedAt = Date.now();
+    const results: ActionStepResult[] = steps.map((step, index) => ({
+      index,
+      action: step.action,
+      status: 'skipped',
+      durationMs: 0,
+      logs: []
+    }));
+    const runLogs: LogEntry[] = [];
+    let current: ActionStepResult | undefined;
+    let failedStep: number | undefined;
+
+    const unsubscribe = this.logger.onEntry(entry => {
+      runLogs.push(entry);
+      current?.logs.push(entry);
+    });
+
+    try {
+      for (let i = 0; i < steps.length; i++) {
+        const step = steps[i];
+        current = results[i];
+        current.startedAt = new Date().toISOString();
+        const stepStart = Date.now();
+
+        const timeout = step.timeout ?? options.stepTimeout ?? DEFAULT_STEP_TIMEOUT_MS;
+        const execution = this.executeStep(step, timeout, step.targetId ?? options.targetId, runLogs);
+        try {
+          current.result = await withTimeout(execution, timeout, `Step ${i} (${step.action}) timed out`);
+          current.status = 'ok';
+        } catch (error: any) {
+          current.status = 'failed';
+          current.error = error.message;
+          failedStep = failedStep ?? i;
+        }
+        current.durationMs = Date.now() - stepStart;
+
+        // A step that timed out may still be finishing; keep it from overlapping the next one
+        await Promise.race([execution.catch(() => undefined), sleep(TIMED_OUT_STEP_GRACE_MS)]);
+
+        if (current.status === 'failed' && !(step.continueOnError ?? options.continueOnError)) {
+          break;
+        }
+      }
+    } finally {
+      unsubscribe();
+      this.running = false;
+    }
+
+    const result: ActionRunResult = {
+      steps: results,
+      passed: failedStep === undefined,
+      completed: results.every(step => step.status !== 'skipped'),
+      failedStep,
+      durationMs: Date.now() - startedAt
+    };
+
+    this.logger.logConsole(
+      result.passed ? 'info' : 'warn',
+      `Ran ${steps.length} action step(s): ${results.filter(step => step.status === 'ok').length} ok` +
+        (failedStep !== undefined ? `, step ${failedStep} (${steps[failedStep].action}) failed: ${results[failedStep].error}` : '')
+    );
+
+    return result;
+  }
+
+  private async executeStep(step: ActionStep, timeout: number, targetId: string | undefined, runLogs: LogEntry[]): Promise<unknown> {
+    switch (step.action) {
+      case 'navigate':
+        return step.fast
+          ? this.devToolsMonitor.navigateFast(step.url, targetId, timeout)
+          : this.devToolsMonitor.navigateTo(step.url, step.waitForLoad ?? true, timeout, targetId);
+
+      case 'click':
+        return this.devToolsMonitor.clickElement(step.selector, timeout, targetId);
+
+      case 'type':
+        return this.devToolsMonitor.typeText(step.selector, step.text, timeout, step.clear ?? false, targetId);
+
+      case 'key':
+        return this.devToolsMonitor.pressKey(step.key, targetId, timeout);
+
+      case 'hover':
+        return this.devToolsMonitor.hoverElement(step.selector, timeout, targetId);
+
+      case 'scroll':
+        return this.devToolsMonitor.scrollTo(
+          { selector: step.selector, x: step.x, y: step.y, behavior: step.behavior ?? 'smooth' },
+          targetId,
+          timeout
+        );
+
+      case 'waitForElement':
+        return this.devToolsMonitor.waitForElement(step.selector, timeout, step.visible ?? true, targetId);
+
+      case 'waitForNetworkIdle':
+        return this.devToolsMonitor.waitForNetworkIdle(timeout, step.idleTime ?? 1000, targetId);
+
+      case 'screenshot':
+        return this.devToolsMonitor.takeScreenshot(step.context ?? 'actions', targetId, timeout);
+
+      case 'execute':
+        return this.devToolsMonitor.evaluateJavaScript(step.code, step.returnByValue ?? true, timeout, targetId);
+
+      case 'assertText':
+        return this.waitForText(
+          `text of ${describeSelector(step.selector)}`,
+          () => this.devToolsMonitor.getElementText(step.selector, targetId),
+          step,
+          timeout
+        );
+
+      case 'assertUrl':
+        return this.waitForText(
+          'the URL',
+          () => this.devToolsMonitor.getPageUrl(targetId),
+          step,
+          timeout
+        );
+
+      case 'assertNoConsoleErrors': {
+        const errors = runLogs
+          .filter(entry => entry.level === 'error' && (entry.type === 'console' || entry.source === 'runtime_exception'))
+          .map(entry => getEventMessage(entry) || entry.source)
+          .filter(message => !(step.ignore || []).some(ignored => message.includes(ignored)));
+        if (errors.length > 0) {
+          throw new Error(`${errors.length} console error(s) since the run started: ${errors.slice(0, 3).join('; ')}`);
+        }
+        return errors;
+      }
+    }
+  }
+
+  /**
+   * Poll `read` until its value meets the expectation; returns the value, or throws with
+   * the last one seen once the timeout is (almost) up
+   */
+  private async waitForText(
+    subject: string,
+    read: () => Promise<string | null>,
+    expected: TextExpectation,
+    timeout: number
+  ): Promise<string | null> {
+    const pattern = expected.matches !== undefined ? new RegExp(expected.matches) : undefined;
+    // Leave time for the failure message before withTimeout gives up on the step
+    const deadline = Date.now() + Math.max(0, timeout - ASSERTION_POLL_INTERVAL_MS * 2);
+    let actual: string | null = null;
+
+    do {
+      try {
+        actual = await read();
+      } catch {
+        // Page is navigating; its context may be gone for a moment
+      }
+      if (actual !== null && meetsExpectation(actual, expected, pattern)) {
+        return actual;
+      }
+      await sleep(ASSERTION_POLL_INTERVAL_MS);
+    } while (Date.now() < deadline);
+
+    throw new Error(
+      `Expected ${subject} ${describeExpectation(expected)}, ` +
+        (actual === null ? 'but no element matched' : `but it was ${JSON.stringify(actual)}`)
+    );
+  }
+}
+
+function meetsExpectation(actual: string, expected: TextExpectation, pattern?: RegExp): boolean {
+  return (expected.equals === undefined || actual === expected.equals) &&
+    (expected.contains === undefined || actual.includes(expected.contains)) &&
+    (!pattern || pattern.test(actual));
+}
+
+function describeExpectation(expected: TextExpectation): string {
+  const parts: string[] = [];
+  if (expected.equals !== undefined) {
+    parts.push(`to equal ${JSON.stringify(expected.equals)}`);
+  }
+  if (expected.contains !== undefined) {
+    parts.push(`to contain ${JSON.stringify(expected.contains)}`);
+  }
+  if (expected.matches !== undefined) {
+    parts.push(`to match /${expected.matches}/`);
+  }
+  return parts.join(' and ');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -2,6 +2,29 @@
 
 import { Command } from 'commander';
 import { DevEnvironment } from './dev-environment';
+import { SessionManager } from './session-manager';
+import { SCREENSHOT_FORMATS, ScreenshotFormat, ScreenshotOptions } from './screenshot-store';
+import { RedactionPattern } from './redactor';
+import { createControlApiClient } from './control-auth';
+import {
+  ControlApiError,
+  DEVICE_NAMES,
+  EmulationSettings,
+  NETWORK_PRESET_NAMES,
+  ReplayResult,
+  TEST_EXPORT_EXTENSIONS,
+  TEST_EXPORT_FORMATS,
+  TestExportFormat,
+  createHarDocument,
+  decodeLogContent,
+  describeEmulation,
+  findDeviceName,
+  generateTestScript,
+  harRecordFromNetworkEvent,
+  isEventType,
+  isNetworkPreset,
+  readControlToken
+} from 'daisy-shared';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -54,6 +77,109 @@ function detectDefaultScript(): string {
   }
 }
 
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function splitList(value?: string): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+// --redact-pattern values as global patterns; exits on one that is not a valid regex
+function parseRedactionPatterns(sources: string[]): RedactionPattern[] {
+  return sources.map((source, index) => {
+    try {
+      return { name: `custom${index + 1}`, pattern: new RegExp(source, 'g') };
+    } catch (error: any) {
+      console.error(`❌ Invalid --redact-pattern "${source}": ${error.message}`);
+      process.exit(1);
+    }
+  });
+}
+
+// Screenshot flags of the main command; exits on a value the store or CDP could not use
+function parseScreenshotOptions(options: any): ScreenshotOptions {
+  const fail = (message: string): never => {
+    console.error(`❌ ${message}`);
+    process.exit(1);
+  };
+
+  if (!SCREENSHOT_FORMATS.includes(options.screenshotFormat)) {
+    fail(`Unknown screenshot format "${options.screenshotFormat}". Use one of: ${SCREENSHOT_FORMATS.join(', ')}`);
+  }
+  const quality = Number(options.screenshotQuality);
+  if (!(Number.isInteger(quality) && quality >= 0 && quality <= 100)) {
+    fail(`--screenshot-quality expects a whole number from 0 to 100, got "${options.screenshotQuality}"`);
+  }
+  const maxDiskMb = Number(options.screenshotBudget);
+  if (!(maxDiskMb > 0)) {
+    fail(`--screenshot-budget expects a number of megabytes above 0, got "${options.screenshotBudget}"`);
+  }
+  const minIntervalMs = Number(options.screenshotInterval);
+  if (!(minIntervalMs >= 0)) {
+    fail(`--screenshot-interval expects a number of milliseconds, 0 or more, got "${options.screenshotInterval}"`);
+  }
+
+  return { format: options.screenshotFormat as ScreenshotFormat, quality, maxDiskMb, minIntervalMs };
+}
+
+// Emulation flags of the main command; exits on a value the browser could not use
+function parseEmulationOptions(options: any): EmulationSettings {
+  const fail = (message: string): never => {
+    console.error(`❌ ${message}`);
+    process.exit(1);
+  };
+  const emulation: EmulationSettings = {};
+
+  if (options.device) {
+    const device = findDeviceName(options.device);
+    emulation.device = (device || fail(`Unknown device "${options.device}". Use one of: ${DEVICE_NAMES.join(', ')}`)) as EmulationSettings['device'];
+  }
+  if (options.throttle) {
+    emulation.throttle = isNetworkPreset(options.throttle)
+      ? options.throttle
+      : fail(`Unknown network preset "${options.throttle}". Use one of: ${NETWORK_PRESET_NAMES.join(', ')}`);
+  }
+  if (options.offline) {
+    emulation.offline = true;
+  }
+  if (options.cpuThrottle !== undefined) {
+    const factor = parseFloat(options.cpuThrottle);
+    emulation.cpuThrottle = factor >= 1 ? factor : fail(`--cpu-throttle expects a slowdown factor of 1 or more, got "${options.cpuThrottle}"`);
+  }
+  if (options.geolocation) {
+    const [latitude, longitude] = options.geolocation.split(',').map((part: string) => parseFloat(part));
+    if (!(Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180)) {
+      fail(`--geolocation expects "<latitude>,<longitude>", got "${options.geolocation}"`);
+    }
+    emulation.geolocation = { latitude, longitude };
+  }
+  if (options.timezone) {
+    try {
+      new Intl.DateTimeFormat('en', { timeZone: options.timezone });
+    } catch {
+      fail(`--timezone expects an IANA time zone such as Europe/Berlin, got "${options.timezone}"`);
+    }
+    emulation.timezone = options.timezone;
+  }
+  if (options.locale) {
+    try {
+      emulation.locale = Intl.getCanonicalLocales(options.locale)[0];
+    } catch {
+      fail(`--locale expects a BCP 47 language tag such as de-DE, got "${options.locale}"`);
+    }
+  }
+  if (options.colorScheme) {
+    emulation.colorScheme = options.colorScheme === 'light' || options.colorScheme === 'dark'
+      ? options.colorScheme
+      : fail(`--color-scheme expects light or dark, got "${options.colorScheme}"`);
+  }
+  if (options.reducedMotion) {
+    emulation.reducedMotion = true;
+  }
+  return emulation;
+}
+
 // Main daisy command
 program
   .name('daisy')
@@ -67,10 +193,32 @@ program
   .option('--mcp-port <port>', 'MCP server port', '3684')
   .option('--chrome-port <port>', 'Chrome debugging port', '9222')
   .option('--control-port <port>', 'Control API server port', '9223')
+  .option('--control-host <host>', 'Control API bind address (0.0.0.0 exposes it to the network)', '127.0.0.1')
+  .option('--control-allow-origin <origin>', 'Web page origin allowed to call the Control API (repeatable)', collect, [])
+  .option('--control-read-only', 'Disable Control API routes that drive the browser (click, type, navigate, scroll, execute, replay, actions, emulation)', false)
   .option('--browser <browser>', 'Browser to launch', 'chrome')
   .option('--servers-only', 'Start only web viewer and MCP server (no Chrome)', false)
   .option('--debug', 'Enable debug mode with verbose logging', false)
   .option('--log-level <level>', 'Log verbosity: minimal, standard, verbose', 'standard')
+  .option('--mcp-tools <profile>', 'MCP tools exposed to AI assistants: minimal, standard, all', 'all')
+  .option('--no-redact', 'Log secrets and personal data verbatim (redaction is on by default)')
+  .option('--redact-keys <keys>', 'Extra comma-separated JSON/form/query keys to mask (e.g. "otp,pin")')
+  .option('--redact-headers <headers>', 'Extra comma-separated header names to mask')
+  .option('--redact-pattern <regex>', 'Extra value pattern to mask (repeatable)', collect, [])
+  .option('--record-video [seconds]', 'Record the page and save a clip of the seconds before each error (default 10)')
+  .option('--screenshot-format <format>', `Screenshot image format: ${SCREENSHOT_FORMATS.join(', ')}`, 'png')
+  .option('--screenshot-quality <quality>', 'JPEG/WebP screenshot quality, 0-100', '80')
+  .option('--screenshot-budget <mb>', 'Disk space for screenshots; least recently used ones are deleted beyond it', '200')
+  .option('--screenshot-interval <ms>', 'Minimum time between screenshots for the same trigger (0 = no limit)', '2000')
+  .option('--device <name>', `Emulate a device's viewport, pixel ratio, touch and user agent: ${DEVICE_NAMES.map(name => `"${name}"`).join(', ')}`)
+  .option('--throttle <preset>', `Throttle the network: ${NETWORK_PRESET_NAMES.filter(name => name !== 'none').join(', ')}`)
+  .option('--offline', 'Start with the network offline', false)
+  .option('--cpu-throttle <factor>', 'Slow the CPU down by this factor (e.g. 4)')
+  .option('--geolocation <lat,lon>', 'Report this position to the Geolocation API')
+  .option('--timezone <id>', 'Time zone for Date and Intl (e.g. America/New_York)')
+  .option('--locale <locale>', 'Locale for Intl and Accept-Language (e.g. de-DE)')
+  .option('--color-scheme <scheme>', 'prefers-color-scheme: light or dark')
+  .option('--reduced-motion', 'Emulate prefers-reduced-motion: reduce', false)
   .action(async (options) => {
     console.log('\n🌼 Daisy - Unified Browser Debugging Tool');
     console.log('========================================\n');
@@ -83,9 +231,30 @@ program
     console.log(`🚀 Script: ${runScript} ${script}`);
     console.log(`🌐 Your App: http://localhost:${options.port}`);
     console.log(`📊 Web Viewer: http://localhost:${options.webPort}`);
-    console.log(`🤖 MCP Server: stdio transport (for AI assistants)`);
+    console.log(`🤖 MCP Server: http://127.0.0.1:${options.mcpPort}/mcp (for AI assistants)`);
     console.log(`🔍 Chrome Debugging: port ${options.chromePort}`);
-    console.log(`🎮 Control API: http://localhost:${options.controlPort}`);
+    console.log(`🎮 Control API: http://${options.controlHost}:${options.controlPort}${options.controlReadOnly ? ' (read-only)' : ''}`);
+
+    if (!options.redact) {
+      console.log('⚠️  Redaction disabled: secrets and personal data will be logged verbatim');
+    }
+
+    const recordVideo = options.recordVideo === undefined ? undefined
+      : options.recordVideo === true ? 10 : parseFloat(options.recordVideo);
+    if (recordVideo !== undefined && !(recordVideo > 0)) {
+      console.error(`❌ --record-video expects a number of seconds, got "${options.recordVideo}"`);
+      process.exit(1);
+    }
+    if (recordVideo !== undefined) {
+      console.log(`🎞️  Video: clips of the ${recordVideo}s before each error`);
+    }
+
+    const redactionPatterns = parseRedactionPatterns(options.redactPattern);
+    const screenshots = parseScreenshotOptions(options);
+    const emulation = parseEmulationOptions(options);
+    if (describeEmulation(emulation) !== 'off') {
+      console.log(`📱 Emulation: ${describeEmulation(emulation)}`);
+    }
 
     if (options.debug) {
       console.log(`🐛 Debug Mode: enabled`);
@@ -103,10 +272,23 @@ program
         mcpServerPort: parseInt(options.mcpPort),
         chromePort: parseInt(options.chromePort),
         controlServerPort: parseInt(options.controlPort),
+        controlHost: options.controlHost,
+        controlAllowedOrigins: options.controlAllowOrigin,
+        controlReadOnly: options.controlReadOnly,
         browser: options.browser,
         serversOnly: options.serversOnly,
         debugMode: options.debug,
-        logLevel: options.logLevel
+        logLevel: options.logLevel,
+        mcpToolProfile: options.mcpTools,
+        recordVideo,
+        emulation,
+        screenshots,
+        redaction: {
+          enabled: options.redact,
+          keys: splitList(options.redactKeys),
+          headers: splitList(options.redactHeaders),
+          patterns: redactionPatterns
+        }
       });
 
       await devEnv.start();
@@ -117,6 +299,180 @@ program
     }
   });
 
+// Export captured data from a recorded session
+const exportCommand = program
+  .command('export')
+  .description('Export data from a recorded session');
+
+exportCommand
+  .command('har')
+  .description('Write the network requests of a session as a HAR 1.2 file')
+  .option('--session <id>', 'Session ID, unique ID prefix, or "latest"', 'latest')
+  .option('-o, --output <file>', 'Output file (defaults to daisy-<session>.har, "-" for stdout)')
+  .action((options) => {
+    const session = new SessionManager().findSession(options.session);
+    if (!session) {
+      console.error(`❌ Session not found: ${options.session}`);
+      process.exit(1);
+    }
+
+    if (!fs.existsSync(session.logFile)) {
+      console.error(`❌ Log file for session ${session.id} is missing: ${session.logFile}`);
+      process.exit(1);
+    }
+
+    const { records } = decodeLogContent(fs.readFileSync(session.logFile, 'utf8'));
+    const networkEntries = records
+      .flatMap(record => record.kind === 'entry' ? [record.entry] : [])
+      .filter(entry => isEventType(entry, 'network'));
+    const har = createHarDocument(networkEntries.map(harRecordFromNetworkEvent), {
+      comment: `Exported from daisy session ${session.id}`
+    });
+    const json = JSON.stringify(har, null, 2);
+
+    if (options.output === '-') {
+      process.stdout.write(json + '\n');
+      return;
+    }
+
+    const outputPath = path.resolve(options.output || `daisy-${session.id}.har`);
+    fs.writeFileSync(outputPath, json);
+    console.log(`📦 Exported ${har.log.entries.length} request(s) from session ${session.id} to ${outputPath}`);
+  });
+
+exportCommand
+  .command('test')
+  .description('Write the interactions of a session as a Playwright, Puppeteer or Cypress regression test')
+  .option('--format <format>', `Test framework: ${TEST_EXPORT_FORMATS.join(', ')}`, 'playwright')
+  .option('--session <id>', 'Session ID, unique ID prefix, or "latest"', 'latest')
+  .option('--from <time>', 'Only export interactions at or after this ISO timestamp')
+  .option('--to <time>', 'Only export interactions at or before this ISO timestamp')
+  .option('--name <title>', 'Test title')
+  .option('-o, --output <file>', 'Output file (defaults to daisy-<session> with the framework\'s extension, "-" for stdout)')
+  .action((options) => {
+    if (!(TEST_EXPORT_FORMATS as string[]).includes(options.format)) {
+      console.error(`❌ Unknown format: ${options.format} (expected ${TEST_EXPORT_FORMATS.join(', ')})`);
+      process.exit(1);
+    }
+    const format = options.format as TestExportFormat;
+
+    const session = new SessionManager().findSession(options.session);
+    if (!session) {
+      console.error(`❌ Session not found: ${options.session}`);
+      process.exit(1);
+    }
+
+    if (!fs.existsSync(session.logFile)) {
+      console.error(`❌ Log file for session ${session.id} is missing: ${session.logFile}`);
+      process.exit(1);
+    }
+
+    const { records } = decodeLogContent(fs.readFileSync(session.logFile, 'utf8'));
+    const entries = records.flatMap(record => record.kind === 'entry' ? [record.entry] : []);
+
+    let result;
+    try {
+      result = generateTestScript(entries, {
+        format,
+        from: options.from,
+        to: options.to,
+        name: options.name,
+        sessionId: session.id
+      });
+    } catch (error: any) {
+      console.error(`❌ Could not export session ${session.id}: ${error.message}`);
+      process.exit(1);
+    }
+
+    if (options.output === '-') {
+      process.stdout.write(result.script);
+      return;
+    }
+
+    const outputPath = path.resolve(options.output || `daisy-${session.id}${TEST_EXPORT_EXTENSIONS[format]}`);
+    fs.writeFileSync(outputPath, result.script);
+    console.log(`🧪 Exported ${result.steps} step(s) and ${result.assertions} assertion(s) from session ${session.id} to ${outputPath}`);
+    if (result.baseUrl) {
+      console.log(`   Set BASE_URL to run it against something other than ${result.baseUrl}`);
+    }
+  });
+
+// Re-run a recorded session's interactions through the running daemon
+program
+  .command('replay')
+  .description('Replay the interactions recorded in a session against the running browser')
+  .argument('[session]', 'Session ID, unique ID prefix, or "latest"', 'latest')
+  .option('--control-port <port>', 'Control API port of the running daisy', '9223')
+  .option('--token <token>', 'Control API token (read from ~/.daisy/control-api-<port>.token by default)')
+  .option('--from <time>', 'Only replay interactions at or after this ISO timestamp')
+  .option('--to <time>', 'Only replay interactions at or before this ISO timestamp')
+  .option('--until-error', 'Replay the interactions leading up to the first error and check whether it comes back', false)
+  .option('--lookback <seconds>', 'With --until-error: seconds of interactions before the error to replay', '60')
+  .option('--speed <factor>', 'Playback speed (1 = recorded pace, 0 = no waiting between steps)', '1')
+  .option('--step-timeout <ms>', 'Timeout for each step', '5000')
+  .option('--no-stop-on-divergence', 'Keep going after a failed step or unexpected page URL')
+  .action(async (session: string, options) => {
+    const token = options.token || readControlToken(parseInt(options.controlPort));
+    if (!token) {
+      console.error(`❌ No Control API token for port ${options.controlPort} - is daisy running? Pass --token if it runs as another user`);
+      process.exit(1);
+    }
+
+    let result: ReplayResult;
+    try {
+      const response = await createControlApiClient(parseInt(options.controlPort), token).replay({
+        sessionId: session,
+        from: options.from,
+        to: options.to,
+        untilError: options.untilError,
+        lookbackSeconds: parseFloat(options.lookback),
+        speed: parseFloat(options.speed),
+        stepTimeout: parseInt(options.stepTimeout),
+        stopOnDivergence: options.stopOnDivergence
+      });
+      result = response.result;
+    } catch (error) {
+      if (error instanceof ControlApiError) {
+        console.error(`❌ Replay failed: ${error.message}`);
+      } else {
+        console.error(`❌ Could not reach the Control API on port ${options.controlPort} - is daisy running?`);
+      }
+      process.exit(1);
+    }
+
+    console.log(`\n🔁 Replayed session ${result.sessionId} in ${(result.durationMs / 1000).toFixed(1)}s\n`);
+    for (const step of result.steps) {
+      const icon = step.status === 'ok' ? '✅' : step.status === 'skipped' ? '⏭️ ' : '❌';
+      const detail = step.action === 'navigate' ? step.url
+        : step.action === 'type' ? `${step.selector} "${step.text}"`
+          : step.action === 'key' ? step.key
+            : step.action === 'select' ? `${step.selector} ${JSON.stringify(step.values)}`
+              : step.action === 'check' ? `${step.selector} ${step.checked ? 'on' : 'off'}`
+                : step.selector || `${step.x},${step.y}`;
+      console.log(`${icon} ${String(step.index).padStart(3)} ${step.action.padEnd(8)} ${detail}${step.error ? ` - ${step.error}` : ''}`);
+    }
+    console.log('');
+
+    if (result.originalError) {
+      console.log(`🎯 Original error: ${result.originalError.message || result.originalError.type} (${result.originalError.timestamp})`);
+    }
+    if (result.reproduced) {
+      console.log(`🐛 Reproduced the original error at step ${result.reproducedError?.stepIndex}`);
+    } else if (result.originalError) {
+      console.log('🤷 The original error did not reappear');
+    }
+    if (result.divergence) {
+      console.log(`⚠️  Diverged at step ${result.divergence.stepIndex}: ${result.divergence.message}`);
+    }
+    if (result.errors.length > 0) {
+      console.log(`❗ ${result.errors.length} error(s) logged during the replay`);
+    }
+    if (!result.divergence && !result.originalError) {
+      console.log('✅ Replay completed without errors');
+    }
+
+    process.exit(result.divergence && !result.reproduced ? 2 : 0);
+  });
 
 export { program };
 
@@ -0,0 +1,145 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import {
+  CONTROL_API_ROUTES,
+  CONTROL_API_SCHEMAS,
+  ControlApiRoute,
+  ControlApiValidationIssue,
+  JsonSchema
+} from 'daisy-shared';
+
+export type ValidationResult =
+  | { input: Record<string, any> } // the request with schema defaults filled in
+  | { issues: ControlApiValidationIssue[] }
+  | { notFound: true }; // no route of the API
+
+interface CompiledRoute {
+  route: ControlApiRoute;
+  body?: ValidateFunction;
+  query?: ValidateFunction;
+}
+
+/**
+ * Checks Control API requests against the route schemas in daisy-shared's control-api.
+ *
+ * Bodies are validated as sent; query parameters arrive as strings and are converted to
+ * the schema's types first. Defaults from the schema are filled in, so handlers do not
+ * repeat them.
+ */
+export class ControlApiValidator {
+  private routes = new Map<string, CompiledRoute>();
+
+  constructor() {
+    const bodies = createAjv(false);
+    const queries = createAjv(true);
+
+    for (const route of CONTROL_API_ROUTES) {
+      this.routes.set(`${route.method} ${route.path}`, {
+        route,
+        body: route.body && bodies.compile(withComponents(route.body)),
+        query: route.query && queries.compile(withComponents(route.query))
+      });
+    }
+  }
+
+  /**
+   * The schema entry of a route, when the API has one. Paths match exactly (the server
+   * routes case-sensitively and strictly, so /execute/ is not /execute).
+   */
+  findRoute(method: string, path: string): ControlApiRoute | undefined {
+    return this.lookup(method, path)?.route;
+  }
+
+  /**
+   * Validate a request; one to a path or method the API does not describe is not found
+   */
+  validate(method: string, path: string, body: unknown, query: Record<string, unknown>): ValidationResult {
+    const compiled = this.lookup(method, path);
+    if (!compiled) {
+      return { notFound: true };
+    }
+    if (compiled.body) {
+      // express.json() leaves the body undefined when none was sent
+      const input = body ?? {};
+      return compiled.body(input) ? { input: input as Record<string, any> } : { issues: toIssues('body', compiled.body.errors) };
+    }
+    if (compiled.query) {
+      // Express parses the query again on every access: validate (and fill in) a copy
+      const input = { ...query };
+      return compiled.query(input) ? { input } : { issues: toIssues('query', compiled.query.errors) };
+    }
+    return { input: {} };
+  }
+
+  // Express answers HEAD with the GET route
+  private lookup(method: string, path: string): CompiledRoute | undefined {
+    return this.routes.get(`${method === 'HEAD' ? 'GET' : method} ${path}`);
+  }
+}
+
+function createAjv(coerceTypes: boolean): Ajv2020 {
+  const ajv = new Ajv2020({ allErrors: true, useDefaults: true, coerceTypes, verbose: true, discriminator: true });
+  // Not validation keywords: where the named schemas live, and the client generator's hint
+  ajv.addVocabulary(['components', 'x-ts-type']);
+  return ajv;
+}
+
+// Route schemas refer to #/components/schemas/<name>, as in the OpenAPI document
+function withComponents(schema: JsonSchema): object {
+  return { ...schema, components: { schemas: CONTROL_API_SCHEMAS } };
+}
+
+function toIssues(location: 'body' | 'query', errors: ErrorObject[] | null | undefined): ControlApiValidationIssue[] {
+  const all = errors || [];
+  // A oneOf/anyOf mismatch is reported once, not once per alternative
+  const combinators = all.filter(error => error.keyword === 'oneOf' || error.keyword === 'anyOf');
+  // A missing discriminator is already reported as a missing required property
+  const missing = new Set(all.filter(error => error.keyword === 'required').map(error => `${error.instancePath}/${error.params.missingProperty}`));
+  return all
+    .filter(error => !combinators.some(combinator => error !== combinator && error.schemaPath.startsWith(`${combinator.schemaPath}/`)))
+    .filter(error => !(error.keyword === 'discriminator' && missing.has(`${error.instancePath}/${error.params.tag}`)))
+    .map(error => {
+      switch (error.keyword) {
+        case 'required':
+          return { location, path: `${error.instancePath}/${error.params.missingProperty}`, message: 'is required' };
+        case 'additionalProperties':
+          return { location, path: `${error.instancePath}/${error.params.additionalProperty}`, message: 'is not a known property' };
+        case 'enum':
+          return { location, path: error.instancePath || '/', message: `must be one of ${error.params.allowedValues.join(', ')}` };
+        case 'discriminator':
+          return {
+            location,
+            path: `${error.instancePath}/${error.params.tag}`,
+            message: error.params.error === 'mapping'
+              ? `must be one of ${discriminatorValues(error.parentSchema as JsonSchema, error.params.tag).join(', ')}`
+              : 'must be a string'
+          };
+        case 'anyOf':
+        case 'oneOf':
+          return { location, path: error.instancePath || '/', message: describeAlternatives(error.schema as JsonSchema[]) };
+        default:
+          return { location, path: error.instancePath || '/', message: error.message || 'is invalid' };
+      }
+    });
+}
+
+function describeAlternatives(alternatives: JsonSchema[]): string {
+  if (alternatives.every(alternative => alternative.required && !alternative.type)) {
+    return `needs one of ${alternatives.flatMap(alternative => alternative.required!).join(', ')}`;
+  }
+  return `must be ${alternatives.map(describeType).join(' or ')}`;
+}
+
+// The values of `tag` that select each alternative of a discriminated oneOf
+function discriminatorValues(schema: JsonSchema, tag: string): string[] {
+  return (schema.oneOf || []).flatMap(alternative => {
+    const resolved = alternative.$ref ? CONTROL_API_SCHEMAS[alternative.$ref.split('/').pop()!] : alternative;
+    return (resolved?.properties?.[tag]?.enum || []).map(String);
+  });
+}
+
+function describeType(schema: JsonSchema): string {
+  if (schema.type === 'array') {
+    return `an array of ${schema.items?.minLength ? 'non-empty ' : ''}${schema.items?.type || 'value'}s`;
+  }
+  return `a ${schema.minLength ? 'non-empty ' : ''}${schema.type}`;
+}
@@ -0,0 +1,21 @@
+import { ControlApiClient } from 'daisy-shared';
+
+/**
+ * Typed client for the Control API of the daisy on `port`, for local tools and scripts
+ */
+export function createControlApiClient(port: number, token: string, host: string = '127.0.0.1'): ControlApiClient {
+  return new ControlApiClient(async ({ method, path: requestPath, body, timeout }) => {
+    const response = await fetch(`http://${host}:${port}${requestPath}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: timeout ? AbortSignal.timeout(timeout) : undefined
+    });
+    const text = await response.text();
+    try {
+      return { status: response.status, body: JSON.parse(text) };
+    } catch {
+      return { status: response.status, body: response.ok ? text : { error: text } };
+    }
+  });
+}
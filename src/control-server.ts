@@ -1,25 +1,83 @@
 import express, { Request, Response } from 'express';
 import { DevToolsMonitor } from './devtools-monitor';
 import { DaisyLogger } from './logger';
+import { SessionManager } from './session-manager';
+import { SessionReplayer } from './session-replay';
+import { ActionRunner } from './action-runner';
+import { EventFilter, EventStream, StreamedEvent, parseEventCursor, parseEventFilter } from './event-stream';
+import { ControlApiValidator } from './control-api-validator';
+import {
+  ClickRequest,
+  ControlAuthFailure,
+  DEVICE_NAMES,
+  EmulateRequest,
+  ExecuteRequest,
+  ExportHarQuery,
+  GetComputedStylesRequest,
+  GetElementBoundsRequest,
+  GetNetworkRequestsQuery,
+  GetPageInfoQuery,
+  InspectRequest,
+  NETWORK_PRESET_NAMES,
+  NavigateRequest,
+  ReplayRequest,
+  RunActionsRequest,
+  ScrollRequest,
+  TakeScreenshotRequest,
+  TypeRequest,
+  WaitForElementRequest,
+  WaitForNetworkIdleRequest,
+  checkControlRequest,
+  createOpenApiDocument,
+  decodeLogContent
+} from 'daisy-shared';
+import { WebSocket, WebSocketServer } from 'ws';
+import * as fs from 'fs';
 import * as http from 'http';
+import { Duplex } from 'stream';
 
 export interface ControlServerConfig {
   port: number;
-  host?: string;
+  host?: string; // default 127.0.0.1; anything else exposes the API to the network
+  token: string; // required on every request (see control-auth)
+  allowedOrigins?: string[]; // web pages allowed to call the API
+  readOnly?: boolean; // refuse routes that drive the browser
 }
 
+// Keeps idle proxies from closing event streams, and finds dead WebSocket peers
+const STREAM_HEARTBEAT_MS = 30000;
+// A subscriber this far behind is disconnected; it can resume from its last event id
+const MAX_STREAM_BACKLOG_BYTES = 8 * 1024 * 1024;
+
+const AUTH_FAILURES: Record<ControlAuthFailure, { status: number; error: string }> = {
+  token: { status: 401, error: 'Missing or invalid Control API token (Authorization: Bearer <token>)' },
+  origin: { status: 403, error: 'Origin not allowed to use the Control API' }
+};
+
 export class ControlServer {
   private app: express.Application;
   private server?: http.Server;
   private devToolsMonitor: DevToolsMonitor;
   private logger: DaisyLogger;
   private config: ControlServerConfig;
+  private replayer: SessionReplayer;
+  private actionRunner: ActionRunner;
+  private events: EventStream;
+  private validator = new ControlApiValidator();
+  private webSockets = new WebSocketServer({ noServer: true });
+  private openStreams = new Set<() => void>(); // closes each /events and /ws connection
 
   constructor(devToolsMonitor: DevToolsMonitor, logger: DaisyLogger, config: ControlServerConfig) {
     this.devToolsMonitor = devToolsMonitor;
     this.logger = logger;
     this.config = config;
+    this.replayer = new SessionReplayer(devToolsMonitor, logger);
+    this.actionRunner = new ActionRunner(devToolsMonitor, logger);
+    this.events = new EventStream(logger);
     this.app = express();
+    // Route paths match exactly, as the read-only guard and validation look them up
+    this.app.set('case sensitive routing', true);
+    this.app.set('strict routing', true);
     this.setupMiddleware();
     this.setupRoutes();
   }
@@ -28,24 +86,77 @@ export class ControlServer {
     // Parse JSON bodies
     this.app.use(express.json({ limit: '50mb' }));
     
-    // Enable CORS for all origins (useful for testing)
+    // CORS only for allowlisted origins; preflight requests carry no token
+    const allowedOrigins = this.config.allowedOrigins || [];
     this.app.use((req, res, next) => {
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+      const origin = req.header('Origin');
+      const allowed = !!origin && allowedOrigins.includes(origin);
+      if (allowed) {
+        res.header('Access-Control-Allow-Origin', origin);
+        res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+        res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+      }
+      res.header('Vary', 'Origin');
       if (req.method === 'OPTIONS') {
-        res.sendStatus(200);
+        res.sendStatus(allowed ? 204 : 403);
       } else {
         next();
       }
     });
 
+    // Every request needs the session token, and browsers an allowed origin
+    this.app.use((req, res, next) => {
+      const failure = checkControlRequest(req, this.config.token, allowedOrigins);
+      if (failure) {
+        this.logRejected(req, failure);
+        return res.status(AUTH_FAILURES[failure].status).json({
+          success: false,
+          error: AUTH_FAILURES[failure].error
+        });
+      }
+      next();
+    });
+
+    // Routes that act on the page (drivesBrowser in the schema): in read-only mode only observation is allowed
+    if (this.config.readOnly) {
+      this.app.use((req, res, next) => {
+        if (this.validator.findRoute(req.method, req.path)?.drivesBrowser) {
+          return res.status(403).json({
+            success: false,
+            error: `${req.path} is disabled: the Control API is read-only (--control-read-only)`
+          });
+        }
+        next();
+      });
+    }
+
     // Log all requests
     this.app.use((req, res, next) => {
       this.logger.logConsole('info', `Control API: ${req.method} ${req.path}`, undefined, undefined, req.ip);
       next();
     });
 
+    // Requests must match their route's schema; handlers read the result, defaults filled in, from res.locals.input
+    this.app.use((req, res, next) => {
+      const validation = this.validator.validate(req.method, req.path, req.body, req.query);
+      if ('notFound' in validation) {
+        return res.status(404).json({
+          success: false,
+          error: `No route ${req.method} ${req.path} (routes are listed in /openapi.json)`
+        });
+      }
+      if ('issues' in validation) {
+        const { issues } = validation;
+        return res.status(422).json({
+          success: false,
+          error: `Invalid request ${issues[0].location}: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`,
+          issues
+        });
+      }
+      res.locals.input = validation.input;
+      next();
+    });
+
     // Error handling middleware
     this.app.use((error: Error, req: Request, res: Response, next: any) => {
       this.logger.logError(error, 'control_server_error');
@@ -60,19 +171,27 @@ export class ControlServer {
   private setupRoutes(): void {
     // Health check
     this.app.get('/health', (req: Request, res: Response) => {
+      const browser = this.devToolsMonitor.getConnectionStatus();
       res.json({
         success: true,
-        status: 'healthy',
+        // The API itself is up; "degraded" means browser actions will fail until DevTools reconnects
+        status: browser.state === 'connected' ? 'healthy' : 'degraded',
         connected: this.devToolsMonitor.isConnected(),
+        browser,
         timestamp: new Date().toISOString()
       });
     });
 
+    // Routes and schemas as OpenAPI 3.1 (control-api-client.ts in daisy-shared is generated from it)
+    this.app.get('/openapi.json', (req: Request, res: Response) => {
+      res.json(createOpenApiDocument(`http://${req.header('Host') || `127.0.0.1:${this.config.port}`}`));
+    });
+
     // Take screenshot
     this.app.post('/screenshot', async (req: Request, res: Response) => {
       try {
-        const { context = 'api-request' } = req.body;
-        const screenshotPath = await this.devToolsMonitor.takeScreenshot(context);
+        const { context, targetId }: TakeScreenshotRequest = res.locals.input;
+        const screenshotPath = await this.devToolsMonitor.takeScreenshot(context, targetId);
         
         res.json({
           success: true,
@@ -90,15 +209,8 @@ export class ControlServer {
     // Click element
     this.app.post('/click', async (req: Request, res: Response) => {
       try {
-        const { selector, timeout = 5000 } = req.body;
-        if (!selector) {
-          return res.status(400).json({
-            success: false,
-            error: 'selector is required'
-          });
-        }
-
-        const result = await this.devToolsMonitor.clickElement(selector, timeout);
+        const { selector, timeout, targetId }: ClickRequest = res.locals.input;
+        const result = await this.devToolsMonitor.clickElement(selector, timeout, targetId);
         res.json({
           success: true,
           result,
@@ -115,15 +227,8 @@ export class ControlServer {
     // Type text in element
     this.app.post('/type', async (req: Request, res: Response) => {
       try {
-        const { selector, text, timeout = 5000, clear = false } = req.body;
-        if (!selector || text === undefined) {
-          return res.status(400).json({
-            success: false,
-            error: 'selector and text are required'
-          });
-        }
-
-        const result = await this.devToolsMonitor.typeText(selector, text, timeout, clear);
+        const { selector, text, timeout, clear, targetId }: TypeRequest = res.locals.input;
+        const result = await this.devToolsMonitor.typeText(selector, text, timeout, clear, targetId);
         res.json({
           success: true,
           result,
@@ -140,19 +245,12 @@ export class ControlServer {
     // Navigate to URL
     this.app.post('/navigate', async (req: Request, res: Response) => {
       try {
-        const { url, waitForLoad = true, timeout = 10000, fast = false } = req.body;
-        if (!url) {
-          return res.status(400).json({
-            success: false,
-            error: 'url is required'
-          });
-        }
-
+        const { url, waitForLoad, timeout, fast, targetId }: NavigateRequest = res.locals.input;
         let result;
         if (fast) {
-          result = await this.devToolsMonitor.navigateFast(url);
+          result = await this.devToolsMonitor.navigateFast(url, targetId, timeout);
         } else {
-          result = await this.devToolsMonitor.navigateTo(url, waitForLoad, timeout);
+          result = await this.devToolsMonitor.navigateTo(url, waitForLoad, timeout, targetId);
         }
         
         res.json({
@@ -171,9 +269,8 @@ export class ControlServer {
     // Scroll to element or position
     this.app.post('/scroll', async (req: Request, res: Response) => {
       try {
-        const { selector, x, y, behavior = 'smooth' } = req.body;
-
-        const result = await this.devToolsMonitor.scrollTo({ selector, x, y, behavior });
+        const { selector, x, y, behavior, targetId }: ScrollRequest = res.locals.input;
+        const result = await this.devToolsMonitor.scrollTo({ selector, x, y, behavior }, targetId);
         res.json({
           success: true,
           result,
@@ -190,15 +287,8 @@ export class ControlServer {
     // Inspect DOM element
     this.app.post('/inspect', async (req: Request, res: Response) => {
       try {
-        const { selector, properties = ['textContent', 'innerHTML', 'outerHTML', 'className', 'id'] } = req.body;
-        if (!selector) {
-          return res.status(400).json({
-            success: false,
-            error: 'selector is required'
-          });
-        }
-
-        const result = await this.devToolsMonitor.inspectDOM(selector, properties);
+        const { selector, properties, targetId }: InspectRequest = res.locals.input;
+        const result = await this.devToolsMonitor.inspectDOM(selector, properties, targetId);
         res.json({
           success: true,
           result,
@@ -215,15 +305,8 @@ export class ControlServer {
     // Get computed styles
     this.app.post('/computed-styles', async (req: Request, res: Response) => {
       try {
-        const { selector, properties = ['color', 'background-color', 'font-size', 'display', 'position'] } = req.body;
-        if (!selector) {
-          return res.status(400).json({
-            success: false,
-            error: 'selector is required'
-          });
-        }
-
-        const result = await this.devToolsMonitor.getComputedStyles(selector, properties);
+        const { selector, properties, targetId }: GetComputedStylesRequest = res.locals.input;
+        const result = await this.devToolsMonitor.getComputedStyles(selector, properties, targetId);
         res.json({
           success: true,
           result,
@@ -240,15 +323,8 @@ export class ControlServer {
     // Execute JavaScript
     this.app.post('/execute', async (req: Request, res: Response) => {
       try {
-        const { code, returnByValue = true, timeout = 10000 } = req.body;
-        if (!code) {
-          return res.status(400).json({
-            success: false,
-            error: 'code is required'
-          });
-        }
-
-        const result = await this.devToolsMonitor.evaluateJavaScript(code, returnByValue, timeout);
+        const { code, returnByValue, timeout, targetId }: ExecuteRequest = res.locals.input;
+        const result = await this.devToolsMonitor.evaluateJavaScript(code, returnByValue, timeout, targetId);
         res.json({
           success: true,
           result,
@@ -265,9 +341,45 @@ export class ControlServer {
     // Get network requests
     this.app.get('/network-requests', async (req: Request, res: Response) => {
       try {
-        const limit = parseInt(req.query.limit as string) || 50;
+        const { limit }: GetNetworkRequestsQuery = res.locals.input;
         const result = this.devToolsMonitor.getNetworkRequests(limit);
-        
+
+        res.json({
+          success: true,
+          result,
+          count: result.length,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error: any) {
+        res.status(500).json({
+          success: false,
+          error: error.message
+        });
+      }
+    });
+
+    // Export buffered network requests as HAR 1.2
+    this.app.get('/network-requests.har', async (req: Request, res: Response) => {
+      try {
+        const { limit, download }: ExportHarQuery = res.locals.input;
+        const har = this.devToolsMonitor.getNetworkHar(limit);
+
+        if (download !== undefined) {
+          res.attachment(`daisy-${new Date().toISOString().replace(/[:.]/g, '-')}.har`);
+        }
+        res.type('application/json').send(JSON.stringify(har, null, 2));
+      } catch (error: any) {
+        res.status(500).json({
+          success: false,
+          error: error.message
+        });
+      }
+    });
+
+    // List attached browser targets (tabs, popups, iframes, workers); pass a targetId to other routes to act on one
+    this.app.get('/targets', async (req: Request, res: Response) => {
+      try {
+        const result = this.devToolsMonitor.getTargets();
         res.json({
           success: true,
           result,
@@ -285,7 +397,8 @@ export class ControlServer {
     // Get current page info
     this.app.get('/page-info', async (req: Request, res: Response) => {
       try {
-        const result = await this.devToolsMonitor.getPageInfo();
+        const { targetId }: GetPageInfoQuery = res.locals.input;
+        const result = await this.devToolsMonitor.getPageInfo(targetId);
         res.json({
           success: true,
           result,
@@ -302,15 +415,8 @@ export class ControlServer {
     // Wait for element
     this.app.post('/wait-for-element', async (req: Request, res: Response) => {
       try {
-        const { selector, timeout = 10000, visible = true } = req.body;
-        if (!selector) {
-          return res.status(400).json({
-            success: false,
-            error: 'selector is required'
-          });
-        }
-
-        const result = await this.devToolsMonitor.waitForElement(selector, timeout, visible);
+        const { selector, timeout, visible, targetId }: WaitForElementRequest = res.locals.input;
+        const result = await this.devToolsMonitor.waitForElement(selector, timeout, visible, targetId);
         res.json({
           success: true,
           result,
@@ -327,9 +433,8 @@ export class ControlServer {
     // Wait for network idle
     this.app.post('/wait-for-network-idle', async (req: Request, res: Response) => {
       try {
-        const { timeout = 10000, idleTime = 1000 } = req.body;
-        
-        const result = await this.devToolsMonitor.waitForNetworkIdle(timeout, idleTime);
+        const { timeout, idleTime, targetId }: WaitForNetworkIdleRequest = res.locals.input;
+        const result = await this.devToolsMonitor.waitForNetworkIdle(timeout, idleTime, targetId);
         res.json({
           success: true,
           result,
@@ -346,15 +451,135 @@ export class ControlServer {
     // Get element bounds/position
     this.app.post('/element-bounds', async (req: Request, res: Response) => {
       try {
-        const { selector } = req.body;
-        if (!selector) {
-          return res.status(400).json({
+        const { selector, targetId }: GetElementBoundsRequest = res.locals.input;
+        const result = await this.devToolsMonitor.getElementBounds(selector, targetId);
+        res.json({
+          success: true,
+          result,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error: any) {
+        res.status(500).json({
+          success: false,
+          error: error.message
+        });
+      }
+    });
+
+    // Live log entries as Server-Sent Events (the /ws WebSocket takes the same parameters)
+    this.app.get('/events', (req: Request, res: Response) => {
+      let filter: EventFilter;
+      let since: number | undefined;
+      try {
+        filter = parseEventFilter(req.query);
+        since = parseEventCursor(req.query.since ?? req.header('Last-Event-ID'));
+      } catch (error: any) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+      this.openEventStream(filter, since, {
+        // Entries are plain messages (EventSource.onmessage); lost history arrives as a "gap" event
+        send: (event, data, id) => res.write(
+          `${id !== undefined ? `id: ${id}\n` : ''}${event === 'entry' ? '' : `event: ${event}\n`}data: ${JSON.stringify(data)}\n\n`
+        ),
+        heartbeat: () => res.write(': keep-alive\n\n'),
+        backlog: () => res.writableLength,
+        close: () => res.end(),
+        onClose: listener => req.on('close', listener)
+      });
+    });
+
+    // Re-execute a recorded session's interactions and report divergence or a reproduced error
+    this.app.post('/replay', async (req: Request, res: Response) => {
+      try {
+        const { sessionId = 'latest', ...options }: ReplayRequest = res.locals.input;
+        if (this.replayer.isRunning()) {
+          return res.status(409).json({
+            success: false,
+            error: 'A replay is already running'
+          });
+        }
+
+        const session = new SessionManager().findSession(sessionId);
+        if (!session || !fs.existsSync(session.logFile)) {
+          return res.status(404).json({
+            success: false,
+            error: `Session not found: ${sessionId}`
+          });
+        }
+
+        const { records } = decodeLogContent(fs.readFileSync(session.logFile, 'utf8'));
+        const entries = records.flatMap(record => record.kind === 'entry' ? [record.entry] : []);
+
+        const result = await this.replayer.replay(session.id, entries, options);
+        res.json({
+          success: true,
+          result,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error: any) {
+        res.status(500).json({
+          success: false,
+          error: error.message
+        });
+      }
+    });
+
+    // Device, network, CPU, location, locale and media emulation in effect
+    this.app.get('/emulation', (req: Request, res: Response) => {
+      res.json({
+        success: true,
+        result: {
+          settings: this.devToolsMonitor.getEmulation(),
+          devices: DEVICE_NAMES,
+          networkPresets: NETWORK_PRESET_NAMES
+        },
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Change emulation; fields left out keep their value unless reset is set
+    this.app.post('/emulation', async (req: Request, res: Response) => {
+      try {
+        const { reset, ...settings }: EmulateRequest = res.locals.input;
+        const result = await this.devToolsMonitor.emulate(settings, reset);
+        res.json({
+          success: true,
+          result: {
+            settings: result,
+            devices: DEVICE_NAMES,
+            networkPresets: NETWORK_PRESET_NAMES
+          },
+          timestamp: new Date().toISOString()
+        });
+      } catch (error: any) {
+        res.status(500).json({
+          success: false,
+          error: error.message
+        });
+      }
+    });
+
+    // Run steps (actions and assertions) in order, with each step's result, timing and log entries
+    this.app.post('/actions', async (req: Request, res: Response) => {
+      try {
+        const { steps, ...options }: RunActionsRequest = res.locals.input;
+        if (this.actionRunner.isRunning()) {
+          return res.status(409).json({
             success: false,
-            error: 'selector is required'
+            error: 'Actions are already running'
           });
         }
 
-        const result = await this.devToolsMonitor.getElementBounds(selector);
+        const result = await this.actionRunner.run(steps, options);
         res.json({
           success: true,
           result,
@@ -369,10 +594,111 @@ export class ControlServer {
     });
   }
 
+  /**
+   * Subscribe one /events or /ws connection to the log; the transport only frames messages
+   */
+  private openEventStream(filter: EventFilter, since: number | undefined, connection: EventConnection): void {
+    let open = true;
+    let unsubscribe = () => {};
+    const close = () => {
+      if (!open) {
+        return;
+      }
+      open = false;
+      clearInterval(heartbeat);
+      unsubscribe();
+      this.openStreams.delete(close);
+      connection.close();
+    };
+
+    const send = (event: 'entry' | 'gap', data: unknown, id?: number) => {
+      if (!open) {
+        return;
+      }
+      if (connection.backlog() > MAX_STREAM_BACKLOG_BYTES) {
+        console.error('⚠️  Event stream client is not keeping up, disconnecting it');
+        close();
+        return;
+      }
+      connection.send(event, data, id);
+    };
+
+    const heartbeat = setInterval(() => connection.heartbeat(), STREAM_HEARTBEAT_MS);
+    connection.onClose(close);
+    this.openStreams.add(close);
+
+    // Buffered events after `since` are sent before this returns
+    unsubscribe = this.events.subscribe(filter, {
+      onEvent: ({ id, entry }: StreamedEvent) => send('entry', entry, id),
+      onGap: missed => send('gap', { missed })
+    }, since);
+  }
+
+  private logRejected(request: http.IncomingMessage, failure: ControlAuthFailure): void {
+    const reason = failure === 'origin' ? `origin ${request.headers.origin} not allowed` : 'missing or invalid token';
+    const path = new URL(request.url || '/', 'http://localhost').pathname;
+    this.logger.logConsole('warn', `Control API: rejected ${request.method} ${path} (${reason})`, undefined, undefined, request.socket.remoteAddress);
+  }
+
+  /**
+   * WebSocket upgrade for /ws: the same filters and cursor as /events, as query parameters
+   */
+  private handleUpgrade(request: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(request.url || '/', 'http://localhost');
+    if (url.pathname !== '/ws') {
+      rejectUpgrade(socket, 404, `No WebSocket endpoint at ${url.pathname}`);
+      return;
+    }
+
+    const failure = checkControlRequest(request, this.config.token, this.config.allowedOrigins || []);
+    if (failure) {
+      this.logRejected(request, failure);
+      rejectUpgrade(socket, AUTH_FAILURES[failure].status, AUTH_FAILURES[failure].error);
+      return;
+    }
+
+    let filter: EventFilter;
+    let since: number | undefined;
+    try {
+      const query: Record<string, string[]> = {};
+      for (const [key, value] of url.searchParams) {
+        (query[key] = query[key] || []).push(value);
+      }
+      filter = parseEventFilter({ ...query, url: query.url?.[0], targetId: query.targetId?.[0] });
+      since = parseEventCursor(query.since?.[0]);
+    } catch (error: any) {
+      rejectUpgrade(socket, 400, error.message);
+      return;
+    }
+
+    this.webSockets.handleUpgrade(request, socket, head, (ws: WebSocket) => {
+      let alive = true;
+      ws.on('pong', () => {
+        alive = true;
+      });
+
+      this.openEventStream(filter, since, {
+        // One JSON message per event: {"type": "entry", "id": 42, "entry": {...}} or {"type": "gap", "missed": 3}
+        send: (event, data, id) => ws.send(JSON.stringify(event === 'entry' ? { type: event, id, entry: data } : { type: event, ...(data as object) })),
+        heartbeat: () => {
+          if (!alive) {
+            ws.terminate();
+            return;
+          }
+          alive = false;
+          ws.ping();
+        },
+        backlog: () => ws.bufferedAmount,
+        close: () => ws.close(1013, 'Reconnect with ?since=<last event id>'),
+        onClose: listener => ws.on('close', listener)
+      });
+    });
+  }
+
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        const host = this.config.host || '0.0.0.0';
+        const host = this.config.host || '127.0.0.1';
         this.server = this.app.listen(this.config.port, host, () => {
           this.logger.logConsole('info', `Control API server listening on ${host}:${this.config.port}`);
           console.log(`🎮 Control API server started on ${host}:${this.config.port}`);
@@ -380,6 +706,7 @@ export class ControlServer {
         });
 
         if (this.server) {
+          this.server.on('upgrade', (request, socket, head) => this.handleUpgrade(request, socket, head));
           this.server.on('error', (error) => {
             this.logger.logError(error, 'control_server_start_error');
             reject(error);
@@ -393,6 +720,12 @@ export class ControlServer {
   }
 
   async stop(): Promise<void> {
+    // Streams never end on their own and would keep the server from closing
+    for (const close of [...this.openStreams]) {
+      close();
+    }
+    this.webSockets.clients.forEach(ws => ws.terminate());
+
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -412,4 +745,22 @@ export class ControlServer {
   isRunning(): boolean {
     return !!this.server && this.server.listening;
   }
-}
\ No newline at end of file
+}
+
+// How /events (SSE) and /ws (WebSocket) deliver a subscription
+interface EventConnection {
+  send(event: 'entry' | 'gap', data: unknown, id?: number): void;
+  heartbeat(): void;
+  backlog(): number; // bytes written but not yet sent
+  close(): void;
+  onClose(listener: () => void): void;
+}
+
+// Answer a WebSocket handshake with a plain HTTP error, in the API's JSON error shape
+function rejectUpgrade(socket: Duplex, status: number, error: string): void {
+  const body = JSON.stringify({ success: false, error });
+  socket.end(
+    `HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\n` +
+    `Content-Type: application/json\r\nContent-Length: ${Buffer.byteLength(body)}\r\nConnection: close\r\n\r\n${body}`
+  );
+}
@@ -2,11 +2,21 @@ import { ChromeLauncher } from './chrome-launcher';
 import { DevToolsMonitor } from './devtools-monitor';
 import { ScriptRunner } from './script-runner';
 import { DaisyLogger, LogLevel } from './logger';
+import { RedactionOptions } from './redactor';
+import { ScreenshotOptions } from './screenshot-store';
 import { ControlServer } from './control-server';
+import { SessionManager, SessionRecord } from './session-manager';
+import {
+  EmulationSettings,
+  controlTokenPath,
+  createControlToken,
+  mcpTokenPath,
+  removeControlToken,
+  writeControlToken
+} from 'daisy-shared';
 import { spawn, ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import treeKill from 'tree-kill';
 
 export interface DevEnvironmentConfig {
@@ -16,10 +26,18 @@ export interface DevEnvironmentConfig {
   mcpServerPort: number;
   chromePort: number;
   controlServerPort: number;
+  controlHost: string; // Control API bind address
+  controlAllowedOrigins: string[]; // web pages allowed to call the Control API, besides the web viewer
+  controlReadOnly: boolean;
   browser: string;
   serversOnly: boolean;
   debugMode: boolean;
   logLevel: string;
+  mcpToolProfile: string;
+  redaction?: RedactionOptions;
+  recordVideo?: number; // seconds of screen recording kept for each error's clip
+  screenshots?: ScreenshotOptions;
+  emulation?: EmulationSettings; // device, network, CPU, location, locale and media emulation from the start
 }
 
 export class DevEnvironment {
@@ -31,14 +49,19 @@ export class DevEnvironment {
   private mcpServerProcess?: ChildProcess;
   private controlServer?: ControlServer;
   private logger?: DaisyLogger;
+  private sessionManager: SessionManager;
+  private session: SessionRecord;
   private logFilePath: string;
   private symlinkPath: string;
   private screenshotsDir: string;
   private isUsingSymlink: boolean;
   private fileSyncInterval?: NodeJS.Timeout;
+  private controlToken = createControlToken();
 
   constructor(config: DevEnvironmentConfig) {
     this.config = config;
+    this.sessionManager = new SessionManager();
+    this.session = this.sessionManager.createSession({ script: config.script, appPort: config.appPort });
     const { logFilePath, symlinkPath, screenshotsDir, isUsingSymlink } = this.createPersistentLogFile();
     this.logFilePath = logFilePath;
     this.symlinkPath = symlinkPath;
@@ -47,31 +70,25 @@ export class DevEnvironment {
   }
 
   /**
-   * Creates persistent log file in temp directory (like dev3000)
-   * Returns main log file, symlink path, screenshots directory, and symlink status
+   * Creates the per-session log file and points daisy-current.log at it (like dev3000)
+   * Returns session log file, pointer path, screenshots directory, and symlink status
    */
   private createPersistentLogFile(): { logFilePath: string; symlinkPath: string; screenshotsDir: string; isUsingSymlink: boolean } {
-    // Use user's home directory with .daisy subdirectory for cross-platform compatibility
-    const daisyDir = path.join(os.homedir(), '.daisy', 'logs');
-    
-    // Ensure daisy directory exists
-    if (!fs.existsSync(daisyDir)) {
-      fs.mkdirSync(daisyDir, { recursive: true });
-    }
-    
-    // Use a simple direct log file without symlinks to avoid Windows issues
-    const logFilePath = path.join(daisyDir, 'daisy-current.log');
-    const symlinkPath = logFilePath; // Same file, no symlink needed
-    const isUsingSymlink = false;
-    
-    console.log(`   📝 Using direct log file: ${logFilePath}`);
-    
-    // Create screenshots directory
-    const screenshotsDir = path.join(daisyDir, 'screenshots');
-    if (!fs.existsSync(screenshotsDir)) {
-      fs.mkdirSync(screenshotsDir, { recursive: true });
+    const logFilePath = this.session.logFile;
+    const symlinkPath = this.sessionManager.getCurrentPointerPath();
+    const screenshotsDir = this.session.screenshotsDir;
+
+    // Create the session log up front so the pointer has a target
+    if (!fs.existsSync(logFilePath)) {
+      fs.writeFileSync(logFilePath, '');
     }
-    
+
+    // Symlinks usually need elevated privileges on Windows - fall back to a synced copy
+    const isUsingSymlink = this.sessionManager.pointCurrentLogAt(logFilePath);
+
+    console.log(`   🆔 Session: ${this.session.id}`);
+    console.log(`   📝 Session log file: ${logFilePath}`);
+
     return { logFilePath, symlinkPath, screenshotsDir, isUsingSymlink };
   }
 
@@ -82,9 +99,10 @@ export class DevEnvironment {
     console.log('🚀 Starting daisy development environment...\n');
     
     // Initialize logger
-    this.logger = new DaisyLogger(this.logFilePath, this.config.logLevel as LogLevel);
+    this.logger = new DaisyLogger(this.logFilePath, this.config.logLevel as LogLevel, this.session.id, this.config.redaction);
     
-    console.log(`📝 Centralized logging: ${this.symlinkPath}`);
+    console.log(`📝 Centralized logging: ${this.symlinkPath} -> ${this.logFilePath}`);
+    console.log(`🗂️  Session index: ${this.sessionManager.getIndexPath()}`);
     console.log(`📸 Screenshots: ${this.screenshotsDir}`);
     
     // Start file synchronization if using copy fallback
@@ -114,9 +132,11 @@ export class DevEnvironment {
       console.log('\n✅ All services started successfully!');
       console.log('\n🌼 Daisy is running! Available at:');
       console.log(`   📊 Web Viewer: http://localhost:${this.config.webViewerPort}`);
-      console.log(`   🤖 MCP Server: stdio transport (for AI assistants)`);
+      if (this.mcpServerProcess) {
+        console.log(`   🤖 MCP Server: ${this.getMCPServerUrl()} (streamable HTTP, SSE at /sse; token: ${mcpTokenPath(this.config.mcpServerPort)})`);
+      }
       if (this.controlServer && this.controlServer.isRunning()) {
-        console.log(`   🎮 Control API: http://localhost:${this.config.controlServerPort}`);
+        console.log(`   🎮 Control API: http://${this.config.controlHost}:${this.config.controlServerPort} (token: ${controlTokenPath(this.config.controlServerPort)})`);
       }
       // Show platform-appropriate log viewing command
       if (process.platform === 'win32') {
@@ -132,7 +152,7 @@ export class DevEnvironment {
       
     } catch (error) {
       console.error('❌ Failed to start development environment:', error);
-      await this.cleanup();
+      await this.cleanup('crashed');
       throw error;
     }
   }
@@ -144,9 +164,14 @@ export class DevEnvironment {
     console.log('🌐 Starting Chrome and user script...');
     
     // Start user script first
-    this.scriptRunner = new ScriptRunner();
+    this.scriptRunner = new ScriptRunner(this.logger);
     const scriptProcess = this.scriptRunner.run(this.config.script);
     console.log(`   ⚡ Script started: ${this.config.script}`);
+
+    // Keep the script's exit code in the session index
+    scriptProcess.on('close', (code) => {
+      this.sessionManager.recordScriptExit(this.session.id, code);
+    });
     
     // Wait a moment for script to initialize
     await new Promise(resolve => setTimeout(resolve, 2000));
@@ -172,7 +197,12 @@ export class DevEnvironment {
     console.log('📡 Starting DevTools monitoring...');
     
     const chromePort = this.chromeLauncher.getChromeInstance().port ?? this.chromeLauncher.getPort();
-    this.devToolsMonitor = new DevToolsMonitor(chromePort, this.logger, this.screenshotsDir);
+    this.devToolsMonitor = new DevToolsMonitor(chromePort, this.logger, this.screenshotsDir, {
+      relaunchChrome: () => this.relaunchChrome(),
+      video: this.config.recordVideo ? { clipSeconds: this.config.recordVideo } : undefined,
+      screenshots: this.config.screenshots,
+      emulation: this.config.emulation
+    });
     await this.devToolsMonitor.connect();
     
     console.log('   ✅ DevTools monitoring enabled');
@@ -182,6 +212,23 @@ export class DevEnvironment {
     await this.navigateToApp();
   }
 
+  /**
+   * Start Chrome again after it exited or crashed; returns the new debugging port
+   */
+  private async relaunchChrome(): Promise<number> {
+    if (!this.chromeLauncher) {
+      throw new Error('Chrome was not launched by daisy');
+    }
+
+    console.log('🌐 Relaunching Chrome...');
+    await this.chromeLauncher.kill().catch(() => undefined);
+    const chrome = await this.chromeLauncher.launch();
+    const port = chrome.port ?? this.chromeLauncher.getPort();
+    await this.waitForDevTools(port);
+    console.log(`   🔍 Chrome debugging: port ${port}`);
+    return port;
+  }
+
   /**
    * Wait for the app server to be available
    */
@@ -242,8 +289,9 @@ export class DevEnvironment {
     
     this.webViewerProcess = spawn('node', [
       webViewerPath,
-      '--log-file', this.symlinkPath,
+      '--log-file', this.logFilePath,
       '--screenshots-dir', this.screenshotsDir,
+      '--sessions-index', this.sessionManager.getIndexPath(),
       '--port', this.config.webViewerPort.toString(),
       '--host', '0.0.0.0'
     ], {
@@ -297,12 +345,18 @@ export class DevEnvironment {
     
     this.mcpServerProcess = spawn('node', [
       mcpServerPath,
-      '--log-file', this.symlinkPath,
+      '--log-file', this.logFilePath,
       '--screenshots-dir', this.screenshotsDir,
+      '--sessions-index', this.sessionManager.getIndexPath(),
       '--watch',
-      '--transport', 'stdio'
+      '--transport', 'http',
+      '--port', this.config.mcpServerPort.toString(),
+      '--control-api-port', this.config.controlServerPort.toString(),
+      '--control-api-token', this.controlToken,
+      '--tools', this.config.mcpToolProfile
     ], {
-      stdio: this.config.debugMode ? 'inherit' : 'pipe',
+      // Nothing talks to the child over stdio any more - clients connect by URL
+      stdio: this.config.debugMode ? 'inherit' : 'ignore',
       cwd: process.cwd()
     });
     
@@ -310,7 +364,43 @@ export class DevEnvironment {
       console.error('❌ MCP server error:', error);
     });
     
-    console.log(`   ✅ MCP server started (stdio transport)`);
+    if (await this.waitForMCPServer()) {
+      console.log(`   ✅ MCP server started: ${this.getMCPServerUrl()}`);
+    } else {
+      console.warn(`   ⚠️  MCP server not responding on port ${this.config.mcpServerPort}, proceeding anyway...`);
+    }
+  }
+
+  private getMCPServerUrl(): string {
+    return `http://127.0.0.1:${this.config.mcpServerPort}/mcp`;
+  }
+
+  /**
+   * Wait for the MCP server's HTTP transport to accept connections
+   */
+  private async waitForMCPServer(): Promise<boolean> {
+    const maxAttempts = 20; // 10 seconds
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (this.mcpServerProcess?.exitCode !== null) {
+        return false;
+      }
+
+      try {
+        const response = await fetch(`http://127.0.0.1:${this.config.mcpServerPort}/health`, {
+          signal: AbortSignal.timeout(1000)
+        });
+        if (response.ok) {
+          return true;
+        }
+      } catch (error) {
+        // Not listening yet, continue waiting
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    return false;
   }
 
   /**
@@ -328,12 +418,26 @@ export class DevEnvironment {
       this.logger, 
       { 
         port: this.config.controlServerPort,
-        host: '0.0.0.0'
+        host: this.config.controlHost,
+        token: this.controlToken,
+        allowedOrigins: [
+          `http://localhost:${this.config.webViewerPort}`,
+          `http://127.0.0.1:${this.config.webViewerPort}`,
+          ...this.config.controlAllowedOrigins
+        ],
+        readOnly: this.config.controlReadOnly
       }
     );
     
     await this.controlServer.start();
+    writeControlToken(this.config.controlServerPort, this.controlToken);
     console.log(`   ✅ Control API server ready on port ${this.config.controlServerPort}`);
+    if (!['127.0.0.1', 'localhost', '::1'].includes(this.config.controlHost)) {
+      console.warn(`   ⚠️  Control API reachable from the network on ${this.config.controlHost}; anyone with the token can drive the browser`);
+    }
+    if (this.config.controlReadOnly) {
+      console.log('   🔒 Control API is read-only: click, type, navigate, scroll, execute and replay are disabled');
+    }
   }
 
   /**
@@ -420,7 +524,7 @@ export class DevEnvironment {
   private setupGracefulShutdown(): void {
     const cleanup = async (signal: string) => {
       console.log(`\n🛑 Received ${signal}, shutting down gracefully...`);
-      await this.cleanup();
+      await this.cleanup('completed');
       process.exit(0);
     };
 
@@ -431,21 +535,21 @@ export class DevEnvironment {
     // Handle uncaught errors
     process.on('uncaughtException', async (error) => {
       console.error('❌ Uncaught exception:', error);
-      await this.cleanup();
+      await this.cleanup('crashed');
       process.exit(1);
     });
     
     process.on('unhandledRejection', async (reason) => {
       console.error('❌ Unhandled rejection:', reason);
-      await this.cleanup();
+      await this.cleanup('crashed');
       process.exit(1);
     });
   }
 
   /**
-   * Cleanup all services
+   * Cleanup all services and close the session with the given exit status
    */
-  private async cleanup(): Promise<void> {
+  private async cleanup(exitStatus: 'completed' | 'crashed' = 'completed'): Promise<void> {
     console.log('🧹 Cleaning up services...');
     
     // Clear keep alive interval
@@ -501,6 +605,7 @@ export class DevEnvironment {
       if (this.controlServer) {
         console.log('🎮 Stopping Control API server...');
         await this.controlServer.stop();
+        removeControlToken(this.config.controlServerPort);
         console.log('   ✅ Control API server stopped');
       }
       
@@ -528,6 +633,14 @@ export class DevEnvironment {
         this.logger.close();
         console.log('   ✅ Logger closed');
       }
+
+      // Final copy so daisy-current.log matches the session log in copy mode
+      if (!this.isUsingSymlink && fs.existsSync(this.logFilePath)) {
+        fs.copyFileSync(this.logFilePath, this.symlinkPath);
+      }
+
+      this.sessionManager.endSession(this.session.id, exitStatus);
+      console.log(`   ✅ Session ${this.session.id} recorded as ${exitStatus}`);
       
       console.log('✅ Cleanup complete');
       
@@ -1,7 +1,32 @@
 import CDP from 'chrome-remote-interface';
 import { DaisyLogger } from './logger';
+import { SourceMapResolver } from './source-map-resolver';
+import { INTERACTION_BINDING, INTERACTION_TRACKER_SCRIPT, SENSITIVE_ELEMENT_SCRIPT } from './interaction-tracker';
+import { describeSelector, resolveSelectorExpression, toSelectorList } from './selector-engine';
+import { REDACTED } from './redactor';
+import { ScreencastOptions, ScreencastRecorder } from './screencast-recorder';
+import { CLIPS_DIR, ScreenshotOptions, ScreenshotStore } from './screenshot-store';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  CdpResourceTiming,
+  DEVICE_CATALOG,
+  EmulationSettings,
+  HarDocument,
+  HarRequestRecord,
+  NETWORK_PRESETS,
+  NetworkCacheStatus,
+  NetworkInitiator,
+  NetworkTiming,
+  RedactionRecord,
+  StackFrame,
+  createHarDocument,
+  describeEmulation,
+  harTimingsFromCdp,
+  networkTimingFromCdp,
+  roundMs,
+  splitKeyCombo
+} from 'daisy-shared';
 
 export interface NetworkRequest {
   requestId: string;
@@ -15,6 +40,68 @@ export interface NetworkRequest {
   timestamp: number;
   loadingFailed?: boolean;
   errorText?: string;
+  wallTime?: number; // seconds since epoch when the request started
+  startTimestamp?: number; // CDP monotonic seconds of requestWillBeSent
+  finishedTimestamp?: number; // CDP monotonic seconds of loadingFinished/loadingFailed
+  resourceType?: string;
+  initiator?: NetworkInitiator;
+  priority?: string;
+  statusText?: string;
+  protocol?: string;
+  mimeType?: string;
+  remoteIPAddress?: string;
+  timing?: CdpResourceTiming; // raw CDP timing, kept for HAR export
+  timings?: NetworkTiming; // phases, once the request finished
+  duration?: number; // milliseconds
+  cache?: NetworkCacheStatus;
+  encodedDataLength?: number; // bytes on the wire, headers included
+  decodedDataLength?: number; // body bytes after decompression
+  responseBodyBase64?: boolean;
+  redactions?: RedactionRecord[]; // values masked before they entered the buffer
+  targetId?: string; // browser target that issued the request
+  frameId?: string;
+}
+
+export interface BrowserTarget {
+  targetId: string;
+  type: string; // CDP TargetInfo.type: page, iframe, worker, service_worker, shared_worker
+  url: string;
+  title: string;
+  main: boolean; // the tab daisy connected to; actions go here unless a targetId is given
+  parentTargetId?: string; // page that owns an iframe or dedicated worker
+  openerId?: string; // tab that opened a popup
+}
+
+interface MonitoredTarget extends BrowserTarget {
+  sessionId?: string; // flattened CDP session; undefined for the main tab's own connection
+}
+
+const MAX_RECONNECT_ATTEMPTS = 8;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 10000;
+
+// Discovered targets daisy attaches to itself; iframes and dedicated workers arrive through auto-attach
+const DISCOVERED_TARGET_TYPES = ['page', 'service_worker', 'shared_worker'];
+
+export interface DevToolsMonitorOptions {
+  // Starts the browser again after it exited or crashed; resolves to the new debugging port
+  relaunchChrome?: () => Promise<number>;
+  // Keep a rolling screen recording and save a clip of it with each error
+  video?: ScreencastOptions;
+  // Format, deduplication, rate limit and disk budget of screenshots
+  screenshots?: ScreenshotOptions;
+  // Device, network, CPU, location, locale and media emulation from the start (--device, --throttle, ...)
+  emulation?: EmulationSettings;
+}
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  port: number;
+  lastUrl?: string; // page restored after a reconnect
+  reconnects: number; // successful recoveries this session
+  lastDisconnect?: { event: string; reason?: string; timestamp: string };
 }
 
 export interface ScrollOptions {
@@ -29,25 +116,56 @@ export class DevToolsMonitor {
   private port: number;
   private logger: DaisyLogger;
   private connected: boolean = false;
-  private pendingRequests = new Map<string, any>(); // Track requests by requestId
+  private pendingRequests = new Map<string, NetworkRequest>(); // In-flight requests by session and requestId (same objects as in the buffer)
   private screenshotDir: string;
   private networkRequestCount = 0;
   private networkIdleTimer?: NodeJS.Timeout;
   private networkRequestBuffer: NetworkRequest[] = []; // Ring buffer for network requests
   private maxNetworkRequests = 1000; // Max requests to keep in buffer
-
-  constructor(port: number, logger: DaisyLogger, screenshotDir: string = './screenshots') {
+  private sourceMaps = new SourceMapResolver();
+  private mainTargetId?: string;
+  private targets = new Map<string, MonitoredTarget>(); // Attached targets by targetId
+  private sessions = new Map<string, string>(); // Flattened sessionId -> targetId
+  private attaching = new Set<string>(); // targetIds with an attachToTarget in flight
+  private contextFrames = new Map<string, string>(); // Execution context (per session) -> frameId
+  private options: DevToolsMonitorOptions;
+  private state: ConnectionState = 'disconnected';
+  private closing = false; // disconnect() was called; connection loss is expected
+  private lastUrl?: string;
+  private reconnects = 0;
+  private lastDisconnect?: ConnectionStatus['lastDisconnect'];
+  private screencast?: ScreencastRecorder;
+  private screenshots: ScreenshotStore;
+  private emulation: EmulationSettings; // reapplied to new tabs and after a reconnect
+
+  constructor(port: number, logger: DaisyLogger, screenshotDir: string = './screenshots', options: DevToolsMonitorOptions = {}) {
     this.port = port;
     this.logger = logger;
     this.screenshotDir = screenshotDir;
+    this.options = options;
+    this.emulation = options.emulation || {};
 
     // Ensure screenshot directory exists
     if (!fs.existsSync(this.screenshotDir)) {
       fs.mkdirSync(this.screenshotDir, { recursive: true });
     }
+    this.screenshots = new ScreenshotStore(this.screenshotDir, options.screenshots);
+
+    if (options.video) {
+      this.screencast = new ScreencastRecorder(
+        path.join(this.screenshotDir, CLIPS_DIR),
+        options.video,
+        clipDir => this.screenshots.trackClip(clipDir)
+      );
+    }
   }
 
   async connect(): Promise<void> {
+    this.closing = false;
+    if (this.state !== 'reconnecting') {
+      this.state = 'connecting';
+    }
+
     // Retry connection with backoff
     let retries = 5;
     let lastError;
@@ -74,9 +192,53 @@ export class DevToolsMonitor {
     }
 
     try {
-      const { Runtime, Network, Log, Performance, Page, Security, Debugger, CSS } = this.client;
+      const { Runtime, Network, Log, Performance, Page, Security, Debugger, CSS, Target, Inspector } = this.client;
       const DOM = this.client.DOM;
 
+      // A dead browser otherwise leaves a client that silently never answers
+      const client = this.client;
+      client.on('disconnect', () => {
+        if (client === this.client) {
+          this.handleConnectionLost('disconnected', 'DevTools WebSocket closed');
+        }
+      });
+      Inspector.detached((params: any, sessionId?: string) => {
+        if (!sessionId) {
+          this.handleConnectionLost('detached', params.reason);
+        }
+      });
+      Inspector.targetCrashed((_params: any, sessionId?: string) => {
+        this.handleTargetCrashed(sessionId);
+      });
+
+      // Events from attached targets arrive on the same handlers with their sessionId as second argument
+      const { targetInfo } = await Target.getTargetInfo();
+      this.mainTargetId = targetInfo.targetId;
+      this.targets.set(targetInfo.targetId, {
+        targetId: targetInfo.targetId,
+        type: targetInfo.type,
+        url: targetInfo.url,
+        title: targetInfo.title,
+        main: true
+      });
+      this.setupTargetTracking();
+
+      // Scripts that already exist are reported as soon as Debugger is enabled, so listen first
+      Debugger.scriptParsed((params: any) => {
+        this.sourceMaps.registerScript(params);
+      });
+
+      Runtime.executionContextCreated((params: any, sessionId?: string) => {
+        const frameId = params.context.auxData?.frameId;
+        if (frameId) {
+          this.contextFrames.set(contextKey(sessionId, params.context.id), frameId);
+        }
+      });
+
+      Runtime.executionContextDestroyed((params: any, sessionId?: string) => {
+        this.contextFrames.delete(contextKey(sessionId, params.executionContextId));
+      });
+
       // Enable all domains for comprehensive monitoring and control
       // Note: DOM must be enabled before CSS to avoid "DOM agent needs to be enabled first" error
       await Promise.all([
@@ -87,16 +249,38 @@ export class DevToolsMonitor {
         Page.enable(),
         Security.enable(),
         Debugger.enable(),
+        Inspector.enable(),
         DOM.enable()  // Enable DOM domain first for element interaction
       ]);
 
       // Enable CSS after DOM is ready
       await CSS.enable();
 
+      // Interactions are pushed from the page as they happen, in every frame and document
+      Runtime.bindingCalled((params: any, sessionId?: string) => {
+        if (params.name === INTERACTION_BINDING) {
+          this.logInteractionPayload(params.payload, sessionId, params.executionContextId);
+        }
+      });
+      await this.installInteractionTracker();
+      if (Object.keys(this.emulation).length > 0) {
+        // Settings Chrome rejects are reported, not fatal: the session still gets its logs
+        await this.applyEmulation(this.emulation).catch(error => {
+          console.error('❌ Failed to apply emulation:', error);
+          this.logger.logError(error as Error, 'emulation_error');
+        });
+      }
+      await this.startScreencast();
+
+      // Popups, other tabs and service workers are discovered; iframes and workers are auto-attached
+      // paused so their first console messages and requests are not missed
+      await Target.setDiscoverTargets({ discover: true });
+      await Target.setAutoAttach({ autoAttach: true, waitForDebuggerOnStart: true, flatten: true });
+
       // Set up event listeners for comprehensive debugging data
 
       // Console events
-      Runtime.consoleAPICalled(async (params: any) => {
+      Runtime.consoleAPICalled(async (params: any, sessionId?: string) => {
         // Extract clean message from console arguments
         const message = params.args.map((arg: any) => {
           if (arg.value !== undefined) return arg.value;
@@ -104,208 +288,209 @@ export class DevToolsMonitor {
           return `[${arg.type}]`;
         }).join(' ');
 
+        // Map bundled frames back to the original sources
+        const callFrames = await this.sourceMaps.resolveFrames(params.stackTrace?.callFrames);
+
         // Get the source location (file and line) from stack trace
         let sourceLocation = '';
-        if (params.stackTrace && params.stackTrace.callFrames.length > 0) {
-          const frame = params.stackTrace.callFrames[0];
-          const fileName = frame.url ? frame.url.split('/').pop() : 'unknown';
-          sourceLocation = `${fileName}:${frame.lineNumber}`;
+        if (callFrames.length > 0) {
+          const frame = callFrames[0];
+          const fileName = frame.generated ? frame.url : (frame.url ? frame.url.split('/').pop() : 'unknown');
+          sourceLocation = `${fileName}:${frame.lineNumber + 1}`;
         }
 
         // Take screenshot on console errors
         let screenshotPath = null;
+        let sourceContext;
+        let clip;
         if (params.type === 'error') {
+          clip = this.screencast?.captureClip();
           screenshotPath = await this.takeScreenshot('console-error');
+          sourceContext = callFrames.length > 0 ? await this.sourceMaps.getSourceContext(callFrames[0]) : undefined;
         }
 
-        this.logger.logConsole(
+        this.loggerFor(sessionId, this.frameForContext(sessionId, params.executionContextId)).logConsole(
           params.type,
           message,
           sourceLocation ? [{ sourceLocation, screenshot: screenshotPath }] : undefined,
-          params.stackTrace
+          params.stackTrace ? { callFrames } : undefined,
+          undefined,
+          sourceContext,
+          clip,
+          params.timestamp
         );
       });
 
       // Runtime exceptions
-      Runtime.exceptionThrown(async (params: any) => {
+      Runtime.exceptionThrown(async (params: any, sessionId?: string) => {
         // Take screenshot on JavaScript errors
+        const clip = this.screencast?.captureClip();
         const screenshotPath = await this.takeScreenshot('js-exception');
 
-        this.logger.logError(
+        const details = params.exceptionDetails;
+        const frames = await this.sourceMaps.resolveFrames(details.stackTrace?.callFrames);
+        const description: string = details.exception?.description || details.text;
+        const headline = description.split('\n')[0];
+
+        this.loggerFor(sessionId, this.frameForContext(sessionId, details.executionContextId)).logError(
           {
-            message: params.exceptionDetails.text,
-            stack: params.exceptionDetails.stackTrace,
+            message: headline,
+            stack: frames.length > 0 ? formatStack(headline, frames) : description,
             name: 'RuntimeException',
-            screenshot: screenshotPath
+            frames,
+            sourceContext: frames.length > 0 ? await this.sourceMaps.getSourceContext(frames[0]) : undefined,
+            screenshot: screenshotPath,
+            clip,
+            timestamp: params.timestamp
           },
-          'runtime_exception',
-          JSON.stringify(params.exceptionDetails.stackTrace)
+          'runtime_exception'
         );
       });
 
-      // Network request events - track requests and responses
-      Network.requestWillBeSent((params: any) => {
-        // Store request info for later when response comes
-        const requestData = {
-          method: params.request.method,
-          url: params.request.url,
-          headers: params.request.headers,
-          postData: params.request.postData,
-          timestamp: Date.now()
-        };
-
-        this.pendingRequests.set(params.requestId, requestData);
+      // Network request lifecycle:
+      // requestWillBeSent -> responseReceived -> dataReceived* -> loadingFinished | loadingFailed
+      Network.requestWillBeSent((params: any, sessionId?: string) => {
+        const key = requestKey(sessionId, params.requestId);
+        const previousHop = this.pendingRequests.get(key);
+
+        if (previousHop && params.redirectResponse) {
+          // Redirects reuse the requestId; the previous hop ends here and the request stays in flight
+          this.applyResponse(previousHop, params.redirectResponse);
+          this.completeNetworkRequest(previousHop, params.timestamp, params.redirectResponse.encodedDataLength);
+        } else {
+          // Track network activity for idle detection (like dev3000)
+          this.networkRequestCount++;
+        }
 
-        // Add to network buffer
+        // Secrets never enter the buffer; it is served as-is by /network-requests and HAR export
+        const redactor = this.logger.getRedactor();
+        const redactions: RedactionRecord[] = [];
         const networkRequest: NetworkRequest = {
           requestId: params.requestId,
           method: params.request.method,
-          url: params.request.url,
-          headers: params.request.headers,
-          postData: params.request.postData,
-          timestamp: Date.now()
+          url: redactor.redact(params.request.url, 'data.url', redactions),
+          headers: redactor.redact(params.request.headers, 'request.headers', redactions),
+          postData: redactor.redact(params.request.postData, 'data.requestBody', redactions),
+          redactions,
+          timestamp: Date.now(),
+          wallTime: params.wallTime,
+          startTimestamp: params.timestamp,
+          resourceType: params.type,
+          initiator: toNetworkInitiator(params.initiator),
+          priority: params.request.initialPriority,
+          cache: 'none',
+          targetId: this.targetForSession(sessionId)?.targetId,
+          frameId: params.frameId
         };
 
+        this.pendingRequests.set(key, networkRequest);
         this.addToNetworkBuffer(networkRequest);
 
-        // Track network activity for idle detection (like dev3000)
-        this.networkRequestCount++;
         if (this.networkIdleTimer) {
           clearTimeout(this.networkIdleTimer);
         }
       });
 
-      Network.responseReceived(async (params: any) => {
-        const requestData = this.pendingRequests.get(params.requestId);
-
-        // Helper function to get response body with retry
-        const getResponseBodyWithRetry = async (requestId: string, maxRetries = 3): Promise<any> => {
-          for (let i = 0; i < maxRetries; i++) {
-            try {
-              // Add small delay for first retry to let response body become available
-              if (i > 0) {
-                await new Promise(resolve => setTimeout(resolve, 100));
-              }
-
-              const responseBodyResult = await Network.getResponseBody({ requestId });
-              let responseBody = responseBodyResult.body;
-
-              // Try to parse JSON responses
-              if (params.response.mimeType === 'application/json' && responseBody) {
-                try {
-                  responseBody = JSON.parse(responseBody);
-                } catch (e) {
-                  // Keep as string if not valid JSON
-                }
-              }
-
-              return responseBody;
-            } catch (e) {
-              if (i === maxRetries - 1) {
-                // Last retry failed, return null
-                return null;
-              }
-              // Continue to next retry
-            }
-          }
-          return null;
-        };
-
-        // Skip logging for certain content types
-        const contentType = params.response.headers['content-type'] || '';
-        const skipContentTypes = ['text/x-script'];
+      Network.requestServedFromCache((params: any, sessionId?: string) => {
+        const request = this.pendingRequests.get(requestKey(sessionId, params.requestId));
+        if (request) {
+          request.cache = 'memory';
+        }
+      });
 
-        if (skipContentTypes.some(type => contentType.includes(type))) {
-          // Clean up tracked request without logging
-          this.pendingRequests.delete(params.requestId);
-          this.networkRequestCount = Math.max(0, this.networkRequestCount - 1);
+      Network.responseReceived((params: any, sessionId?: string) => {
+        const request = this.pendingRequests.get(requestKey(sessionId, params.requestId));
+        if (!request) {
           return;
         }
 
-        let responseBody: any = null;
-
-        try {
-          // Get the actual response body content with retry
-          responseBody = await getResponseBodyWithRetry(params.requestId);
-
-          // Log the complete request/response
-          this.logger.logNetwork(
-            requestData?.method || 'UNKNOWN',
-            params.response.url,
-            params.response.status,
-            params.response.headers,
-            requestData?.postData,
-            responseBody
-          );
-        } catch (error) {
-          // Fallback to basic logging if something fails
-          this.logger.logNetwork(
-            requestData?.method || 'UNKNOWN',
-            params.response.url,
-            params.response.status,
-            params.response.headers,
-            requestData?.postData,
-            null
-          );
+        this.applyResponse(request, params.response);
+        if (params.type) {
+          request.resourceType = params.type;
         }
+      });
 
-        // Update network buffer with response data
-        this.updateNetworkBufferResponse(params.requestId, {
-          status: params.response.status,
-          responseHeaders: params.response.headers,
-          responseBody
-        });
-
-        // Clean up tracked request
-        this.pendingRequests.delete(params.requestId);
+      Network.dataReceived((params: any, sessionId?: string) => {
+        const request = this.pendingRequests.get(requestKey(sessionId, params.requestId));
+        if (request) {
+          request.decodedDataLength = (request.decodedDataLength || 0) + params.dataLength;
+        }
+      });
 
-        // Decrement network activity counter
+      Network.loadingFinished(async (params: any, sessionId?: string) => {
+        const key = requestKey(sessionId, params.requestId);
+        const request = this.pendingRequests.get(key);
+        if (!request) {
+          return;
+        }
+        this.pendingRequests.delete(key);
         this.networkRequestCount = Math.max(0, this.networkRequestCount - 1);
+
+        // The body is only reliably available once loading has finished
+        request.responseBody = this.logger.getRedactor().redact(
+          await this.getResponseBody(request, sessionId),
+          'data.responseBody',
+          request.redactions || []
+        );
+        this.completeNetworkRequest(request, params.timestamp, params.encodedDataLength);
       });
 
-      Network.loadingFailed(async (params: any) => {
+      Network.loadingFailed(async (params: any, sessionId?: string) => {
+        const key = requestKey(sessionId, params.requestId);
+        const request = this.pendingRequests.get(key);
+        if (request) {
+          this.pendingRequests.delete(key);
+          this.networkRequestCount = Math.max(0, this.networkRequestCount - 1);
+
+          request.loadingFailed = true;
+          request.errorText = params.errorText;
+          request.finishedTimestamp = params.timestamp;
+          if (request.startTimestamp !== undefined) {
+            request.duration = roundMs((params.timestamp - request.startTimestamp) * 1000);
+          }
+        }
+
         // Take screenshot on network failures (4xx/5xx errors)
+        const clip = this.screencast?.captureClip();
         const screenshotPath = await this.takeScreenshot('network-error');
 
-        // Update network buffer with error
-        this.updateNetworkBufferResponse(params.requestId, {
-          loadingFailed: true,
-          errorText: params.errorText
-        });
-
-        this.logger.logError(
+        this.loggerFor(sessionId, request?.frameId).logError(
           {
             message: `Network loading failed: ${params.errorText}`,
             name: 'NetworkError',
-            url: params.request?.url,
-            screenshot: screenshotPath
+            url: request?.url,
+            screenshot: screenshotPath,
+            clip
           },
           'network_failure'
         );
-
-        // Decrement network activity counter
-        this.networkRequestCount = Math.max(0, this.networkRequestCount - 1);
       });
 
       // Page events
-      Page.loadEventFired(async (params: any) => {
-        this.logger.logPageEvent('load', params);
+      Page.loadEventFired(async (params: any, sessionId?: string) => {
+        this.loggerFor(sessionId).logPageEvent('load', params);
+        if (sessionId) {
+          return;
+        }
         // Take screenshot on page load like dev3000
         await this.takeScreenshot('page-loaded');
-        // Re-inject interaction tracking on page load
-        setTimeout(() => this.setupInteractionTracking(), 1000);
       });
 
-      Page.domContentEventFired(async (params: any) => {
-        this.logger.logPageEvent('domContentLoaded', params);
+      Page.domContentEventFired(async (params: any, sessionId?: string) => {
+        this.loggerFor(sessionId).logPageEvent('domContentLoaded', params);
+        if (sessionId) {
+          return;
+        }
         // Take screenshot on DOM content loaded
         await this.takeScreenshot('dom-content-loaded');
-        // Re-inject interaction tracking on DOM ready
-        setTimeout(() => this.setupInteractionTracking(), 500);
       });
 
-      Page.frameNavigated((params: any) => {
-        this.logger.logPageEvent('navigation', params, params.frame.url);
+      Page.frameNavigated((params: any, sessionId?: string) => {
+        // Remembered for recovery; error pages and about:blank are not worth restoring
+        if (!sessionId && !params.frame.parentId && isRestorableUrl(params.frame.url)) {
+          this.lastUrl = params.frame.url;
+        }
+        this.loggerFor(sessionId, params.frame.id).logPageEvent('navigation', params, params.frame.url);
       });
 
       // DOM mutation tracking (like dev3000)
@@ -324,17 +509,25 @@ export class DevToolsMonitor {
       });
 
       // Log entries
-      Log.entryAdded((params: any) => {
-        this.logger.logConsole(
+      Log.entryAdded(async (params: any, sessionId?: string) => {
+        const stackTrace = params.entry.stackTrace
+          ? { callFrames: await this.sourceMaps.resolveFrames(params.entry.stackTrace.callFrames) }
+          : undefined;
+
+        this.loggerFor(sessionId).logConsole(
           params.entry.level,
           params.entry.text,
           undefined,
-          params.entry.stackTrace,
-          params.entry.url
+          stackTrace,
+          params.entry.url,
+          undefined,
+          undefined,
+          params.entry.timestamp
         );
       });
 
       this.connected = true;
+      this.state = 'connected';
 
     } catch (error) {
       this.logger.logError(error, 'devtools_connection');
@@ -342,293 +535,379 @@ export class DevToolsMonitor {
     }
   }
 
-  async takeScreenshot(errorContext: string = ''): Promise<string | null> {
-    if (!this.connected || !this.client) {
-      return null;
+  /**
+   * The DevTools connection went away: log it and reattach (relaunching the browser if it is gone)
+   */
+  private handleConnectionLost(event: 'detached' | 'disconnected', reason?: string): void {
+    if (this.closing || this.state === 'reconnecting') {
+      return;
     }
 
-    try {
-      const { Page } = this.client;
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const filename = errorContext
-        ? `error-${errorContext}-${timestamp}.png`
-        : `screenshot-${timestamp}.png`;
-      const filepath = path.join(this.screenshotDir, filename);
-
-      // Capture screenshot
-      const screenshot = await Page.captureScreenshot({
-        format: 'png',
-        captureBeyondViewport: false
-      });
+    this.connected = false;
+    this.state = 'reconnecting';
+    this.lastDisconnect = { event, reason, timestamp: new Date().toISOString() };
+    this.logger.logBrowserEvent(event, { reason, url: this.lastUrl }, 'warn');
+    console.warn(`⚠️  DevTools connection lost (${reason || event}), reconnecting...`);
+
+    // Everything below belonged to the old connection
+    this.pendingRequests.clear();
+    this.networkRequestCount = 0;
+    this.targets.clear();
+    this.sessions.clear();
+    this.contextFrames.clear();
+    const oldClient = this.client;
+    oldClient?.close().catch(() => undefined);
+
+    this.reconnect().catch(error => {
+      this.logger.logError(error, 'devtools_reconnect');
+    });
+  }
 
-      // Save screenshot to file
-      const buffer = Buffer.from(screenshot.data, 'base64');
-      fs.writeFileSync(filepath, buffer);
+  private async reconnect(): Promise<void> {
+    let lastError: any;
 
-      console.log(`📸 Screenshot saved: ${filepath}`);
-      return filepath;
-    } catch (error) {
-      console.error('❌ Failed to capture screenshot:', error);
-      return null;
+    for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS && !this.closing; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS)));
+      this.logger.logBrowserEvent('reconnecting', { attempt }, 'info');
+
+      try {
+        if (!(await this.isDebuggerReachable()) && this.options.relaunchChrome) {
+          this.port = await this.options.relaunchChrome();
+          this.logger.logBrowserEvent('relaunched', { attempt, port: this.port }, 'warn');
+        }
+
+        // Closing the last tab leaves the browser running with nothing to attach to
+        const targets = await CDP.List({ port: this.port });
+        if (!targets.some((target: any) => target.type === 'page')) {
+          await CDP.New({ port: this.port });
+        }
+
+        this.client = undefined;
+        await this.connect();
+        await this.restorePage();
+
+        this.reconnects++;
+        this.logger.logBrowserEvent('reconnected', { attempt, url: this.lastUrl }, 'info');
+        console.log(`✅ DevTools reconnected after ${attempt} attempt(s)`);
+        return;
+      } catch (error) {
+        lastError = error;
+        await this.client?.close().catch(() => undefined);
+        this.client = undefined;
+        this.connected = false;
+        this.state = 'reconnecting';
+      }
+    }
+
+    if (!this.closing) {
+      this.state = 'disconnected';
+      this.logger.logBrowserEvent('recovery_failed', {
+        attempt: MAX_RECONNECT_ATTEMPTS,
+        reason: lastError?.message || String(lastError)
+      }, 'error');
+      console.error('❌ Could not reconnect to Chrome DevTools:', lastError?.message || lastError);
     }
   }
 
-  async navigateToUrl(url: string): Promise<void> {
-    if (!this.client || !this.connected) {
-      throw new Error('DevTools not connected');
+  /**
+   * The monitored tab's renderer died; the connection survives, so reload the page in place
+   */
+  private async handleTargetCrashed(sessionId?: string): Promise<void> {
+    if (sessionId) {
+      // A popup or iframe renderer; the main page is unaffected
+      this.loggerFor(sessionId).logBrowserEvent('crashed', { reason: 'Renderer process crashed' }, 'error');
+      return;
     }
 
+    this.lastDisconnect = { event: 'crashed', reason: 'Renderer process crashed', timestamp: new Date().toISOString() };
+    this.logger.logBrowserEvent('crashed', { reason: 'Renderer process crashed', url: this.lastUrl }, 'error');
+    console.error('💥 Page renderer crashed, reloading...');
+
     try {
-      const { Page } = this.client;
-      console.log(`🌐 Navigating to ${url}`);
-      await Page.navigate({ url });
-      this.logger.logPageEvent('navigation', { url }, url);
+      await this.restorePage();
+      // The screencast ended with the renderer
+      await this.startScreencast();
+      this.reconnects++;
+      this.logger.logBrowserEvent('recovered', { url: this.lastUrl }, 'info');
+    } catch (error: any) {
+      this.logger.logBrowserEvent('recovery_failed', { reason: error.message, url: this.lastUrl }, 'error');
+    }
+  }
 
-      // Take a screenshot after navigation
-      setTimeout(() => {
-        this.takeScreenshot('navigation');
-      }, 1000);
+  /**
+   * Bring the page back to where it was (connect() has already reinstalled interaction tracking)
+   */
+  private async restorePage(): Promise<void> {
+    if (this.lastUrl) {
+      await this.navigateToUrl(this.lastUrl);
+    }
+  }
 
-      // Set up interaction tracking after navigation (like dev3000)
-      setTimeout(() => {
-        this.setupInteractionTracking();
-      }, 100);
+  private async isDebuggerReachable(): Promise<boolean> {
+    try {
+      await CDP.Version({ port: this.port });
+      return true;
+    } catch {
+      return false;
+    }
+  }
 
-      setTimeout(() => {
-        this.setupInteractionTracking();
-      }, 1000);
+  /**
+   * Connection state for health checks
+   */
+  getConnectionStatus(): ConnectionStatus {
+    return {
+      state: this.state,
+      port: this.port,
+      lastUrl: this.lastUrl,
+      reconnects: this.reconnects,
+      lastDisconnect: this.lastDisconnect
+    };
+  }
 
-      setTimeout(() => {
-        this.setupInteractionTracking();
-      }, 2000);
-    } catch (error) {
-      console.error(`❌ Failed to navigate to ${url}:`, error);
-      throw error;
+  /**
+   * Follow popups, tabs, out-of-process iframes and workers so their events reach the same handlers
+   */
+  private setupTargetTracking(): void {
+    const { Target } = this.client;
+
+    Target.targetCreated(({ targetInfo }: any) => {
+      if (!DISCOVERED_TARGET_TYPES.includes(targetInfo.type) || targetInfo.url.startsWith('devtools://')) {
+        return;
+      }
+      if (this.targets.has(targetInfo.targetId) || this.attaching.has(targetInfo.targetId)) {
+        return;
+      }
+
+      this.attaching.add(targetInfo.targetId);
+      Target.attachToTarget({ targetId: targetInfo.targetId, flatten: true })
+        .catch(() => undefined) // Closed before we got to it
+        .finally(() => this.attaching.delete(targetInfo.targetId));
+    });
+
+    Target.attachedToTarget((params: any, parentSessionId?: string) => {
+      this.attachTarget(params, parentSessionId).catch(error => {
+        this.logger.logError(error, 'target_attach_error');
+      });
+    });
+
+    Target.detachedFromTarget((params: any) => {
+      const targetId = this.sessions.get(params.sessionId);
+      this.sessions.delete(params.sessionId);
+      if (targetId) {
+        this.targets.delete(targetId);
+      }
+
+      // Requests of a closed target never finish
+      const prefix = `${params.sessionId}:`;
+      for (const key of [...this.pendingRequests.keys()]) {
+        if (key.startsWith(prefix)) {
+          this.pendingRequests.delete(key);
+          this.networkRequestCount = Math.max(0, this.networkRequestCount - 1);
+        }
+      }
+      for (const key of [...this.contextFrames.keys()]) {
+        if (key.startsWith(prefix)) {
+          this.contextFrames.delete(key);
+        }
+      }
+    });
+
+    Target.targetInfoChanged(({ targetInfo }: any) => {
+      const target = this.targets.get(targetInfo.targetId);
+      if (target) {
+        target.url = targetInfo.url;
+        target.title = targetInfo.title;
+      }
+    });
+  }
+
+  /**
+   * Enable monitoring domains on a newly attached target's session, then let it run
+   */
+  private async attachTarget(params: any, parentSessionId?: string): Promise<void> {
+    const { sessionId, targetInfo, waitingForDebugger } = params;
+    const type: string = targetInfo.type;
+    const owned = type === 'iframe' || type === 'worker';
+
+    this.sessions.set(sessionId, targetInfo.targetId);
+    this.targets.set(targetInfo.targetId, {
+      targetId: targetInfo.targetId,
+      type,
+      url: targetInfo.url,
+      title: targetInfo.title,
+      main: false,
+      parentTargetId: owned ? this.targetForSession(parentSessionId)?.targetId : undefined,
+      openerId: targetInfo.openerId,
+      sessionId
+    });
+
+    // Workers have no Page or DOM domain, so every command may fail on its own
+    const send = (method: string, commandParams: any = {}) =>
+      this.client.send(method, commandParams, sessionId).catch(() => undefined);
+
+    await Promise.all([
+      send('Runtime.enable'),
+      send('Network.enable'),
+      send('Log.enable'),
+      send('Debugger.enable'),
+      ...(type === 'page' ? [send('Page.enable')] : [])
+    ]);
+
+    // Nested iframes and workers of this target, and the interaction tracker for its documents
+    if (type === 'page' || type === 'iframe') {
+      await send('Target.setAutoAttach', { autoAttach: true, waitForDebuggerOnStart: true, flatten: true });
+      await this.installInteractionTracker(sessionId, !waitingForDebugger);
+    }
+
+    // Popups and new tabs open as the emulated device too
+    if (type === 'page' && Object.keys(this.emulation).length > 0) {
+      await this.applyEmulation(this.emulation, sessionId).catch(error => {
+        console.error('❌ Failed to apply emulation to new tab:', error);
+      });
     }
+
+    if (waitingForDebugger) {
+      await send('Runtime.runIfWaitingForDebugger');
+    }
+
+    this.loggerFor(sessionId).logPageEvent('target_attached', { type, openerId: targetInfo.openerId }, targetInfo.url);
   }
 
   /**
-   * Set up user interaction tracking by injecting JavaScript into the page
+   * Install the interaction tracker in every current and future document of a target.
+   * A target paused on start has no document yet, so the new-document script covers it.
    */
-  private async setupInteractionTracking(): Promise<void> {
-    if (!this.client || !this.connected) {
-      return;
+  private async installInteractionTracker(sessionId?: string, currentDocument: boolean = true): Promise<void> {
+    try {
+      await this.client.send('Runtime.addBinding', { name: INTERACTION_BINDING }, sessionId);
+      await this.client.send('Page.addScriptToEvaluateOnNewDocument', { source: INTERACTION_TRACKER_SCRIPT }, sessionId);
+      if (currentDocument) {
+        await this.client.send('Runtime.evaluate', { expression: INTERACTION_TRACKER_SCRIPT }, sessionId);
+      }
+    } catch (error) {
+      console.error('❌ Failed to setup interaction tracking:', error);
     }
+  }
 
+  private logInteractionPayload(payload: string, sessionId?: string, executionContextId?: number): void {
+    let interaction: any;
     try {
-      const trackingScript = `
-        try {
-          if (!window.__daisy_interaction_tracking) {
-            window.__daisy_interaction_tracking = true;
-            
-            // Helper function to generate CSS selector for element
-            function getElementSelector(el) {
-              if (!el || el === document) return 'document';
-              
-              // Try ID first (most reliable)
-              if (el.id) return '#' + el.id;
-              
-              // Build path with tag + classes
-              let selector = el.tagName.toLowerCase();
-              if (el.className && typeof el.className === 'string') {
-                let classes = el.className.trim().split(/\\\\s+/).filter(c => c.length > 0);
-                if (classes.length > 0) selector += '.' + classes.join('.');
-              }
-              
-              // Add nth-child if needed to make unique
-              if (el.parentNode) {
-                let siblings = Array.from(el.parentNode.children).filter(child => 
-                  child.tagName === el.tagName && 
-                  child.className === el.className
-                );
-                if (siblings.length > 1) {
-                  let index = siblings.indexOf(el) + 1;
-                  selector += ':nth-child(' + index + ')';
-                }
-              }
-              
-              return selector;
-            }
-            
-            // Helper to get element details for replay
-            function getElementDetails(el) {
-              return {
-                selector: getElementSelector(el),
-                tag: el.tagName.toLowerCase(),
-                text: el.textContent ? el.textContent.trim().substring(0, 50) : '',
-                id: el.id || '',
-                className: el.className || '',
-                name: el.name || '',
-                type: el.type || '',
-                value: el.value || ''
-              };
-            }
-            
-            // Store interactions for polling
-            window.__daisy_interactions = [];
-            
-            // Add click tracking
-            document.addEventListener('click', function(e) {
-              let details = getElementDetails(e.target);
-              window.__daisy_interactions.push({
-                timestamp: Date.now(),
-                type: 'CLICK',
-                x: e.clientX,
-                y: e.clientY,
-                element: details,
-                message: 'CLICK at ' + e.clientX + ',' + e.clientY + ' on ' + details.selector
-              });
-              
-              // Keep only last 100 interactions
-              if (window.__daisy_interactions.length > 100) {
-                window.__daisy_interactions = window.__daisy_interactions.slice(-100);
-              }
-            });
-            
-            // Add key tracking
-            document.addEventListener('keydown', function(e) {
-              let details = getElementDetails(e.target);
-              window.__daisy_interactions.push({
-                timestamp: Date.now(),
-                type: 'KEY',
-                key: e.key,
-                element: details,
-                message: 'KEY ' + e.key + ' in ' + details.selector
-              });
-              
-              // Keep only last 100 interactions
-              if (window.__daisy_interactions.length > 100) {
-                window.__daisy_interactions = window.__daisy_interactions.slice(-100);
-              }
-            });
-            
-            // Add scroll tracking with coalescing
-            let scrollTimeout = null;
-            let lastScrollX = 0;
-            let lastScrollY = 0;
-            let scrollStartX = 0;
-            let scrollStartY = 0;
-            let scrollTarget = 'document';
-            
-            document.addEventListener('scroll', function(e) {
-              let target = e.target === document ? 'document' : getElementSelector(e.target);
-              let currentScrollX, currentScrollY;
-              
-              if (e.target === document) {
-                currentScrollX = window.scrollX;
-                currentScrollY = window.scrollY;
-              } else {
-                currentScrollX = e.target.scrollLeft;
-                currentScrollY = e.target.scrollTop;
-              }
-              
-              // If this is the first scroll event or different target, reset
-              if (scrollTimeout === null || scrollTarget !== target) {
-                scrollStartX = currentScrollX;
-                scrollStartY = currentScrollY;
-                scrollTarget = target;
-              } else {
-                clearTimeout(scrollTimeout);
-              }
-              
-              lastScrollX = currentScrollX;
-              lastScrollY = currentScrollY;
-              
-              // Set timeout to log scroll after 300ms of no scrolling
-              scrollTimeout = setTimeout(function() {
-                let deltaX = Math.abs(lastScrollX - scrollStartX);
-                let deltaY = Math.abs(lastScrollY - scrollStartY);
-                
-                if (deltaX > 5 || deltaY > 5) {
-                  window.__daisy_interactions.push({
-                    timestamp: Date.now(),
-                    type: 'SCROLL',
-                    from: { x: scrollStartX, y: scrollStartY },
-                    to: { x: lastScrollX, y: lastScrollY },
-                    target: target,
-                    message: 'SCROLL from ' + scrollStartX + ',' + scrollStartY + ' to ' + lastScrollX + ',' + lastScrollY + ' in ' + target
-                  });
-                  
-                  // Keep only last 100 interactions
-                  if (window.__daisy_interactions.length > 100) {
-                    window.__daisy_interactions = window.__daisy_interactions.slice(-100);
-                  }
-                }
-                scrollTimeout = null;
-              }, 300);
-            }, true);
-            
-            console.debug('🌼 Daisy interaction tracking initialized');
-          }
-        } catch (err) {
-          console.debug('🌼 Daisy interaction tracking error:', err.message);
-        }
-      `;
+      interaction = JSON.parse(payload);
+    } catch {
+      return; // Not from our tracker
+    }
 
-      const { Runtime } = this.client;
-      const result = await Runtime.evaluate({
-        expression: trackingScript,
-        includeCommandLineAPI: false
-      });
+    this.loggerFor(sessionId, this.frameForContext(sessionId, executionContextId))
+      .logInteraction(interaction.type, interaction, interaction.message);
+  }
 
-      console.log('🎯 User interaction tracking enabled');
+  private targetForSession(sessionId?: string): MonitoredTarget | undefined {
+    const targetId = sessionId ? this.sessions.get(sessionId) : this.mainTargetId;
+    return targetId ? this.targets.get(targetId) : undefined;
+  }
 
+  private frameForContext(sessionId: string | undefined, executionContextId?: number): string | undefined {
+    return executionContextId !== undefined ? this.contextFrames.get(contextKey(sessionId, executionContextId)) : undefined;
+  }
 
+  /**
+   * Logger that stamps entries with the target (and frame) an event came from
+   */
+  private loggerFor(sessionId?: string, frameId?: string): DaisyLogger {
+    const target = this.targetForSession(sessionId);
+    return this.logger.forTarget({ targetId: target?.targetId, targetType: target?.type, frameId });
+  }
 
-      // Start polling for interactions
-      this.startInteractionPolling();
+  /**
+   * CDP client and logger for an action aimed at `targetId` (full id or unique prefix; main tab when omitted)
+   */
+  private forTarget(targetId?: string): { client: any; logger: DaisyLogger; sessionId?: string } {
+    let target = this.targetForSession(undefined);
+    if (targetId) {
+      const matches = [...this.targets.values()].filter(t => t.targetId === targetId || t.targetId.startsWith(targetId));
+      target = matches.find(t => t.targetId === targetId) || (matches.length === 1 ? matches[0] : undefined);
+      if (!target) {
+        throw new Error(matches.length > 1
+          ? `Ambiguous targetId prefix: ${targetId}`
+          : `Unknown target: ${targetId}. List attached targets with GET /targets`);
+      }
+    }
 
-    } catch (error) {
-      console.error('❌ Failed to setup interaction tracking:', error);
+    const sessionId = target?.sessionId;
+    if (!sessionId) {
+      return { client: this.client, logger: this.loggerFor() };
     }
+
+    // Same Domain.method(params) surface as the root client, sent over the target's session
+    const client = new Proxy({}, {
+      get: (_, domain: string) => new Proxy({}, {
+        get: (__, method: string) => (params: any = {}) => this.client.send(`${domain}.${method}`, params, sessionId)
+      })
+    });
+    return { client, logger: this.loggerFor(sessionId), sessionId };
   }
 
   /**
-   * Start polling for user interactions
+   * Targets currently attached: the main tab plus popups, other tabs, iframes and workers
    */
-  private startInteractionPolling(): void {
-    const pollInteractions = async () => {
-      if (!this.client || !this.connected) return;
+  getTargets(): BrowserTarget[] {
+    return [...this.targets.values()].map(({ sessionId, ...target }) => target);
+  }
 
-      try {
-        const { Runtime } = this.client;
-        const result = await Runtime.evaluate({
-          expression: `
-            (() => {
-              if (window.__daisy_interactions && window.__daisy_interactions.length > 0) {
-                const interactions = [...window.__daisy_interactions];
-                window.__daisy_interactions = []; // Clear the array
-                return interactions;
-              }
-              return [];
-            })()
-          `,
-          returnByValue: true
-        });
+  async takeScreenshot(errorContext: string = '', targetId?: string, timeout?: number): Promise<string | null> {
+    if (!this.connected || !this.client) {
+      return null;
+    }
 
-        if (result.result && result.result.value && Array.isArray(result.result.value)) {
-          const interactions = result.result.value;
-          for (const interaction of interactions) {
-            // Log the interaction
-            this.logger.logInteraction(interaction.type, interaction, interaction.message);
-          }
-        }
-      } catch (error) {
-        // Silently ignore polling errors to avoid spam
+    try {
+      const { client } = this.forTarget(targetId);
+
+      // An unchanged page or a repeat within the rate limit returns an earlier file
+      const capture = this.screenshots.capture(client, errorContext, targetId || this.mainTargetId || '');
+      const screenshot = timeout === undefined ? await capture : await withTimeout(capture, timeout, 'Screenshot timed out');
+
+      if (!screenshot.reused) {
+        console.log(`📸 Screenshot saved: ${screenshot.path}`);
       }
+      return screenshot.path;
+    } catch (error) {
+      console.error('❌ Failed to capture screenshot:', error);
+      return null;
+    }
+  }
 
-      // Continue polling every 500ms
-      setTimeout(pollInteractions, 500);
-    };
+  async navigateToUrl(url: string): Promise<void> {
+    if (!this.client || !this.connected) {
+      throw new Error('DevTools not connected');
+    }
+
+    try {
+      const { Page } = this.client;
+      console.log(`🌐 Navigating to ${url}`);
+      await Page.navigate({ url });
+      this.logger.logPageEvent('navigation', { url }, url);
 
-    // Start polling after a brief delay
-    setTimeout(pollInteractions, 1000);
+      // Take a screenshot after navigation
+      setTimeout(() => {
+        this.takeScreenshot('navigation');
+      }, 1000);
+    } catch (error) {
+      console.error(`❌ Failed to navigate to ${url}:`, error);
+      throw error;
+    }
   }
 
   async disconnect(): Promise<void> {
+    this.closing = true;
+    this.state = 'disconnected';
     if (this.client && this.connected) {
+      await this.screencast?.stop();
       await this.client.close();
       this.connected = false;
+      this.targets.clear();
+      this.sessions.clear();
+      this.contextFrames.clear();
     }
   }
 
@@ -636,6 +915,20 @@ export class DevToolsMonitor {
     return this.connected;
   }
 
+  /**
+   * Start the rolling screen recording (--record-video); a failure only costs the clips
+   */
+  private async startScreencast(): Promise<void> {
+    if (!this.screencast) {
+      return;
+    }
+    try {
+      await this.screencast.start(this.client);
+    } catch (error) {
+      console.error('❌ Failed to start screen recording:', error);
+    }
+  }
+
   /**
    * Schedule a screenshot when network becomes idle (like dev3000)
    */
@@ -665,15 +958,101 @@ export class DevToolsMonitor {
   }
 
   /**
-   * Update network request in buffer with response data
+   * Copy CDP Network.Response fields onto a tracked request
    */
-  private updateNetworkBufferResponse(requestId: string, responseData: Partial<NetworkRequest>): void {
-    const requestIndex = this.networkRequestBuffer.findIndex(req => req.requestId === requestId);
-    if (requestIndex !== -1) {
-      Object.assign(this.networkRequestBuffer[requestIndex], responseData);
+  private applyResponse(request: NetworkRequest, response: any): void {
+    request.status = response.status;
+    request.statusText = response.statusText;
+    request.responseHeaders = this.logger.getRedactor().redact(response.headers, 'data.headers', request.redactions || []);
+    request.protocol = response.protocol;
+    request.mimeType = response.mimeType;
+    request.remoteIPAddress = response.remoteIPAddress;
+    request.timing = response.timing;
+
+    // Memory cache hits are reported separately through requestServedFromCache
+    if (response.fromDiskCache) {
+      request.cache = 'disk';
+    } else if (response.fromServiceWorker) {
+      request.cache = 'service-worker';
+    } else if (response.fromPrefetchCache) {
+      request.cache = 'prefetch';
     }
   }
 
+  /**
+   * Fetch a finished request's body, parsing JSON responses
+   */
+  private async getResponseBody(request: NetworkRequest, sessionId?: string, maxRetries = 3): Promise<any> {
+    for (let i = 0; i < maxRetries; i++) {
+      try {
+        // Add small delay for retries to let response body become available
+        if (i > 0) {
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+
+        const result = await this.client.Network.getResponseBody({ requestId: request.requestId }, sessionId);
+        request.responseBodyBase64 = !!result.base64Encoded;
+
+        if (request.mimeType === 'application/json' && result.body) {
+          try {
+            return JSON.parse(result.body);
+          } catch (e) {
+            // Keep as string if not valid JSON
+          }
+        }
+        return result.body;
+      } catch (e) {
+        // Continue to next retry
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Record timing and size of a finished request (or redirect hop) and log it
+   */
+  private completeNetworkRequest(request: NetworkRequest, finishedTimestamp: number, encodedDataLength?: number): void {
+    request.finishedTimestamp = finishedTimestamp;
+    if (encodedDataLength !== undefined) {
+      request.encodedDataLength = encodedDataLength;
+    }
+    if (request.timing) {
+      request.timings = networkTimingFromCdp(request.timing, finishedTimestamp);
+    }
+    if (request.startTimestamp !== undefined) {
+      request.duration = roundMs((finishedTimestamp - request.startTimestamp) * 1000);
+    }
+
+    // Skip logging for certain content types
+    const contentType = request.responseHeaders?.['content-type'] || '';
+    const skipContentTypes = ['text/x-script'];
+    if (skipContentTypes.some(type => contentType.includes(type))) {
+      return;
+    }
+
+    const target = request.targetId ? this.targets.get(request.targetId) : undefined;
+    this.logger.forTarget({ targetId: request.targetId, targetType: target?.type, frameId: request.frameId }).logNetwork(
+      request.method,
+      request.url,
+      request.status || 0,
+      request.responseHeaders,
+      request.postData,
+      request.responseBody,
+      {
+        duration: request.duration,
+        responseSize: request.decodedDataLength,
+        encodedSize: request.encodedDataLength,
+        timing: request.timings,
+        cache: request.cache,
+        initiator: request.initiator,
+        priority: request.priority,
+        protocol: request.protocol,
+        resourceType: request.resourceType,
+        redactions: request.redactions
+      }
+    );
+  }
+
   /**
    * Get recent network requests from buffer
    */
@@ -682,107 +1061,138 @@ export class DevToolsMonitor {
   }
 
   /**
-   * Fast navigation without waiting for page load
+   * Export buffered network requests as a HAR 1.2 document
+   */
+  getNetworkHar(limit: number = this.maxNetworkRequests): HarDocument {
+    const records = this.getNetworkRequests(limit).map((request): HarRequestRecord => ({
+      method: request.method,
+      url: request.url,
+      startedDateTime: new Date(request.wallTime ? request.wallTime * 1000 : request.timestamp).toISOString(),
+      requestHeaders: request.headers,
+      postData: request.postData,
+      status: request.loadingFailed ? 0 : request.status,
+      statusText: request.statusText,
+      httpVersion: request.protocol,
+      responseHeaders: request.responseHeaders,
+      mimeType: request.mimeType,
+      responseBody: request.responseBody,
+      responseBodyBase64: request.responseBodyBase64,
+      encodedDataLength: request.encodedDataLength,
+      remoteIPAddress: request.remoteIPAddress,
+      timings: request.timing ? harTimingsFromCdp(request.timing, request.finishedTimestamp) : undefined,
+      errorText: request.errorText
+    }));
+
+    return createHarDocument(records, { comment: `Exported from daisy network buffer on port ${this.port}` });
+  }
+
+  /**
+   * Fast navigation without waiting for page load; loading is stopped if Chrome has not
+   * started the navigation within the timeout
    */
-  async navigateFast(url: string): Promise<any> {
+  async navigateFast(url: string, targetId?: string, timeout: number = 10000): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Page } = this.client;
+      const { Page } = client;
       console.log(`🚀 Fast navigating to ${url}`);
 
-      await Page.navigate({ url });
-      this.logger.logPageEvent('navigation', { url, fast: true }, url);
-
-      // Set up interaction tracking immediately
-      setTimeout(() => this.setupInteractionTracking(), 100);
+      await withTimeout(Page.navigate({ url }), timeout, 'Navigation timed out', () => Page.stopLoading().catch(() => {}));
+      logger.logPageEvent('navigation', { url, fast: true }, url);
 
       return { success: true, url, fast: true };
     } catch (error) {
       console.error(`❌ Failed to fast navigate to ${url}:`, error);
-      this.logger.logError(error as Error, 'navigation_error');
+      logger.logError(error as Error, 'navigation_error');
       throw error;
     }
   }
 
   /**
    * Enhanced navigation with timeout and wait options
-   * Optimized for faster navigation by using domContentLoaded instead of full load
+   * Optimized for faster navigation by using domContentLoaded instead of full load;
+   * a navigation that runs over its timeout is stopped
    */
-  async navigateTo(url: string, waitForLoad: boolean = true, timeout: number = 10000): Promise<any> {
+  async navigateTo(url: string, waitForLoad: boolean = true, timeout: number = 10000, targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger, sessionId } = this.forTarget(targetId);
+
     try {
-      const { Page } = this.client;
+      const { Page } = client;
       console.log(`🌐 Navigating to ${url}`);
 
       // Navigate with timeout
       const navigationPromise = Page.navigate({ url });
+      const stopLoading = () => Page.stopLoading().catch(() => {});
 
       if (waitForLoad) {
         // Wait for DOM content loaded instead of full load for faster navigation
-        const domReadyPromise = new Promise((resolve, reject) => {
-          const timeoutId = setTimeout(() => {
-            reject(new Error(`Navigation timeout after ${timeout}ms`));
-          }, timeout);
-
-          const domContentLoadedHandler = () => {
-            clearTimeout(timeoutId);
-            Page.removeListener('domContentEventFired', domContentLoadedHandler);
-            resolve(undefined);
+        let domContentLoadedHandler: ((params: any, eventSessionId?: string) => void) | undefined;
+        const domReadyPromise = new Promise(resolve => {
+          // Events of every attached session arrive here; only the navigated target's count
+          domContentLoadedHandler = (_params: any, eventSessionId?: string) => {
+            if (eventSessionId === sessionId) {
+              resolve(undefined);
+            }
           };
-
-          Page.on('domContentEventFired', domContentLoadedHandler);
+          this.client.on('Page.domContentEventFired', domContentLoadedHandler);
         });
 
-        await Promise.all([navigationPromise, domReadyPromise]);
+        try {
+          await withTimeout(Promise.all([navigationPromise, domReadyPromise]), timeout, 'Navigation timed out', stopLoading);
+        } finally {
+          this.client.removeListener('Page.domContentEventFired', domContentLoadedHandler);
+        }
       } else {
-        await navigationPromise;
+        await withTimeout(navigationPromise, timeout, 'Navigation timed out', stopLoading);
       }
 
-      this.logger.logPageEvent('navigation', { url, waitForLoad, timeout }, url);
-
-      // Set up interaction tracking immediately (no delay)
-      this.setupInteractionTracking();
+      logger.logPageEvent('navigation', { url, waitForLoad, timeout }, url);
 
       // Take screenshot after a short delay to ensure page is rendered
       setTimeout(() => {
-        this.takeScreenshot('navigation');
+        this.takeScreenshot('navigation', targetId);
       }, 300);
 
       return { success: true, url };
     } catch (error) {
       console.error(`❌ Failed to navigate to ${url}:`, error);
-      this.logger.logError(error as Error, 'navigation_error');
+      logger.logError(error as Error, 'navigation_error');
       throw error;
     }
   }
 
   /**
-   * Click on an element by CSS selector
+   * Click on an element by selector, or by the first of several fallback selectors that resolves
    */
-  async clickElement(selector: string, timeout: number = 5000): Promise<any> {
+  async clickElement(selector: string | string[], timeout: number = 5000, targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Runtime, DOM } = this.client;
+      const { Runtime, DOM } = client;
 
       // Wait for element to be available
-      await this.waitForElement(selector, timeout);
+      await this.waitForElement(selector, timeout, true, targetId);
 
       // Get element coordinates and click
       const clickScript = `
         (() => {
-          const element = document.querySelector('${selector.replace(/'/g, "\\'")}}');
-          if (!element) {
-            throw new Error('Element not found: ${selector}');
+          const match = ${resolveSelectorExpression(selector)};
+          if (!match) {
+            throw new Error('Element not found: ' + ${JSON.stringify(describeSelector(selector))});
           }
+          const element = match.element;
           
           const rect = element.getBoundingClientRect();
           const centerX = rect.left + rect.width / 2;
@@ -803,7 +1213,7 @@ export class DevToolsMonitor {
           
           return {
             success: true,
-            selector: '${selector}',
+            selector: match.selector,
             coordinates: { x: centerX, y: centerY },
             elementTag: element.tagName,
             elementText: element.textContent?.trim().substring(0, 50) || ''
@@ -822,38 +1232,42 @@ export class DevToolsMonitor {
       }
 
       // Take screenshot after click
-      await this.takeScreenshot('click-action');
+      await this.takeScreenshot('click-action', targetId);
 
-      this.logger.logInteraction('CLICK', { selector, result: result.result.value }, `Clicked element: ${selector}`);
+      const clicked = result.result.value;
+      logger.logInteraction('CLICK', { selector: clicked.selector, selectors: toSelectorList(selector), result: clicked }, `Clicked element: ${clicked.selector}`);
 
-      return result.result.value;
+      return clicked;
     } catch (error) {
-      console.error(`❌ Failed to click element ${selector}:`, error);
-      this.logger.logError(error as Error, 'click_error');
+      console.error(`❌ Failed to click element ${describeSelector(selector)}:`, error);
+      logger.logError(error as Error, 'click_error');
       throw error;
     }
   }
 
   /**
-   * Type text into an element
+   * Type text into an element (a selector or fallback selectors, as for clickElement)
    */
-  async typeText(selector: string, text: string, timeout: number = 5000, clear: boolean = false): Promise<any> {
+  async typeText(selector: string | string[], text: string, timeout: number = 5000, clear: boolean = false, targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Runtime } = this.client;
+      const { Runtime } = client;
 
       // Wait for element to be available
-      await this.waitForElement(selector, timeout);
+      await this.waitForElement(selector, timeout, true, targetId);
 
       const typeScript = `
         (() => {
-          const element = document.querySelector('${selector.replace(/'/g, "\\'")}}');
-          if (!element) {
-            throw new Error('Element not found: ${selector}');
+          const match = ${resolveSelectorExpression(selector)};
+          if (!match) {
+            throw new Error('Element not found: ' + ${JSON.stringify(describeSelector(selector))});
           }
+          const element = match.element;
           
           // Focus the element
           element.focus();
@@ -868,7 +1282,8 @@ export class DevToolsMonitor {
           }
           
           // Type the text
-          const textToType = '${text.replace(/'/g, "\\'")}';
+          const textToType = ${JSON.stringify(text)};
+          const sensitive = (${SENSITIVE_ELEMENT_SCRIPT})(element);
           
           if (element.value !== undefined) {
             // Input/textarea elements
@@ -883,10 +1298,11 @@ export class DevToolsMonitor {
           
           return {
             success: true,
-            selector: '${selector}',
-            text: textToType,
+            selector: match.selector,
+            text: sensitive ? '${REDACTED}' : textToType,
             elementTag: element.tagName,
-            finalValue: element.value || element.textContent
+            finalValue: sensitive ? '${REDACTED}' : element.value || element.textContent,
+            sensitive
           };
         })()
       `;
@@ -901,12 +1317,128 @@ export class DevToolsMonitor {
         throw new Error(`Type failed: ${result.exceptionDetails.text}`);
       }
 
-      this.logger.logInteraction('TYPE', { selector, text, clear, result: result.result.value }, `Typed text in: ${selector}`);
+      const typed = result.result.value;
+      logger.logInteraction(
+        'TYPE',
+        { selector: typed.selector, selectors: toSelectorList(selector), text: typed.text, clear, sensitive: typed.sensitive, result: typed },
+        `Typed text in: ${typed.selector}`
+      );
 
-      return result.result.value;
+      return typed;
+    } catch (error) {
+      console.error(`❌ Failed to type in element ${describeSelector(selector)}:`, error);
+      logger.logError(error as Error, 'type_error');
+      throw error;
+    }
+  }
+
+  /**
+   * Press a key in the focused element (Enter, Tab, Escape, Backspace, arrows or a single
+   * character), optionally with modifiers as in Control+a or Shift+Tab
+   */
+  async pressKey(key: string, targetId?: string, timeout: number = 5000): Promise<any> {
+    if (!this.client || !this.connected) {
+      throw new Error('DevTools not connected');
+    }
+
+    const { client, logger } = this.forTarget(targetId);
+
+    try {
+      const { Input } = client;
+
+      const combo = splitKeyCombo(key);
+      const special = SPECIAL_KEYS[combo.key];
+      const unknownModifier = combo.modifiers.find(modifier => MODIFIER_FLAGS[modifier] === undefined);
+      if ((!special && combo.key.length !== 1) || unknownModifier) {
+        throw new Error(`Unsupported key: ${key}`);
+      }
+
+      const modifiers = combo.modifiers.reduce((flags, modifier) => flags | MODIFIER_FLAGS[modifier], 0);
+      // A shortcut acts on the page; only Shift still produces a character
+      const shortcut = combo.modifiers.some(modifier => modifier !== 'Shift');
+      const text = shortcut ? undefined : special ? special.text : combo.key;
+      const keyCode = special ? special.keyCode : combo.key.toUpperCase().charCodeAt(0);
+      const event = {
+        key: combo.key,
+        code: special ? combo.key : undefined,
+        modifiers,
+        windowsVirtualKeyCode: keyCode,
+        nativeVirtualKeyCode: keyCode,
+        text
+      };
+
+      // A key handler that blocks the page holds up the dispatch until it returns
+      await withTimeout(
+        (async () => {
+          await Input.dispatchKeyEvent({ type: text ? 'keyDown' : 'rawKeyDown', ...event });
+          await Input.dispatchKeyEvent({ type: 'keyUp', ...event, text: undefined });
+        })(),
+        timeout,
+        `Pressing ${key} timed out`
+      );
+
+      logger.logInteraction('KEY', { key }, `Pressed key: ${key}`);
+
+      return { success: true, key };
+    } catch (error) {
+      console.error(`❌ Failed to press key ${key}:`, error);
+      logger.logError(error as Error, 'key_error');
+      throw error;
+    }
+  }
+
+  /**
+   * Move the mouse over an element (a selector or fallback selectors, as for clickElement),
+   * so :hover styles and mouseover handlers open its menu or tooltip
+   */
+  async hoverElement(selector: string | string[], timeout: number = 5000, targetId?: string): Promise<any> {
+    if (!this.client || !this.connected) {
+      throw new Error('DevTools not connected');
+    }
+
+    const { client, logger } = this.forTarget(targetId);
+
+    try {
+      const { Runtime, Input } = client;
+
+      await this.waitForElement(selector, timeout, true, targetId);
+
+      // Position after scrolling, since a real pointer event lands on whatever is at the coordinates
+      const result = await Runtime.evaluate({
+        expression: `
+          (() => {
+            const match = ${resolveSelectorExpression(selector)};
+            if (!match) {
+              throw new Error('Element not found: ' + ${JSON.stringify(describeSelector(selector))});
+            }
+            const element = match.element;
+            element.scrollIntoView({ block: 'center', inline: 'center' });
+            const rect = element.getBoundingClientRect();
+            return {
+              success: true,
+              selector: match.selector,
+              coordinates: { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 },
+              elementTag: element.tagName
+            };
+          })()
+        `,
+        returnByValue: true,
+        timeout: timeout
+      });
+
+      if (result.exceptionDetails) {
+        throw new Error(`Hover failed: ${result.exceptionDetails.text}`);
+      }
+
+      const hovered = result.result.value;
+      await Input.dispatchMouseEvent({ type: 'mouseMoved', x: hovered.coordinates.x, y: hovered.coordinates.y });
+
+      logger.logInteraction('HOVER', { selector: hovered.selector, selectors: toSelectorList(selector), result: hovered }, `Hovered element: ${hovered.selector}`);
+
+      return hovered;
     } catch (error) {
-      console.error(`❌ Failed to type in element ${selector}:`, error);
-      this.logger.logError(error as Error, 'type_error');
+      console.error(`❌ Failed to hover element ${describeSelector(selector)}:`, error);
+      logger.logError(error as Error, 'hover_error');
       throw error;
     }
   }
@@ -914,13 +1446,15 @@ export class DevToolsMonitor {
   /**
    * Scroll to element or coordinates
    */
-  async scrollTo(options: ScrollOptions): Promise<any> {
+  async scrollTo(options: ScrollOptions, targetId?: string, timeout: number = 5000): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Runtime } = this.client;
+      const { Runtime } = client;
 
       let scrollScript: string;
 
@@ -928,10 +1462,11 @@ export class DevToolsMonitor {
         // Scroll to element
         scrollScript = `
           (() => {
-            const element = document.querySelector('${options.selector?.replace(/'/g, "\\'")}}');
-            if (!element) {
-              throw new Error('Element not found: ${options.selector}');
+            const match = ${resolveSelectorExpression(options.selector!)};
+            if (!match) {
+              throw new Error('Element not found: ' + ${JSON.stringify(describeSelector(options.selector!))});
             }
+            const element = match.element;
             
             element.scrollIntoView({ 
               behavior: '${options.behavior || 'smooth'}',
@@ -942,7 +1477,7 @@ export class DevToolsMonitor {
             const rect = element.getBoundingClientRect();
             return {
               success: true,
-              selector: '${options.selector}',
+              selector: match.selector,
               elementPosition: { x: rect.left, y: rect.top },
               scrollBehavior: '${options.behavior || 'smooth'}'
             };
@@ -973,19 +1508,20 @@ export class DevToolsMonitor {
 
       const result = await Runtime.evaluate({
         expression: scrollScript,
-        returnByValue: true
+        returnByValue: true,
+        timeout: timeout
       });
 
       if (result.exceptionDetails) {
         throw new Error(`Scroll failed: ${result.exceptionDetails.text}`);
       }
 
-      this.logger.logInteraction('SCROLL', options, `Scrolled: ${JSON.stringify(options)}`);
+      logger.logInteraction('SCROLL', options, `Scrolled: ${JSON.stringify(options)}`);
 
       return result.result.value;
     } catch (error) {
       console.error(`❌ Failed to scroll:`, error);
-      this.logger.logError(error as Error, 'scroll_error');
+      logger.logError(error as Error, 'scroll_error');
       throw error;
     }
   }
@@ -993,24 +1529,27 @@ export class DevToolsMonitor {
   /**
    * Inspect DOM element properties
    */
-  async inspectDOM(selector: string, properties: string[] = ['textContent', 'innerHTML', 'outerHTML', 'className', 'id']): Promise<any> {
+  async inspectDOM(selector: string, properties: string[] = ['textContent', 'innerHTML', 'outerHTML', 'className', 'id'], targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Runtime } = this.client;
+      const { Runtime } = client;
 
       const inspectScript = `
         (() => {
-          const element = document.querySelector('${selector.replace(/'/g, "\\'")}}');
-          if (!element) {
-            throw new Error('Element not found: ${selector}');
+          const match = ${resolveSelectorExpression(selector)};
+          if (!match) {
+            throw new Error('Element not found: ' + ${JSON.stringify(describeSelector(selector))});
           }
+          const element = match.element;
           
           const properties = ${JSON.stringify(properties)};
           const result = {
-            selector: '${selector}',
+            selector: match.selector,
             tagName: element.tagName,
             properties: {},
             attributes: {},
@@ -1045,12 +1584,12 @@ export class DevToolsMonitor {
         throw new Error(`DOM inspection failed: ${result.exceptionDetails.text}`);
       }
 
-      this.logger.logConsole('info', `Inspected DOM element: ${selector}`, undefined, undefined, 'DOM_INSPECT');
+      logger.logConsole('info', `Inspected DOM element: ${selector}`, undefined, undefined, 'DOM_INSPECT');
 
       return result.result.value;
     } catch (error) {
       console.error(`❌ Failed to inspect DOM element ${selector}:`, error);
-      this.logger.logError(error as Error, 'dom_inspect_error');
+      logger.logError(error as Error, 'dom_inspect_error');
       throw error;
     }
   }
@@ -1058,25 +1597,28 @@ export class DevToolsMonitor {
   /**
    * Get computed styles for an element
    */
-  async getComputedStyles(selector: string, properties: string[] = ['color', 'background-color', 'font-size', 'display', 'position']): Promise<any> {
+  async getComputedStyles(selector: string, properties: string[] = ['color', 'background-color', 'font-size', 'display', 'position'], targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Runtime, DOM, CSS } = this.client;
+      const { Runtime, DOM, CSS } = client;
 
       const stylesScript = `
         (() => {
-          const element = document.querySelector('${selector.replace(/'/g, "\\'")}}');
-          if (!element) {
-            throw new Error('Element not found: ${selector}');
+          const match = ${resolveSelectorExpression(selector)};
+          if (!match) {
+            throw new Error('Element not found: ' + ${JSON.stringify(describeSelector(selector))});
           }
+          const element = match.element;
           
           const computedStyles = window.getComputedStyle(element);
           const properties = ${JSON.stringify(properties)};
           const result = {
-            selector: '${selector}',
+            selector: match.selector,
             styles: {}
           };
           
@@ -1097,12 +1639,12 @@ export class DevToolsMonitor {
         throw new Error(`Computed styles failed: ${result.exceptionDetails.text}`);
       }
 
-      this.logger.logConsole('info', `Got computed styles for: ${selector}`, undefined, undefined, 'COMPUTED_STYLES');
+      logger.logConsole('info', `Got computed styles for: ${selector}`, undefined, undefined, 'COMPUTED_STYLES');
 
       return result.result.value;
     } catch (error) {
       console.error(`❌ Failed to get computed styles for ${selector}:`, error);
-      this.logger.logError(error as Error, 'computed_styles_error');
+      logger.logError(error as Error, 'computed_styles_error');
       throw error;
     }
   }
@@ -1110,13 +1652,15 @@ export class DevToolsMonitor {
   /**
    * Execute JavaScript code in browser context
    */
-  async evaluateJavaScript(code: string, returnByValue: boolean = true, timeout: number = 10000): Promise<any> {
+  async evaluateJavaScript(code: string, returnByValue: boolean = true, timeout: number = 10000, targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Runtime } = this.client;
+      const { Runtime } = client;
 
       const result = await Runtime.evaluate({
         expression: code,
@@ -1128,12 +1672,12 @@ export class DevToolsMonitor {
         throw new Error(`JavaScript execution failed: ${result.exceptionDetails.text}`);
       }
 
-      this.logger.logConsole('info', `Executed JavaScript code: ${code.substring(0, 100)}...`, undefined, undefined, 'JS_EVALUATE');
+      logger.logConsole('info', `Executed JavaScript code: ${code.substring(0, 100)}...`, undefined, undefined, 'JS_EVALUATE');
 
       return result.result;
     } catch (error) {
       console.error(`❌ Failed to execute JavaScript:`, error);
-      this.logger.logError(error as Error, 'js_evaluate_error');
+      logger.logError(error as Error, 'js_evaluate_error');
       throw error;
     }
   }
@@ -1141,24 +1685,28 @@ export class DevToolsMonitor {
   /**
    * Wait for element to appear in DOM
    */
-  async waitForElement(selector: string, timeout: number = 10000, visible: boolean = true): Promise<any> {
+  async waitForElement(selector: string | string[], timeout: number = 10000, visible: boolean = true, targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Runtime } = this.client;
+      const { Runtime } = client;
       const startTime = Date.now();
 
       while (Date.now() - startTime < timeout) {
         const checkScript = `
           (() => {
-            const element = document.querySelector('${selector.replace(/'/g, "\\'")}}');
-            if (!element) return { found: false };
+            const match = ${resolveSelectorExpression(selector)};
+            if (!match) return { found: false };
+            const element = match.element;
             
             const isVisible = ${visible} ? element.offsetParent !== null : true;
             return {
               found: true,
+              selector: match.selector,
               visible: isVisible,
               ready: ${visible} ? isVisible : true
             };
@@ -1171,7 +1719,7 @@ export class DevToolsMonitor {
         });
 
         if (result.result?.value?.ready) {
-          this.logger.logConsole('info', `Element found: ${selector}`, undefined, undefined, 'WAIT_FOR_ELEMENT');
+          logger.logConsole('info', `Element found: ${result.result.value.selector}`, undefined, undefined, 'WAIT_FOR_ELEMENT');
           return result.result.value;
         }
 
@@ -1179,26 +1727,33 @@ export class DevToolsMonitor {
         await new Promise(resolve => setTimeout(resolve, 100));
       }
 
-      throw new Error(`Element not found within ${timeout}ms: ${selector}`);
+      throw new Error(`Element not found within ${timeout}ms: ${describeSelector(selector)}`);
     } catch (error) {
-      console.error(`❌ Failed to wait for element ${selector}:`, error);
-      this.logger.logError(error as Error, 'wait_for_element_error');
+      console.error(`❌ Failed to wait for element ${describeSelector(selector)}:`, error);
+      logger.logError(error as Error, 'wait_for_element_error');
       throw error;
     }
   }
 
   /**
-   * Wait for network to become idle
+   * Wait for network to become idle: of one target when `targetId` is given, otherwise of
+   * every attached target
    */
-  async waitForNetworkIdle(timeout: number = 10000, idleTime: number = 1000): Promise<any> {
+  async waitForNetworkIdle(timeout: number = 10000, idleTime: number = 1000, targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
     try {
+      let inFlight = () => this.networkRequestCount;
+      if (targetId) {
+        const prefix = requestKey(this.forTarget(targetId).sessionId, '');
+        inFlight = () => [...this.pendingRequests.keys()].filter(key => key.startsWith(prefix)).length;
+      }
+
       const startTime = Date.now();
       let lastNetworkActivity = Date.now();
-      let currentCount = this.networkRequestCount;
+      let currentCount = inFlight();
 
       return new Promise((resolve, reject) => {
         const checkIdle = () => {
@@ -1211,13 +1766,14 @@ export class DevToolsMonitor {
           }
 
           // Check if network activity changed
-          if (this.networkRequestCount !== currentCount) {
-            currentCount = this.networkRequestCount;
+          const count = inFlight();
+          if (count !== currentCount) {
+            currentCount = count;
             lastNetworkActivity = now;
           }
 
           // Check if network has been idle for required time
-          if (now - lastNetworkActivity >= idleTime && this.networkRequestCount === 0) {
+          if (now - lastNetworkActivity >= idleTime && count === 0) {
             this.logger.logConsole('info', `Network idle achieved after ${now - startTime}ms`, undefined, undefined, 'NETWORK_IDLE');
             resolve({
               success: true,
@@ -1243,26 +1799,29 @@ export class DevToolsMonitor {
   /**
    * Get element bounds/position
    */
-  async getElementBounds(selector: string): Promise<any> {
+  async getElementBounds(selector: string, targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Runtime } = this.client;
+      const { Runtime } = client;
 
       const boundsScript = `
         (() => {
-          const element = document.querySelector('${selector.replace(/'/g, "\\'")}}');
-          if (!element) {
-            throw new Error('Element not found: ${selector}');
+          const match = ${resolveSelectorExpression(selector)};
+          if (!match) {
+            throw new Error('Element not found: ' + ${JSON.stringify(describeSelector(selector))});
           }
+          const element = match.element;
           
           const rect = element.getBoundingClientRect();
           const computedStyle = window.getComputedStyle(element);
           
           return {
-            selector: '${selector}',
+            selector: match.selector,
             bounds: {
               x: rect.x,
               y: rect.y,
@@ -1296,21 +1855,202 @@ export class DevToolsMonitor {
       return result.result.value;
     } catch (error) {
       console.error(`❌ Failed to get element bounds for ${selector}:`, error);
-      this.logger.logError(error as Error, 'get_element_bounds_error');
+      logger.logError(error as Error, 'get_element_bounds_error');
       throw error;
     }
   }
 
+  /**
+   * Rendered text of an element with whitespace collapsed, or null when nothing matches.
+   * Neither reads nor failures are logged (a failure is only thrown), so assertions can
+   * poll it while the page navigates without filling the log with errors.
+   */
+  async getElementText(selector: string | string[], targetId?: string): Promise<string | null> {
+    if (!this.client || !this.connected) {
+      throw new Error('DevTools not connected');
+    }
+
+    const { Runtime } = this.forTarget(targetId).client;
+
+    const result = await Runtime.evaluate({
+      expression: `
+        (() => {
+          const match = ${resolveSelectorExpression(selector)};
+          if (!match) return null;
+          const text = match.element.innerText ?? match.element.textContent ?? '';
+          return text.replace(/\\s+/g, ' ').trim();
+        })()
+      `,
+      returnByValue: true
+    });
+
+    if (result.exceptionDetails) {
+      throw new Error(`Get element text failed: ${result.exceptionDetails.text}`);
+    }
+
+    return result.result.value;
+  }
+
+  /**
+   * URL of the page; not logged either, for assertions to poll
+   */
+  async getPageUrl(targetId?: string): Promise<string> {
+    if (!this.client || !this.connected) {
+      throw new Error('DevTools not connected');
+    }
+
+    const { Runtime } = this.forTarget(targetId).client;
+
+    const result = await Runtime.evaluate({ expression: 'window.location.href', returnByValue: true });
+
+    if (result.exceptionDetails) {
+      throw new Error(`Get page URL failed: ${result.exceptionDetails.text}`);
+    }
+
+    return result.result.value;
+  }
+
+  /**
+   * Emulation in effect
+   */
+  getEmulation(): EmulationSettings {
+    return { ...this.emulation };
+  }
+
+  /**
+   * Change emulation in the main tab and other open tabs; fields of `settings` that are
+   * left out keep their current value, unless `reset` turns everything off first. If a tab
+   * rejects the settings, the tabs already changed are put back to the previous ones.
+   */
+  async emulate(settings: EmulationSettings, reset: boolean = false): Promise<EmulationSettings> {
+    if (!this.client || !this.connected) {
+      throw new Error('DevTools not connected');
+    }
+
+    const next: EmulationSettings = reset ? { ...settings } : { ...this.emulation, ...settings };
+    const pageSessions = [...this.targets.values()]
+      .filter(target => target.type === 'page' && target.sessionId)
+      .map(target => target.sessionId);
+    const touched: (string | undefined)[] = [];
+
+    try {
+      for (const sessionId of [undefined, ...pageSessions]) {
+        touched.push(sessionId);
+        await this.applyEmulation(next, sessionId);
+      }
+
+      this.emulation = next;
+      this.logger.logConsole('info', `Emulation: ${describeEmulation(next)}`, undefined, undefined, 'EMULATION');
+      return this.getEmulation();
+    } catch (error: any) {
+      const notRestored: string[] = [];
+      for (const sessionId of touched) {
+        await this.applyEmulation(this.emulation, sessionId).catch(() => {
+          notRestored.push(this.targetForSession(sessionId)?.targetId || sessionId || 'main tab');
+        });
+      }
+
+      const rollbackError = new Error(
+        `${error.message}; ` + (notRestored.length > 0
+          ? `could not restore the previous emulation in ${notRestored.join(', ')}`
+          : 'the previous emulation is still in effect')
+      );
+      console.error('❌ Failed to apply emulation:', rollbackError);
+      this.logger.logError(rollbackError, 'emulation_error');
+      throw rollbackError;
+    }
+  }
+
+  /**
+   * Put one tab (the main tab without a sessionId) in exactly the state `settings` describe;
+   * everything they leave out is switched off
+   */
+  private async applyEmulation(settings: EmulationSettings, sessionId?: string): Promise<void> {
+    const send = (method: string, params: any = {}) => this.client.send(method, params, sessionId);
+    const device = settings.device ? DEVICE_CATALOG[settings.device] : undefined;
+
+    // Viewport: 0 keeps the window's own width, height or pixel ratio
+    const width = settings.width ?? device?.width;
+    const height = settings.height ?? device?.height;
+    const deviceScaleFactor = settings.deviceScaleFactor ?? device?.deviceScaleFactor;
+    const mobile = settings.mobile ?? device?.mobile ?? false;
+    if (width || height || deviceScaleFactor || mobile) {
+      await send('Emulation.setDeviceMetricsOverride', {
+        width: width || 0,
+        height: height || 0,
+        deviceScaleFactor: deviceScaleFactor || 0,
+        mobile,
+        screenWidth: width,
+        screenHeight: height
+      });
+    } else {
+      await send('Emulation.clearDeviceMetricsOverride');
+    }
+
+    const touch = settings.touch ?? device?.touch ?? false;
+    await send('Emulation.setTouchEmulationEnabled', { enabled: touch, ...(touch ? { maxTouchPoints: 5 } : {}) });
+    await send('Emulation.setEmitTouchEventsForMouse', { enabled: touch, configuration: 'mobile' });
+
+    // Accept-Language comes with the user agent override, so a locale alone keeps the browser's user agent
+    const userAgent = settings.userAgent ?? device?.userAgent;
+    if (userAgent || settings.locale) {
+      await send('Emulation.setUserAgentOverride', {
+        userAgent: userAgent || (await this.client.Browser.getVersion()).userAgent,
+        ...(settings.locale ? { acceptLanguage: settings.locale } : {})
+      });
+    } else {
+      await send('Emulation.setUserAgentOverride', { userAgent: '' });
+    }
+
+    // Chrome refuses to replace a locale or time zone override that is in effect, so clear them first
+    await send('Emulation.setLocaleOverride');
+    if (settings.locale) {
+      await send('Emulation.setLocaleOverride', { locale: settings.locale });
+    }
+    await send('Emulation.setTimezoneOverride', { timezoneId: '' });
+    if (settings.timezone) {
+      await send('Emulation.setTimezoneOverride', { timezoneId: settings.timezone });
+    }
+
+    const network = NETWORK_PRESETS[settings.throttle || 'none'];
+    await send('Network.emulateNetworkConditions', {
+      offline: !!settings.offline,
+      latency: network.latencyMs,
+      // Bytes per second; -1 disables the limit
+      downloadThroughput: network.downloadKbps > 0 ? network.downloadKbps * 1000 / 8 : -1,
+      uploadThroughput: network.uploadKbps > 0 ? network.uploadKbps * 1000 / 8 : -1
+    });
+
+    await send('Emulation.setCPUThrottlingRate', { rate: settings.cpuThrottle ?? 1 });
+
+    if (settings.geolocation) {
+      // Without the permission the page's getCurrentPosition() fails before reading the override
+      await this.client.Browser.grantPermissions({ permissions: ['geolocation'] }).catch(() => undefined);
+      await send('Emulation.setGeolocationOverride', { accuracy: 100, ...settings.geolocation });
+    } else {
+      await send('Emulation.clearGeolocationOverride');
+    }
+
+    await send('Emulation.setEmulatedMedia', {
+      features: [
+        { name: 'prefers-color-scheme', value: settings.colorScheme || '' },
+        { name: 'prefers-reduced-motion', value: settings.reducedMotion ? 'reduce' : '' }
+      ]
+    });
+  }
+
   /**
    * Get current page information
    */
-  async getPageInfo(): Promise<any> {
+  async getPageInfo(targetId?: string): Promise<any> {
     if (!this.client || !this.connected) {
       throw new Error('DevTools not connected');
     }
 
+    const { client, logger } = this.forTarget(targetId);
+
     try {
-      const { Runtime, Page } = this.client;
+      const { Runtime, Page } = client;
 
       const pageInfoScript = `
         (() => {
@@ -1349,8 +2089,103 @@ export class DevToolsMonitor {
       return result.result.value;
     } catch (error) {
       console.error(`❌ Failed to get page info:`, error);
-      this.logger.logError(error as Error, 'get_page_info_error');
+      logger.logError(error as Error, 'get_page_info_error');
       throw error;
     }
   }
-}
\ No newline at end of file
+}
+
+// Non-printing keys Input.dispatchKeyEvent needs a key code for; Enter also produces text
+const SPECIAL_KEYS: Record<string, { keyCode: number; text?: string }> = {
+  Enter: { keyCode: 13, text: '\r' },
+  Tab: { keyCode: 9 },
+  Escape: { keyCode: 27 },
+  Backspace: { keyCode: 8 },
+  Delete: { keyCode: 46 },
+  ArrowLeft: { keyCode: 37 },
+  ArrowUp: { keyCode: 38 },
+  ArrowRight: { keyCode: 39 },
+  ArrowDown: { keyCode: 40 },
+  Home: { keyCode: 36 },
+  End: { keyCode: 35 },
+  PageUp: { keyCode: 33 },
+  PageDown: { keyCode: 34 }
+};
+
+// Input.dispatchKeyEvent modifier bit field
+const MODIFIER_FLAGS: Record<string, number> = {
+  Alt: 1,
+  Control: 2,
+  Meta: 4,
+  Shift: 8
+};
+
+/**
+ * Reject with `${message} after ${timeout}ms` unless the promise settles in time, calling
+ * `onTimeout` to stop the work that was given up on
+ */
+export function withTimeout<T>(promise: Promise<T>, timeout: number, message: string, onTimeout?: () => void): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout?.();
+      reject(new Error(`${message} after ${timeout}ms`));
+    }, timeout);
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+function isRestorableUrl(url: string): boolean {
+  return /^(https?|file):/.test(url);
+}
+
+// Request and execution context ids are only unique within one CDP session
+function requestKey(sessionId: string | undefined, requestId: string): string {
+  return `${sessionId || ''}:${requestId}`;
+}
+
+function contextKey(sessionId: string | undefined, executionContextId: number): string {
+  return `${sessionId || ''}:${executionContextId}`;
+}
+
+/**
+ * Render frames as a V8-style stack (1-based positions) for readers that parse stack text
+ */
+function formatStack(headline: string, frames: StackFrame[]): string {
+  const lines = frames.map(frame =>
+    `    at ${frame.functionName || '<anonymous>'} (${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1})`
+  );
+  return [headline, ...lines].join('\n');
+}
+
+/**
+ * Reduce a CDP Network.Initiator to what the logs need
+ */
+function toNetworkInitiator(initiator: any): NetworkInitiator | undefined {
+  if (!initiator) {
+    return undefined;
+  }
+
+  const frames = collectCallFrames(initiator.stack).map((frame: any) => ({
+    functionName: frame.functionName,
+    url: frame.url,
+    lineNumber: frame.lineNumber,
+    columnNumber: frame.columnNumber
+  }));
+
+  return {
+    type: initiator.type,
+    url: initiator.url || frames[0]?.url,
+    lineNumber: initiator.lineNumber ?? frames[0]?.lineNumber,
+    stack: frames.length > 0 ? frames : undefined
+  };
+}
+
+function collectCallFrames(stack: any): any[] {
+  // Async stacks (fetch inside a promise chain) keep the caller in `parent`
+  const frames: any[] = [];
+  for (let current = stack; current && frames.length < 10; current = current.parent) {
+    frames.push(...(current.callFrames || []));
+  }
+  return frames.slice(0, 10);
+}
@@ -0,0 +1,186 @@
+import {
+  LOG_ENTRY_LEVELS,
+  LOG_ENTRY_TYPES,
+  LogEntry,
+  LogEntryLevel,
+  LogEntryType,
+  getEventUrl
+} from 'daisy-shared';
+import { DaisyLogger } from './logger';
+
+export interface StreamedEvent {
+  id: number; // resume cursor: pass the last id received as `since` (or SSE Last-Event-ID)
+  entry: LogEntry;
+}
+
+export interface EventFilter {
+  types?: LogEntryType[];
+  levels?: LogEntryLevel[];
+  url?: RegExp; // tested against the request, page or logging page URL
+  targetId?: string; // target id or unique prefix
+}
+
+export interface EventSubscriber {
+  onEvent: (event: StreamedEvent) => void;
+  // Events newer than the cursor that were no longer buffered (counted before filtering)
+  onGap?: (missed: number) => void;
+}
+
+// Entries kept for clients resuming after a dropped connection
+const MAX_BUFFERED_EVENTS = 1000;
+
+/**
+ * Every log entry of the live session, numbered, for the Control API's /events and /ws.
+ *
+ * Subscribers receive entries as the logger writes them (already redacted). The last
+ * MAX_BUFFERED_EVENTS are kept, so a client that reconnects with the id of the last
+ * event it saw gets what it missed before the live ones.
+ */
+export class EventStream {
+  private buffer: StreamedEvent[] = [];
+  private nextId = 1;
+  private subscribers = new Map<EventSubscriber, EventFilter>();
+  private unsubscribe: () => void;
+
+  constructor(logger: DaisyLogger) {
+    this.unsubscribe = logger.onEntry(entry => this.publish(entry));
+  }
+
+  /**
+   * Deliver matching entries, starting after event `since` when given; returns a function that unsubscribes
+   */
+  subscribe(filter: EventFilter, subscriber: EventSubscriber, since?: number): () => void {
+    if (since !== undefined) {
+      const oldest = this.buffer.length > 0 ? this.buffer[0].id : this.nextId;
+      if (since + 1 < oldest) {
+        subscriber.onGap?.(oldest - since - 1);
+      }
+      for (const event of this.buffer) {
+        if (event.id > since && matchesFilter(event.entry, filter)) {
+          subscriber.onEvent(event);
+        }
+      }
+    }
+
+    this.subscribers.set(subscriber, filter);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Id of the newest event so far (0 before the first)
+   */
+  get lastId(): number {
+    return this.nextId - 1;
+  }
+
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  close(): void {
+    this.unsubscribe();
+    this.subscribers.clear();
+  }
+
+  private publish(entry: LogEntry): void {
+    const event = { id: this.nextId++, entry };
+    this.buffer.push(event);
+    if (this.buffer.length > MAX_BUFFERED_EVENTS) {
+      this.buffer.shift();
+    }
+
+    for (const [subscriber, filter] of this.subscribers) {
+      if (!matchesFilter(entry, filter)) {
+        continue;
+      }
+      try {
+        subscriber.onEvent(event);
+      } catch (error) {
+        console.error('❌ Event stream subscriber failed:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Filter from query parameters: type and level (comma-separated), url (regular expression), targetId
+ */
+export function parseEventFilter(query: Record<string, unknown>): EventFilter {
+  const filter: EventFilter = {};
+
+  const types = listParam(query.type);
+  if (types) {
+    const unknown = types.filter(type => !(LOG_ENTRY_TYPES as string[]).includes(type));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown event type: ${unknown.join(', ')}. Use ${LOG_ENTRY_TYPES.join(', ')}`);
+    }
+    filter.types = types as LogEntryType[];
+  }
+
+  const levels = listParam(query.level);
+  if (levels) {
+    const unknown = levels.filter(level => !(LOG_ENTRY_LEVELS as string[]).includes(level));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown level: ${unknown.join(', ')}. Use ${LOG_ENTRY_LEVELS.join(', ')}`);
+    }
+    filter.levels = levels as LogEntryLevel[];
+  }
+
+  if (typeof query.url === 'string' && query.url) {
+    try {
+      filter.url = new RegExp(query.url, 'i');
+    } catch (error: any) {
+      throw new Error(`Invalid url pattern: ${error.message}`);
+    }
+  }
+
+  if (typeof query.targetId === 'string' && query.targetId) {
+    filter.targetId = query.targetId;
+  }
+
+  return filter;
+}
+
+/**
+ * Resume cursor from a query parameter or Last-Event-ID header; undefined means live events only
+ */
+export function parseEventCursor(value: unknown): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const cursor = Number(value);
+  if (!Number.isInteger(cursor) || cursor < 0) {
+    throw new Error(`Invalid event cursor: ${value}. Pass the id of the last event received`);
+  }
+  return cursor;
+}
+
+export function matchesFilter(entry: LogEntry, filter: EventFilter): boolean {
+  if (filter.types && !filter.types.includes(entry.type)) {
+    return false;
+  }
+  if (filter.levels && !filter.levels.includes(entry.level)) {
+    return false;
+  }
+  if (filter.targetId && !entry.targetId?.startsWith(filter.targetId)) {
+    return false;
+  }
+  if (filter.url) {
+    const url = getEventUrl(entry);
+    if (!url || !filter.url.test(url)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function listParam(value: unknown): string[] | undefined {
+  const values = (Array.isArray(value) ? value : [value])
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
@@ -0,0 +1,153 @@
+import { DecodedImage } from './png-decoder';
+
+// GIF LZW codes are at most 12 bits
+const MAX_CODE = 4096;
+const MIN_CODE_SIZE = 8;
+
+/**
+ * Animated GIF encoder for screen recordings.
+ *
+ * Every frame uses one fixed 256-colour palette (3 bits of red, 3 of green, 2 of blue):
+ * there is no per-frame quantisation to pay for, and page text stays readable. Frames
+ * larger than the first are cropped to its size.
+ */
+export class GifEncoder {
+  private width: number;
+  private height: number;
+  private chunks: Buffer[] = [];
+  private frames = 0;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+
+    const screen = Buffer.alloc(13);
+    screen.write('GIF89a', 0, 'latin1');
+    screen.writeUInt16LE(width, 6);
+    screen.writeUInt16LE(height, 8);
+    screen[10] = 0xf7; // global colour table of 256 entries, 8 bits per primary
+    this.chunks.push(screen, globalPalette());
+
+    // NETSCAPE2.0 application extension: loop forever
+    this.chunks.push(Buffer.from([
+      0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0', 'latin1'), 0x03, 0x01, 0x00, 0x00, 0x00
+    ]));
+  }
+
+  /**
+   * Append a frame shown for `delayMs` (GIF delays have a 10ms resolution)
+   */
+  addFrame(image: DecodedImage, delayMs: number): void {
+    const width = Math.min(image.width, this.width);
+    const height = Math.min(image.height, this.height);
+
+    // Graphic control extension: keep the previous frame underneath, no transparency
+    const control = Buffer.from([0x21, 0xf9, 0x04, 0x04, 0, 0, 0x00, 0x00]);
+    control.writeUInt16LE(Math.max(2, Math.round(delayMs / 10)), 4);
+
+    const descriptor = Buffer.alloc(10);
+    descriptor[0] = 0x2c;
+    descriptor.writeUInt16LE(width, 5);
+    descriptor.writeUInt16LE(height, 7);
+
+    const indices = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * image.width + x) * 4;
+        indices[y * width + x] = (image.pixels[i] & 0xe0) | ((image.pixels[i + 1] & 0xe0) >> 3) | (image.pixels[i + 2] >> 6);
+      }
+    }
+
+    this.chunks.push(control, descriptor, Buffer.from([MIN_CODE_SIZE]), toSubBlocks(lzwEncode(indices)));
+    this.frames++;
+  }
+
+  get frameCount(): number {
+    return this.frames;
+  }
+
+  finish(): Buffer {
+    return Buffer.concat([...this.chunks, Buffer.from([0x3b])]);
+  }
+}
+
+// RRRGGGBB: the palette index of a colour is its top bits
+function globalPalette(): Buffer {
+  const palette = Buffer.alloc(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    palette[i * 3] = Math.round(((i >> 5) & 7) * 255 / 7);
+    palette[i * 3 + 1] = Math.round(((i >> 2) & 7) * 255 / 7);
+    palette[i * 3 + 2] = Math.round((i & 3) * 255 / 3);
+  }
+  return palette;
+}
+
+// Variable-width LZW as GIF uses it: codes packed least significant bit first
+function lzwEncode(indices: Uint8Array): Buffer {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  const table = new Map<number, number>();
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let buffer = 0;
+  let bufferBits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    return Buffer.from(bufferBits > 0 ? [...output, buffer & 0xff] : output);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table.clear();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) {
+    output.push(buffer & 0xff);
+  }
+  return Buffer.from(output);
+}
+
+// Image data is written in blocks of at most 255 bytes, ended by an empty block
+function toSubBlocks(data: Buffer): Buffer {
+  const blocks: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255);
+    blocks.push(Buffer.from([block.length]), block);
+  }
+  blocks.push(Buffer.from([0]));
+  return Buffer.concat(blocks);
+}
@@ -0,0 +1,423 @@
+import { SELECTOR_ENGINE_SCRIPT } from './selector-engine';
+
+// Runtime binding the in-page tracker calls with one JSON-encoded interaction per call
+export const INTERACTION_BINDING = '__daisyReportInteraction';
+
+// In-page test for password and payment fields, whose values never leave the page unmasked;
+// shared by the tracker and the Control API's type action
+export const SENSITIVE_ELEMENT_SCRIPT = `function(el) {
+  let autocomplete = (el.getAttribute && el.getAttribute('autocomplete')) || '';
+  return el.type === 'password' || /password|cc-/.test(autocomplete);
+}`;
+
+/**
+ * In-page user interaction tracker.
+ *
+ * Installed with Page.addScriptToEvaluateOnNewDocument, so it runs in every document and
+ * frame before page scripts. Clicks, typing, key presses, select and checkbox changes, form
+ * submits, focus, paste, drag and drop, hovers over menu triggers, scrolls, window resizes
+ * and client-side route changes are pushed to the monitor through the Runtime binding as
+ * they happen. Keystrokes in a field are coalesced into one TYPE event carrying the field's
+ * value, reported when typing pauses, the field loses focus or anything else happens;
+ * that and a scroll still settling are flushed on pagehide. Elements are recorded with
+ * every unique selector the selector engine finds, so replay can fall back when the
+ * preferred one stops resolving.
+ */
+export const INTERACTION_TRACKER_SCRIPT = `
+(() => {
+  try {
+    if (window.__daisy_interaction_tracking || typeof window.${INTERACTION_BINDING} !== 'function') {
+      return;
+    }
+    window.__daisy_interaction_tracking = true;
+
+    let report = window.${INTERACTION_BINDING};
+    let pendingTyping = null;
+
+    function send(interaction) {
+      // Typing in progress happened before whatever is being reported now
+      if (pendingTyping && interaction.type !== 'TYPE') {
+        flushTyping();
+      }
+      interaction.url = location.href;
+      try {
+        report(JSON.stringify(interaction));
+      } catch (err) {
+        // Binding unavailable (page is being torn down)
+      }
+    }
+
+    let selectorEngine = ${SELECTOR_ENGINE_SCRIPT};
+
+    // Typing repeats the same element on every key; reuse its selectors for a moment
+    let cachedElement = null;
+    let cachedSelectors = null;
+    let cachedAt = 0;
+
+    function getSelectors(el) {
+      let now = Date.now();
+      if (el !== cachedElement || now - cachedAt > 2000) {
+        cachedElement = el;
+        cachedSelectors = selectorEngine.generate(el);
+      }
+      cachedAt = now;
+      return cachedSelectors;
+    }
+
+    // Password and payment fields never leave the page unmasked
+    let isSensitiveElement = ${SENSITIVE_ELEMENT_SCRIPT};
+
+    // Helper to get element details for replay
+    function getElementDetails(el) {
+      let selectors = getSelectors(el);
+      return {
+        selector: selectors.selector,
+        selectors: selectors.selectors,
+        tag: el.tagName ? el.tagName.toLowerCase() : '',
+        text: el.textContent ? el.textContent.trim().substring(0, 50) : '',
+        id: el.id || '',
+        className: typeof el.className === 'string' ? el.className : '',
+        name: el.name || '',
+        type: el.type || '',
+        sensitive: isSensitiveElement(el)
+      };
+    }
+
+    // Events can target text nodes (dragging selected text)
+    function elementOf(node) {
+      return node && node.nodeType === 1 ? node : (node && node.parentElement) || document.documentElement;
+    }
+
+    // Inputs whose value is typed; checkboxes, radios, pickers and buttons report a change or click instead
+    const NON_TEXT_INPUTS = ['checkbox', 'radio', 'file', 'range', 'color', 'submit', 'button', 'reset', 'image'];
+
+    function isTextField(el) {
+      if (el.isContentEditable) return true;
+      let tag = el.tagName ? el.tagName.toLowerCase() : '';
+      return tag === 'textarea' || (tag === 'input' && NON_TEXT_INPUTS.indexOf((el.type || 'text').toLowerCase()) === -1);
+    }
+
+    function isFormField(el) {
+      let tag = el.tagName ? el.tagName.toLowerCase() : '';
+      return tag === 'input' || tag === 'select' || tag === 'textarea' || !!el.isContentEditable;
+    }
+
+    // Click tracking; synthetic clicks come from page code or the Control API, which logs its own
+    document.addEventListener('click', function(e) {
+      if (!e.isTrusted) return;
+      // Record the control that handles the click, not the icon or span inside it
+      let target = (e.target.closest && e.target.closest('a, button, input, select, textarea, label, summary, [role="button"], [role="link"]')) || e.target;
+      let details = getElementDetails(target);
+      send({
+        timestamp: Date.now(),
+        type: 'CLICK',
+        x: e.clientX,
+        y: e.clientY,
+        element: details,
+        message: 'CLICK at ' + e.clientX + ',' + e.clientY + ' on ' + details.selector
+      });
+    }, true);
+
+    // Typing: the field's value once the user pauses, leaves the field or does something else
+    function flushTyping() {
+      let typing = pendingTyping;
+      pendingTyping = null;
+      clearTimeout(typing.timer);
+      let el = typing.element;
+      let value = (el.isContentEditable ? el.textContent : el.value) || '';
+      let text = typing.details.sensitive ? '[REDACTED]' : value;
+      send({
+        timestamp: Date.now(),
+        type: 'TYPE',
+        text: text,
+        clear: true,
+        element: typing.details,
+        message: 'TYPE ' + (typing.details.sensitive ? text : JSON.stringify(text)) + ' in ' + typing.details.selector
+      });
+    }
+
+    document.addEventListener('input', function(e) {
+      if (!e.isTrusted || !isTextField(e.target)) return;
+      if (pendingTyping && pendingTyping.element !== e.target) {
+        flushTyping();
+      }
+      if (!pendingTyping) {
+        pendingTyping = { element: e.target, details: null, timer: null };
+      }
+      // Described now: the field may be re-rendered or removed before the value is reported
+      pendingTyping.details = getElementDetails(e.target);
+      clearTimeout(pendingTyping.timer);
+      pendingTyping.timer = setTimeout(flushTyping, 800);
+    }, true);
+
+    document.addEventListener('focusout', function(e) {
+      if (pendingTyping && pendingTyping.element === e.target) {
+        flushTyping();
+      }
+    }, true);
+
+    // Key tracking: keys that act on the page (Enter, Tab, Escape, arrows) and shortcuts;
+    // printable keys and caret movement in a field are covered by the typed value
+    const MODIFIERS = ['Control', 'Alt', 'Meta', 'Shift', 'CapsLock', 'AltGraph', 'Fn'];
+    const EDITING_KEYS = ['Backspace', 'Delete', 'ArrowLeft', 'ArrowRight', 'Home', 'End'];
+
+    document.addEventListener('keydown', function(e) {
+      if (!e.isTrusted || e.isComposing || MODIFIERS.indexOf(e.key) !== -1) return;
+      let shortcut = e.ctrlKey || e.altKey || e.metaKey;
+      if (!shortcut && (e.key.length === 1 || (EDITING_KEYS.indexOf(e.key) !== -1 && isTextField(e.target)))) return;
+      let details = getElementDetails(e.target);
+      if (details.sensitive && e.key.length === 1 && !e.ctrlKey && !e.metaKey) return;
+
+      let held = [];
+      if (e.ctrlKey) held.push('Control');
+      if (e.altKey) held.push('Alt');
+      if (e.metaKey) held.push('Meta');
+      // Shift is already part of a printable key (A, !)
+      if (e.shiftKey && e.key.length !== 1) held.push('Shift');
+      let key = held.concat([e.key]).join('+');
+      send({
+        timestamp: Date.now(),
+        type: 'KEY',
+        key: key,
+        element: details,
+        message: 'KEY ' + key + ' in ' + details.selector
+      });
+    }, true);
+
+    // Select, checkbox and radio changes; a text field's change ends its typing
+    document.addEventListener('change', function(e) {
+      if (!e.isTrusted) return;
+      let el = e.target;
+      let tag = el.tagName ? el.tagName.toLowerCase() : '';
+      if (tag === 'select') {
+        let options = Array.from(el.selectedOptions || []);
+        let labels = options.map(function(option) { return option.label || option.text; }).join(', ');
+        let details = getElementDetails(el);
+        send({
+          timestamp: Date.now(),
+          type: 'SELECT',
+          values: options.map(function(option) { return option.value; }),
+          text: labels,
+          element: details,
+          message: 'SELECT ' + JSON.stringify(labels) + ' in ' + details.selector
+        });
+      } else if (tag === 'input' && (el.type === 'checkbox' || el.type === 'radio')) {
+        let details = getElementDetails(el);
+        send({
+          timestamp: Date.now(),
+          type: 'CHECK',
+          checked: el.checked,
+          element: details,
+          message: (el.checked ? 'CHECK ' : 'UNCHECK ') + details.selector
+        });
+      } else if (pendingTyping && pendingTyping.element === el) {
+        flushTyping();
+      }
+    }, true);
+
+    // Form submits, whether from a button, Enter or page code
+    document.addEventListener('submit', function(e) {
+      let form = e.target;
+      let action = form.getAttribute('action');
+      let details = getElementDetails(form);
+      send({
+        timestamp: Date.now(),
+        type: 'SUBMIT',
+        form: {
+          action: action ? new URL(action, document.baseURI).href : location.href,
+          method: (form.getAttribute('method') || 'get').toUpperCase()
+        },
+        element: details,
+        message: 'SUBMIT ' + details.selector
+      });
+    }, true);
+
+    document.addEventListener('focusin', function(e) {
+      if (!e.isTrusted || !isFormField(e.target)) return;
+      let details = getElementDetails(e.target);
+      send({
+        timestamp: Date.now(),
+        type: 'FOCUS',
+        element: details,
+        message: 'FOCUS ' + details.selector
+      });
+    }, true);
+
+    // The pasted text itself arrives with the typed value, masked like typing
+    document.addEventListener('paste', function(e) {
+      if (!e.isTrusted) return;
+      let details = getElementDetails(elementOf(e.target));
+      send({
+        timestamp: Date.now(),
+        type: 'PASTE',
+        element: details,
+        message: 'PASTE in ' + details.selector
+      });
+    }, true);
+
+    // Drag and drop
+    let draggedSelector = null;
+
+    document.addEventListener('dragstart', function(e) {
+      if (!e.isTrusted) return;
+      let details = getElementDetails(elementOf(e.target));
+      draggedSelector = details.selector;
+      send({
+        timestamp: Date.now(),
+        type: 'DRAG',
+        element: details,
+        message: 'DRAG ' + details.selector
+      });
+    }, true);
+
+    document.addEventListener('drop', function(e) {
+      if (!e.isTrusted) return;
+      let details = getElementDetails(elementOf(e.target));
+      send({
+        timestamp: Date.now(),
+        type: 'DROP',
+        dragged: draggedSelector || undefined,
+        element: details,
+        message: 'DROP ' + (draggedSelector ? draggedSelector + ' ' : '') + 'on ' + details.selector
+      });
+      draggedSelector = null;
+    }, true);
+
+    document.addEventListener('dragend', function() {
+      draggedSelector = null;
+    }, true);
+
+    // Hovers over elements that open a menu or tooltip, once the pointer rests on them
+    const HOVER_TARGETS = '[aria-haspopup]:not([aria-haspopup="false"]), [aria-expanded], [data-tooltip]';
+    let hovered = null;
+    let hoverTimeout = null;
+
+    document.addEventListener('mouseover', function(e) {
+      if (!e.isTrusted) return;
+      let target = e.target.closest ? e.target.closest(HOVER_TARGETS) : null;
+      if (target === hovered) return;
+      clearTimeout(hoverTimeout);
+      hovered = target;
+      if (!target) return;
+
+      let x = e.clientX;
+      let y = e.clientY;
+      hoverTimeout = setTimeout(function() {
+        let details = getElementDetails(target);
+        send({
+          timestamp: Date.now(),
+          type: 'HOVER',
+          x: x,
+          y: y,
+          element: details,
+          message: 'HOVER at ' + x + ',' + y + ' on ' + details.selector
+        });
+      }, 300);
+    }, true);
+
+    // Scroll tracking, coalesced until scrolling settles for 300ms
+    let scrollTimeout = null;
+    let lastScrollX = 0;
+    let lastScrollY = 0;
+    let scrollStartX = 0;
+    let scrollStartY = 0;
+    let scrollTarget = 'document';
+
+    function flushScroll() {
+      scrollTimeout = null;
+      let deltaX = Math.abs(lastScrollX - scrollStartX);
+      let deltaY = Math.abs(lastScrollY - scrollStartY);
+
+      if (deltaX > 5 || deltaY > 5) {
+        send({
+          timestamp: Date.now(),
+          type: 'SCROLL',
+          from: { x: scrollStartX, y: scrollStartY },
+          to: { x: lastScrollX, y: lastScrollY },
+          target: scrollTarget,
+          message: 'SCROLL from ' + scrollStartX + ',' + scrollStartY + ' to ' + lastScrollX + ',' + lastScrollY + ' in ' + scrollTarget
+        });
+      }
+    }
+
+    document.addEventListener('scroll', function(e) {
+      let target = e.target === document ? 'document' : getSelectors(e.target).selector;
+      let currentScrollX = e.target === document ? window.scrollX : e.target.scrollLeft;
+      let currentScrollY = e.target === document ? window.scrollY : e.target.scrollTop;
+
+      // First scroll event or a different target starts a new gesture
+      if (scrollTimeout === null || scrollTarget !== target) {
+        if (scrollTimeout !== null) {
+          clearTimeout(scrollTimeout);
+          flushScroll();
+        }
+        scrollStartX = currentScrollX;
+        scrollStartY = currentScrollY;
+        scrollTarget = target;
+      } else {
+        clearTimeout(scrollTimeout);
+      }
+
+      lastScrollX = currentScrollX;
+      lastScrollY = currentScrollY;
+      scrollTimeout = setTimeout(flushScroll, 300);
+    }, true);
+
+    // Window resizes, once resizing settles; frames resize with their parent
+    if (window === window.top) {
+      let resizeTimeout = null;
+      window.addEventListener('resize', function() {
+        clearTimeout(resizeTimeout);
+        resizeTimeout = setTimeout(function() {
+          send({
+            timestamp: Date.now(),
+            type: 'RESIZE',
+            viewport: { width: window.innerWidth, height: window.innerHeight },
+            message: 'RESIZE to ' + window.innerWidth + 'x' + window.innerHeight
+          });
+        }, 300);
+      });
+    }
+
+    // Client-side route changes; document navigations are logged by the monitor
+    let lastHref = location.href;
+
+    function routeChanged(trigger) {
+      if (location.href === lastHref) return;
+      let previousUrl = lastHref;
+      lastHref = location.href;
+      send({
+        timestamp: Date.now(),
+        type: 'ROUTE',
+        previousUrl: previousUrl,
+        trigger: trigger,
+        message: 'ROUTE ' + location.pathname + location.hash + ' (' + trigger + ')'
+      });
+    }
+
+    ['pushState', 'replaceState'].forEach(function(method) {
+      let original = history[method];
+      history[method] = function() {
+        let result = original.apply(this, arguments);
+        routeChanged(method);
+        return result;
+      };
+    });
+    window.addEventListener('popstate', function() { routeChanged('popstate'); });
+    window.addEventListener('hashchange', function() { routeChanged('hashchange'); });
+
+    // Report typing and a scroll that are still settling before the document goes away
+    window.addEventListener('pagehide', function() {
+      if (pendingTyping) {
+        flushTyping();
+      }
+      if (scrollTimeout !== null) {
+        clearTimeout(scrollTimeout);
+        flushScroll();
+      }
+    });
+  } catch (err) {
+    console.debug('🌼 Daisy interaction tracking error:', err.message);
+  }
+})();
+`;
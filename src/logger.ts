@@ -1,36 +1,47 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  BrowserEventData,
+  ClipReference,
+  ConsoleEventData,
+  InteractionEventData,
+  LogEntry,
+  LogEntryLevel,
+  LogEntryOrigin,
+  NetworkEventData,
+  PageEventData,
+  RedactionRecord,
+  ServerEventData,
+  SourceContext,
+  createLogFileFooter,
+  createLogFileHeader,
+  serializeLogRecord
+} from 'daisy-shared';
+import { RedactionOptions, Redactor } from './redactor';
 
 export type LogLevel = 'minimal' | 'standard' | 'verbose';
 
-export interface LogEntry {
-  timestamp: string;
-  type: 'console' | 'network' | 'error' | 'performance' | 'page' | 'security' | 'runtime' | 'interaction';
-  level: 'info' | 'warn' | 'error' | 'debug';
-  source: string;
-  data: any;
-  context?: {
-    url?: string;
-    method?: string;
-    statusCode?: number;
-    stackTrace?: string;
-    serviceType?: string;
-    domain?: string;
-    errorType?: string;
-    description?: string;
-    errorPattern?: string;
-    quickFix?: string;
-    aiHints?: string[];
-  };
-}
+export type { LogEntry };
+
+// Timing, size and cache details of a finished request, plus what was redacted while capturing it
+export type NetworkRequestDetails = Pick<
+  NetworkEventData,
+  'duration' | 'responseSize' | 'encodedSize' | 'timing' | 'cache' | 'initiator' | 'priority' | 'protocol' | 'resourceType'
+> & { redactions?: RedactionRecord[] };
 
 export class DaisyLogger {
   private logFile: string;
   private logLevel: LogLevel;
+  private sessionId?: string;
+  private redactor: Redactor;
+  private origin?: LogEntryOrigin;
+  private listeners: Array<(entry: LogEntry) => void> = []; // Shared with loggers from forTarget()
 
-  constructor(logFile: string, logLevel: LogLevel = 'standard') {
+  constructor(logFile: string, logLevel: LogLevel = 'standard', sessionId?: string, redaction?: RedactionOptions) {
     this.logFile = logFile;
     this.logLevel = logLevel;
+    this.sessionId = sessionId;
+    this.redactor = new Redactor(redaction);
 
     // Use synchronous writes only to avoid file locking issues on Windows
     // Write initial header for LLM readability
@@ -38,29 +49,12 @@ export class DaisyLogger {
   }
 
   private writeInitialHeader() {
-    const header = {
-      daisy_session_start: new Date().toISOString(),
-      format: "structured_json_logs",
-      description: "Real-time Chrome DevTools Protocol debugging data",
-      log_level: this.logLevel,
-      filtering: {
-        minimal: "Only errors, warnings, and critical network requests",
-        standard: "Essential debugging info without verbose metadata",
-        verbose: "Full details including headers, certificates, and stack traces"
-      },
-      log_structure: {
-        timestamp: "ISO 8601 timestamp",
-        type: "Event category (console, network, error, performance, page, security, runtime)",
-        level: "Log level (info, warn, error, debug)",
-        source: "Event source/origin",
-        data: "Filtered event data from DevTools Protocol",
-        context: "Additional contextual information for debugging"
-      }
-    };
+    // First NDJSON record identifies the session and the schema version for readers
+    const header = createLogFileHeader({ logLevel: this.logLevel, sessionId: this.sessionId });
 
     // Write header synchronously to create the file
     try {
-      fs.writeFileSync(this.logFile, `# Daisy Debug Session\n${JSON.stringify(header, null, 2)}\n---\n`);
+      fs.writeFileSync(this.logFile, serializeLogRecord(header));
 
     } catch (err) {
       console.error('❌ Failed to write initial header:', err);
@@ -68,8 +62,47 @@ export class DaisyLogger {
   }
 
   log(entry: LogEntry) {
-    const logLine = JSON.stringify(entry, null, 2);
-    this.writeRawLine(`${logLine}\n`);
+    const stamped = this.origin ? { ...entry, ...this.origin } : entry;
+    const redacted = this.redactor.redactEntry(stamped);
+    // One record per line so readers can tail the file without reassembling objects
+    this.writeRawLine(serializeLogRecord(redacted));
+
+    for (const listener of this.listeners) {
+      try {
+        listener(redacted);
+      } catch (err) {
+        console.error('❌ Log listener failed:', err);
+      }
+    }
+  }
+
+  /**
+   * Receive every entry as it is written (after redaction); returns a function that unsubscribes
+   */
+  onEntry(listener: (entry: LogEntry) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Logger writing to the same file that stamps every entry with the browser target it came from
+   */
+  forTarget(origin: LogEntryOrigin): DaisyLogger {
+    const defined = Object.fromEntries(Object.entries(origin).filter(([, value]) => value !== undefined));
+    // Object.create skips the constructor, which would rewrite the log header
+    return Object.assign(Object.create(DaisyLogger.prototype) as DaisyLogger, this, { origin: defined });
+  }
+
+  /**
+   * Redactor shared with capture code that keeps data outside the log (network buffer)
+   */
+  getRedactor(): Redactor {
+    return this.redactor;
   }
 
   private writeRawLine(line: string) {
@@ -95,14 +128,15 @@ export class DaisyLogger {
     }
   }
 
-  logConsole(level: string, text: string, args?: any[], stackTrace?: any, url?: string) {
+  // `timestamp` is when the page logged it (CDP milliseconds since epoch); now when omitted
+  logConsole(level: string, text: string, args?: any[], stackTrace?: any, url?: string, sourceContext?: SourceContext, clip?: ClipReference, timestamp?: number) {
     // Filter console output based on log level
     if (this.shouldSkipLog('console', this.mapConsoleLevel(level))) {
       return;
     }
 
     // Create clean console log structure
-    const logData: any = {
+    const logData: ConsoleEventData = {
       message: text
     };
 
@@ -114,21 +148,26 @@ export class DaisyLogger {
     // Only add stack trace for errors and warnings in standard/verbose mode
     if (['error', 'warn'].includes(this.mapConsoleLevel(level))) {
       logData.stackTrace = this.filterStackTrace(stackTrace);
+      if (sourceContext && this.logLevel !== 'minimal') {
+        logData.sourceContext = sourceContext;
+      }
     }
 
     this.log({
-      timestamp: new Date().toISOString(),
+      timestamp: toIsoTimestamp(timestamp),
       type: 'console',
       level: this.mapConsoleLevel(level),
       source: 'browser_console',
       data: logData,
       context: {
         url: url
-      }
+      },
+      ...(args?.[0]?.screenshot ? { screenshot: path.basename(args[0].screenshot) } : {}),
+      ...(clip ? { clip } : {})
     });
   }
 
-  logNetwork(method: string, url: string, statusCode: number, headers: any, requestData?: any, responseData?: any) {
+  logNetwork(method: string, url: string, statusCode: number, headers: any, requestData?: any, responseData?: any, details?: NetworkRequestDetails) {
     // Filter network requests based on log level
     if (this.shouldSkipLog('network', statusCode >= 400 ? 'error' : 'info')) {
       return;
@@ -155,18 +194,37 @@ export class DaisyLogger {
     }
 
     // Create clean network log structure
-    const networkData: any = {
+    const networkData: NetworkEventData = {
       method,
       url,
       status: statusCode
     };
 
+    // Keep capture-time records for the fields this entry still carries
+    const redactions: RedactionRecord[] = [];
+    if (details) {
+      const { redactions: captured, ...requestDetails } = details;
+      Object.assign(networkData, Object.fromEntries(Object.entries(requestDetails).filter(([, value]) => value !== undefined)));
+      redactions.push(...(captured || []).filter(record =>
+        ['data.url', 'data.requestBody', 'data.responseBody'].some(field => record.path.startsWith(field))
+      ));
+      // Initiator call stacks are long; keep only the calling location unless verbose
+      if (networkData.initiator?.stack && this.logLevel !== 'verbose') {
+        const { stack, ...initiator } = networkData.initiator;
+        networkData.initiator = initiator;
+      }
+    }
+
     // Add essential headers only (content-type mainly)
     const essentialHeaders = this.getEssentialHeaders(headers);
     if (Object.keys(essentialHeaders).length > 0) {
       networkData.headers = essentialHeaders;
     }
 
+    // Redact bodies before truncation can break their JSON structure
+    requestData = this.redactor.redact(requestData, 'data.requestBody', redactions);
+    responseData = this.redactor.redact(responseData, 'data.responseBody', redactions);
+
     // Add request body if present
     if (requestData) {
       networkData.requestBody = this.filterRequestBody(requestData);
@@ -205,31 +263,38 @@ export class DaisyLogger {
       context: {
         ...context,
         aiHints: this.generateAIHints(url, statusCode, responseData)
-      }
+      },
+      ...(redactions.length > 0 ? { redactions } : {})
     });
   }
 
+  // Page errors carry `timestamp`, when they were thrown (CDP milliseconds since epoch)
   logError(error: any, source: string = 'unknown', stackTrace?: string) {
     const errorContext = this.analyzeError(error, source);
 
     this.log({
-      timestamp: new Date().toISOString(),
+      timestamp: toIsoTimestamp(error.timestamp),
       type: 'error',
       level: 'error',
       source,
       data: {
-        message: error.message || error,
+        message: String(error.message || error),
         stack: error.stack || stackTrace,
         name: error.name,
         category: errorContext.category,
-        severity: errorContext.severity
+        severity: errorContext.severity,
+        // Source-mapped frames and original code, when the error came from the page
+        frames: this.logLevel === 'minimal' ? undefined : error.frames,
+        sourceContext: this.logLevel === 'minimal' ? undefined : error.sourceContext
       },
       context: {
         stackTrace: error.stack || stackTrace,
         errorPattern: errorContext.pattern,
         quickFix: errorContext.quickFix,
         aiHints: errorContext.aiHints
-      }
+      },
+      ...(error.screenshot ? { screenshot: path.basename(error.screenshot) } : {}),
+      ...(error.clip ? { clip: error.clip } : {})
     });
   }
 
@@ -258,7 +323,7 @@ export class DaisyLogger {
     }
 
     // Simplify page event data to reduce noise
-    const simplifiedData = eventType === 'navigation' ? {
+    const simplifiedData: PageEventData = eventType === 'navigation' ? {
       event: 'navigation',
       url: url || data.frame?.url
     } :
@@ -291,48 +356,160 @@ export class DaisyLogger {
       return;
     }
 
-    // Skip noisy interactions - only log meaningful user actions
-    if (interactionType === 'KEY' || interactionType === 'SCROLL') {
-      return; // Skip key presses and scroll events
-    }
-
-    // Only log CLICK events for now (most meaningful for debugging)
-    if (interactionType !== 'CLICK') {
-      return;
-    }
-
-    // Skip clicks on non-interactive elements (divs, spans, etc.)
-    const tag = data.element?.tag?.toLowerCase();
-    const interactiveElements = ['button', 'a', 'input', 'select', 'textarea'];
-    if (!interactiveElements.includes(tag)) {
-      return; // Only log clicks on interactive elements
-    }
+    // Tracker events carry element details; Control API actions only a selector and their result
+    const element = data.element || {};
+    const tag: string = (element.tag || data.result?.elementTag || '').toLowerCase();
+    const selector: string | undefined = element.selector || data.selector || (interactionType === 'SCROLL' ? data.target : undefined);
 
     // LLM-optimized format: clear action with context
-    const elementText = data.element?.text?.trim().substring(0, 25) || '';
-    const elementId = data.element?.id || '';
-    const elementClass = data.element?.className?.split(' ')[0] || ''; // First class only
+    const elementText = element.text?.trim().substring(0, 25) || '';
+    const elementId = element.id || '';
+    const elementClass = element.className?.split(' ')[0] || ''; // First class only
 
     // Create descriptive but concise message for LLM understanding
     let elementDesc = elementText;
     if (!elementDesc && elementId) elementDesc = `#${elementId}`;
     if (!elementDesc && elementClass) elementDesc = `.${elementClass}`;
-    if (!elementDesc) elementDesc = tag;
+    if (!elementDesc) elementDesc = selector || tag || (interactionType === 'ROUTE' ? data.url : interactionType === 'RESIZE' ? 'window' : 'document');
+
+    // Everything replay and test export need to re-execute the action
+    const interactionData: InteractionEventData = {
+      action: interactionType,
+      target: elementDesc,
+      element_type: tag
+    };
+    if (selector) {
+      interactionData.selector = selector;
+    }
+    const selectors: string[] | undefined = element.selectors || data.selectors;
+    if (selectors && selectors.length > 1) {
+      interactionData.selectors = selectors;
+    }
+
+    switch (interactionType) {
+      case 'CLICK':
+      case 'HOVER': {
+        const x = data.x ?? data.result?.coordinates?.x;
+        const y = data.y ?? data.result?.coordinates?.y;
+        if (typeof x === 'number' && typeof y === 'number') {
+          interactionData.x = Math.round(x);
+          interactionData.y = Math.round(y);
+        }
+        break;
+      }
+      case 'KEY':
+        interactionData.key = data.key;
+        break;
+      case 'TYPE':
+        interactionData.text = data.text;
+        if (data.clear) {
+          interactionData.clear = true;
+        }
+        break;
+      case 'SELECT':
+        interactionData.values = data.values;
+        interactionData.text = data.text;
+        break;
+      case 'CHECK':
+        interactionData.checked = !!data.checked;
+        break;
+      case 'SUBMIT':
+        if (data.form) {
+          interactionData.form = data.form;
+        }
+        break;
+      case 'DROP':
+        if (data.dragged) {
+          interactionData.dragged = data.dragged;
+        }
+        break;
+      case 'RESIZE':
+        interactionData.viewport = data.viewport;
+        break;
+      case 'ROUTE':
+        interactionData.previousUrl = data.previousUrl;
+        interactionData.trigger = data.trigger;
+        break;
+      case 'SCROLL':
+        if (data.from) {
+          interactionData.from = data.from;
+        }
+        if (data.to) {
+          interactionData.to = data.to;
+        } else if (data.x !== undefined || data.y !== undefined) {
+          interactionData.to = { x: data.x || 0, y: data.y || 0 };
+        }
+        break;
+    }
+
+    // The page already masked the value of a password or payment field
+    const sensitive = !!(element.sensitive || data.sensitive);
+    if (sensitive) {
+      interactionData.sensitive = true;
+    }
 
     this.log({
       timestamp: new Date().toISOString(),
       type: 'interaction',
       level: 'info',
       source: 'user_action',
-      data: {
-        action: 'CLICK',
-        target: elementDesc,
-        element_type: tag
+      data: interactionData,
+      context: data.url ? { url: data.url } : undefined,
+      ...(sensitive && interactionData.text !== undefined ? { redactions: [{ path: 'data.text', rule: 'sensitive-field' }] } : {})
+    });
+  }
+
+  logServerOutput(stream: ServerEventData['stream'], lines: string[], level: 'info' | 'warn' | 'error') {
+    // Dev server chatter is only interesting at minimal level when something went wrong
+    if (this.shouldSkipLog('server', level)) {
+      return;
+    }
+
+    const maxLines = this.logLevel === 'verbose' ? lines.length : 50;
+    const serverData: ServerEventData = {
+      stream,
+      message: lines[0].trim().substring(0, 500)
+    };
+
+    if (lines.length > 1) {
+      const keptLines = lines.slice(0, maxLines);
+      if (lines.length > maxLines) {
+        keptLines.push(`... [${lines.length - maxLines} more lines truncated]`);
       }
+      serverData.lines = keptLines;
+    }
+
+    const stackLines = lines.filter(line => /^\s+at\s/.test(line));
+    const errorName = lines[0].match(/\b([A-Z][A-Za-z]*(?:Error|Exception))\b/);
+
+    this.log({
+      timestamp: new Date().toISOString(),
+      type: 'server',
+      level,
+      source: 'dev_server',
+      data: serverData,
+      context: level === 'error' && (errorName || stackLines.length > 0) ? {
+        errorType: errorName ? errorName[1] : undefined,
+        stackTrace: stackLines.length > 0 ? [lines[0], ...stackLines].join('\n') : undefined
+      } : undefined
+    });
+  }
+
+  logBrowserEvent(event: BrowserEventData['event'], details: Omit<BrowserEventData, 'event'> = {}, level: LogEntryLevel = 'warn') {
+    if (this.shouldSkipLog('browser', level)) {
+      return;
+    }
+
+    this.log({
+      timestamp: new Date().toISOString(),
+      type: 'browser',
+      level,
+      source: 'devtools_connection',
+      data: { event, ...details }
     });
   }
 
-  private mapConsoleLevel(level: string): 'info' | 'warn' | 'error' | 'debug' {
+  private mapConsoleLevel(level: string): LogEntryLevel {
     switch (level.toLowerCase()) {
       case 'error':
         return 'error';
@@ -409,7 +586,8 @@ export class DaisyLogger {
           functionName: frame.functionName,
           url: frame.url,
           lineNumber: frame.lineNumber,
-          columnNumber: frame.columnNumber
+          columnNumber: frame.columnNumber,
+          generated: frame.generated
         }))
       };
     }
@@ -745,6 +923,11 @@ export class DaisyLogger {
   }
 
   close() {
-    this.writeRawLine(`\n---\n# Session ended: ${new Date().toISOString()}\n`);
+    this.writeRawLine(serializeLogRecord(createLogFileFooter()));
   }
-}
\ No newline at end of file
+}
+
+// Source maps and screenshots are awaited before logging; the event's own time keeps entries in order
+function toIsoTimestamp(epochMs?: number): string {
+  return new Date(typeof epochMs === 'number' ? epochMs : Date.now()).toISOString();
+}
@@ -0,0 +1,152 @@
+import * as zlib from 'zlib';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array; // RGBA, 4 bytes per pixel, row by row
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Bytes per pixel for each 8-bit colour type: grayscale, RGB, palette, grayscale + alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Decode an 8-bit, non-interlaced PNG (what Chrome's screencast and screenshots produce) to RGBA pixels
+ */
+export function decodePng(data: Buffer): DecodedImage {
+  if (data.length < PNG_SIGNATURE.length || !data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const compressed: Buffer[] = [];
+
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= data.length;) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length; // length, type, data, CRC
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk[8];
+      colorType = chunk[9];
+      const interlace = chunk[12];
+      if (bitDepth !== 8 || interlace !== 0 || CHANNELS[colorType] === undefined) {
+        throw new Error(`Unsupported PNG: bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace}`);
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      compressed.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (colorType < 0 || compressed.length === 0) {
+    throw new Error('Truncated PNG image');
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('Palette PNG without a palette');
+  }
+
+  const channels = CHANNELS[colorType];
+  const stride = width * channels;
+  const raw = zlib.inflateSync(Buffer.concat(compressed));
+  if (raw.length < height * (stride + 1)) {
+    throw new Error('Truncated PNG image data');
+  }
+
+  const pixels = new Uint8Array(width * height * 4);
+  let previous = new Uint8Array(stride);
+  let current = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const start = y * (stride + 1);
+    unfilter(raw[start], raw.subarray(start + 1, start + 1 + stride), previous, current, channels);
+
+    for (let x = 0, out = y * width * 4; x < width; x++, out += 4) {
+      const i = x * channels;
+      switch (colorType) {
+        case 6:
+          pixels[out] = current[i];
+          pixels[out + 1] = current[i + 1];
+          pixels[out + 2] = current[i + 2];
+          pixels[out + 3] = current[i + 3];
+          break;
+        case 2:
+          pixels[out] = current[i];
+          pixels[out + 1] = current[i + 1];
+          pixels[out + 2] = current[i + 2];
+          pixels[out + 3] = 255;
+          break;
+        case 3: {
+          const index = current[i];
+          pixels[out] = palette![index * 3];
+          pixels[out + 1] = palette![index * 3 + 1];
+          pixels[out + 2] = palette![index * 3 + 2];
+          pixels[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+          break;
+        }
+        case 4:
+          pixels[out] = pixels[out + 1] = pixels[out + 2] = current[i];
+          pixels[out + 3] = current[i + 1];
+          break;
+        default:
+          pixels[out] = pixels[out + 1] = pixels[out + 2] = current[i];
+          pixels[out + 3] = 255;
+      }
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return { width, height, pixels };
+}
+
+// Reverse one scanline's filter into `out`, given the previous reconstructed line
+function unfilter(filter: number, line: Uint8Array, previous: Uint8Array, out: Uint8Array, bytesPerPixel: number): void {
+  for (let i = 0; i < line.length; i++) {
+    const left = i >= bytesPerPixel ? out[i - bytesPerPixel] : 0;
+    const up = previous[i];
+    const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+
+    switch (filter) {
+      case 0:
+        out[i] = line[i];
+        break;
+      case 1:
+        out[i] = (line[i] + left) & 0xff;
+        break;
+      case 2:
+        out[i] = (line[i] + up) & 0xff;
+        break;
+      case 3:
+        out[i] = (line[i] + ((left + up) >> 1)) & 0xff;
+        break;
+      case 4:
+        out[i] = (line[i] + paeth(left, up, upLeft)) & 0xff;
+        break;
+      default:
+        throw new Error(`Invalid PNG filter type ${filter}`);
+    }
+  }
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
@@ -0,0 +1,260 @@
+import { LogEntry, RedactionRecord } from 'daisy-shared';
+
+export interface RedactionPattern {
+  name: string;
+  pattern: RegExp; // must be global
+}
+
+export interface RedactionOptions {
+  enabled?: boolean; // default true
+  headers?: string[]; // extra header names whose whole value is masked
+  keys?: string[]; // extra JSON/form/query key patterns (case-insensitive, matched against whole words of the key)
+  patterns?: RedactionPattern[]; // extra value patterns
+}
+
+export const REDACTED = '[REDACTED]';
+
+export const DEFAULT_REDACTED_HEADERS = [
+  'authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'x-auth-token', 'x-csrf-token'
+];
+
+export const DEFAULT_REDACTED_KEYS = [
+  'password', 'passwd', 'passphrase', 'secret', 'token', 'apikey', 'accesskey', 'privatekey',
+  'sessionid', 'ssn', 'socialsecurity', 'creditcard', 'cardnumber', 'cvv', 'cvc'
+];
+
+export const DEFAULT_REDACTION_PATTERNS: RedactionPattern[] = [
+  { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { name: 'bearer', pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  // Card-like digit runs; only Luhn-valid numbers are masked (see maskPattern)
+  { name: 'card', pattern: /\b[2-6]\d{3}(?:[ -]?\d{4}){2}[ -]?\d{1,7}\b/g }
+];
+
+/**
+ * Masks secrets and personal data before anything reaches the log file or the network buffer.
+ *
+ * Values are masked in three ways: whole header values by header name, values under
+ * sensitive keys (JSON objects, JSON strings, form bodies and URL query strings), and
+ * pattern matches inside any other string. Every mask is reported as a RedactionRecord
+ * so readers can tell a value was removed rather than empty.
+ */
+export class Redactor {
+  private enabled: boolean;
+  private headers: Set<string>;
+  private keys: string[];
+  private patterns: RedactionPattern[];
+
+  constructor(options: RedactionOptions = {}) {
+    this.enabled = options.enabled !== false;
+    this.headers = new Set([...DEFAULT_REDACTED_HEADERS, ...(options.headers || [])].map(h => h.toLowerCase()));
+    this.keys = [...DEFAULT_REDACTED_KEYS, ...(options.keys || [])].map(normalizeKey);
+    this.patterns = [...DEFAULT_REDACTION_PATTERNS, ...(options.patterns || [])];
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Return a redacted copy of `value`, appending what was masked to `redactions`
+   */
+  redact<T>(value: T, path: string, redactions: RedactionRecord[]): T {
+    if (!this.enabled) {
+      return value;
+    }
+    return this.redactValue(value, path, redactions) as T;
+  }
+
+  /**
+   * Redact an entry's data and context, recording the masks on the entry itself
+   */
+  redactEntry<E extends LogEntry>(entry: E): E {
+    if (!this.enabled) {
+      return entry;
+    }
+
+    const redactions: RedactionRecord[] = [...(entry.redactions || [])];
+    const before = redactions.length;
+    const data = this.redactValue(entry.data, 'data', redactions);
+    const context = entry.context ? this.redactValue(entry.context, 'context', redactions) : undefined;
+
+    if (redactions.length === before && !entry.redactions) {
+      return entry;
+    }
+
+    return {
+      ...entry,
+      data,
+      ...(context !== undefined ? { context } : {}),
+      redactions: dedupe(redactions)
+    };
+  }
+
+  private redactValue(value: unknown, path: string, redactions: RedactionRecord[]): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value, path, redactions);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactValue(item, `${path}[${index}]`, redactions));
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = `${path}.${key}`;
+        const rule = this.ruleForKey(key);
+        if (rule && child !== null && child !== undefined && child !== '') {
+          result[key] = REDACTED;
+          redactions.push({ path: childPath, rule });
+        } else {
+          result[key] = this.redactValue(child, childPath, redactions);
+        }
+      }
+      return result;
+    }
+    return value;
+  }
+
+  private redactString(value: string, path: string, redactions: RedactionRecord[]): string {
+    if (value === REDACTED) {
+      return value;
+    }
+
+    // JSON bodies arrive as strings (postData, text responses)
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        const found: RedactionRecord[] = [];
+        const redacted = this.redactValue(parsed, path, found);
+        if (found.length === 0) {
+          return value;
+        }
+        redactions.push(...found);
+        return JSON.stringify(redacted);
+      } catch {
+        // Not JSON, fall through to string rules
+      }
+    }
+
+    let result = this.maskQueryParameters(value, path, redactions);
+    for (const { name, pattern } of this.patterns) {
+      result = this.maskPattern(result, name, pattern, path, redactions);
+    }
+    return result;
+  }
+
+  /**
+   * Mask sensitive keys in URL query strings and form-encoded bodies (a=1&password=x)
+   */
+  private maskQueryParameters(value: string, path: string, redactions: RedactionRecord[]): string {
+    if (!value.includes('=')) {
+      return value;
+    }
+    return value.replace(/(^|[?&;])([^=&?#;\s]+)=([^&#;\s]*)/g, (match, separator: string, key: string, raw: string) => {
+      const rule = this.ruleForKey(safeDecode(key));
+      if (!rule || !raw || raw === encodeURIComponent(REDACTED)) {
+        return match;
+      }
+      redactions.push({ path: `${path}.${key}`, rule });
+      return `${separator}${key}=${encodeURIComponent(REDACTED)}`;
+    });
+  }
+
+  private maskPattern(value: string, name: string, pattern: RegExp, path: string, redactions: RedactionRecord[]): string {
+    let masked = false;
+    const result = value.replace(pattern, match => {
+      if (name === 'card' && !passesLuhn(match.replace(/\D/g, ''))) {
+        return match;
+      }
+      masked = true;
+      return `[REDACTED:${name}]`;
+    });
+    if (masked) {
+      redactions.push({ path, rule: `pattern:${name}` });
+    }
+    return result;
+  }
+
+  private ruleForKey(key: string): string | undefined {
+    if (this.headers.has(key.toLowerCase())) {
+      return 'header';
+    }
+    const words = keyWords(key);
+    const match = this.keys.find(pattern => matchesKeyWords(words, pattern));
+    return match ? `key:${match}` : undefined;
+  }
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Lowercase words of a key, split at camelCase humps and at any separator:
+ * "x-api-key", "apiKey" and "API_KEY" all give ["api", "key"]
+ */
+function keyWords(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * A pattern matches whole consecutive words ("accessToken" has "token", "className" has no
+ * "ssn"); a key that is a single word (e.g. "csrftoken") also matches at its start or end
+ */
+function matchesKeyWords(words: string[], pattern: string): boolean {
+  if (words.length === 1 && (words[0].startsWith(pattern) || words[0].endsWith(pattern))) {
+    return true;
+  }
+  for (let start = 0; start < words.length; start++) {
+    let joined = '';
+    for (let end = start; end < words.length && joined.length < pattern.length; end++) {
+      joined += words[end];
+      if (joined === pattern) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function passesLuhn(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function dedupe(redactions: RedactionRecord[]): RedactionRecord[] {
+  const seen = new Set<string>();
+  return redactions.filter(record => {
+    const key = `${record.path}|${record.rule}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
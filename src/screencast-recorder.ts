@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClipReference } from 'daisy-shared';
+import { GifEncoder } from './gif-encoder';
+import { decodePng } from './png-decoder';
+
+export interface ScreencastOptions {
+  clipSeconds?: number; // how far back before an error a clip starts (default 10)
+  maxFps?: number; // frames kept per second (default 5)
+  maxWidth?: number; // frame size cap (default 800x600)
+  maxHeight?: number;
+}
+
+interface BufferedFrame {
+  time: number; // epoch milliseconds the frame arrived
+  file: string;
+}
+
+const DEFAULT_CLIP_SECONDS = 10;
+const DEFAULT_MAX_FPS = 5;
+const DEFAULT_MAX_WIDTH = 800;
+const DEFAULT_MAX_HEIGHT = 600;
+const CLIP_REUSE_MS = 2000; // errors logged together share one clip
+const FINAL_FRAME_HOLD_MS = 1000; // pause on the moment of the error before the GIF loops
+const BUFFER_DIR = '.buffer';
+const GIF_FILE = 'clip.gif';
+
+/**
+ * Rolling screen recording of the monitored tab, for clips of what led up to an error.
+ *
+ * Frames from Page.startScreencast are written to a buffer directory on disk and deleted
+ * once a clip no longer needs them. captureClip() copies the last `clipSeconds` of frames
+ * into the clip's own directory and returns its reference straight away, so it can go into
+ * the error's log entry; the GIF is encoded from the copies in the background, one clip at
+ * a time, and appears next to them when done. `onClipWritten` hears of each clip directory
+ * as its files are written, so the owner can count it against a disk budget and delete it.
+ */
+export class ScreencastRecorder {
+  private dir: string;
+  private bufferDir: string;
+  private clipMs: number;
+  private minFrameIntervalMs: number;
+  private maxWidth: number;
+  private maxHeight: number;
+  private client: any;
+  private unsubscribe?: () => void;
+  private frames: BufferedFrame[] = [];
+  private lastClip?: { capturedAt: number; clip: ClipReference };
+  private encoding: Promise<void> = Promise.resolve();
+  private onClipWritten: (clipDir: string) => void;
+
+  constructor(dir: string, options: ScreencastOptions = {}, onClipWritten: (clipDir: string) => void = () => undefined) {
+    this.dir = dir;
+    this.onClipWritten = onClipWritten;
+    this.bufferDir = path.join(dir, BUFFER_DIR);
+    this.clipMs = (options.clipSeconds ?? DEFAULT_CLIP_SECONDS) * 1000;
+    this.minFrameIntervalMs = 1000 / (options.maxFps ?? DEFAULT_MAX_FPS);
+    this.maxWidth = options.maxWidth ?? DEFAULT_MAX_WIDTH;
+    this.maxHeight = options.maxHeight ?? DEFAULT_MAX_HEIGHT;
+  }
+
+  /**
+   * Start (or, after a reconnect, restart) recording the page behind `client`
+   */
+  async start(client: any): Promise<void> {
+    this.unsubscribe?.();
+    fs.mkdirSync(this.bufferDir, { recursive: true });
+
+    this.client = client;
+    const { Page } = client;
+    this.unsubscribe = Page.screencastFrame((params: any, sessionId?: string) => {
+      if (!sessionId) {
+        this.storeFrame(client, params);
+      }
+    });
+    await Page.startScreencast({
+      format: 'png', // decodable without native dependencies
+      maxWidth: this.maxWidth,
+      maxHeight: this.maxHeight
+    });
+  }
+
+  /**
+   * Stop recording, let clips being encoded finish and delete the frame buffer
+   */
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    await this.client?.Page.stopScreencast().catch(() => undefined);
+    this.client = undefined;
+
+    await this.encoding;
+    fs.rmSync(this.bufferDir, { recursive: true, force: true });
+    this.frames = [];
+  }
+
+  /**
+   * Save the recording of the last `clipSeconds`; undefined when nothing was recorded yet
+   */
+  captureClip(): ClipReference | undefined {
+    const now = Date.now();
+    if (this.lastClip && now - this.lastClip.capturedAt < CLIP_REUSE_MS) {
+      return this.lastClip.clip;
+    }
+    if (this.frames.length === 0) {
+      return undefined;
+    }
+
+    // The screencast only sends a frame when the page changes: start with the one on screen at `start`
+    const start = now - this.clipMs;
+    const after = this.frames.findIndex(frame => frame.time > start);
+    const frames = this.frames.slice(after === -1 ? this.frames.length - 1 : Math.max(0, after - 1));
+
+    const id = `clip-${new Date(now).toISOString().replace(/[:.]/g, '-')}`;
+    const clipDir = path.join(this.dir, id);
+    let copies: BufferedFrame[];
+    try {
+      fs.mkdirSync(clipDir, { recursive: true });
+      copies = frames.map((frame, index) => {
+        const file = path.join(clipDir, `frame-${String(index).padStart(3, '0')}.png`);
+        fs.copyFileSync(frame.file, file);
+        return { time: Math.max(frame.time, start), file };
+      });
+    } catch (error) {
+      console.error('❌ Failed to save screen recording clip:', error);
+      return undefined;
+    }
+
+    const clip: ClipReference = {
+      id,
+      frames: copies.length,
+      from: new Date(copies[0].time).toISOString(),
+      to: new Date(now).toISOString()
+    };
+    this.lastClip = { capturedAt: now, clip };
+    this.onClipWritten(clipDir);
+
+    this.encoding = this.encoding
+      .then(() => this.encodeGif(clipDir, copies, now))
+      .catch(error => console.error(`❌ Failed to encode clip ${id}:`, error));
+
+    return clip;
+  }
+
+  private storeFrame(client: any, params: any): void {
+    // Chrome sends no further frames until this one is acknowledged
+    client.Page.screencastFrameAck({ sessionId: params.sessionId }).catch(() => undefined);
+
+    const now = Date.now();
+    const last = this.frames[this.frames.length - 1];
+    try {
+      // Above the frame rate cap, the newest picture replaces the last one kept
+      if (last && now - last.time < this.minFrameIntervalMs) {
+        fs.writeFileSync(last.file, params.data, 'base64');
+        return;
+      }
+
+      const file = path.join(this.bufferDir, `${now}.png`);
+      fs.writeFileSync(file, params.data, 'base64');
+      this.frames.push({ time: now, file });
+    } catch (error) {
+      console.error('❌ Failed to store screencast frame:', error);
+      return;
+    }
+
+    // Keep the frame that was on screen when the oldest possible clip would start
+    const cutoff = now - this.clipMs;
+    while (this.frames.length > 1 && this.frames[1].time <= cutoff) {
+      fs.rmSync(this.frames.shift()!.file, { force: true });
+    }
+  }
+
+  private async encodeGif(clipDir: string, frames: BufferedFrame[], end: number): Promise<void> {
+    if (!fs.existsSync(clipDir)) {
+      return; // evicted while waiting for earlier clips
+    }
+    let encoder: GifEncoder | undefined;
+
+    for (let i = 0; i < frames.length; i++) {
+      const image = decodePng(fs.readFileSync(frames[i].file));
+      encoder = encoder || new GifEncoder(image.width, image.height);
+
+      const last = i === frames.length - 1;
+      const shownUntil = last ? end + FINAL_FRAME_HOLD_MS : frames[i + 1].time;
+      encoder.addFrame(image, shownUntil - frames[i].time);
+
+      // Each frame takes tens of milliseconds to encode; let CDP events through in between
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    // Written under another name first so a half-written GIF is never served
+    const gifPath = path.join(clipDir, GIF_FILE);
+    fs.writeFileSync(`${gifPath}.tmp`, encoder!.finish());
+    fs.renameSync(`${gifPath}.tmp`, gifPath);
+    this.onClipWritten(clipDir);
+    console.log(`🎞️  Clip saved: ${gifPath}`);
+  }
+}
@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DecodedImage, decodePng } from './png-decoder';
+
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp';
+
+export const SCREENSHOT_FORMATS: ScreenshotFormat[] = ['png', 'jpeg', 'webp'];
+
+export interface ScreenshotOptions {
+  format?: ScreenshotFormat; // default png
+  quality?: number; // 0-100, jpeg and webp only (default 80)
+  maxDiskMb?: number; // screenshots and thumbnails beyond this are evicted, least recently used first (default 200)
+  minIntervalMs?: number; // one screenshot per context and target in this window (default 2000, 0 = no limit)
+  thumbnailWidth?: number; // default 320
+}
+
+interface StoredScreenshot {
+  size: number; // bytes, thumbnail included
+}
+
+export interface CapturedScreenshot {
+  path: string;
+  reused: boolean; // an earlier file of the same picture
+}
+
+interface RecentFrame {
+  hash: string;
+  file: string;
+}
+
+const DEFAULT_QUALITY = 80;
+const DEFAULT_MAX_DISK_MB = 200;
+const DEFAULT_MIN_INTERVAL_MS = 2000;
+const DEFAULT_THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_DIR = 'thumbnails';
+export const CLIPS_DIR = 'clips'; // --record-video clips, one directory each
+const IMAGE_FILE = /\.(png|jpe?g|webp)$/i;
+
+// Difference hash on a (HASH_SIZE + 1) x HASH_SIZE grayscale grid: one bit per horizontal gradient
+const HASH_SIZE = 16;
+// Bits that may differ between frames treated as unchanged (cursor blink, antialiasing)
+const DUPLICATE_DISTANCE = 2;
+// Hashes remembered per target: a page flipping between a few states reuses all of them
+const RECENT_FRAMES = 20;
+
+/**
+ * Screenshot files of a session: deduplicated, rate limited and kept within a disk budget.
+ *
+ * Errors trigger screenshots, and a page with a failing polling request would otherwise
+ * write the same picture every few seconds. Each capture first takes a small PNG
+ * thumbnail, which doubles as the frame's perceptual hash: when it matches a recent frame
+ * of the same target, that frame's file is returned instead of capturing a new one.
+ * Video clips share the budget: each clip directory is evicted as a whole, like a screenshot.
+ */
+export class ScreenshotStore {
+  private dir: string;
+  private thumbnailDir: string;
+  private format: ScreenshotFormat;
+  private quality: number;
+  private maxBytes: number;
+  private minIntervalMs: number;
+  private thumbnailWidth: number;
+  private files = new Map<string, StoredScreenshot>(); // by file name (clips/<id> for clips), least recently used first
+  private totalBytes = 0;
+  private recent = new Map<string, RecentFrame[]>(); // per target, newest first
+  private lastByContext = new Map<string, { at: number; file: string }>();
+
+  constructor(dir: string, options: ScreenshotOptions = {}) {
+    this.dir = dir;
+    this.thumbnailDir = path.join(dir, THUMBNAIL_DIR);
+    this.format = options.format || 'png';
+    this.quality = options.quality ?? DEFAULT_QUALITY;
+    this.maxBytes = (options.maxDiskMb ?? DEFAULT_MAX_DISK_MB) * 1024 * 1024;
+    this.minIntervalMs = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+    this.thumbnailWidth = options.thumbnailWidth ?? DEFAULT_THUMBNAIL_WIDTH;
+
+    fs.mkdirSync(this.thumbnailDir, { recursive: true });
+    this.loadExisting();
+    this.evict();
+  }
+
+  /**
+   * Screenshot of the page behind `client` for `context`, reusing a recent identical one.
+   * `target` scopes deduplication and rate limiting.
+   */
+  async capture(client: any, context: string, target: string): Promise<CapturedScreenshot> {
+    const { Page } = client;
+    const now = Date.now();
+
+    const contextKey = `${target}\n${context}`;
+    const last = this.lastByContext.get(contextKey);
+    if (last && now - last.at < this.minIntervalMs && this.files.has(last.file)) {
+      this.touch(last.file);
+      return { path: path.join(this.dir, last.file), reused: true };
+    }
+
+    const { cssLayoutViewport, cssVisualViewport } = await Page.getLayoutMetrics();
+    const viewport = cssVisualViewport || cssLayoutViewport;
+    const thumbnail = await Page.captureScreenshot({
+      format: 'png',
+      captureBeyondViewport: false,
+      clip: {
+        x: viewport.pageX,
+        y: viewport.pageY,
+        width: viewport.clientWidth,
+        height: viewport.clientHeight,
+        scale: Math.min(1, this.thumbnailWidth / viewport.clientWidth)
+      }
+    });
+    const thumbnailData = Buffer.from(thumbnail.data, 'base64');
+
+    const hash = differenceHash(decodePng(thumbnailData));
+    const frames = this.recent.get(target) || [];
+    const duplicate = frames.find(frame => hammingDistance(frame.hash, hash) <= DUPLICATE_DISTANCE && this.files.has(frame.file));
+    if (duplicate) {
+      this.touch(duplicate.file);
+      this.lastByContext.set(contextKey, { at: now, file: duplicate.file });
+      return { path: path.join(this.dir, duplicate.file), reused: true };
+    }
+
+    const screenshot = await Page.captureScreenshot({
+      format: this.format,
+      ...(this.format === 'png' ? {} : { quality: this.quality }),
+      captureBeyondViewport: false
+    });
+    const data = Buffer.from(screenshot.data, 'base64');
+
+    const timestamp = new Date(now).toISOString().replace(/[:.]/g, '-');
+    const extension = this.format === 'jpeg' ? 'jpg' : this.format;
+    const file = context ? `error-${context}-${timestamp}.${extension}` : `screenshot-${timestamp}.${extension}`;
+    fs.writeFileSync(path.join(this.dir, file), data);
+    fs.writeFileSync(path.join(this.thumbnailDir, thumbnailName(file)), thumbnailData);
+
+    this.add(file, data.length + thumbnailData.length);
+    this.recent.set(target, [{ hash, file }, ...frames].slice(0, RECENT_FRAMES));
+    this.lastByContext.set(contextKey, { at: now, file });
+    this.evict();
+
+    return { path: path.join(this.dir, file), reused: false };
+  }
+
+  /**
+   * Count a clip directory (clips/<id>) against the budget, or update its size once more
+   * files were written to it. Older screenshots and clips are evicted to make room.
+   */
+  trackClip(clipDir: string): void {
+    if (!fs.existsSync(clipDir)) {
+      return; // already evicted
+    }
+    const name = path.relative(this.dir, clipDir);
+    const stored = this.files.get(name);
+    if (stored) {
+      this.files.delete(name);
+      this.totalBytes -= stored.size;
+    }
+    this.add(name, directorySize(clipDir));
+    this.evict();
+  }
+
+  // Screenshots and clips left by earlier runs of the session count against the budget, oldest first
+  private loadExisting(): void {
+    const screenshots = fs.readdirSync(this.dir, { withFileTypes: true })
+      .filter(entry => entry.isFile() && IMAGE_FILE.test(entry.name))
+      .map(entry => {
+        const stat = fs.statSync(path.join(this.dir, entry.name));
+        const thumbnail = path.join(this.thumbnailDir, thumbnailName(entry.name));
+        const thumbnailSize = fs.existsSync(thumbnail) ? fs.statSync(thumbnail).size : 0;
+        return { name: entry.name, size: stat.size + thumbnailSize, mtime: stat.mtimeMs };
+      });
+
+    const clipsDir = path.join(this.dir, CLIPS_DIR);
+    const clips = !fs.existsSync(clipsDir) ? [] : fs.readdirSync(clipsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => {
+        const clipDir = path.join(clipsDir, entry.name);
+        return { name: path.join(CLIPS_DIR, entry.name), size: directorySize(clipDir), mtime: fs.statSync(clipDir).mtimeMs };
+      });
+
+    const existing = [...screenshots, ...clips].sort((a, b) => a.mtime - b.mtime);
+
+    for (const { name, size } of existing) {
+      this.add(name, size);
+    }
+  }
+
+  private add(file: string, size: number): void {
+    this.files.set(file, { size });
+    this.totalBytes += size;
+  }
+
+  private touch(file: string): void {
+    const stored = this.files.get(file)!;
+    this.files.delete(file);
+    this.files.set(file, stored);
+  }
+
+  // Delete least recently used screenshots and clips until the total fits; the newest one always stays
+  private evict(): void {
+    while (this.totalBytes > this.maxBytes && this.files.size > 1) {
+      const [file, { size }] = this.files.entries().next().value as [string, StoredScreenshot];
+      this.files.delete(file);
+      this.totalBytes -= size;
+      fs.rmSync(path.join(this.dir, file), { recursive: true, force: true });
+      if (IMAGE_FILE.test(file)) {
+        fs.rmSync(path.join(this.thumbnailDir, thumbnailName(file)), { force: true });
+      }
+    }
+  }
+}
+
+/**
+ * Thumbnail file name of a screenshot (thumbnails are always PNG)
+ */
+export function thumbnailName(file: string): string {
+  return file.replace(IMAGE_FILE, '.png');
+}
+
+function directorySize(dir: string): number {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isFile())
+      .reduce((total, entry) => total + fs.statSync(path.join(dir, entry.name)).size, 0);
+  } catch {
+    return 0;
+  }
+}
+
+function differenceHash(image: DecodedImage): string {
+  const columns = HASH_SIZE + 1;
+  const rows = HASH_SIZE;
+  const gray = new Float64Array(columns * rows);
+  const counts = new Uint32Array(columns * rows);
+
+  // Box-average the image down to the grid
+  for (let y = 0; y < image.height; y++) {
+    const row = Math.min(rows - 1, Math.floor(y * rows / image.height));
+    for (let x = 0; x < image.width; x++) {
+      const column = Math.min(columns - 1, Math.floor(x * columns / image.width));
+      const i = (y * image.width + x) * 4;
+      gray[row * columns + column] += 0.299 * image.pixels[i] + 0.587 * image.pixels[i + 1] + 0.114 * image.pixels[i + 2];
+      counts[row * columns + column]++;
+    }
+  }
+
+  let bits = '';
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < HASH_SIZE; column++) {
+      const left = gray[row * columns + column] / (counts[row * columns + column] || 1);
+      const right = gray[row * columns + column + 1] / (counts[row * columns + column + 1] || 1);
+      bits += left < right ? '1' : '0';
+    }
+  }
+  return bits;
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance;
+}
@@ -3,6 +3,8 @@ import spawn from 'cross-spawn';
 import treeKill from 'tree-kill';
 import * as path from 'path';
 import * as fs from 'fs';
+import { DaisyLogger } from './logger';
+import { ServerOutputCapture } from './server-output';
 
 interface ParsedCommand {
   command: string;
@@ -14,6 +16,12 @@ interface ParsedCommand {
 export class ScriptRunner {
   private process: ChildProcess | null = null;
   private readonly isWindows = process.platform === 'win32';
+  private outputCapture: ServerOutputCapture | null;
+
+  constructor(logger?: DaisyLogger) {
+    // Without a logger the script output is only echoed to the terminal
+    this.outputCapture = logger ? new ServerOutputCapture(logger) : null;
+  }
 
   /**
    * Checks if a command is available in PATH (synchronous check)
@@ -326,22 +334,27 @@ export class ScriptRunner {
 
     // Handle stdout with null checks
     if (this.process && this.process.stdout) {
-      this.process.stdout.on('data', (data) => {
-        console.log(`[SCRIPT] ${data.toString().trim()}`);
+      this.process.stdout.setEncoding('utf8');
+      this.process.stdout.on('data', (data: string) => {
+        console.log(`[SCRIPT] ${data.trim()}`);
+        this.outputCapture?.write('stdout', data);
       });
     }
 
     // Handle stderr with null checks
     if (this.process && this.process.stderr) {
-      this.process.stderr.on('data', (data) => {
-        console.error(`[SCRIPT ERROR] ${data.toString().trim()}`);
+      this.process.stderr.setEncoding('utf8');
+      this.process.stderr.on('data', (data: string) => {
+        console.error(`[SCRIPT ERROR] ${data.trim()}`);
+        this.outputCapture?.write('stderr', data);
       });
     }
 
     // Handle process exit with null checks
     if (this.process) {
-      this.process.on('close', (code) => {
+      this.process.on('close', (code, signal) => {
         console.log(`[SCRIPT] Process exited with code ${code}`);
+        this.outputCapture?.recordExit(code, signal);
       });
 
       this.process.on('error', (error) => {
@@ -353,6 +366,12 @@ export class ScriptRunner {
   }
 
   stop(): void {
+    // Stop capturing so the shutdown noise doesn't land after the log footer
+    if (this.outputCapture) {
+      this.outputCapture.flush();
+      this.outputCapture = null;
+    }
+
     if (this.process && this.process.pid) {
       // Use tree-kill for cross-platform process tree termination
       treeKill(this.process.pid, 'SIGTERM', (err?: Error) => {
@@ -0,0 +1,278 @@
+/**
+ * In-page selector engine shared by the interaction tracker and the Control API actions.
+ *
+ * Evaluates to { resolveAll, resolveFirst, generate }. Besides CSS it understands
+ * `text=<exact text>` and `role=<role>[name="<accessible name>"]`. `generate` returns every
+ * selector that uniquely matches an element, most resilient first (test ids, stable id,
+ * aria-label, field name, role and name, text) and always ends with a structural CSS path,
+ * so a recording keeps a selector that resolves after attributes or copy change.
+ */
+export const SELECTOR_ENGINE_SCRIPT = `
+(() => {
+  const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test', 'data-test-id', 'data-cy', 'data-qa'];
+  const INTERACTIVE = 'a, button, input, select, textarea, label, summary, option, [role], [onclick], [tabindex]';
+  const TEXT_NAMED_ROLES = ['button', 'link', 'heading', 'option', 'tab', 'menuitem', 'listitem', 'cell', 'checkbox', 'radio', 'switch'];
+  const MAX_SELECTORS = 5;
+  const MAX_TEXT_LENGTH = 50;
+
+  function normalize(text) {
+    return (text || '').replace(/\\s+/g, ' ').trim();
+  }
+
+  function quoteAttribute(value) {
+    return '"' + value.replace(/["\\\\]/g, '\\\\$&').replace(/\\n/g, '\\\\a ') + '"';
+  }
+
+  // Generated ids (React useId, numbered or hashed) change between renders and builds
+  function isStableId(id) {
+    return !!id && !/[:\\s]/.test(id) && !/\\d{4,}/.test(id) && !/^[a-z]{0,3}[-_]?[0-9a-f]{6,}$/i.test(id);
+  }
+
+  // CSS-module, styled-components and emotion class names carry build hashes
+  function isStableClass(name) {
+    if (/^(css|sc|jsx|svelte|emotion)-/i.test(name)) return false;
+    const tail = name.split(/[-_]/).pop() || '';
+    return !(tail.length >= 5 && /\\d/.test(tail) && /[a-z]/i.test(tail));
+  }
+
+  function roleOf(el) {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit.trim().split(/\\s+/)[0];
+
+    const tag = el.tagName.toLowerCase();
+    switch (tag) {
+      case 'button':
+      case 'summary':
+        return 'button';
+      case 'a':
+        return el.hasAttribute('href') ? 'link' : null;
+      case 'select':
+        return el.multiple ? 'listbox' : 'combobox';
+      case 'textarea':
+        return 'textbox';
+      case 'option':
+        return 'option';
+      case 'li':
+        return 'listitem';
+      case 'img':
+        return el.getAttribute('alt') ? 'img' : null;
+      case 'dialog':
+        return 'dialog';
+      case 'nav':
+        return 'navigation';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return 'heading';
+      case 'input': {
+        const type = (el.getAttribute('type') || 'text').toLowerCase();
+        if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+        if (type === 'checkbox' || type === 'radio') return type;
+        if (type === 'range') return 'slider';
+        if (type === 'number') return 'spinbutton';
+        if (type === 'search') return 'searchbox';
+        if (['text', 'email', 'tel', 'url'].includes(type)) return 'textbox';
+        return null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  function accessibleName(el) {
+    const label = el.getAttribute('aria-label');
+    if (label && normalize(label)) return normalize(label);
+
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\\s+/).map(id => {
+        const ref = document.getElementById(id);
+        return ref ? ref.textContent : '';
+      }).join(' ');
+      if (normalize(text)) return normalize(text);
+    }
+
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+      const labels = el.labels ? Array.from(el.labels).map(l => l.textContent).join(' ') : '';
+      if (normalize(labels)) return normalize(labels);
+      const type = (el.getAttribute('type') || '').toLowerCase();
+      if (['button', 'submit', 'reset'].includes(type) && el.value) return normalize(el.value);
+      if (el.getAttribute('placeholder')) return normalize(el.getAttribute('placeholder'));
+    }
+    if (tag === 'img' && el.getAttribute('alt')) return normalize(el.getAttribute('alt'));
+
+    const role = roleOf(el);
+    if (role && TEXT_NAMED_ROLES.includes(role)) {
+      const text = normalize(el.textContent);
+      if (text) return text;
+    }
+    return normalize(el.getAttribute('title'));
+  }
+
+  function allElements(root) {
+    return Array.from((root.body || root).querySelectorAll('*'));
+  }
+
+  // Innermost elements whose whole text is the given text
+  function byText(text, root) {
+    const wanted = normalize(text);
+    return allElements(root).filter(el =>
+      normalize(el.textContent) === wanted &&
+      !Array.from(el.children).some(child => normalize(child.textContent) === wanted)
+    );
+  }
+
+  function byRole(selector, root) {
+    const match = /^role=([\\w-]+)(?:\\[name=("(?:[^"\\\\]|\\\\.)*")\\])?$/.exec(selector);
+    if (!match) return [];
+    const name = match[2] ? JSON.parse(match[2]) : undefined;
+    return allElements(root).filter(el => roleOf(el) === match[1] && (name === undefined || accessibleName(el) === name));
+  }
+
+  /**
+   * Elements matching a selector: CSS, text=<exact text> or role=<role>[name="<accessible name>"]
+   */
+  function resolveAll(selector, root) {
+    root = root || document;
+    if (typeof selector !== 'string' || !selector) return [];
+    if (selector.startsWith('text=')) return byText(selector.slice(5), root);
+    if (selector.startsWith('role=')) return byRole(selector, root);
+    try {
+      return Array.from(root.querySelectorAll(selector));
+    } catch (err) {
+      return [];
+    }
+  }
+
+  /**
+   * First of several candidate selectors that still finds the element; a unique match beats an ambiguous one
+   */
+  function resolveFirst(selectors, root) {
+    const list = Array.isArray(selectors) ? selectors : [selectors];
+    let fallback = null;
+    for (const selector of list) {
+      const matches = resolveAll(selector, root);
+      if (matches.length === 1) return { element: matches[0], selector: selector, unique: true };
+      if (matches.length > 1 && !fallback) fallback = { element: matches[0], selector: selector, unique: false };
+    }
+    return fallback;
+  }
+
+  function isUnique(selector, el) {
+    const matches = resolveAll(selector);
+    return matches.length === 1 && matches[0] === el;
+  }
+
+  // Selector that identifies an element on its own (test id or stable id), if it has one
+  function anchorSelector(el) {
+    for (const attribute of TEST_ID_ATTRIBUTES) {
+      const value = el.getAttribute(attribute);
+      if (value) {
+        const selector = '[' + attribute + '=' + quoteAttribute(value) + ']';
+        if (isUnique(selector, el)) return selector;
+      }
+    }
+    if (isStableId(el.id)) {
+      const selector = '#' + CSS.escape(el.id);
+      if (isUnique(selector, el)) return selector;
+    }
+    return null;
+  }
+
+  // Tag, stable classes and :nth-of-type from the element up to the first unique ancestor
+  function structuralPath(el) {
+    const parts = [];
+    let node = el;
+    while (node && node.nodeType === 1 && node !== document.documentElement) {
+      if (node !== el) {
+        const anchor = anchorSelector(node);
+        if (anchor) {
+          parts.unshift(anchor);
+          return parts.join(' > ');
+        }
+      }
+
+      let part = node.tagName.toLowerCase();
+      const classes = Array.from(node.classList || []).filter(isStableClass).slice(0, 2);
+      if (classes.length > 0) part += '.' + classes.map(c => CSS.escape(c)).join('.');
+      const parent = node.parentElement;
+      if (parent) {
+        const sameTag = Array.from(parent.children).filter(child => child.tagName === node.tagName);
+        if (sameTag.length > 1) part += ':nth-of-type(' + (sameTag.indexOf(node) + 1) + ')';
+      }
+      parts.unshift(part);
+
+      const path = parts.join(' > ');
+      if (isUnique(path, el)) return path;
+      node = parent;
+    }
+    return parts.join(' > ');
+  }
+
+  /**
+   * Unique selectors for an element, most resilient first: test ids, stable id, aria-label,
+   * form field name, role and accessible name, text, then a structural CSS path
+   */
+  function generate(el) {
+    if (!el || el === document || el.nodeType !== 1) {
+      return { selector: 'document', selectors: ['document'] };
+    }
+
+    const tag = el.tagName.toLowerCase();
+    const candidates = [];
+    for (const attribute of TEST_ID_ATTRIBUTES) {
+      const value = el.getAttribute(attribute);
+      if (value) candidates.push('[' + attribute + '=' + quoteAttribute(value) + ']');
+    }
+    if (isStableId(el.id)) candidates.push('#' + CSS.escape(el.id));
+
+    const label = el.getAttribute('aria-label');
+    if (label) candidates.push(tag + '[aria-label=' + quoteAttribute(label) + ']');
+
+    const name = el.getAttribute('name');
+    if (name && ['input', 'select', 'textarea', 'button'].includes(tag)) {
+      candidates.push(tag + '[name=' + quoteAttribute(name) + ']');
+    }
+
+    const role = roleOf(el);
+    const accessible = role ? accessibleName(el) : '';
+    if (role && accessible && accessible.length <= MAX_TEXT_LENGTH) {
+      candidates.push('role=' + role + '[name=' + JSON.stringify(accessible) + ']');
+    }
+
+    const text = normalize(el.textContent);
+    if (text && text.length <= MAX_TEXT_LENGTH && el.matches(INTERACTIVE)) {
+      candidates.push('text=' + text);
+    }
+
+    const selectors = [];
+    for (const candidate of candidates) {
+      if (selectors.length >= MAX_SELECTORS - 1) break;
+      if (!selectors.includes(candidate) && isUnique(candidate, el)) selectors.push(candidate);
+    }
+    // Always keep a structural path so something resolves when attributes and text change
+    const path = structuralPath(el);
+    if (!selectors.includes(path)) selectors.push(path);
+
+    return { selector: selectors[0], selectors: selectors };
+  }
+
+  return { resolveAll: resolveAll, resolveFirst: resolveFirst, generate: generate };
+})()
+`;
+
+/**
+ * Expression that finds the first of `selector` (or a list of fallbacks) that matches:
+ * { element, selector, unique } or null
+ */
+export function resolveSelectorExpression(selector: string | string[]): string {
+  return `(${SELECTOR_ENGINE_SCRIPT}).resolveFirst(${JSON.stringify(toSelectorList(selector))})`;
+}
+
+export function toSelectorList(selector: string | string[]): string[] {
+  return Array.isArray(selector) ? selector : [selector];
+}
+
+// Human-readable form of a selector or list of fallbacks for logs and errors
+export function describeSelector(selector: string | string[]): string {
+  return toSelectorList(selector).join(' | ');
+}
@@ -0,0 +1,158 @@
+import { DaisyLogger } from './logger';
+
+export type ServerStream = 'stdout' | 'stderr';
+export type ServerOutputLevel = 'info' | 'warn' | 'error';
+
+interface PendingBlock {
+  lines: string[];
+  timer: NodeJS.Timeout | null;
+}
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*(\x07|\x1b\\)/g;
+
+// Lines that belong to the block above them (stack frames, code frames, wrapped output)
+const CONTINUATION_PATTERNS = [
+  /^\s+at\s/,                 // V8 stack frame
+  /^\s*\.\.\. \d+ more/,      // Truncated Java/Node stack
+  /^\s*(Caused by|cause):/i,  // Chained errors
+  /^\s*>?\s*\d+\s*\|/,        // Code frame (Vite, Next, Babel, TypeScript)
+  /^\s*\|/,                   // Code frame marker line
+  /^\s*\^+~*\s*$/,            // Caret underline
+  /^\s*[}\]]/,                // End of a printed object/array
+  /^\s{2,}\S/                 // Indented continuation
+];
+
+const ERROR_PATTERN = /\b(error|exception|fatal|unhandled|uncaught|failed|failure|panic|traceback|ERR!|EADDRINUSE|ECONNREFUSED|ENOENT|EACCES)\b|\[error\]|✖|✘/i;
+const NO_ERROR_PATTERN = /\b(no|0) (errors?|problems?)\b|\berrors?: 0\b/i;
+const WARN_PATTERN = /\b(warn|warning|deprecated|deprecation)\b|\[warn\]|⚠/i;
+
+const MAX_BLOCK_LINES = 200;
+
+/**
+ * Turns the user's dev-server output into structured 'server' log entries.
+ *
+ * Output arrives in arbitrary chunks, so partial lines are buffered per stream and
+ * continuation lines (stack frames, code frames) are grouped with the line that
+ * started them. A block is written once output goes quiet for `flushDelayMs`.
+ */
+export class ServerOutputCapture {
+  private logger: DaisyLogger;
+  private flushDelayMs: number;
+  private partial: Record<ServerStream, string> = { stdout: '', stderr: '' };
+  private pending: Record<ServerStream, PendingBlock> = {
+    stdout: { lines: [], timer: null },
+    stderr: { lines: [], timer: null }
+  };
+
+  constructor(logger: DaisyLogger, flushDelayMs: number = 150) {
+    this.logger = logger;
+    this.flushDelayMs = flushDelayMs;
+  }
+
+  /**
+   * Feed a chunk of child process output
+   */
+  write(stream: ServerStream, chunk: string): void {
+    const text = this.partial[stream] + chunk;
+    const lines = text.split(/\r?\n/);
+    this.partial[stream] = lines.pop() || '';
+
+    for (const rawLine of lines) {
+      this.addLine(stream, rawLine);
+    }
+
+    this.scheduleFlush(stream);
+  }
+
+  /**
+   * Write out everything buffered, including an unterminated last line
+   */
+  flush(stream?: ServerStream): void {
+    const streams: ServerStream[] = stream ? [stream] : ['stdout', 'stderr'];
+    for (const s of streams) {
+      if (this.partial[s]) {
+        this.addLine(s, this.partial[s]);
+        this.partial[s] = '';
+      }
+      this.flushBlock(s);
+    }
+  }
+
+  /**
+   * Flush remaining output and log the dev server's exit. A non-zero exit is an error
+   * because the app under test is no longer being served.
+   */
+  recordExit(code: number | null, signal: NodeJS.Signals | null): void {
+    this.flush();
+    const reason = signal ? `signal ${signal}` : `code ${code}`;
+    const level: ServerOutputLevel = code !== null && code !== 0 ? 'error' : 'info';
+    this.logger.logServerOutput('stderr', [`Dev server process exited with ${reason}`], level);
+  }
+
+  private addLine(stream: ServerStream, rawLine: string): void {
+    // Strip colors and carriage-return progress redraws
+    const line = rawLine.replace(ANSI_PATTERN, '').split('\r').pop()!.trimEnd();
+    const block = this.pending[stream];
+
+    if (!line.trim()) {
+      // Blank lines end a block
+      this.flushBlock(stream);
+      return;
+    }
+
+    if (block.lines.length > 0 && block.lines.length < MAX_BLOCK_LINES && this.isContinuation(line)) {
+      block.lines.push(line);
+      return;
+    }
+
+    this.flushBlock(stream);
+    block.lines.push(line);
+  }
+
+  private isContinuation(line: string): boolean {
+    return CONTINUATION_PATTERNS.some(pattern => pattern.test(line));
+  }
+
+  private scheduleFlush(stream: ServerStream): void {
+    const block = this.pending[stream];
+    if (block.timer) {
+      clearTimeout(block.timer);
+    }
+    block.timer = setTimeout(() => this.flush(stream), this.flushDelayMs);
+  }
+
+  private flushBlock(stream: ServerStream): void {
+    const block = this.pending[stream];
+    if (block.timer) {
+      clearTimeout(block.timer);
+      block.timer = null;
+    }
+    if (block.lines.length === 0) {
+      return;
+    }
+
+    const lines = block.lines;
+    block.lines = [];
+    this.logger.logServerOutput(stream, lines, ServerOutputCapture.detectLevel(lines));
+  }
+
+  /**
+   * Guess the severity of a block of output from its text. The stream is not used as a
+   * signal on its own because many dev servers write ordinary progress to stderr.
+   */
+  static detectLevel(lines: string[]): ServerOutputLevel {
+    const first = lines[0];
+    const hasStackFrames = lines.some(line => /^\s+at\s/.test(line));
+
+    if (hasStackFrames || (ERROR_PATTERN.test(first) && !NO_ERROR_PATTERN.test(first))) {
+      return 'error';
+    }
+    if (WARN_PATTERN.test(first)) {
+      return 'warn';
+    }
+    if (lines.slice(1).some(line => ERROR_PATTERN.test(line) && !NO_ERROR_PATTERN.test(line))) {
+      return 'error';
+    }
+    return 'info';
+  }
+}
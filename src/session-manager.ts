@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import {
+  SessionExitStatus,
+  SessionIndex,
+  SessionRecord,
+  findSessionRecord,
+  listSessions,
+  parseSessionIndex
+} from 'daisy-shared';
+
+export { SessionExitStatus, SessionRecord };
+
+export interface NewSessionOptions {
+  script: string;
+  appPort: number;
+}
+
+/**
+ * Manages per-run session directories under ~/.daisy/logs
+ *
+ * Layout:
+ *   ~/.daisy/logs/sessions.json             - index of all sessions (newest first)
+ *   ~/.daisy/logs/daisy-current.log         - pointer (symlink or synced copy) to the newest session log
+ *   ~/.daisy/logs/sessions/<id>/daisy.log   - session log
+ *   ~/.daisy/logs/sessions/<id>/screenshots - session screenshots
+ */
+export class SessionManager {
+  private logsRoot: string;
+  private indexPath: string;
+  private currentPointerPath: string;
+
+  constructor(logsRoot: string = SessionManager.defaultLogsRoot()) {
+    this.logsRoot = logsRoot;
+    this.indexPath = path.join(logsRoot, 'sessions.json');
+    this.currentPointerPath = path.join(logsRoot, 'daisy-current.log');
+
+    if (!fs.existsSync(path.join(logsRoot, 'sessions'))) {
+      fs.mkdirSync(path.join(logsRoot, 'sessions'), { recursive: true });
+    }
+  }
+
+  static defaultLogsRoot(): string {
+    // Use user's home directory with .daisy subdirectory for cross-platform compatibility
+    return path.join(os.homedir(), '.daisy', 'logs');
+  }
+
+  getIndexPath(): string {
+    return this.indexPath;
+  }
+
+  getCurrentPointerPath(): string {
+    return this.currentPointerPath;
+  }
+
+  /**
+   * Create a new session directory and register it in the index
+   */
+  createSession(options: NewSessionOptions): SessionRecord {
+    const startTime = new Date();
+    const id = this.generateSessionId(startTime);
+    const sessionDir = path.join(this.logsRoot, 'sessions', id);
+    const screenshotsDir = path.join(sessionDir, 'screenshots');
+
+    fs.mkdirSync(screenshotsDir, { recursive: true });
+
+    const record: SessionRecord = {
+      id,
+      startTime: startTime.toISOString(),
+      script: options.script,
+      appPort: options.appPort,
+      exitStatus: 'running',
+      pid: process.pid,
+      sessionDir,
+      logFile: path.join(sessionDir, 'daisy.log'),
+      screenshotsDir
+    };
+
+    this.updateIndex(index => {
+      index.sessions.unshift(record);
+    });
+
+    return record;
+  }
+
+  /**
+   * Point daisy-current.log at the given session log.
+   * Returns true when a symlink was created, false when the caller must keep a copy in sync
+   * (symlinks usually require elevated privileges on Windows).
+   */
+  pointCurrentLogAt(logFile: string): boolean {
+    try {
+      fs.rmSync(this.currentPointerPath, { force: true });
+    } catch {
+      // Ignore - we will overwrite below
+    }
+
+    try {
+      fs.symlinkSync(logFile, this.currentPointerPath, 'file');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Mark a session as finished
+   */
+  endSession(id: string, exitStatus: Exclude<SessionExitStatus, 'running'>, scriptExitCode?: number | null): void {
+    this.updateIndex(index => {
+      const record = index.sessions.find(s => s.id === id);
+      if (record) {
+        record.endTime = new Date().toISOString();
+        record.exitStatus = exitStatus;
+        if (scriptExitCode !== undefined) {
+          record.scriptExitCode = scriptExitCode;
+        }
+      }
+    });
+  }
+
+  /**
+   * Record the exit code of the user's dev script without ending the session
+   */
+  recordScriptExit(id: string, scriptExitCode: number | null): void {
+    this.updateIndex(index => {
+      const record = index.sessions.find(s => s.id === id);
+      if (record) {
+        record.scriptExitCode = scriptExitCode;
+      }
+    });
+  }
+
+  /**
+   * List sessions, newest first. Sessions whose daisy process died without
+   * cleaning up are reported as interrupted.
+   */
+  listSessions(): SessionRecord[] {
+    return listSessions(this.readIndex(), pid => this.isProcessAlive(pid));
+  }
+
+  /**
+   * Find a session by ID, unique ID prefix, or the alias "latest"
+   */
+  findSession(idOrAlias: string): SessionRecord | undefined {
+    return findSessionRecord(this.listSessions(), idOrAlias);
+  }
+
+  private generateSessionId(date: Date): string {
+    // e.g. 20251019-142400-a1b2
+    const stamp = date.toISOString()
+      .replace(/[-:]/g, '')
+      .replace('T', '-')
+      .substring(0, 15);
+    return `${stamp}-${crypto.randomBytes(2).toString('hex')}`;
+  }
+
+  private readIndex(): SessionIndex {
+    try {
+      if (fs.existsSync(this.indexPath)) {
+        const index = parseSessionIndex(fs.readFileSync(this.indexPath, 'utf8'));
+        if (index) {
+          return index;
+        }
+      }
+    } catch (error) {
+      console.warn(`   ⚠️  Could not read session index, starting a new one: ${error}`);
+    }
+
+    return { version: 1, sessions: [] };
+  }
+
+  private updateIndex(mutate: (index: SessionIndex) => void): void {
+    const index = this.readIndex();
+    mutate(index);
+
+    // Write to a temp file and rename so readers never see a half-written index
+    const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(index, null, 2));
+      fs.renameSync(tempPath, this.indexPath);
+    } catch (error) {
+      console.error('❌ Failed to update session index:', error);
+      fs.rmSync(tempPath, { force: true });
+    }
+  }
+
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error: any) {
+      // EPERM means the process exists but belongs to someone else
+      return error.code === 'EPERM';
+    }
+  }
+}
@@ -0,0 +1,401 @@
+import {
+  InteractionStep,
+  LogEntry,
+  buildInteractionSteps,
+  findFirstError,
+  getEventMessage,
+  getEventUrl,
+  isApplicationError
+} from 'daisy-shared';
+import { DevToolsMonitor } from './devtools-monitor';
+import { DaisyLogger } from './logger';
+import { resolveSelectorExpression } from './selector-engine';
+
+export interface ReplayOptions {
+  from?: string; // ISO timestamp, inclusive
+  to?: string;
+  untilError?: boolean; // replay the interactions leading up to the first error in the range
+  lookbackSeconds?: number; // with untilError and no `from`: how far before the error to start
+  speed?: number; // 1 = recorded pace, 2 = twice as fast, 0 = no waiting between steps
+  maxDelayMs?: number; // cap on the wait between two steps
+  stepTimeout?: number; // per step, and for the page to reach a step's URL
+  stopOnDivergence?: boolean;
+  settleMs?: number; // wait after the last step for the original error to reappear
+}
+
+export type ReplayStepStatus = 'ok' | 'failed' | 'skipped';
+
+export interface ReplayStepResult extends InteractionStep {
+  status: ReplayStepStatus;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ReplayedError {
+  timestamp: string;
+  type: string;
+  source: string;
+  message?: string;
+  url?: string;
+  stepIndex?: number; // step that was running (or last finished) when the error was logged
+}
+
+export interface ReplayDivergence {
+  stepIndex: number;
+  reason: 'url_mismatch' | 'step_failed';
+  message: string;
+  expectedUrl?: string;
+  actualUrl?: string;
+}
+
+export interface ReplayResult {
+  sessionId: string;
+  range: { from?: string; to?: string };
+  steps: ReplayStepResult[];
+  completed: boolean; // every step ran (failed steps included when not stopping on divergence)
+  divergence?: ReplayDivergence; // first point where the replay stopped matching the recording
+  originalError?: ReplayedError;
+  reproduced: boolean;
+  reproducedError?: ReplayedError;
+  errors: ReplayedError[]; // application errors logged during the replay
+  durationMs: number;
+}
+
+const DEFAULT_LOOKBACK_SECONDS = 60;
+const DEFAULT_MAX_DELAY_MS = 5000;
+const DEFAULT_STEP_TIMEOUT_MS = 5000;
+const DEFAULT_SETTLE_MS = 2000;
+const URL_POLL_INTERVAL_MS = 200;
+// A message inside a longer one only counts as the same error from this length on
+const MIN_PARTIAL_MESSAGE_LENGTH = 20;
+
+/**
+ * Re-executes a recorded session's interactions against the monitored browser.
+ *
+ * Steps come from buildInteractionSteps and run through the same DevToolsMonitor actions
+ * as the Control API, waiting between steps as the user did (scaled by `speed`). Before
+ * each step the page must be on the URL the step was recorded on; a different URL or a
+ * failed action is reported as the divergence. Application errors logged while replaying
+ * are compared with the original error to tell whether it was reproduced.
+ */
+export class SessionReplayer {
+  private devToolsMonitor: DevToolsMonitor;
+  private logger: DaisyLogger;
+  private running = false;
+
+  constructor(devToolsMonitor: DevToolsMonitor, logger: DaisyLogger) {
+    this.devToolsMonitor = devToolsMonitor;
+    this.logger = logger;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async replay(sessionId: string, entries: LogEntry[], options: ReplayOptions = {}): Promise<ReplayResult> {
+    if (this.running) {
+      throw new Error('A replay is already running');
+    }
+
+    const { from, to, original } = this.resolveRange(entries, options);
+    const steps = buildInteractionSteps(entries, { from, to });
+    if (steps.length === 0) {
+      throw new Error(`No recorded interactions in session ${sessionId}${from || to ? ' for the selected range' : ''}`);
+    }
+
+    this.running = true;
+    const startedAt = Date.now();
+    const results: ReplayStepResult[] = [];
+    const errors: ReplayedError[] = [];
+    const originalError = original ? summarizeError(original) : undefined;
+    let divergence: ReplayDivergence | undefined;
+    let reproducedError: ReplayedError | undefined;
+    let currentStep = 0;
+
+    const unsubscribe = this.logger.onEntry(entry => {
+      if (!isApplicationError(entry)) {
+        return;
+      }
+      const error = { ...summarizeError(entry), stepIndex: currentStep };
+      errors.push(error);
+      if (original && !reproducedError && matchesError(original, entry)) {
+        reproducedError = error;
+      }
+    });
+
+    this.logger.logConsole('info', `Replaying ${steps.length} step(s) from session ${sessionId}`);
+
+    try {
+      for (let i = 0; i < steps.length && !reproducedError; i++) {
+        const step = steps[i];
+        currentStep = step.index;
+
+        if (i > 0) {
+          await sleep(this.delayBetween(steps[i - 1], step, options));
+        }
+
+        const stepStart = Date.now();
+
+        // The page should be where the user was when they performed this step
+        if (step.action !== 'navigate' && step.url) {
+          const actualUrl = await this.waitForUrl(step.url, options.stepTimeout ?? DEFAULT_STEP_TIMEOUT_MS);
+          if (actualUrl !== undefined) {
+            divergence = divergence || {
+              stepIndex: step.index,
+              reason: 'url_mismatch',
+              message: `Expected ${step.url} before step ${step.index} (${step.action}), page is on ${actualUrl}`,
+              expectedUrl: step.url,
+              actualUrl
+            };
+            if (options.stopOnDivergence !== false) {
+              results.push({ ...step, status: 'skipped', error: divergence.message, durationMs: Date.now() - stepStart });
+              break;
+            }
+            try {
+              await this.devToolsMonitor.navigateTo(step.url, true, options.stepTimeout ?? DEFAULT_STEP_TIMEOUT_MS);
+            } catch (error: any) {
+              results.push({
+                ...step,
+                status: 'failed',
+                error: `Could not navigate back to ${step.url}: ${error.message}`,
+                durationMs: Date.now() - stepStart
+              });
+              continue;
+            }
+          }
+        }
+
+        if (step.redacted) {
+          results.push({
+            ...step,
+            status: 'skipped',
+            error: 'Typed text was redacted when recorded',
+            durationMs: Date.now() - stepStart
+          });
+          continue;
+        }
+
+        try {
+          await this.executeStep(step, options.stepTimeout ?? DEFAULT_STEP_TIMEOUT_MS);
+          results.push({ ...step, status: 'ok', durationMs: Date.now() - stepStart });
+        } catch (error: any) {
+          results.push({ ...step, status: 'failed', error: error.message, durationMs: Date.now() - stepStart });
+          divergence = divergence || {
+            stepIndex: step.index,
+            reason: 'step_failed',
+            message: `Step ${step.index} (${step.action}${step.selector ? ` ${step.selector}` : ''}) failed: ${error.message}`
+          };
+          if (options.stopOnDivergence !== false) {
+            break;
+          }
+        }
+      }
+
+      // Errors from the last action (a response, a timer) can arrive after it returns
+      const settleUntil = Date.now() + (options.settleMs ?? DEFAULT_SETTLE_MS);
+      while (original && !reproducedError && Date.now() < settleUntil) {
+        await sleep(100);
+      }
+    } finally {
+      unsubscribe();
+      this.running = false;
+    }
+
+    const result: ReplayResult = {
+      sessionId,
+      range: { from, to },
+      steps: results,
+      completed: results.length === steps.length && (!divergence || options.stopOnDivergence === false),
+      divergence,
+      originalError,
+      reproduced: !!reproducedError,
+      reproducedError,
+      errors,
+      durationMs: Date.now() - startedAt
+    };
+
+    this.logger.logConsole(
+      reproducedError || divergence ? 'warn' : 'info',
+      `Replay of session ${sessionId}: ${results.filter(r => r.status === 'ok').length}/${steps.length} step(s) ok` +
+        (reproducedError ? `, reproduced error at step ${reproducedError.stepIndex}` : '') +
+        (divergence ? `, diverged at step ${divergence.stepIndex}: ${divergence.message}` : '')
+    );
+
+    return result;
+  }
+
+  /**
+   * Time range to replay and the error it should lead up to
+   */
+  private resolveRange(entries: LogEntry[], options: ReplayOptions): { from?: string; to?: string; original?: LogEntry } {
+    if (options.untilError) {
+      const original = findFirstError(entries, options.from);
+      if (!original) {
+        throw new Error(`No application error found in the session${options.from ? ` after ${options.from}` : ''}`);
+      }
+      const lookback = (options.lookbackSeconds ?? DEFAULT_LOOKBACK_SECONDS) * 1000;
+      const from = options.from || new Date(new Date(original.timestamp).getTime() - lookback).toISOString();
+      return { from, to: original.timestamp, original };
+    }
+
+    // Without untilError, the first error inside the range is what the replay may reproduce
+    const original = findFirstError(entries, options.from);
+    const inRange = original && (!options.to || new Date(original.timestamp) <= new Date(options.to));
+    return { from: options.from, to: options.to, original: inRange ? original : undefined };
+  }
+
+  private delayBetween(previous: InteractionStep, step: InteractionStep, options: ReplayOptions): number {
+    const speed = options.speed ?? 1;
+    if (speed <= 0 || previous.action === 'navigate') {
+      return 0;
+    }
+    const recorded = new Date(step.timestamp).getTime() - new Date(previous.timestamp).getTime();
+    return Math.max(0, Math.min(recorded / speed, options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS));
+  }
+
+  /**
+   * Wait for the page to reach `expected`; returns the actual URL if it never does
+   */
+  private async waitForUrl(expected: string, timeout: number): Promise<string | undefined> {
+    const deadline = Date.now() + timeout;
+    let actual = '';
+    do {
+      try {
+        actual = (await this.devToolsMonitor.getPageInfo()).url;
+      } catch {
+        // Page is navigating; its context may be gone for a moment
+      }
+      if (sameUrl(actual, expected)) {
+        return undefined;
+      }
+      await sleep(URL_POLL_INTERVAL_MS);
+    } while (Date.now() < deadline);
+    return actual;
+  }
+
+  private async executeStep(step: InteractionStep, timeout: number): Promise<void> {
+    switch (step.action) {
+      case 'navigate':
+        await this.devToolsMonitor.navigateTo(step.url!, true, Math.max(timeout, 10000));
+        return;
+
+      case 'click':
+        if (step.selector && step.selector !== 'document') {
+          await this.devToolsMonitor.clickElement(step.selectors || step.selector, timeout);
+        } else if (step.x !== undefined && step.y !== undefined) {
+          await this.devToolsMonitor.evaluateJavaScript(
+            `(() => {
+              const element = document.elementFromPoint(${step.x}, ${step.y});
+              if (!element) throw new Error('No element at ${step.x},${step.y}');
+              element.click();
+            })()`,
+            true,
+            timeout
+          );
+        } else {
+          throw new Error('Click was recorded without a selector or coordinates');
+        }
+        return;
+
+      case 'type':
+        if (!step.selector || step.selector === 'document') {
+          throw new Error('Typing was recorded outside of an element');
+        }
+        await this.devToolsMonitor.typeText(step.selectors || step.selector, step.text || '', timeout, !!step.clear);
+        return;
+
+      case 'key':
+        await this.devToolsMonitor.pressKey(step.key!, undefined, timeout);
+        return;
+
+      case 'select':
+      case 'check': {
+        if (!step.selector) {
+          throw new Error(`The ${step.action} was recorded without a selector`);
+        }
+        const apply = step.action === 'select'
+          ? `const values = ${JSON.stringify(step.values || [])};
+              Array.from(match.element.options).forEach(option => { option.selected = values.includes(option.value); });
+              match.element.dispatchEvent(new Event('input', { bubbles: true }));
+              match.element.dispatchEvent(new Event('change', { bubbles: true }));`
+          // Clicking toggles it the way the user did, through the page's own handlers
+          : `if (match.element.checked !== ${!!step.checked}) match.element.click();`;
+        await this.devToolsMonitor.evaluateJavaScript(
+          `(() => {
+            const match = ${resolveSelectorExpression(step.selectors || step.selector)};
+            if (!match) throw new Error('Element not found: ' + ${JSON.stringify(step.selector)});
+            ${apply}
+          })()`,
+          true,
+          timeout
+        );
+        return;
+      }
+
+      case 'hover':
+        if (!step.selector) {
+          throw new Error('The hover was recorded without a selector');
+        }
+        await this.devToolsMonitor.hoverElement(step.selectors || step.selector, timeout);
+        return;
+
+      case 'scroll':
+        if (step.selector) {
+          // Restore the element's own scroll offsets rather than scrolling it into view
+          await this.devToolsMonitor.evaluateJavaScript(
+            `(() => {
+              const match = ${resolveSelectorExpression(step.selectors || step.selector)};
+              if (!match) throw new Error('Element not found: ' + ${JSON.stringify(step.selector)});
+              match.element.scrollTo(${step.x || 0}, ${step.y || 0});
+            })()`,
+            true,
+            timeout
+          );
+        } else {
+          await this.devToolsMonitor.scrollTo({ x: step.x, y: step.y, behavior: 'instant' }, undefined, timeout);
+        }
+        return;
+    }
+  }
+}
+
+function summarizeError(entry: LogEntry): ReplayedError {
+  return {
+    timestamp: entry.timestamp,
+    type: entry.type,
+    source: entry.source,
+    message: getEventMessage(entry),
+    url: getEventUrl(entry)
+  };
+}
+
+// Same kind and source of error with the same message (or, for failed requests, the same
+// endpoint). One message may contain the other (a URL or line number added) only when the
+// shorter is long enough not to match unrelated errors.
+function matchesError(original: LogEntry, candidate: LogEntry): boolean {
+  if (original.type !== candidate.type || original.source !== candidate.source) {
+    return false;
+  }
+
+  const expected = getEventMessage(original)?.trim();
+  const actual = getEventMessage(candidate)?.trim();
+  if (expected && actual) {
+    if (expected === actual) {
+      return true;
+    }
+    return Math.min(expected.length, actual.length) >= MIN_PARTIAL_MESSAGE_LENGTH &&
+      (actual.includes(expected) || expected.includes(actual));
+  }
+
+  const expectedUrl = getEventUrl(original)?.split('?')[0];
+  return !!expectedUrl && expectedUrl === getEventUrl(candidate)?.split('?')[0];
+}
+
+function sameUrl(a: string, b: string): boolean {
+  const normalize = (url: string) => url.replace(/\/(?=$|[?#])/, '');
+  return normalize(a) === normalize(b);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
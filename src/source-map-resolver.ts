@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TraceMap, originalPositionFor, sourceContentFor } from '@jridgewell/trace-mapping';
+import { SourceContext, StackFrame } from 'daisy-shared';
+
+// CDP Runtime.CallFrame (0-based line and column)
+export interface CdpCallFrame {
+  functionName: string;
+  scriptId?: string;
+  url: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+interface ParsedScript {
+  url: string;
+  sourceMapURL: string;
+}
+
+const MAX_CACHED_MAPS = 200;
+const MAX_TRACKED_SCRIPTS = 5000;
+const FETCH_TIMEOUT_MS = 3000;
+const CONTEXT_LINES = 3;
+
+/**
+ * Maps bundled stack frames back to original source locations.
+ *
+ * Scripts are registered from Debugger.scriptParsed; a script's source map is loaded on
+ * first use (inline data URL, over HTTP, or from disk under the project directory) and
+ * cached. Frames whose script has no usable map are returned unchanged.
+ */
+export class SourceMapResolver {
+  private scripts = new Map<string, ParsedScript>(); // by scriptId
+  private scriptsByUrl = new Map<string, ParsedScript>();
+  private maps = new Map<string, Promise<TraceMap | null>>(); // by absolute source map URL
+  private projectRoot: string;
+
+  constructor(projectRoot: string = process.cwd()) {
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * Remember where a script's source map lives (Debugger.scriptParsed params)
+   */
+  registerScript(params: { scriptId: string; url: string; sourceMapURL?: string }): void {
+    if (!params.url || !params.sourceMapURL) {
+      return;
+    }
+
+    if (this.scripts.size >= MAX_TRACKED_SCRIPTS) {
+      this.scripts.clear();
+      this.scriptsByUrl.clear();
+    }
+
+    const script = { url: params.url, sourceMapURL: params.sourceMapURL };
+    this.scripts.set(params.scriptId, script);
+    this.scriptsByUrl.set(params.url, script);
+  }
+
+  /**
+   * Resolve every frame of a CDP stack trace
+   */
+  async resolveFrames(callFrames: CdpCallFrame[] = []): Promise<StackFrame[]> {
+    return Promise.all(callFrames.map(frame => this.resolveFrame(frame)));
+  }
+
+  async resolveFrame(frame: CdpCallFrame): Promise<StackFrame> {
+    const generated: StackFrame = {
+      functionName: frame.functionName,
+      url: frame.url,
+      lineNumber: frame.lineNumber,
+      columnNumber: frame.columnNumber
+    };
+
+    const map = await this.getMapForFrame(frame);
+    if (!map) {
+      return generated;
+    }
+
+    const original = originalPositionFor(map, { line: frame.lineNumber + 1, column: frame.columnNumber });
+    if (original.source === null || original.line === null) {
+      return generated;
+    }
+
+    return {
+      functionName: original.name || frame.functionName,
+      url: cleanSourcePath(original.source, this.projectRoot),
+      lineNumber: original.line - 1,
+      columnNumber: original.column ?? 0,
+      generated: { url: frame.url, lineNumber: frame.lineNumber, columnNumber: frame.columnNumber }
+    };
+  }
+
+  /**
+   * A few lines of original source around a (resolved) frame
+   */
+  async getSourceContext(frame: StackFrame): Promise<SourceContext | undefined> {
+    if (!frame.generated) {
+      return undefined;
+    }
+
+    const map = await this.getMapForFrame({ ...frame.generated, functionName: frame.functionName });
+    const original = map
+      ? originalPositionFor(map, { line: frame.generated.lineNumber + 1, column: frame.generated.columnNumber })
+      : null;
+    const content = (map && original?.source ? sourceContentFor(map, original.source) : null)
+      ?? this.readFromDisk(frame.url);
+    if (!content) {
+      return undefined;
+    }
+
+    const lines = content.split('\n');
+    const line = frame.lineNumber + 1;
+    const first = Math.max(1, line - CONTEXT_LINES);
+    const last = Math.min(lines.length, line + CONTEXT_LINES);
+    const excerpt: SourceContext['lines'] = [];
+    for (let n = first; n <= last; n++) {
+      excerpt.push({ line: n, text: lines[n - 1].replace(/\r$/, '').substring(0, 200) });
+    }
+
+    return { file: frame.url, line, column: frame.columnNumber + 1, lines: excerpt };
+  }
+
+  private getMapForFrame(frame: CdpCallFrame): Promise<TraceMap | null> {
+    // Script ids are per isolate, so a worker's id can collide with one from the page
+    const byId = frame.scriptId ? this.scripts.get(frame.scriptId) : undefined;
+    const script = (byId && byId.url === frame.url ? byId : undefined) || this.scriptsByUrl.get(frame.url);
+    if (!script) {
+      return Promise.resolve(null);
+    }
+
+    const mapUrl = resolveUrl(script.sourceMapURL, script.url);
+    let map = this.maps.get(mapUrl);
+    if (!map) {
+      if (this.maps.size >= MAX_CACHED_MAPS) {
+        // Drop the oldest entry; Map iterates in insertion order
+        this.maps.delete(this.maps.keys().next().value as string);
+      }
+      map = this.loadMap(mapUrl, script.url).catch(() => null);
+      this.maps.set(mapUrl, map);
+    }
+    return map;
+  }
+
+  private async loadMap(mapUrl: string, scriptUrl: string): Promise<TraceMap | null> {
+    const text = await this.readMapText(mapUrl);
+    if (!text) {
+      return null;
+    }
+    // Sources resolve against the map's own URL; inline maps use the script's URL
+    return new TraceMap(text, mapUrl.startsWith('data:') ? scriptUrl : mapUrl);
+  }
+
+  private async readMapText(mapUrl: string): Promise<string | null> {
+    if (mapUrl.startsWith('data:')) {
+      return decodeDataUrl(mapUrl);
+    }
+
+    if (mapUrl.startsWith('file:')) {
+      return readFileOrNull(new URL(mapUrl));
+    }
+
+    if (/^https?:/.test(mapUrl)) {
+      try {
+        const response = await fetch(mapUrl, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+        if (response.ok) {
+          return await response.text();
+        }
+      } catch {
+        // Dev server unreachable - try the build output on disk
+      }
+      return this.readFromDisk(new URL(mapUrl).pathname);
+    }
+
+    return null;
+  }
+
+  /**
+   * Look up a URL path or source path under the project directory (and common build folders)
+   */
+  private readFromDisk(sourcePath: string): string | null {
+    const relative = sourcePath.replace(/^[a-z]+:\/\/[^/]*/i, '').replace(/^\/+/, '');
+    if (!relative || relative.includes('..')) {
+      return null;
+    }
+
+    for (const dir of ['', 'dist', 'build', 'public', 'out']) {
+      const candidate = path.join(this.projectRoot, dir, relative);
+      const content = readFileOrNull(candidate);
+      if (content !== null) {
+        return content;
+      }
+    }
+    return null;
+  }
+}
+
+function resolveUrl(url: string, base: string): string {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
+
+function decodeDataUrl(url: string): string | null {
+  const comma = url.indexOf(',');
+  if (comma === -1) {
+    return null;
+  }
+  const meta = url.substring(0, comma);
+  const data = url.substring(comma + 1);
+  return meta.endsWith(';base64')
+    ? Buffer.from(data, 'base64').toString('utf8')
+    : decodeURIComponent(data);
+}
+
+function readFileOrNull(file: fs.PathLike): string | null {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Make bundler source URLs readable: webpack://app/./src/App.tsx -> src/App.tsx,
+ * http://localhost:5173/src/App.tsx -> src/App.tsx
+ */
+function cleanSourcePath(source: string, projectRoot: string): string {
+  if (source.startsWith('file:')) {
+    return path.relative(projectRoot, new URL(source).pathname) || source;
+  }
+  return source
+    .replace(/^webpack:\/\/[^/]*\//, '')
+    .replace(/^[a-z]+:\/\/[^/]*\//i, '')
+    .replace(/^\.\//, '')
+    .replace(/\?.*$/, '');
+}
@@ -5,67 +5,24 @@
  * Tests the Control API server integration with DevEnvironment and MCP tool connectivity
  */
 
-const http = require('http');
 const { spawn } = require('child_process');
 const fs = require('fs');
 const path = require('path');
+const { createControlApiClient, readControlToken } = require('./dist/control-auth');
 
 class ControlAPIIntegrationTester {
   constructor() {
-    this.controlApiHost = 'localhost';
+    this.controlApiHost = '127.0.0.1';
     this.controlApiPort = 8081;
     this.testAppPort = 3000;
     this.testResults = [];
     this.processes = [];
   }
 
-  // Utility to make HTTP requests to Control API
-  async makeApiRequest(endpoint, method = 'GET', data = null) {
-    return new Promise((resolve, reject) => {
-      const options = {
-        hostname: this.controlApiHost,
-        port: this.controlApiPort,
-        path: endpoint,
-        method: method,
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        timeout: 10000
-      };
-
-      const req = http.request(options, (res) => {
-        let body = '';
-        res.on('data', chunk => body += chunk);
-        res.on('end', () => {
-          try {
-            const response = JSON.parse(body);
-            resolve({
-              statusCode: res.statusCode,
-              headers: res.headers,
-              body: response
-            });
-          } catch (e) {
-            resolve({
-              statusCode: res.statusCode,
-              headers: res.headers,
-              body: body
-            });
-          }
-        });
-      });
-
-      req.on('error', reject);
-      req.on('timeout', () => {
-        req.destroy();
-        reject(new Error('Request timeout'));
-      });
-
-      if (data) {
-        req.write(JSON.stringify(data));
-      }
-      req.end();
-    });
+  // Typed Control API client (needs npm run build), with the token the running daisy wrote
+  get api() {
+    const token = process.env.DAISY_TOKEN || readControlToken(this.controlApiPort) || '';
+    return createControlApiClient(this.controlApiPort, token, this.controlApiHost);
   }
 
   // Log test results
@@ -96,10 +53,8 @@ class ControlAPIIntegrationTester {
     const startTime = Date.now();
     while (Date.now() - startTime < timeout) {
       try {
-        const response = await this.makeApiRequest('/health');
-        if (response.statusCode === 200) {
-          return true;
-        }
+        await this.api.getHealth();
+        return true;
       } catch (error) {
         // Service not ready yet
       }
@@ -111,22 +66,22 @@ class ControlAPIIntegrationTester {
   // Test 1: Control API Health Check
   async testHealthCheck() {
     try {
-      const response = await this.makeApiRequest('/health');
+      const response = await this.api.getHealth();
       
-      if (response.statusCode === 200 && response.body.success) {
+      if (response.success) {
         this.logTest(
           'control_api_health',
           true,
-          `Control API is healthy. Connected: ${response.body.connected}`,
-          response.body
+          `Control API is healthy. Connected: ${response.connected}`,
+          response
         );
         return true;
       } else {
         this.logTest(
           'control_api_health',
           false,
-          `Health check failed. Status: ${response.statusCode}`,
-          response.body
+          `Health check failed.`,
+          response
         );
         return false;
       }
@@ -143,13 +98,13 @@ class ControlAPIIntegrationTester {
   // Test 2: Screenshot Functionality
   async testScreenshotCapture() {
     try {
-      const response = await this.makeApiRequest('/screenshot', 'POST', {
+      const response = await this.api.takeScreenshot({
         context: 'integration-test'
       });
 
-      if (response.statusCode === 200 && response.body.success) {
+      if (response.success) {
         // Verify screenshot file exists
-        const screenshotPath = response.body.screenshot;
+        const screenshotPath = response.screenshot;
         if (screenshotPath && fs.existsSync(screenshotPath)) {
           this.logTest(
             'screenshot_capture',
@@ -163,7 +118,7 @@ class ControlAPIIntegrationTester {
             'screenshot_capture',
             false,
             'Screenshot API succeeded but file not found',
-            response.body
+            response
           );
           return false;
         }
@@ -171,8 +126,8 @@ class ControlAPIIntegrationTester {
         this.logTest(
           'screenshot_capture',
           false,
-          `Screenshot capture failed. Status: ${response.statusCode}`,
-          response.body
+          `Screenshot capture failed.`,
+          response
         );
         return false;
       }
@@ -190,26 +145,26 @@ class ControlAPIIntegrationTester {
   async testBrowserNavigation() {
     try {
       const testUrl = `http://localhost:${this.testAppPort}`;
-      const response = await this.makeApiRequest('/navigate', 'POST', {
+      const response = await this.api.navigate({
         url: testUrl,
         waitForLoad: true,
         timeout: 10000
       });
 
-      if (response.statusCode === 200 && response.body.success) {
+      if (response.success) {
         this.logTest(
           'browser_navigation',
           true,
           `Successfully navigated to ${testUrl}`,
-          response.body
+          response
         );
         return true;
       } else {
         this.logTest(
           'browser_navigation',
           false,
-          `Navigation failed. Status: ${response.statusCode}`,
-          response.body
+          `Navigation failed.`,
+          response
         );
         return false;
       }
@@ -227,50 +182,50 @@ class ControlAPIIntegrationTester {
   async testDOMInteraction() {
     try {
       // Test clicking a button
-      const clickResponse = await this.makeApiRequest('/click', 'POST', {
+      const clickResponse = await this.api.click({
         selector: 'button[onclick="testConsoleInfo()"]',
         timeout: 5000
       });
 
-      if (clickResponse.statusCode === 200 && clickResponse.body.success) {
+      if (clickResponse.success) {
         this.logTest(
           'dom_click_interaction',
           true,
           'Successfully clicked button element',
-          clickResponse.body
+          clickResponse
         );
       } else {
         this.logTest(
           'dom_click_interaction',
           false,
-          `Click failed. Status: ${clickResponse.statusCode}`,
-          clickResponse.body
+          `Click failed.`,
+          clickResponse
         );
         return false;
       }
 
       // Test typing in input field
-      const typeResponse = await this.makeApiRequest('/type', 'POST', {
+      const typeResponse = await this.api.type({
         selector: '#customMessage',
         text: 'Control API Integration Test',
         timeout: 5000,
         clear: true
       });
 
-      if (typeResponse.statusCode === 200 && typeResponse.body.success) {
+      if (typeResponse.success) {
         this.logTest(
           'dom_type_interaction',
           true,
           'Successfully typed in input field',
-          typeResponse.body
+          typeResponse
         );
         return true;
       } else {
         this.logTest(
           'dom_type_interaction',
           false,
-          `Type failed. Status: ${typeResponse.statusCode}`,
-          typeResponse.body
+          `Type failed.`,
+          typeResponse
         );
         return false;
       }
@@ -287,25 +242,25 @@ class ControlAPIIntegrationTester {
   // Test 5: DOM Inspection
   async testDOMInspection() {
     try {
-      const response = await this.makeApiRequest('/inspect', 'POST', {
+      const response = await this.api.inspect({
         selector: 'h1',
         properties: ['textContent', 'innerHTML', 'className', 'id']
       });
 
-      if (response.statusCode === 200 && response.body.success) {
+      if (response.success) {
         this.logTest(
           'dom_inspection',
           true,
           'Successfully inspected DOM element',
-          response.body.result
+          response.result
         );
         return true;
       } else {
         this.logTest(
           'dom_inspection',
           false,
-          `DOM inspection failed. Status: ${response.statusCode}`,
-          response.body
+          `DOM inspection failed.`,
+          response
         );
         return false;
       }
@@ -322,25 +277,25 @@ class ControlAPIIntegrationTester {
   // Test 6: CSS Computed Styles
   async testComputedStyles() {
     try {
-      const response = await this.makeApiRequest('/computed-styles', 'POST', {
+      const response = await this.api.getComputedStyles({
         selector: 'button',
         properties: ['color', 'background-color', 'font-size', 'padding']
       });
 
-      if (response.statusCode === 200 && response.body.success) {
+      if (response.success) {
         this.logTest(
           'computed_styles',
           true,
           'Successfully retrieved computed styles',
-          response.body.result
+          response.result
         );
         return true;
       } else {
         this.logTest(
           'computed_styles',
           false,
-          `Computed styles failed. Status: ${response.statusCode}`,
-          response.body
+          `Computed styles failed.`,
+          response
         );
         return false;
       }
@@ -357,26 +312,26 @@ class ControlAPIIntegrationTester {
   // Test 7: JavaScript Execution
   async testJavaScriptExecution() {
     try {
-      const response = await this.makeApiRequest('/execute', 'POST', {
+      const response = await this.api.execute({
         code: 'document.title',
         returnByValue: true,
         timeout: 5000
       });
 
-      if (response.statusCode === 200 && response.body.success) {
+      if (response.success) {
         this.logTest(
           'javascript_execution',
           true,
-          `Successfully executed JavaScript. Result: ${response.body.result}`,
-          response.body.result
+          `Successfully executed JavaScript. Result: ${response.result}`,
+          response.result
         );
         return true;
       } else {
         this.logTest(
           'javascript_execution',
           false,
-          `JavaScript execution failed. Status: ${response.statusCode}`,
-          response.body
+          `JavaScript execution failed.`,
+          response
         );
         return false;
       }
@@ -394,7 +349,7 @@ class ControlAPIIntegrationTester {
   async testNetworkMonitoring() {
     try {
       // First trigger some network activity
-      await this.makeApiRequest('/execute', 'POST', {
+      await this.api.execute({
         code: 'fetch("/api/success").then(() => console.log("Network test complete"))',
         returnByValue: false,
         timeout: 5000
@@ -404,23 +359,23 @@ class ControlAPIIntegrationTester {
       await new Promise(resolve => setTimeout(resolve, 2000));
 
       // Check network requests
-      const response = await this.makeApiRequest('/network-requests');
+      const response = await this.api.getNetworkRequests();
 
-      if (response.statusCode === 200 && response.body.success) {
-        const requestCount = response.body.result.length;
+      if (response.success) {
+        const requestCount = response.result.length;
         this.logTest(
           'network_monitoring',
           true,
           `Successfully retrieved ${requestCount} network requests`,
-          { count: requestCount, recentRequests: response.body.result.slice(0, 3) }
+          { count: requestCount, recentRequests: response.result.slice(0, 3) }
         );
         return true;
       } else {
         this.logTest(
           'network_monitoring',
           false,
-          `Network monitoring failed. Status: ${response.statusCode}`,
-          response.body
+          `Network monitoring failed.`,
+          response
         );
         return false;
       }
@@ -437,22 +392,22 @@ class ControlAPIIntegrationTester {
   // Test 9: Page Info Retrieval
   async testPageInfo() {
     try {
-      const response = await this.makeApiRequest('/page-info');
+      const response = await this.api.getPageInfo();
 
-      if (response.statusCode === 200 && response.body.success) {
+      if (response.success) {
         this.logTest(
           'page_info',
           true,
           'Successfully retrieved page information',
-          response.body.result
+          response.result
         );
         return true;
       } else {
         this.logTest(
           'page_info',
           false,
-          `Page info failed. Status: ${response.statusCode}`,
-          response.body
+          `Page info failed.`,
+          response
         );
         return false;
       }
@@ -470,17 +425,17 @@ class ControlAPIIntegrationTester {
   async testErrorHandling() {
     try {
       // Test invalid selector
-      const response = await this.makeApiRequest('/click', 'POST', {
+      const response = await this.api.click({
         selector: '#non-existent-element',
         timeout: 1000
       });
 
-      if (response.statusCode >= 400 && !response.body.success) {
+      if (!response.success) {
         this.logTest(
           'error_handling',
           true,
           'Error handling works correctly - invalid selector properly rejected',
-          response.body
+          response
         );
         return true;
       } else {
@@ -488,7 +443,7 @@ class ControlAPIIntegrationTester {
           'error_handling',
           false,
           'Error handling failed - invalid selector should have been rejected',
-          response.body
+          response
         );
         return false;
       }
@@ -7,14 +7,14 @@
 
 const fs = require('fs');
 const path = require('path');
-const http = require('http');
+const { createControlApiClient, readControlToken } = require('./dist/control-auth');
 
 class CoreFunctionalityTester {
   constructor() {
     this.testResults = [];
     this.screenshotDir = './screenshots';
     this.logDir = './test-logs';
-    this.controlApiHost = 'localhost';
+    this.controlApiHost = '127.0.0.1';
     this.controlApiPort = 8081;
   }
 
@@ -23,52 +23,10 @@ class CoreFunctionalityTester {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  async makeApiRequest(endpoint, method = 'GET', data = null) {
-    return new Promise((resolve, reject) => {
-      const options = {
-        hostname: this.controlApiHost,
-        port: this.controlApiPort,
-        path: endpoint,
-        method: method,
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        timeout: 15000
-      };
-
-      const req = http.request(options, (res) => {
-        let body = '';
-        res.on('data', chunk => body += chunk);
-        res.on('end', () => {
-          try {
-            const response = JSON.parse(body);
-            resolve({
-              statusCode: res.statusCode,
-              headers: res.headers,
-              body: response
-            });
-          } catch (e) {
-            resolve({
-              statusCode: res.statusCode,
-              headers: res.headers,
-              body: body
-            });
-          }
-        });
-      });
-
-      req.on('error', reject);
-      req.on('timeout', () => {
-        req.destroy();
-        reject(new Error('Request timeout'));
-      });
-
-      if (data) {
-        req.write(JSON.stringify(data));
-      }
-      req.end();
-    });
+  // Typed Control API client (needs npm run build), with the token the running daisy wrote
+  get api() {
+    const token = process.env.DAISY_TOKEN || readControlToken(this.controlApiPort) || '';
+    return createControlApiClient(this.controlApiPort, token, this.controlApiHost);
   }
 
   logTest(testName, success, details = '', data = null) {
@@ -259,10 +217,10 @@ class CoreFunctionalityTester {
       const screenshots = [];
 
       for (const context of contexts) {
-        const response = await this.makeApiRequest('/screenshot', 'POST', { context });
+        const response = await this.api.takeScreenshot({ context });
         
-        if (response.statusCode === 200 && response.body.success) {
-          const screenshotPath = response.body.screenshot;
+        if (response.success) {
+          const screenshotPath = response.screenshot;
           if (fs.existsSync(screenshotPath)) {
             const stats = fs.statSync(screenshotPath);
             screenshots.push({
@@ -310,7 +268,7 @@ class CoreFunctionalityTester {
       console.log('   Generating network activity...');
       
       // Trigger multiple types of network requests
-      await this.makeApiRequest('/execute', 'POST', {
+      await this.api.execute({
         code: `
           // Generate various network requests for monitoring
           Promise.all([
@@ -329,10 +287,10 @@ class CoreFunctionalityTester {
       await this.delay(3000);
 
       // Check captured network requests
-      const networkResponse = await this.makeApiRequest('/network-requests?limit=20');
+      const networkResponse = await this.api.getNetworkRequests({ limit: 20 });
       
-      if (networkResponse.statusCode === 200 && networkResponse.body.success) {
-        const requests = networkResponse.body.result;
+      if (networkResponse.success) {
+        const requests = networkResponse.result;
         const requestTypes = {};
         const statusCodes = {};
 
@@ -517,7 +475,7 @@ class CoreFunctionalityTester {
       const requestPromises = [];
       for (let i = 0; i < 25; i++) {
         requestPromises.push(
-          this.makeApiRequest('/execute', 'POST', {
+          this.api.execute({
             code: `fetch('/api/success?test=${i}').catch(() => {})`,
             returnByValue: false,
             timeout: 5000
@@ -533,10 +491,10 @@ class CoreFunctionalityTester {
       await this.delay(2000); // Wait for all requests to be captured
 
       // Check that ring buffer is working (should limit to max requests)
-      const networkResponse = await this.makeApiRequest('/network-requests?limit=100');
+      const networkResponse = await this.api.getNetworkRequests({ limit: 100 });
       
-      if (networkResponse.statusCode === 200 && networkResponse.body.success) {
-        const requests = networkResponse.body.result;
+      if (networkResponse.success) {
+        const requests = networkResponse.result;
         
         // Ring buffer should have captured requests but not exceed max limit
         const maxExpected = 50; // Assuming ring buffer max is around 50-100
@@ -576,7 +534,7 @@ class CoreFunctionalityTester {
   async testScreenshotErrorCapture() {
     try {
       // Generate JavaScript error and verify screenshot capture
-      await this.makeApiRequest('/execute', 'POST', {
+      await this.api.execute({
         code: 'throw new Error("Test error for screenshot capture");',
         returnByValue: false,
         timeout: 5000
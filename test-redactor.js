@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+
+/**
+ * Redactor Test
+ * Verifies which keys the redactor masks: sensitive keys are, ordinary keys that merely
+ * contain a sensitive word (className, totalTokens) are not
+ */
+
+const { Redactor, REDACTED } = require('./dist/redactor');
+
+class RedactorTester {
+  constructor() {
+    this.testResults = [];
+    this.redactor = new Redactor();
+  }
+
+  logTest(testName, success, details = '', data = null) {
+    const result = {
+      test: testName,
+      success,
+      details,
+      data,
+      timestamp: new Date().toISOString()
+    };
+
+    this.testResults.push(result);
+
+    if (success) {
+      console.log(`✅ ${testName}: ${details}`);
+    } else {
+      console.log(`❌ ${testName}: ${details}`);
+    }
+
+    if (data && typeof data === 'object') {
+      console.log(`   Data:`, JSON.stringify(data, null, 2));
+    }
+  }
+
+  // Redact {key: 'value'} and report whether the value was masked
+  isMasked(key) {
+    const redactions = [];
+    const redacted = this.redactor.redact({ [key]: 'value' }, 'data', redactions);
+    return { masked: redacted[key] === REDACTED, redactions };
+  }
+
+  testSensitiveKeys() {
+    const keys = [
+      'password', 'userPassword', 'password_confirmation', 'accessToken', 'refresh-token', 'csrftoken',
+      'apiKey', 'API_KEY', 'x-api-key', 'sessionId', 'SSN', 'userSSN', 'creditCardNumber', 'cvv', 'clientSecret'
+    ];
+    const unmasked = keys.filter(key => !this.isMasked(key).masked);
+    this.logTest(
+      'sensitive_keys',
+      unmasked.length === 0,
+      unmasked.length === 0 ? `All ${keys.length} sensitive keys masked` : `Not masked: ${unmasked.join(', ')}`
+    );
+    return unmasked.length === 0;
+  }
+
+  testOrdinaryKeys() {
+    const keys = [
+      'className', 'businessName', 'addressNumber', 'totalTokens', 'classList', 'lessons',
+      'description', 'cardTitle', 'id', 'tagName'
+    ];
+    const masked = keys
+      .map(key => ({ key, ...this.isMasked(key) }))
+      .filter(result => result.masked || result.redactions.length > 0);
+    this.logTest(
+      'ordinary_keys',
+      masked.length === 0,
+      masked.length === 0 ? `None of ${keys.length} ordinary keys masked` : `Masked: ${masked.map(result => result.key).join(', ')}`,
+      masked.length > 0 ? masked : null
+    );
+    return masked.length === 0;
+  }
+
+  testInteractionElement() {
+    // Element details the interaction tracker sends with every click
+    const redactions = [];
+    const element = { tagName: 'BUTTON', id: 'save', className: 'btn btn-primary', text: 'Save' };
+    const redacted = this.redactor.redact({ element }, 'data', redactions);
+    const success = JSON.stringify(redacted.element) === JSON.stringify(element) && redactions.length === 0;
+    this.logTest(
+      'interaction_element',
+      success,
+      success ? 'Element details left as they were' : 'Element details were redacted',
+      success ? null : { redacted, redactions }
+    );
+    return success;
+  }
+
+  testQueryAndJson() {
+    const redactions = [];
+    const url = this.redactor.redact('/api?className=a&access_token=abc', 'data.url', redactions);
+    const body = this.redactor.redact('{"businessName":"Acme","password":"hunter2"}', 'data.postData', redactions);
+    const success = url === `/api?className=a&access_token=${encodeURIComponent(REDACTED)}` &&
+      JSON.parse(body).businessName === 'Acme' && JSON.parse(body).password === REDACTED &&
+      redactions.length === 2;
+    this.logTest(
+      'query_and_json',
+      success,
+      success ? 'Only access_token and password masked' : 'Unexpected redaction',
+      success ? null : { url, body, redactions }
+    );
+    return success;
+  }
+
+  runAllTests() {
+    console.log('🔒 Starting Redactor Test Suite');
+    console.log('='.repeat(75));
+
+    const tests = [
+      { name: 'Sensitive Keys', test: () => this.testSensitiveKeys() },
+      { name: 'Ordinary Keys', test: () => this.testOrdinaryKeys() },
+      { name: 'Interaction Element', test: () => this.testInteractionElement() },
+      { name: 'Query And JSON', test: () => this.testQueryAndJson() }
+    ];
+
+    let passedTests = 0;
+    for (const { name, test } of tests) {
+      console.log(`\n🧪 Running ${name} Test...`);
+      try {
+        if (test()) passedTests++;
+      } catch (error) {
+        console.log(`❌ ${name} Test failed with exception: ${error.message}`);
+      }
+    }
+
+    console.log('\n' + '='.repeat(75));
+    console.log(`📊 ${passedTests}/${tests.length} redactor tests passed`);
+    return passedTests === tests.length;
+  }
+}
+
+// Run redactor tests (needs npm run build)
+if (require.main === module) {
+  const tester = new RedactorTester();
+  process.exit(tester.runAllTests() ? 0 : 1);
+}
+
+module.exports = RedactorTester;
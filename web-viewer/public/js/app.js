@@ -9,7 +9,7 @@ class DaisyViewer {
         this.currentOffset = 0;
         this.filters = {
             search: '',
-            types: ['console', 'network', 'error', 'performance', 'page', 'security', 'runtime'],
+            types: ['console', 'network', 'error', 'performance', 'page', 'security', 'runtime', 'server', 'browser'],
             levels: ['info', 'warn', 'error', 'debug']
         };
         
@@ -19,6 +19,7 @@ class DaisyViewer {
     async init() {
         this.setupEventListeners();
         this.connectSSE();
+        await this.loadSessions();
         await this.loadLogs();
         await this.loadStats();
     }
@@ -57,6 +58,13 @@ class DaisyViewer {
             this.toggleAutoScroll();
         });
 
+        // Session picker
+        document.getElementById('session-select').addEventListener('change', (e) => {
+            if (e.target.value) {
+                this.openSession(e.target.value);
+            }
+        });
+
         // Limit select
         document.getElementById('limit-select').addEventListener('change', () => {
             this.loadLogs(true);
@@ -152,6 +160,12 @@ class DaisyViewer {
                 this.loadLogs(true);
                 this.updateStats(data.stats);
                 break;
+            case 'session_changed':
+                console.log(`Switched to session ${data.sessionId}`);
+                document.getElementById('session-select').value = data.sessionId;
+                this.loadLogs(true);
+                this.updateStats(data.stats);
+                break;
         }
     }
 
@@ -224,6 +238,54 @@ class DaisyViewer {
         }
     }
 
+    async loadSessions() {
+        try {
+            const response = await fetch('/api/sessions');
+
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            const data = await response.json();
+            const select = document.getElementById('session-select');
+
+            if (data.sessions.length === 0) {
+                return;
+            }
+
+            select.innerHTML = data.sessions.map(session => {
+                const started = new Date(session.startTime).toLocaleString();
+                const label = `${started} · ${session.script} (${session.exitStatus})`;
+                return `<option value="${this.escapeHtml(session.id)}">${this.escapeHtml(label)}</option>`;
+            }).join('');
+
+            if (data.activeSessionId) {
+                select.value = data.activeSessionId;
+            }
+        } catch (error) {
+            console.error('Error loading sessions:', error);
+        }
+    }
+
+    async openSession(sessionId) {
+        try {
+            const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/open`, {
+                method: 'POST'
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            this.closeDetailPanel();
+            await this.loadLogs(true);
+            await this.loadStats();
+        } catch (error) {
+            console.error('Error opening session:', error);
+            this.showError('Failed to open session: ' + error.message);
+        }
+    }
+
     async loadMore() {
         await this.loadLogs(false);
     }
@@ -316,6 +378,8 @@ class DaisyViewer {
     createLogEntryElement(log) {
         const screenshotIndicator = log.hasScreenshot ? 
             '<span class="screenshot-indicator">📷 Screenshot</span>' : '';
+        const clipIndicator = log.clip ?
+            '<span class="clip-indicator">🎞️ Clip</span>' : '';
 
         return `
             <div class="log-entry" data-log-id="${log.id}">
@@ -325,6 +389,7 @@ class DaisyViewer {
                         <span class="type-badge type-${log.type}">${log.type}</span>
                         <span class="level-badge level-${log.level}">${log.level}</span>
                         ${screenshotIndicator}
+                        ${clipIndicator}
                     </div>
                 </div>
                 <div class="log-summary">${this.escapeHtml(log.summary)}</div>
@@ -367,6 +432,13 @@ class DaisyViewer {
                 <div class="json-display">${this.formatJson(log.data)}</div>
             </div>
             
+            ${log.type === 'server' && log.data?.lines ? `
+            <div class="detail-section">
+                <h4>Server Output</h4>
+                <pre class="json-display">${this.escapeHtml(log.data.lines.join('\n'))}</pre>
+            </div>
+            ` : ''}
+            
             ${log.context ? `
             <div class="detail-section">
                 <h4>Context</h4>
@@ -374,6 +446,8 @@ class DaisyViewer {
             </div>
             ` : ''}
             
+            ${log.clip ? this.createClipSection(log.clip) : ''}
+
             ${log.hasScreenshot ? this.createScreenshotSection(log) : ''}
         `;
         
@@ -382,12 +456,16 @@ class DaisyViewer {
     }
 
     createScreenshotSection(log) {
-        const screenshotPath = this.guessScreenshotPath(log);
+        const screenshotPath = log.screenshot ? encodeURIComponent(log.screenshot) : this.guessScreenshotPath(log);
+        // Screenshots named by the entry have a small thumbnail; the modal shows the full image
+        const previewSrc = log.screenshot
+            ? `/screenshots/thumbnails/${screenshotPath.replace(/\.(png|jpe?g|webp)$/i, '.png')}`
+            : `/screenshots/${screenshotPath}`;
         return `
             <div class="detail-section">
                 <h4>Screenshot</h4>
                 <img 
-                    src="/screenshots/${screenshotPath}" 
+                    src="${previewSrc}" 
                     alt="Screenshot for ${log.timestamp}"
                     class="screenshot-preview"
                     onclick="viewer.showScreenshotModal('/screenshots/${screenshotPath}')"
@@ -397,6 +475,25 @@ class DaisyViewer {
         `;
     }
 
+    createClipSection(clip) {
+        const id = encodeURIComponent(clip.id);
+        const seconds = Math.round((new Date(clip.to) - new Date(clip.from)) / 1000);
+        // The GIF is encoded after the error is logged; until then show the last frame
+        const lastFrame = `/clips/${id}/frame-${String(clip.frames - 1).padStart(3, '0')}.png`;
+        return `
+            <div class="detail-section">
+                <h4>Clip (${seconds}s before the error)</h4>
+                <img 
+                    src="/clips/${id}/clip.gif" 
+                    alt="Screen recording before ${clip.to}"
+                    class="screenshot-preview"
+                    onclick="viewer.showScreenshotModal(this.src)"
+                    onerror="this.onerror=null; this.src='${lastFrame}'; this.insertAdjacentHTML('afterend', '<p>Clip still encoding, showing the last frame. Reopen the entry in a few seconds.</p>')"
+                />
+            </div>
+        `;
+    }
+
     guessScreenshotPath(log) {
         // Try to construct screenshot filename from timestamp
         const timestamp = log.timestamp.replace(/[:.]/g, '-').substring(0, 19);
@@ -437,7 +534,7 @@ class DaisyViewer {
         // Update filters
         this.filters = {
             search: '',
-            types: ['console', 'network', 'error', 'performance', 'page', 'security', 'runtime'],
+            types: ['console', 'network', 'error', 'performance', 'page', 'security', 'runtime', 'server', 'browser'],
             levels: ['info', 'warn', 'error', 'debug']
         };
         
@@ -3,8 +3,13 @@
 const express = require('express');
 const fs = require('fs');
 const path = require('path');
+const os = require('os');
 const chokidar = require('chokidar');
 const { program } = require('commander');
+const { decodeLogContent, listSessions, parseSessionIndex } = require('daisy-shared');
+
+/** @typedef {import('daisy-shared').LogEntry} LogEntry */
+/** @typedef {LogEntry & { id: string, displayTime: string, hasScreenshot: boolean, summary: string }} ViewerLogEntry */
 
 // CLI configuration
 program
@@ -13,6 +18,7 @@ program
   .version('1.0.0')
   .option('-f, --log-file <path>', 'Path to daisy log file', './debug.log')
   .option('-s, --screenshots-dir <path>', 'Directory containing screenshots', './screenshots')
+  .option('--sessions-index <path>', 'Path to the daisy sessions.json index', path.join(os.homedir(), '.daisy', 'logs', 'sessions.json'))
   .option('-p, --port <number>', 'Port to run server on', '5000')
   .option('--host <host>', 'Host to bind server to', '0.0.0.0')
   .parse();
@@ -22,10 +28,15 @@ const options = program.opts();
 const app = express();
 const PORT = parseInt(options.port);
 const HOST = options.host;
-const LOG_FILE = path.resolve(options.logFile);
-const SCREENSHOTS_DIR = path.resolve(options.screenshotsDir);
+const SESSIONS_INDEX = path.resolve(options.sessionsIndex);
+// Log file and screenshots directory change when a past session is opened
+let LOG_FILE = path.resolve(options.logFile);
+let SCREENSHOTS_DIR = path.resolve(options.screenshotsDir);
+let activeSessionId = null;
+let logWatcher = null;
 
 // Store for parsed logs and real-time connections
+/** @type {ViewerLogEntry[]} */
 let logs = [];
 let stats = {
   total: 0,
@@ -36,6 +47,8 @@ let stats = {
   page: 0,
   security: 0,
   runtime: 0,
+  server: 0,
+  browser: 0,
   levels: { info: 0, warn: 0, error: 0, debug: 0 }
 };
 let sseClients = [];
@@ -62,7 +75,7 @@ app.use((req, res, next) => {
   next();
 });
 
-// Log Parser - handles daisy's markdown header + JSON format
+// Log Parser - reads daisy's NDJSON logs (and legacy pretty-printed ones) via daisy-shared
 class DaisyLogParser {
   constructor() {
     this.sessionMetadata = null;
@@ -85,86 +98,20 @@ class DaisyLogParser {
   }
 
   parseContent(content) {
-    const parsedLogs = [];
-    
-    // Split content by lines and look for complete JSON objects
-    const lines = content.split('\n');
-    let currentJsonBuffer = '';
-    let inJsonObject = false;
-    let braceCount = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      // Skip empty lines, markdown headers, and separators
-      if (!line || line === '---' || line.startsWith('# Daisy') || line.startsWith('"daisy_session_start"')) {
-        continue;
-      }
-
-      // Detect start of JSON object
-      if (line.startsWith('{') && !inJsonObject) {
-        inJsonObject = true;
-        currentJsonBuffer = line;
-        braceCount = this.countBraces(line);
-        
-        // Check if it's a complete single-line JSON
-        if (braceCount === 0) {
-          this.tryParseAndAdd(currentJsonBuffer, parsedLogs);
-          currentJsonBuffer = '';
-          inJsonObject = false;
-        }
-      } else if (inJsonObject) {
-        // Continue building multi-line JSON
-        currentJsonBuffer += '\n' + line;
-        braceCount += this.countBraces(line);
-        
-        // Check if JSON object is complete
-        if (braceCount <= 0) {
-          this.tryParseAndAdd(currentJsonBuffer, parsedLogs);
-          currentJsonBuffer = '';
-          inJsonObject = false;
-          braceCount = 0;
-        }
-      }
-    }
-    
-    // Handle any remaining JSON buffer
-    if (currentJsonBuffer && inJsonObject) {
-      this.tryParseAndAdd(currentJsonBuffer, parsedLogs);
-    }
+    // Shared reader handles both NDJSON and legacy pretty-printed logs
+    const { records } = decodeLogContent(content);
+    const parsedLogs = records
+      .filter(record => record.kind === 'entry')
+      .map(record => this.enrichLogEntry(record.entry));
 
     console.log(`Parsed ${parsedLogs.length} valid log entries`);
     return parsedLogs;
   }
 
-  countBraces(line) {
-    const openBraces = (line.match(/\{/g) || []).length;
-    const closeBraces = (line.match(/\}/g) || []).length;
-    return openBraces - closeBraces;
-  }
-
-  tryParseAndAdd(jsonBuffer, parsedLogs) {
-    try {
-      const logEntry = JSON.parse(jsonBuffer);
-      
-      // Only add valid log entries (must have timestamp, type, level, source)
-      if (this.isValidLogEntry(logEntry)) {
-        parsedLogs.push(this.enrichLogEntry(logEntry));
-      }
-    } catch (e) {
-      // Silently ignore parsing errors for non-log JSON objects
-    }
-  }
-
-  isValidLogEntry(entry) {
-    return entry && 
-           typeof entry === 'object' &&
-           entry.timestamp &&
-           entry.type &&
-           entry.level &&
-           entry.source;
-  }
-
+  /**
+   * @param {LogEntry} entry
+   * @returns {ViewerLogEntry}
+   */
   enrichLogEntry(entry) {
     // Add computed fields for easier frontend handling
     const enriched = {
@@ -200,8 +147,11 @@ class DaisyLogParser {
   }
 
   checkForScreenshot(entry) {
-    // Check if there's a corresponding screenshot for error entries
-    if (entry.level === 'error' && entry.timestamp) {
+    if (entry.screenshot) {
+      return true;
+    }
+    // Entries from older logs don't name their screenshot; look for one taken at the same time
+    if (entry.level === 'error' && entry.timestamp && fs.existsSync(SCREENSHOTS_DIR)) {
       const screenshotPattern = entry.timestamp.replace(/[:.]/g, '-');
       return fs.readdirSync(SCREENSHOTS_DIR).some(file => 
         file.includes(screenshotPattern.substring(0, 16))
@@ -210,21 +160,32 @@ class DaisyLogParser {
     return false;
   }
 
+  /**
+   * @param {LogEntry} entry
+   * @returns {string}
+   */
   generateSummary(entry) {
     switch (entry.type) {
       case 'console':
-        return entry.data?.message || 'Console message';
-      case 'network':
-        const method = entry.data?.method || 'UNKNOWN';
-        const url = entry.data?.url || 'unknown URL';
-        const status = entry.data?.status || entry.context?.statusCode || '?';
+        return entry.data.message || 'Console message';
+      case 'network': {
+        const method = entry.data.method || 'UNKNOWN';
+        const url = entry.data.url || 'unknown URL';
+        const status = entry.data.status || entry.context?.statusCode || '?';
         return `${method} ${url} (${status})`;
+      }
       case 'error':
-        return entry.data?.message || entry.data?.name || 'Runtime error';
+        return entry.data.message || entry.data.name || 'Runtime error';
       case 'performance':
-        return `${entry.data?.metric || 'Performance'}: ${entry.data?.details || ''}`;
+        return `${entry.data.metric || 'Performance'}: ${entry.data.details?.title || ''}`;
       case 'page':
-        return `Page ${entry.data?.event || 'event'}: ${entry.data?.details || ''}`;
+        return `Page ${entry.data.event || 'event'}: ${entry.data.url || entry.context?.url || ''}`;
+      case 'interaction':
+        return `User ${entry.data.action} on ${entry.data.target}`;
+      case 'server':
+        return `[server ${entry.data.stream || 'output'}] ${entry.data.message || ''}`;
+      case 'browser':
+        return `Browser ${entry.data.event}${entry.data.reason ? `: ${entry.data.reason}` : ''}`;
       default:
         return `${entry.type} event`;
     }
@@ -243,6 +204,8 @@ function updateStats(logs) {
   stats.page = logs.filter(l => l.type === 'page').length;
   stats.security = logs.filter(l => l.type === 'security').length;
   stats.runtime = logs.filter(l => l.type === 'runtime').length;
+  stats.server = logs.filter(l => l.type === 'server').length;
+  stats.browser = logs.filter(l => l.type === 'browser').length;
   
   stats.levels = {
     info: logs.filter(l => l.level === 'info').length,
@@ -252,6 +215,29 @@ function updateStats(logs) {
   };
 }
 
+// Read the daisy session index (newest first)
+function readSessions() {
+  try {
+    if (!fs.existsSync(SESSIONS_INDEX)) {
+      return [];
+    }
+    // Sessions whose daisy process died without cleanup are reported as interrupted
+    return listSessions(parseSessionIndex(fs.readFileSync(SESSIONS_INDEX, 'utf8')), isProcessAlive);
+  } catch (error) {
+    console.error('Error reading session index:', error);
+    return [];
+  }
+}
+
+function isProcessAlive(pid) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return error.code === 'EPERM';
+  }
+}
+
 // Load initial logs
 function loadLogs() {
   console.log(`Loading logs from: ${LOG_FILE}`);
@@ -268,6 +254,8 @@ app.get('/health', (req, res) => {
     status: 'ok', 
     logFile: LOG_FILE,
     screenshotsDir: SCREENSHOTS_DIR,
+    sessionsIndex: SESSIONS_INDEX,
+    activeSessionId,
     logsLoaded: logs.length,
     fileExists: fs.existsSync(LOG_FILE)
   });
@@ -282,7 +270,7 @@ app.get('/api/logs', (req, res) => {
     limit = '100', 
     offset = '0',
     since 
-  } = req.query;
+  } = /** @type {Record<string, string | undefined>} */ (req.query);
 
   let filteredLogs = [...logs];
 
@@ -309,7 +297,7 @@ app.get('/api/logs', (req, res) => {
   }
 
   // Sort by timestamp (newest first)
-  filteredLogs.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp));
+  filteredLogs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
   // Apply pagination
   const limitNum = parseInt(limit);
@@ -329,6 +317,39 @@ app.get('/api/stats', (req, res) => {
   res.json(stats);
 });
 
+// List recorded sessions
+app.get('/api/sessions', (req, res) => {
+  const sessions = readSessions().map(session => ({
+    ...session,
+    active: session.logFile === LOG_FILE
+  }));
+  res.json({ sessions, activeSessionId, sessionsIndex: SESSIONS_INDEX });
+});
+
+// Open a past session (or return to the current one)
+app.post('/api/sessions/:id/open', (req, res) => {
+  const session = readSessions().find(s => s.id === req.params.id);
+  if (!session) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  LOG_FILE = session.logFile;
+  SCREENSHOTS_DIR = session.screenshotsDir;
+  activeSessionId = session.id;
+
+  loadLogs();
+  setupFileWatcher();
+
+  broadcastToClients({
+    type: 'session_changed',
+    sessionId: session.id,
+    total: logs.length,
+    stats: stats
+  });
+
+  res.json({ success: true, session, logsLoaded: logs.length });
+});
+
 // Server-Sent Events for real-time updates
 app.get('/events', (req, res) => {
   res.writeHead(200, {
@@ -376,6 +397,41 @@ app.get('/screenshots/:filename', (req, res) => {
   res.sendFile(screenshotPath);
 });
 
+// Thumbnails of screenshots (always PNG), for previews
+app.get('/screenshots/thumbnails/:filename', (req, res) => {
+  const filename = req.params.filename;
+
+  if (!/^[\w-]+\.png$/.test(filename)) {
+    return res.status(400).json({ error: 'Invalid filename' });
+  }
+
+  const thumbnailPath = path.join(SCREENSHOTS_DIR, 'thumbnails', filename);
+
+  if (!fs.existsSync(thumbnailPath)) {
+    return res.status(404).json({ error: 'Thumbnail not found' });
+  }
+
+  res.sendFile(thumbnailPath);
+});
+
+// Error clips (--record-video): clips/<id>/clip.gif and its frames
+app.get('/clips/:id/:filename', (req, res) => {
+  const { id, filename } = req.params;
+
+  if (!/^clip-[\w-]+$/.test(id) || !/^(clip\.gif|frame-\d+\.png)$/.test(filename)) {
+    return res.status(400).json({ error: 'Invalid clip path' });
+  }
+
+  const clipPath = path.join(SCREENSHOTS_DIR, 'clips', id, filename);
+
+  if (!fs.existsSync(clipPath)) {
+    // The GIF appears once it has been encoded, a few seconds after the error
+    return res.status(404).json({ error: 'Clip not found' });
+  }
+
+  res.sendFile(clipPath);
+});
+
 // Broadcast to all SSE clients
 function broadcastToClients(data) {
   const message = `data: ${JSON.stringify(data)}\n\n`;
@@ -390,6 +446,12 @@ function broadcastToClients(data) {
 
 // File watcher for real-time updates
 function setupFileWatcher() {
+  // Replace any watcher left over from a previously opened session
+  if (logWatcher) {
+    logWatcher.close();
+    logWatcher = null;
+  }
+
   if (!fs.existsSync(LOG_FILE)) {
     console.warn(`Log file does not exist yet: ${LOG_FILE}`);
     console.log('Will start watching once file is created...');
@@ -398,7 +460,7 @@ function setupFileWatcher() {
   let debounceTimer = null;
   let lastFileSize = 0;
 
-  const watcher = chokidar.watch(LOG_FILE, {
+  const watcher = logWatcher = chokidar.watch(LOG_FILE, {
     persistent: true,
     usePolling: false,
     ignoreInitial: true
@@ -457,6 +519,10 @@ app.get('/', (req, res) => {
 
 // Initialize and start server
 function startServer() {
+  // Match the log file against the session index so the UI can highlight it
+  const currentSession = readSessions().find(session => session.logFile === LOG_FILE);
+  activeSessionId = currentSession ? currentSession.id : null;
+
   // Load initial logs
   loadLogs();
   